@@ -1,32 +1,22 @@
 
-import React, { useState } from 'react';
-import { StudentAlert } from '../types';
+import React, { useState, useMemo } from 'react';
+import { useSchoolData } from '../contexts/SchoolDataContext';
+import { useSettings } from '../contexts/SettingsContext';
+import { getAttendanceAlerts } from '../lib/attendance';
 
 export const AlertList: React.FC = () => {
   const [activeTab, setActiveTab] = useState<'faltas' | 'atrasos'>('faltas');
 
-  const alerts: StudentAlert[] = [
-    { 
-      id: '1', 
-      name: 'João Silva', 
-      grade: '3ª Classe', 
-      count: 4, 
-      avatar: 'https://picsum.photos/seed/joao/100/100' 
-    },
-    { 
-      id: '2', 
-      name: 'Maria Souza', 
-      grade: '5ª Classe', 
-      count: 3, 
-      avatar: 'https://picsum.photos/seed/maria/100/100' 
-    },
-    { 
-      id: '3', 
-      name: 'Pedro Ferreira', 
-      grade: '1ª Classe', 
-      count: 5 
-    },
-  ];
+  const { students, attendance } = useSchoolData();
+  const { settings } = useSettings();
+  const thresholds = settings.academic.attendanceAlerts;
+
+  // Recomputed whenever a register is saved, so the panel reflects the latest marks
+  const { absences, lates } = useMemo(
+    () => getAttendanceAlerts(students, attendance, thresholds),
+    [students, attendance, thresholds]
+  );
+  const alerts = activeTab === 'faltas' ? absences : lates;
 
   return (
     <div className="bg-surface-light dark:bg-surface-dark rounded-xl border border-[#e7ebf3] dark:border-gray-700 shadow-sm flex flex-col overflow-hidden h-full min-h-[400px]">
@@ -35,6 +25,7 @@ export const AlertList: React.FC = () => {
           <span className="material-symbols-outlined text-warning filled">error</span>
           <h3 className="text-lg font-bold text-[#0d121b] dark:text-white">Atenção Necessária</h3>
         </div>
+        <span className="text-xs text-neutral-gray">Últimos {thresholds.windowDays} dias</span>
       </div>
 
       <div className="flex flex-col h-full">
@@ -48,7 +39,7 @@ export const AlertList: React.FC = () => {
                 : 'text-neutral-gray hover:text-gray-700'
             }`}
           >
-            Faltas (3+)
+            Faltas ({thresholds.absences}+)
           </button>
           <button 
             onClick={() => setActiveTab('atrasos')}
@@ -58,7 +49,7 @@ export const AlertList: React.FC = () => {
                 : 'text-neutral-gray hover:text-gray-700'
             }`}
           >
-            Atrasos (>30d)
+            Atrasos ({thresholds.lates}+)
           </button>
         </div>
 
@@ -96,6 +87,12 @@ export const AlertList: React.FC = () => {
               </div>
             </li>
           ))}
+          {alerts.length === 0 && (
+            <li className="py-10 text-center text-sm text-neutral-gray">
+              <span className="material-symbols-outlined text-3xl text-success block mb-1">task_alt</span>
+              Nenhum aluno atingiu o limite de {activeTab === 'faltas' ? 'faltas' : 'atrasos'}.
+            </li>
+          )}
         </ul>
         
         <div className="p-4 border-t border-[#e7ebf3] dark:border-gray-800">
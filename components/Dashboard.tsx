@@ -34,6 +34,7 @@ export const Dashboard: React.FC = () => {
     {
       label: 'Inadimplência',
       value: `${kpis.delinquencyRate}%`,
+      subValue: `${formatCurrency(kpis.amountOwed)} em dívida`,
       trend: -0.5,
       trendLabel: '-0.5%',
       trendDirection: 'down', // Down is good for bad things
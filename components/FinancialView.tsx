@@ -18,19 +18,37 @@ import {
 import { ptBR } from 'date-fns/locale';
 import { Transaction } from '../types';
 import { TransactionForm, TransactionFormValues } from './finance/TransactionForm';
+import { ReconciliationPanel } from './finance/ReconciliationPanel';
+import { ReceiptRegisterPanel } from './finance/ReceiptRegisterPanel';
 import { formatCurrency } from '../lib/utils';
 import { useSchoolData } from '../contexts/SchoolDataContext';
-import { generateDualReceiptPDF } from '../lib/pdf-service';
+import { useSettings } from '../contexts/SettingsContext';
+import { TransactionGrouping, generateDualReceiptPDF, generateFinancialReportPDF } from '../lib/pdf-service';
+import { getChargeBalance, isChargeOverdue } from '../lib/billing';
+import { getPaymentFee, getPaymentMethod, getPaymentMethodLabel, summarizeByMethod } from '../lib/payments';
+import { getTodayKey } from '../lib/attendance';
+import { ReceiptIssueError, getActiveReceipt, getReceiptDetails, isReceiptCurrent } from '../lib/receipts';
+import { InvalidRecordError } from '../lib/repository';
+import { PdfExportMenu } from './PdfExportMenu';
 
 interface DateRange {
   from: Date;
   to: Date;
 }
 
+const TRANSACTION_GROUPINGS: { value: TransactionGrouping; label: string }[] = [
+  { value: 'none', label: 'Sem agrupamento' },
+  { value: 'category', label: 'Por categoria' },
+  { value: 'method', label: 'Por forma de pagamento' },
+];
+
 export const FinancialView: React.FC = () => {
-  const { transactions, addTransaction } = useSchoolData();
+  const { students, transactions, charges, receipts, addTransaction, updateTransaction, cancelTransaction, generateCharges, issueReceipt, voidReceipt } = useSchoolData();
+  const { settings } = useSettings();
   
   const [isSheetOpen, setIsSheetOpen] = useState(false);
+  const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
+  const [cancellingTransaction, setCancellingTransaction] = useState<Transaction | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [toastMessage, setToastMessage] = useState<string | null>(null);
 
@@ -88,6 +106,11 @@ export const FinancialView: React.FC = () => {
     return { revenue, expenses, net: revenue - expenses, pending };
   }, [filteredTransactions]);
 
+  const methodBreakdown = useMemo(
+    () => summarizeByMethod(filteredTransactions, settings.financial.paymentMethods),
+    [filteredTransactions, settings.financial.paymentMethods]
+  );
+
   // --- Actions ---
 
   const handlePresetSelect = (preset: 'today' | 'week' | 'month' | 'year' | 'last7' | 'last30') => {
@@ -120,14 +143,18 @@ export const FinancialView: React.FC = () => {
   };
 
   const handleExportCSV = () => {
-    const headers = ["ID", "Data", "Descrição", "Categoria", "Tipo", "Valor", "Status"];
+    const headers = ["ID", "Nº Recibo", "Data", "Descrição", "Categoria", "Tipo", "Forma de Pagamento", "Referência", "Valor", "Taxa", "Status"];
     const rows = filteredTransactions.map(tx => [
       tx.id,
+      tx.receiptNumber || '',
       tx.date,
       `"${tx.description}"`, // Escape commas
       tx.category,
       tx.type === 'income' ? 'Entrada' : 'Saída',
+      getPaymentMethodLabel(tx.method, settings.financial.paymentMethods),
+      `"${tx.reference || ''}"`,
       tx.amount.toFixed(2),
+      (tx.fee ?? 0).toFixed(2),
       tx.status
     ]);
 
@@ -146,7 +173,18 @@ export const FinancialView: React.FC = () => {
     setIsDatePickerOpen(false); // Close if open
   };
 
-  const handleNewTransaction = (data: TransactionFormValues) => {
+  // Same rows as the table: the selected period and the search term
+  const handleExportPDF = (groupBy: TransactionGrouping) => {
+    const periodLabel = `${format(dateRange.from, 'dd-MM-yyyy')} a ${format(dateRange.to, 'dd-MM-yyyy')}`;
+    generateFinancialReportPDF(filteredTransactions, periodLabel, settings.profile, {
+      groupBy,
+      filters: searchTerm ? `Pesquisa "${searchTerm}"` : undefined,
+      methods: settings.financial.paymentMethods,
+    });
+    showToast("Relatório PDF gerado com sucesso!");
+  };
+
+  const handleNewTransaction = async (data: TransactionFormValues) => {
     const newTx: Transaction = {
       id: Math.random().toString(36).substr(2, 9),
       date: data.date,
@@ -154,25 +192,158 @@ export const FinancialView: React.FC = () => {
       amount: Number(data.amount),
       type: data.type,
       category: data.category,
-      method: data.paymentMethod as any, // FIXED: Use data from form instead of hardcoded 'Cash'
+      method: data.paymentMethod,
+      reference: data.reference?.trim() || undefined,
+      fee: getPaymentFee(getPaymentMethod(data.paymentMethod, settings.financial.paymentMethods), Number(data.amount)),
       status: 'completed',
       attachment: data.attachmentBase64, // Use base64 string
+      payerName: data.payerName,
       studentId: data.studentId,
-      paidMonths: data.selectedMonths
+      paidMonths: data.selectedMonths,
+      chargeIds: data.selectedCharges,
+      allocations: data.selectedAllocations
     };
 
-    addTransaction(newTx);
-    setIsSheetOpen(false);
+    let saved: Transaction;
+    try {
+        saved = await addTransaction(newTx);
+    } catch (error) {
+        return reportInvalid(error);
+    }
+    closeSheet();
     
-    // Generate the Receipt automatically if it's an Income
-    if (newTx.type === 'income') {
-        generateDualReceiptPDF(newTx);
-        showToast("Transação salva e Recibo gerado com sucesso!");
+    // Income gets the next receipt number of the register and its receipt is printed right away
+    if (saved.type === 'income') {
+        const receipt = await tryIssueReceipt(saved, 'Transação salva.');
+        if (!receipt) return;
+        const receipted = { ...saved, receiptNumber: receipt.number };
+        generateDualReceiptPDF(receipted, receiptDetails(receipted), settings.profile, receipt);
+        showToast(`Transação salva e Recibo nº ${receipt.number} gerado com sucesso!`);
     } else {
         showToast("Saída registrada com sucesso!");
     }
   };
 
+  // Where PCs share the register the number is taken on the server; without it the entry stays without receipt,
+  // `done` telling what was saved anyway
+  const tryIssueReceipt = async (tx: Transaction, done = '') => {
+    try {
+        return await issueReceipt(tx);
+    } catch (error) {
+        console.error(`Failed to issue the receipt of transaction ${tx.id}`, error);
+        const reason = error instanceof ReceiptIssueError ? error.message : 'Recibo não emitido: o servidor não respondeu. Tente novamente.';
+        showToast(`${done} ${reason}`.trim());
+        return null;
+    }
+  };
+
+  // A record the storage refuses keeps the form open, with the reason in the toast
+  const reportInvalid = (error: unknown) => {
+    if (!(error instanceof InvalidRecordError)) throw error;
+    showToast(error.message);
+  };
+
+  // A correction of what the receipt states voids it; an income still gets a new receipt, printed right away
+  const handleUpdateTransaction = async (data: TransactionFormValues) => {
+    if (!editingTransaction) return;
+    let saved: Transaction;
+    try {
+      saved = await updateTransaction({
+        ...editingTransaction,
+        date: data.date,
+        description: data.description,
+        amount: Number(data.amount),
+        type: data.type,
+        category: data.category,
+        method: data.paymentMethod,
+        reference: data.reference?.trim() || '',
+        // The fee stays as recorded unless the method or the amount are corrected
+        fee: data.paymentMethod === editingTransaction.method && Number(data.amount) === editingTransaction.amount
+          ? editingTransaction.fee
+          : getPaymentFee(getPaymentMethod(data.paymentMethod, settings.financial.paymentMethods), Number(data.amount)),
+        attachment: data.attachmentBase64 ?? editingTransaction.attachment,
+        payerName: data.payerName,
+        // Expenses are never linked to a student
+        studentId: data.type === 'income' ? data.studentId || undefined : undefined,
+        paidMonths: data.type === 'income' ? data.selectedMonths : undefined,
+        chargeIds: data.type === 'income' ? data.selectedCharges : undefined,
+        allocations: data.type === 'income' ? data.selectedAllocations : undefined
+      });
+    } catch (error) {
+      return reportInvalid(error);
+    }
+    closeSheet();
+
+    const receipt = getActiveReceipt(saved.id, receipts);
+    if (!receipt || isReceiptCurrent(receipt, saved)) {
+        showToast("Transação corrigida com sucesso!");
+        return;
+    }
+    await voidReceipt(receipt.id, 'Transação corrigida');
+    if (saved.type !== 'income') {
+        showToast(`Transação corrigida. Recibo nº ${receipt.number} anulado.`);
+        return;
+    }
+    const issued = await tryIssueReceipt(saved, `Transação corrigida. Recibo nº ${receipt.number} anulado.`);
+    if (!issued) return;
+    generateDualReceiptPDF({ ...saved, receiptNumber: issued.number }, receiptDetails(saved), settings.profile, issued);
+    showToast(`Transação corrigida. Recibo nº ${receipt.number} anulado e substituído pelo nº ${issued.number}.`);
+  };
+
+  const receiptDetails = (tx: Transaction) => getReceiptDetails(tx, students, charges, settings.financial.paymentMethods);
+
+  // Receipted entries are reprinted as "2ª via"; the others (e.g. reconciled from a statement) get their first receipt
+  const handlePrintReceipt = async (tx: Transaction) => {
+    const receipt = getActiveReceipt(tx.id, receipts);
+    if (receipt) {
+        generateDualReceiptPDF(tx, receiptDetails(tx), settings.profile, receipt, 'duplicate');
+        return;
+    }
+    const issued = await tryIssueReceipt(tx);
+    if (!issued) return;
+    generateDualReceiptPDF({ ...tx, receiptNumber: issued.number }, receiptDetails(tx), settings.profile, issued);
+    showToast(`Recibo nº ${issued.number} emitido.`);
+  };
+
+  const handleCancelTransaction = async (reason: string) => {
+    if (!cancellingTransaction) return;
+    await cancelTransaction(cancellingTransaction.id, reason);
+    setCancellingTransaction(null);
+    showToast("Transação anulada. Os meses associados voltaram a ficar em aberto.");
+  };
+
+  // Tuition billing of the current academic year
+  const billingYear = settings.academic.currentYear;
+  const billing = useMemo(() => {
+    const today = getTodayKey();
+    const yearCharges = charges.filter(c => c.year === billingYear);
+    const open = yearCharges.filter(c => c.status !== 'paid' && c.amount > 0);
+    return {
+      discounts: yearCharges.reduce((sum, c) => sum + (c.discount ?? 0), 0),
+      open: open.length,
+      partial: open.filter(c => c.status === 'partial').length,
+      overdue: open.filter(c => isChargeOverdue(c, today)).length,
+      outstanding: open.reduce((sum, c) => sum + getChargeBalance(c, settings.financial, today), 0),
+    };
+  }, [charges, billingYear, settings.financial]);
+
+  const handleGenerateCharges = async () => {
+    const created = await generateCharges(billingYear);
+    showToast(created > 0
+      ? `${created} mensalidades geradas para ${billingYear}.`
+      : `As mensalidades de ${billingYear} já estão geradas.`);
+  };
+
+  const openEditSheet = (tx: Transaction) => {
+    setEditingTransaction(tx);
+    setIsSheetOpen(true);
+  };
+
+  const closeSheet = () => {
+    setIsSheetOpen(false);
+    setEditingTransaction(null);
+  };
+
   const showToast = (msg: string) => {
     setToastMessage(msg);
     setTimeout(() => setToastMessage(null), 3000);
@@ -294,6 +465,8 @@ export const FinancialView: React.FC = () => {
                 )}
              </div>
 
+             <PdfExportMenu options={TRANSACTION_GROUPINGS} onExport={handleExportPDF} disabled={filteredTransactions.length === 0} />
+
              <button 
                 onClick={() => setIsSheetOpen(true)}
                 className="px-4 py-2 text-sm font-medium text-white bg-primary rounded-lg hover:bg-primary-dark transition-colors flex items-center gap-2 shadow-sm"
@@ -339,6 +512,71 @@ export const FinancialView: React.FC = () => {
               trend="A receber/pagar"
             />
         </div>
+
+        {/* Tuition Billing Summary */}
+        <div className="bg-surface-light dark:bg-surface-dark p-4 rounded-xl border border-[#e7ebf3] dark:border-gray-700 shadow-sm flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm text-neutral-gray">
+                <span className="flex items-center gap-2 font-semibold text-[#0d121b] dark:text-white">
+                    <span className="material-symbols-outlined text-primary">receipt_long</span>
+                    Propinas {billingYear}
+                </span>
+                <span>Em aberto: <strong className="text-[#0d121b] dark:text-white">{billing.open}</strong>{billing.partial > 0 && ` (${billing.partial} parciais)`}</span>
+                <span>Vencidas: <strong className="text-warning">{billing.overdue}</strong></span>
+                <span>Por receber (com multas): <strong className="text-[#0d121b] dark:text-white">{formatCurrency(billing.outstanding)}</strong></span>
+                <span>Descontos e bolsas: <strong className="text-blue-600">{formatCurrency(billing.discounts)}</strong></span>
+            </div>
+            <button
+                onClick={handleGenerateCharges}
+                className="px-4 py-2 text-sm font-medium text-primary border border-primary/30 rounded-lg hover:bg-primary/5 transition-colors flex items-center gap-2"
+            >
+                <span className="material-symbols-outlined text-[18px]">playlist_add</span>
+                Gerar Mensalidades
+            </button>
+        </div>
+
+        {/* Breakdown by Payment Method (selected period) */}
+        {methodBreakdown.length > 0 && (
+            <div className="bg-surface-light dark:bg-surface-dark rounded-xl border border-[#e7ebf3] dark:border-gray-700 shadow-sm overflow-hidden">
+                <div className="px-4 py-3 border-b border-[#e7ebf3] dark:border-gray-800 flex items-center gap-2 font-semibold text-[#0d121b] dark:text-white">
+                    <span className="material-symbols-outlined text-primary">payments</span>
+                    Por Forma de Pagamento
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead className="bg-gray-50/50 dark:bg-gray-800/50 text-xs text-neutral-gray uppercase">
+                            <tr>
+                                <th className="py-2 px-4 text-left font-semibold">Forma</th>
+                                <th className="py-2 px-4 text-right font-semibold">Nº</th>
+                                <th className="py-2 px-4 text-right font-semibold">Entradas</th>
+                                <th className="py-2 px-4 text-right font-semibold">Saídas</th>
+                                <th className="py-2 px-4 text-right font-semibold">Taxas</th>
+                                <th className="py-2 px-4 text-right font-semibold">% das Entradas</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-[#e7ebf3] dark:divide-gray-800">
+                            {methodBreakdown.map(row => (
+                                <tr key={row.code}>
+                                    <td className="py-2 px-4 font-medium text-[#0d121b] dark:text-white">{row.label}</td>
+                                    <td className="py-2 px-4 text-right text-neutral-gray">{row.count}</td>
+                                    <td className="py-2 px-4 text-right text-success">{formatCurrency(row.income)}</td>
+                                    <td className="py-2 px-4 text-right text-warning">{formatCurrency(row.expense)}</td>
+                                    <td className="py-2 px-4 text-right text-neutral-gray">{formatCurrency(row.fees)}</td>
+                                    <td className="py-2 px-4 text-right text-neutral-gray">
+                                        {kpis.revenue > 0 ? `${((row.income / kpis.revenue) * 100).toFixed(1)}%` : '—'}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        )}
+
+        {/* Statement Reconciliation Queue */}
+        <ReconciliationPanel onNotify={showToast} />
+
+        {/* Receipt Register */}
+        <ReceiptRegisterPanel onNotify={showToast} />
       </div>
 
       {/* 3. Visual Analysis & Ledger Split - Chart removed, Ledger takes full space */}
@@ -368,23 +606,28 @@ export const FinancialView: React.FC = () => {
                               <th className="py-3 px-5 text-xs font-semibold text-neutral-gray uppercase tracking-wider">Valor</th>
                               <th className="py-3 px-5 text-xs font-semibold text-neutral-gray uppercase tracking-wider">Status</th>
                               <th className="py-3 px-5 text-xs font-semibold text-neutral-gray uppercase tracking-wider text-right">Anexo</th>
+                              <th className="py-3 px-5 text-xs font-semibold text-neutral-gray uppercase tracking-wider text-right">Ações</th>
                           </tr>
                       </thead>
                       <tbody className="divide-y divide-[#e7ebf3] dark:divide-gray-800">
                           {filteredTransactions.length > 0 ? filteredTransactions.map((tx) => (
-                              <tr key={tx.id} className="hover:bg-gray-50 dark:hover:bg-gray-800/50 transition-colors group">
+                              <tr key={tx.id} className={`hover:bg-gray-50 dark:hover:bg-gray-800/50 transition-colors group ${tx.status === 'cancelled' ? 'opacity-60' : ''}`}>
                                   <td className="py-3 px-5 text-sm text-neutral-gray whitespace-nowrap">
                                     {format(parseISO(tx.date), 'dd/MM/yyyy')}
                                   </td>
                                   <td className="py-3 px-5 text-sm font-medium text-[#0d121b] dark:text-white max-w-[200px] truncate" title={tx.description}>
                                     {tx.description}
+                                    {tx.receiptNumber && <p className="text-[10px] font-normal text-neutral-gray mt-0.5">Recibo nº {tx.receiptNumber}</p>}
                                   </td>
                                   <td className="py-3 px-5">
                                     <span className="px-2 py-1 rounded text-[10px] font-semibold bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 border border-gray-200 dark:border-gray-600">
                                         {tx.category}
                                     </span>
+                                    <p className="text-[10px] text-neutral-gray mt-1 whitespace-nowrap" title={tx.reference ? `Ref. ${tx.reference}` : undefined}>
+                                        {getPaymentMethodLabel(tx.method, settings.financial.paymentMethods)}
+                                    </p>
                                   </td>
-                                  <td className={`py-3 px-5 text-sm font-bold whitespace-nowrap ${tx.type === 'income' ? 'text-success' : 'text-warning'}`}>
+                                  <td className={`py-3 px-5 text-sm font-bold whitespace-nowrap ${tx.type === 'income' ? 'text-success' : 'text-warning'} ${tx.status === 'cancelled' ? 'line-through' : ''}`}>
                                       <div className="flex items-center gap-1">
                                           <span className="material-symbols-outlined text-[14px]">
                                             {tx.type === 'income' ? 'arrow_upward' : 'arrow_downward'}
@@ -393,7 +636,7 @@ export const FinancialView: React.FC = () => {
                                       </div>
                                   </td>
                                   <td className="py-3 px-5">
-                                      <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold border flex items-center gap-1 w-fit
+                                      <span title={tx.cancellationReason ? `Motivo: ${tx.cancellationReason}` : undefined} className={`px-2 py-0.5 rounded-full text-[10px] font-bold border flex items-center gap-1 w-fit
                                           ${tx.status === 'completed' ? 'bg-green-50 text-success border-green-100' : 
                                             tx.status === 'pending' ? 'bg-yellow-50 text-yellow-600 border-yellow-100' : 
                                             'bg-gray-100 text-gray-500 border-gray-200'}`}>
@@ -419,10 +662,27 @@ export const FinancialView: React.FC = () => {
                                         <span className="text-gray-300 material-symbols-outlined text-[18px]">block</span>
                                       )}
                                   </td>
+                                  <td className="py-3 px-5 text-right whitespace-nowrap">
+                                      {tx.status !== 'cancelled' && (
+                                        <div className="flex justify-end gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                            {tx.type === 'income' && (
+                                                <button onClick={() => handlePrintReceipt(tx)} className="p-1.5 rounded-lg text-neutral-gray hover:text-primary hover:bg-primary/10" title={getActiveReceipt(tx.id, receipts) ? 'Reimprimir Recibo (2ª via)' : 'Emitir Recibo'}>
+                                                    <span className="material-symbols-outlined text-[18px]">print</span>
+                                                </button>
+                                            )}
+                                            <button onClick={() => openEditSheet(tx)} className="p-1.5 rounded-lg text-neutral-gray hover:text-primary hover:bg-primary/10" title="Corrigir">
+                                                <span className="material-symbols-outlined text-[18px]">edit</span>
+                                            </button>
+                                            <button onClick={() => setCancellingTransaction(tx)} className="p-1.5 rounded-lg text-neutral-gray hover:text-warning hover:bg-warning/10" title="Anular">
+                                                <span className="material-symbols-outlined text-[18px]">cancel</span>
+                                            </button>
+                                        </div>
+                                      )}
+                                  </td>
                               </tr>
                           )) : (
                             <tr>
-                                <td colSpan={6} className="py-8 text-center text-neutral-gray text-sm">
+                                <td colSpan={7} className="py-8 text-center text-neutral-gray text-sm">
                                     Nenhuma transação encontrada neste período.
                                 </td>
                             </tr>
@@ -433,29 +693,43 @@ export const FinancialView: React.FC = () => {
           </div>
       </div>
 
-      {/* 5. "Nova Transação" Sheet */}
+      {/* 5. "Nova Transação" / "Corrigir Transação" Sheet */}
       {isSheetOpen && (
           <div className="fixed inset-0 z-50 flex justify-end">
               <div 
                 className="absolute inset-0 bg-black/20 backdrop-blur-sm transition-opacity"
-                onClick={() => setIsSheetOpen(false)}
+                onClick={closeSheet}
               ></div>
               <div className="relative w-full max-w-xl bg-surface-light dark:bg-surface-dark shadow-2xl h-full flex flex-col animate-in slide-in-from-right duration-300">
                   <div className="p-6 border-b border-[#e7ebf3] dark:border-gray-800 flex items-center justify-between bg-gray-50/50 dark:bg-gray-800/50">
                       <div>
-                          <h2 className="text-xl font-bold text-[#0d121b] dark:text-white">Nova Transação</h2>
-                          <p className="text-sm text-neutral-gray">Registre uma entrada ou saída no sistema.</p>
+                          <h2 className="text-xl font-bold text-[#0d121b] dark:text-white">{editingTransaction ? 'Corrigir Transação' : 'Nova Transação'}</h2>
+                          <p className="text-sm text-neutral-gray">{editingTransaction ? 'Altere os dados lançados por engano.' : 'Registre uma entrada ou saída no sistema.'}</p>
                       </div>
-                      <button onClick={() => setIsSheetOpen(false)} className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors">
+                      <button onClick={closeSheet} className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors">
                           <span className="material-symbols-outlined text-neutral-gray">close</span>
                       </button>
                   </div>
                   <div className="flex-1 overflow-y-auto p-6">
-                      <TransactionForm onSuccess={handleNewTransaction} onCancel={() => setIsSheetOpen(false)} />
+                      <TransactionForm 
+                        key={editingTransaction?.id ?? 'new'}
+                        initialData={editingTransaction ?? undefined}
+                        onSuccess={editingTransaction ? handleUpdateTransaction : handleNewTransaction} 
+                        onCancel={closeSheet} 
+                      />
                   </div>
               </div>
           </div>
       )}
+
+      {/* 6. Cancel Confirmation */}
+      {cancellingTransaction && (
+          <CancelTransactionDialog
+            transaction={cancellingTransaction}
+            onConfirm={handleCancelTransaction}
+            onClose={() => setCancellingTransaction(null)}
+          />
+      )}
     </div>
   );
 };
@@ -478,3 +752,60 @@ const FinancialCard: React.FC<{ label: string; value: string; icon: string; colo
         </p>
     </div>
 );
+
+
+const CancelTransactionDialog: React.FC<{ transaction: Transaction; onConfirm: (reason: string) => Promise<void>; onClose: () => void }> = ({ transaction, onConfirm, onClose }) => {
+    const [reason, setReason] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleConfirm = async () => {
+        setIsSubmitting(true);
+        await onConfirm(reason.trim());
+        setIsSubmitting(false);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-black/20 backdrop-blur-sm transition-opacity" onClick={onClose}></div>
+            <div className="relative w-full max-w-md bg-surface-light dark:bg-surface-dark rounded-xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200">
+                <div className="p-5 border-b border-[#e7ebf3] dark:border-gray-800 bg-gray-50/50 dark:bg-gray-800/50">
+                    <h2 className="text-lg font-bold text-[#0d121b] dark:text-white">Anular Transação</h2>
+                    <p className="text-xs text-neutral-gray mt-1 truncate">{transaction.description} • {formatCurrency(transaction.amount)}</p>
+                </div>
+                <div className="p-5 space-y-4">
+                    <p className="text-sm text-neutral-gray">
+                        A transação fica no extrato como <strong>Cancelada</strong> e deixa de contar nos totais.
+                    </p>
+                    {transaction.paidMonths && transaction.paidMonths.length > 0 && (
+                        <p className="text-xs font-medium text-warning">
+                            Os meses {transaction.paidMonths.join(', ')} voltarão a ficar em aberto para o aluno.
+                        </p>
+                    )}
+                    <div className="flex flex-col gap-1.5">
+                        <label className="text-xs font-semibold text-neutral-gray uppercase tracking-wider">Motivo <span className="text-warning">*</span></label>
+                        <textarea
+                            value={reason}
+                            onChange={(e) => setReason(e.target.value)}
+                            rows={3}
+                            placeholder="Ex: Valor lançado em duplicado"
+                            className="w-full rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:ring-2 focus:ring-primary focus:border-transparent outline-none resize-none"
+                        />
+                    </div>
+                </div>
+                <div className="p-5 border-t border-[#e7ebf3] dark:border-gray-800 flex justify-end gap-3">
+                    <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-neutral-gray hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors">
+                        Voltar
+                    </button>
+                    <button
+                        onClick={handleConfirm}
+                        disabled={reason.trim().length < 3 || isSubmitting}
+                        className="px-4 py-2 bg-warning hover:bg-red-700 text-white text-sm font-medium rounded-lg shadow-sm transition-colors flex items-center gap-2 disabled:opacity-50"
+                    >
+                        <span className="material-symbols-outlined text-[18px]">cancel</span>
+                        Anular
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
\ No newline at end of file
@@ -1,5 +1,6 @@
 
 import React from 'react';
+import { SyncStatusIndicator } from './SyncStatusIndicator';
 
 interface HeaderProps {
   onMenuClick: () => void;
@@ -38,6 +39,9 @@ export const Header: React.FC<HeaderProps> = ({ onMenuClick }) => {
         </div>
 
         <div className="flex items-center border-l border-[#e7ebf3] dark:border-gray-800 pl-4 gap-2">
+          {/* Offline Sync Status */}
+          <SyncStatusIndicator />
+
           {/* Notifications */}
           <button className="relative p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 text-neutral-gray hover:text-primary transition-colors">
             <span className="material-symbols-outlined">notifications</span>
@@ -0,0 +1,55 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface PdfExportMenuProps<T extends string> {
+  // Grouping choices offered, e.g. "Sem agrupamento", "Por classe"
+  options: { value: T; label: string }[];
+  onExport: (groupBy: T) => void;
+  disabled?: boolean;
+}
+
+/**
+ * "Exportar PDF" button with a menu to choose how the rows are grouped in the document.
+ */
+export const PdfExportMenu = <T extends string>({ options, onExport, disabled }: PdfExportMenuProps<T>) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  return (
+    <div className="relative" ref={menuRef}>
+        <button
+            onClick={() => setIsOpen(!isOpen)}
+            disabled={disabled}
+            className="px-4 py-2 text-sm font-medium text-neutral-gray bg-white dark:bg-surface-dark border border-[#e7ebf3] dark:border-gray-700 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors flex items-center gap-2 disabled:opacity-50"
+        >
+            <span className="material-symbols-outlined text-[18px]">picture_as_pdf</span>
+            Exportar PDF
+            <span className="material-symbols-outlined text-[18px]">arrow_drop_down</span>
+        </button>
+
+        {isOpen && (
+            <div className="absolute right-0 top-full mt-2 w-52 bg-surface-light dark:bg-surface-dark rounded-xl shadow-xl border border-[#e7ebf3] dark:border-gray-700 z-50 p-1 animate-in fade-in zoom-in-95 duration-100">
+                <p className="px-3 pt-2 pb-1 text-[10px] text-neutral-gray uppercase font-bold tracking-wider">Agrupar</p>
+                {options.map(option => (
+                    <button
+                        key={option.value}
+                        onClick={() => { setIsOpen(false); onExport(option.value); }}
+                        className="w-full text-left px-3 py-2 text-sm rounded-lg text-[#0d121b] dark:text-white hover:bg-primary/5 hover:text-primary transition-colors"
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+        )}
+    </div>
+  );
+};
@@ -2,12 +2,14 @@
 import React, { useState } from 'react';
 import { Employee, Department } from '../types';
 import { EmployeeForm, EmployeeFormValues } from './rh/EmployeeForm';
+import { PayrollPanel } from './rh/PayrollPanel';
 import { formatCurrency } from '../lib/utils';
+import { normalizeNib } from '../lib/bank-transfer';
 import { useSchoolData } from '../contexts/SchoolDataContext';
 
 export const RHView: React.FC = () => {
   const { employees, addEmployee } = useSchoolData();
-  const [activeTab, setActiveTab] = useState<'colaboradores'>('colaboradores');
+  const [activeTab, setActiveTab] = useState<'colaboradores' | 'folha'>('colaboradores');
   const [isSheetOpen, setIsSheetOpen] = useState(false);
   const [showValues, setShowValues] = useState(false);
   const [filterDept, setFilterDept] = useState<string>('Todos');
@@ -46,18 +48,24 @@ export const RHView: React.FC = () => {
         personal: {
             biNumber: data.personal.biNumber,
             nuit: data.personal.nuit,
-            dob: data.personal.dob
+            dob: data.personal.dob,
+            dependants: Number(data.personal.dependants) || 0,
+            ...(data.personal.inssNumber?.trim() && { inssNumber: data.personal.inssNumber.trim() })
         },
         bank: {
             bankName: data.bank.bankName,
             accountNumber: data.bank.accountNumber,
-            nib: data.bank.nib
+            nib: normalizeNib(data.bank.nib)
         }
     };
 
     addEmployee(newEmployee);
     setIsSheetOpen(false);
-    setToastMessage("Colaborador cadastrado com sucesso!");
+    showToast("Colaborador cadastrado com sucesso!");
+  };
+
+  const showToast = (msg: string) => {
+    setToastMessage(msg);
     setTimeout(() => setToastMessage(null), 3000);
   };
 
@@ -109,6 +117,7 @@ export const RHView: React.FC = () => {
           <nav className="flex gap-6" aria-label="Tabs">
             {[
                 { id: 'colaboradores', label: 'Colaboradores', icon: 'group' },
+                { id: 'folha', label: 'Folha de Salário', icon: 'payments' },
             ].map((tab) => (
                 <button
                     key={tab.id}
@@ -228,6 +237,9 @@ export const RHView: React.FC = () => {
             </div>
         )}
 
+        {/* --- TAB B: FOLHA DE SALÁRIO --- */}
+        {activeTab === 'folha' && <PayrollPanel showValues={showValues} onNotify={showToast} />}
+
       </div>
 
       {/* Sheet for New Employee */}
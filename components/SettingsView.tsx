@@ -1,14 +1,35 @@
 
 import React, { useState, useRef } from 'react';
 import { useSettings } from '../contexts/SettingsContext';
+import { useSchoolData } from '../contexts/SchoolDataContext';
+import { getQuarantine, clearQuarantine, QuarantinedRecord } from '../lib/storage';
+import { BackupData, BackupDiff, BackupError, parseBackup, diffBackup, downloadBackup, getLastBackupDate } from '../lib/backup';
+import { CollectionName } from '../lib/repository';
+import { CALENDAR_MONTHS, formatDate } from '../lib/utils';
+import { GRADING_SCALES, LETTER_GRADES, TERMS, TERM_LABELS } from '../lib/grading';
+import { createPaymentMethodCode, getPaymentMethod } from '../lib/payments';
+import { DEFAULT_IRPS_BRACKETS } from '../lib/taxes';
+import { DEFAULT_TRANSFER_TEMPLATE, TRANSFER_FIELD_LABELS } from '../lib/bank-transfer';
+import { GradingSystem, IrpsBracket, PaymentMethod, PaymentMethodCode, Term, TransferFileField, TransferFileTemplate } from '../types';
 
-type TabId = 'profile' | 'user' | 'academic' | 'financial' | 'system';
+type TabId = 'profile' | 'user' | 'academic' | 'financial' | 'payroll' | 'system';
+
+// Columns of the IRPS table: fixed amount for 0, 1, 2, 3 and 4 or more dependants
+const DEPENDANT_COLUMNS = ['0', '1', '2', '3', '4+'];
 
 export const SettingsView: React.FC = () => {
-  const { settings, updateSettings, updateSchoolLogo, updateUserAvatar } = useSettings();
+  const { settings, updateSettings, updateSchoolLogo, updateUserAvatar, restoreSettings } = useSettings();
+  const { students, transactions, events, employees, classes, marks, attendance, charges, discounts, plans, statementLines, receipts, payroll, restoreSnapshot } = useSchoolData();
   const [activeTab, setActiveTab] = useState<TabId>('profile');
   const [isSaving, setIsSaving] = useState(false);
   const [toastMessage, setToastMessage] = useState<string | null>(null);
+  const [quarantined, setQuarantined] = useState<QuarantinedRecord[]>(() => getQuarantine());
+  const [lastBackup, setLastBackup] = useState<string | null>(() => getLastBackupDate());
+  const [pendingRestore, setPendingRestore] = useState<{ fileName: string; data: BackupData; diff: BackupDiff } | null>(null);
+  const [backupError, setBackupError] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [newMethodLabel, setNewMethodLabel] = useState('');
+  const restoreInputRef = useRef<HTMLInputElement>(null);
 
   // Form State Refs to capture inputs without re-rendering on every keystroke
   // We sync these on "Save"
@@ -42,6 +63,68 @@ export const SettingsView: React.FC = () => {
     updateSettings(section, { [field]: value });
   };
 
+  // A passing grade only makes sense on its own scale, so switching systems resets it
+  const handleGradingSystemChange = (system: GradingSystem) => {
+    updateSettings('academic', { gradingSystem: system, passingGrade: GRADING_SCALES[system].defaultPassingGrade });
+  };
+
+  const handleToggleTerm = (term: Term) => {
+    const current = settings.academic.activeTerms;
+    const next = current.includes(term) ? current.filter(t => t !== term) : [...current, term];
+    handleChange('academic', 'activeTerms', TERMS.filter(t => next.includes(t)));
+  };
+
+  const handleToggleVacationMonth = (month: string) => {
+    const current = settings.financial.vacationMonths;
+    const next = current.includes(month) ? current.filter(m => m !== month) : [...current, month];
+    handleChange('financial', 'vacationMonths', CALENDAR_MONTHS.filter(m => next.includes(m)));
+  };
+
+  const handlePaymentMethodChange = (code: PaymentMethodCode, patch: Partial<PaymentMethod>) => {
+    handleChange('financial', 'paymentMethods', settings.financial.paymentMethods.map(m => m.code === code ? { ...m, ...patch } : m));
+  };
+
+  const handleAddPaymentMethod = () => {
+    const label = newMethodLabel.trim();
+    if (!label) return;
+    const methods = settings.financial.paymentMethods;
+    handleChange('financial', 'paymentMethods', [
+      ...methods,
+      { code: createPaymentMethodCode(label, methods), label, active: true, requiresReference: false, feePercent: 0, feeFixed: 0 },
+    ]);
+    setNewMethodLabel('');
+  };
+
+  // Brackets are kept in ascending order of their lower limit
+  const handleBracketsChange = (brackets: IrpsBracket[]) => {
+    handleChange('payroll', 'irpsBrackets', [...brackets].sort((a, b) => a.from - b.from));
+  };
+
+  const handleBracketChange = (index: number, patch: Partial<IrpsBracket>) => {
+    handleChange('payroll', 'irpsBrackets', settings.payroll.irpsBrackets.map((b, i) => i === index ? { ...b, ...patch } : b));
+  };
+
+  const handleTransferFileChange = (patch: Partial<TransferFileTemplate>) => {
+    handleChange('payroll', 'transferFile', { ...settings.payroll.transferFile, ...patch });
+  };
+
+  // Moves a column of the transfer file one place up (-1) or down (+1) in the order
+  const moveTransferColumn = (index: number, offset: number) => {
+    const columns = [...settings.payroll.transferFile.columns];
+    const target = index + offset;
+    if (target < 0 || target >= columns.length) return;
+    [columns[index], columns[target]] = [columns[target], columns[index]];
+    handleTransferFileChange({ columns });
+  };
+
+  // Thresholds must stay positive whole numbers
+  const handleAttendanceAlertChange = (field: 'absences' | 'lates' | 'windowDays', value: string) => {
+    handleChange('academic', 'attendanceAlerts', {
+      ...settings.academic.attendanceAlerts,
+      [field]: Math.max(1, Math.floor(Number(value)) || 1),
+    });
+  };
+
   const handleLogoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       await updateSchoolLogo(e.target.files[0]);
@@ -56,11 +139,79 @@ export const SettingsView: React.FC = () => {
     }
   };
 
+  const handleExportQuarantine = () => {
+    const blob = new Blob([JSON.stringify(quarantined, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `registos_invalidos_${new Date().toISOString().split('T')[0]}.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleClearQuarantine = () => {
+    if (!confirm('Descartar definitivamente os registos inválidos?')) return;
+    clearQuarantine();
+    setQuarantined([]);
+    showToast('Registos inválidos descartados.');
+  };
+
+  const currentData = (): BackupData => ({
+    collections: { students, transactions, events, employees, classes, marks, attendance, charges, discounts, plans, statementLines, receipts, payroll },
+    settings,
+  });
+
+  const handleBackup = async () => {
+    try {
+      await downloadBackup(currentData());
+      setLastBackup(getLastBackupDate());
+      showToast('Backup criado com sucesso!');
+    } catch (error) {
+      console.error('Failed to create backup', error);
+      setBackupError('Não foi possível criar o backup.');
+    }
+  };
+
+  // 1. Read and validate the file, then show what would change before touching any data
+  const handleRestoreFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setBackupError(null);
+    try {
+      const data = await parseBackup(await file.text());
+      setPendingRestore({ fileName: file.name, data, diff: diffBackup(currentData(), data) });
+    } catch (error) {
+      console.error('Invalid backup file', error);
+      setBackupError(error instanceof BackupError ? error.message : 'Não foi possível ler o ficheiro de backup.');
+    }
+  };
+
+  // 2. Apply the confirmed backup
+  const handleConfirmRestore = async () => {
+    if (!pendingRestore) return;
+    setIsRestoring(true);
+    try {
+      await restoreSnapshot(pendingRestore.data.collections);
+      restoreSettings(pendingRestore.data.settings);
+      setPendingRestore(null);
+      showToast('Backup restaurado com sucesso!');
+    } catch (error) {
+      console.error('Failed to restore backup', error);
+      setBackupError('O restauro falhou e os dados anteriores foram mantidos.');
+      setPendingRestore(null);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
   const tabs: { id: TabId; label: string; icon: string; description: string }[] = [
     { id: 'profile', label: 'Identidade da Escola', icon: 'domain', description: 'Logo, Nome e Contatos' },
     { id: 'user', label: 'Perfil do Administrador', icon: 'person', description: 'Dados de Acesso e Avatar' },
     { id: 'academic', label: 'Acadêmico', icon: 'menu_book', description: 'Notas e Trimestres' },
     { id: 'financial', label: 'Financeiro', icon: 'payments', description: 'Mensalidades e Multas' },
+    { id: 'payroll', label: 'Salários', icon: 'badge', description: 'INSS e IRPS' },
     { id: 'system', label: 'Sistema', icon: 'settings_applications', description: 'Manutenção e Alertas' },
   ];
 
@@ -205,6 +356,36 @@ export const SettingsView: React.FC = () => {
                           onChange={(e) => handleChange('profile', 'address', e.target.value)}
                           className="w-full rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:ring-2 focus:ring-primary focus:border-transparent outline-none min-h-[80px]"
                         />
+                        <p className="text-xs text-neutral-gray">Cada linha do endereço é impressa numa linha do recibo.</p>
+                    </div>
+
+                    {/* Documents (PDF) branding */}
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        {([
+                            { field: 'primaryColor', label: 'Cor Principal (Documentos)' },
+                            { field: 'accentColor', label: 'Cor de Destaque (Totais)' },
+                        ] as const).map(({ field, label }) => (
+                            <div key={field} className="flex flex-col gap-1.5">
+                                <label className="text-xs font-semibold text-neutral-gray uppercase tracking-wider">{label}</label>
+                                <div className="flex items-center gap-3">
+                                    <input
+                                        type="color"
+                                        value={settings.profile[field]}
+                                        onChange={(e) => handleChange('profile', field, e.target.value)}
+                                        className="h-10 w-14 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 p-1 cursor-pointer"
+                                    />
+                                    <span className="text-sm font-mono text-neutral-gray uppercase">{settings.profile[field]}</span>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex flex-col gap-1.5">
+                        <InputGroup 
+                            label="Rodapé dos Recibos" 
+                            value={settings.profile.receiptFooter} 
+                            onChange={(e) => handleChange('profile', 'receiptFooter', e.target.value)} 
+                        />
+                        <p className="text-xs text-neutral-gray">O logo só é impresso nos documentos PDF quando carregado a partir de um ficheiro.</p>
                     </div>
                  </div>
               </div>
@@ -288,36 +469,73 @@ export const SettingsView: React.FC = () => {
                         <option value="2025">2025</option>
                     </SelectGroup>
                     
-                    <SelectGroup label="Sistema de Notas" value={settings.academic.gradingSystem} onChange={(e:any) => handleChange('academic', 'gradingSystem', e.target.value)}>
+                    <SelectGroup label="Sistema de Notas" value={settings.academic.gradingSystem} onChange={(e:any) => handleGradingSystemChange(e.target.value)}>
                         <option value="0-20">0 - 20 Valores (Padrão MZ)</option>
                         <option value="0-100">0 - 100 Pontos</option>
                         <option value="A-F">A - F (Internacional)</option>
                     </SelectGroup>
 
-                    <InputGroup 
-                        label="Média de Aprovação" 
-                        type="number" 
-                        value={settings.academic.passingGrade} 
-                        onChange={(e) => handleChange('academic', 'passingGrade', Number(e.target.value))} 
-                    />
+                    {settings.academic.gradingSystem === 'A-F' ? (
+                        <SelectGroup label="Média de Aprovação" value={String(settings.academic.passingGrade)} onChange={(e:any) => handleChange('academic', 'passingGrade', Number(e.target.value))}>
+                            {LETTER_GRADES.map((letter, points) => (
+                                <option key={letter} value={points}>{letter}</option>
+                            ))}
+                        </SelectGroup>
+                    ) : (
+                        <InputGroup 
+                            label="Média de Aprovação" 
+                            type="number" 
+                            value={settings.academic.passingGrade} 
+                            onChange={(e) => handleChange('academic', 'passingGrade', Number(e.target.value))} 
+                        />
+                    )}
                 </div>
+                <p className="text-xs text-neutral-gray -mt-4">
+                    Notas lançadas noutro sistema são convertidas proporcionalmente ao calcular as médias.
+                </p>
 
                 <div className="flex flex-col gap-3">
                     <label className="text-xs font-semibold text-neutral-gray uppercase tracking-wider">Períodos Ativos (Trimestres)</label>
                     <div className="flex flex-col sm:flex-row gap-4">
-                        {['1º Trimestre', '2º Trimestre', '3º Trimestre'].map((trim, idx) => (
-                             <label key={trim} className="flex items-center gap-3 p-3 border border-gray-200 dark:border-gray-700 rounded-lg cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors flex-1">
+                        {TERMS.map((term) => (
+                             <label key={term} className="flex items-center gap-3 p-3 border border-gray-200 dark:border-gray-700 rounded-lg cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors flex-1">
                                 <input 
                                     type="checkbox" 
-                                    defaultChecked={settings.academic.activeTerms.includes((idx + 1).toString())}
+                                    checked={settings.academic.activeTerms.includes(term)}
+                                    onChange={() => handleToggleTerm(term)}
                                     className="rounded text-primary focus:ring-primary size-4" 
                                 />
-                                <span className="text-sm font-medium text-[#0d121b] dark:text-white">{trim}</span>
+                                <span className="text-sm font-medium text-[#0d121b] dark:text-white">{TERM_LABELS[term]}</span>
                              </label>
                         ))}
                     </div>
                 </div>
 
+                <div className="flex flex-col gap-3">
+                    <label className="text-xs font-semibold text-neutral-gray uppercase tracking-wider">Alertas de Assiduidade</label>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                        <InputGroup 
+                            label="Faltas (nº mínimo)" 
+                            type="number" 
+                            value={settings.academic.attendanceAlerts.absences} 
+                            onChange={(e) => handleAttendanceAlertChange('absences', e.target.value)} 
+                        />
+                        <InputGroup 
+                            label="Atrasos (nº mínimo)" 
+                            type="number" 
+                            value={settings.academic.attendanceAlerts.lates} 
+                            onChange={(e) => handleAttendanceAlertChange('lates', e.target.value)} 
+                        />
+                        <InputGroup 
+                            label="Período de Contagem (dias)" 
+                            type="number" 
+                            value={settings.academic.attendanceAlerts.windowDays} 
+                            onChange={(e) => handleAttendanceAlertChange('windowDays', e.target.value)} 
+                        />
+                    </div>
+                    <p className="text-xs text-neutral-gray">Os alunos que atingem um destes limites aparecem no painel "Atenção Necessária" do início.</p>
+                </div>
+
                 <div className="flex justify-end pt-4 border-t border-gray-100 dark:border-gray-800">
                   <SaveButton onClick={() => handleSave('academic')} isSaving={isSaving} />
                 </div>
@@ -332,7 +550,7 @@ export const SettingsView: React.FC = () => {
                     <p className="text-sm text-neutral-gray">Regras de faturação e dados bancários.</p>
                 </div>
 
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
                     <div className="flex flex-col gap-1.5">
                         <label className="text-xs font-semibold text-neutral-gray uppercase tracking-wider">Moeda Padrão</label>
                         <input disabled value="MT - Metical" className="w-full rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-100 dark:bg-gray-800 px-3 py-2 text-sm text-neutral-gray cursor-not-allowed" />
@@ -348,6 +566,30 @@ export const SettingsView: React.FC = () => {
                         value={settings.financial.lateFee} 
                         onChange={(e) => handleChange('financial', 'lateFee', Number(e.target.value))} 
                     />
+                    <InputGroup 
+                        label="Tolerância (dias)" 
+                        type="number" 
+                        value={settings.financial.graceDays} 
+                        onChange={(e) => handleChange('financial', 'graceDays', Math.max(0, Math.floor(Number(e.target.value)) || 0))} 
+                    />
+                </div>
+
+                <div className="flex flex-col gap-3">
+                    <label className="text-xs font-semibold text-neutral-gray uppercase tracking-wider">Meses sem Mensalidade (Férias)</label>
+                    <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-2">
+                        {CALENDAR_MONTHS.map((month) => (
+                             <label key={month} className="flex items-center gap-2 p-2 border border-gray-200 dark:border-gray-700 rounded-lg cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors">
+                                <input 
+                                    type="checkbox" 
+                                    checked={settings.financial.vacationMonths.includes(month)}
+                                    onChange={() => handleToggleVacationMonth(month)}
+                                    className="rounded text-primary focus:ring-primary size-4" 
+                                />
+                                <span className="text-sm capitalize text-[#0d121b] dark:text-white">{month}</span>
+                             </label>
+                        ))}
+                    </div>
+                    <p className="text-xs text-neutral-gray">Um mês em aberto só passa a "Inadimplente" depois do dia de vencimento mais a tolerância.</p>
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6 bg-gray-50 dark:bg-gray-800/50 p-6 rounded-xl border border-gray-100 dark:border-gray-700">
@@ -368,6 +610,79 @@ export const SettingsView: React.FC = () => {
                     />
                 </div>
 
+                <div className="flex flex-col gap-3">
+                    <label className="text-xs font-semibold text-neutral-gray uppercase tracking-wider">Formas de Pagamento</label>
+                    <div className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead className="bg-gray-50 dark:bg-gray-800/50 text-xs text-neutral-gray uppercase">
+                                <tr>
+                                    <th className="py-2 px-3 text-left font-semibold">Ativa</th>
+                                    <th className="py-2 px-3 text-left font-semibold">Designação</th>
+                                    <th className="py-2 px-3 text-left font-semibold">Exige Referência</th>
+                                    <th className="py-2 px-3 text-left font-semibold">Taxa (%)</th>
+                                    <th className="py-2 px-3 text-left font-semibold">Taxa Fixa (MT)</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+                                {settings.financial.paymentMethods.map(m => (
+                                    <tr key={m.code} className={m.active ? '' : 'opacity-60'}>
+                                        <td className="py-2 px-3">
+                                            <input type="checkbox" checked={m.active} onChange={(e) => handlePaymentMethodChange(m.code, { active: e.target.checked })} className="rounded text-primary focus:ring-primary size-4" />
+                                        </td>
+                                        <td className="py-2 px-3">
+                                            <input
+                                                value={m.label}
+                                                onChange={(e) => handlePaymentMethodChange(m.code, { label: e.target.value })}
+                                                onBlur={(e) => !e.target.value.trim() && handlePaymentMethodChange(m.code, { label: getPaymentMethod(m.code).label })}
+                                                className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-2 py-1 text-sm outline-none focus:ring-2 focus:ring-primary"
+                                            />
+                                        </td>
+                                        <td className="py-2 px-3">
+                                            <input type="checkbox" checked={m.requiresReference} onChange={(e) => handlePaymentMethodChange(m.code, { requiresReference: e.target.checked })} className="rounded text-primary focus:ring-primary size-4" />
+                                        </td>
+                                        <td className="py-2 px-3">
+                                            <input
+                                                type="number" min="0" step="0.01"
+                                                value={m.feePercent}
+                                                onChange={(e) => handlePaymentMethodChange(m.code, { feePercent: Math.max(0, Number(e.target.value) || 0) })}
+                                                className="w-24 rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-2 py-1 text-sm outline-none focus:ring-2 focus:ring-primary"
+                                            />
+                                        </td>
+                                        <td className="py-2 px-3">
+                                            <input
+                                                type="number" min="0" step="0.01"
+                                                value={m.feeFixed}
+                                                onChange={(e) => handlePaymentMethodChange(m.code, { feeFixed: Math.max(0, Number(e.target.value) || 0) })}
+                                                className="w-24 rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-2 py-1 text-sm outline-none focus:ring-2 focus:ring-primary"
+                                            />
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    <div className="flex items-center gap-3">
+                        <input
+                            value={newMethodLabel}
+                            onChange={(e) => setNewMethodLabel(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleAddPaymentMethod()}
+                            placeholder="Nova forma (ex.: Cheque)"
+                            className="w-64 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-1.5 text-sm outline-none focus:ring-2 focus:ring-primary"
+                        />
+                        <button
+                            onClick={handleAddPaymentMethod}
+                            disabled={!newMethodLabel.trim()}
+                            className="text-xs font-medium text-primary hover:underline flex items-center gap-1 disabled:opacity-50 disabled:no-underline"
+                        >
+                            <span className="material-symbols-outlined text-[14px]">add</span>
+                            Adicionar forma
+                        </button>
+                    </div>
+                    <p className="text-xs text-neutral-gray">A taxa cobrada pelo operador é registada em cada transação e somada no resumo por forma de pagamento. Formas inativas deixam de ser propostas em novos lançamentos. As formas acrescentadas não podem ser apagadas, apenas desativadas, para que os lançamentos antigos mantenham a designação.</p>
+                </div>
+
+                <SiblingDiscountRules />
+
                 <div className="flex flex-col gap-1.5">
                     <label className="text-xs font-semibold text-neutral-gray uppercase tracking-wider">Dados Bancários para Fatura</label>
                     <textarea 
@@ -385,7 +700,229 @@ export const SettingsView: React.FC = () => {
             </div>
           )}
 
-          {/* TAB E: SISTEMA */}
+          {/* TAB E: SALÁRIOS */}
+          {activeTab === 'payroll' && (
+            <div className="space-y-8">
+                <div className="border-b border-gray-100 dark:border-gray-800 pb-4">
+                    <h3 className="text-lg font-bold text-[#0d121b] dark:text-white">Descontos Legais</h3>
+                    <p className="text-sm text-neutral-gray">Taxas de INSS e tabela de retenção do IRPS aplicadas na folha de salário.</p>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                    <InputGroup
+                        label="INSS Trabalhador (%)"
+                        type="number"
+                        value={settings.payroll.inssEmployeeRate}
+                        onChange={(e) => handleChange('payroll', 'inssEmployeeRate', Math.max(0, Number(e.target.value) || 0))}
+                    />
+                    <InputGroup
+                        label="INSS Entidade (%)"
+                        type="number"
+                        value={settings.payroll.inssEmployerRate}
+                        onChange={(e) => handleChange('payroll', 'inssEmployerRate', Math.max(0, Number(e.target.value) || 0))}
+                    />
+                    <InputGroup
+                        label="Retenção Prestadores (%)"
+                        type="number"
+                        value={settings.payroll.serviceProviderRate}
+                        onChange={(e) => handleChange('payroll', 'serviceProviderRate', Math.max(0, Number(e.target.value) || 0))}
+                    />
+                </div>
+
+                <SwitchItem
+                    label="IRPS depois do INSS"
+                    description="O IRPS é calculado sobre o salário bruto deduzido da contribuição do trabalhador para o INSS."
+                    checked={settings.payroll.irpsAfterInss}
+                    onChange={(val) => handleChange('payroll', 'irpsAfterInss', val)}
+                    icon="calculate"
+                    color="text-primary"
+                />
+
+                <div className="flex flex-col gap-3">
+                    <div className="flex items-center justify-between">
+                        <label className="text-xs font-semibold text-neutral-gray uppercase tracking-wider">Tabela de Retenção do IRPS (mensal)</label>
+                        <button onClick={() => handleBracketsChange(DEFAULT_IRPS_BRACKETS)} className="text-xs font-medium text-primary hover:underline">
+                            Repor tabela oficial
+                        </button>
+                    </div>
+                    <div className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead className="bg-gray-50 dark:bg-gray-800/50 text-xs text-neutral-gray uppercase">
+                                <tr>
+                                    <th className="py-2 px-3 text-left font-semibold">A partir de (MT)</th>
+                                    <th className="py-2 px-3 text-left font-semibold">Taxa (%)</th>
+                                    {DEPENDANT_COLUMNS.map(d => <th key={d} className="py-2 px-3 text-left font-semibold">{d} Dep.</th>)}
+                                    <th className="py-2 px-3"></th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+                                {settings.payroll.irpsBrackets.map((bracket, index) => (
+                                    <tr key={index}>
+                                        <td className="py-2 px-3">
+                                            <input
+                                                type="number" min="0" step="0.01"
+                                                value={bracket.from}
+                                                onChange={(e) => handleBracketChange(index, { from: Math.max(0, Number(e.target.value) || 0) })}
+                                                onBlur={() => handleBracketsChange(settings.payroll.irpsBrackets)}
+                                                className="w-28 rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-2 py-1 text-sm outline-none focus:ring-2 focus:ring-primary"
+                                            />
+                                        </td>
+                                        <td className="py-2 px-3">
+                                            <input
+                                                type="number" min="0" step="0.01"
+                                                value={bracket.rate}
+                                                onChange={(e) => handleBracketChange(index, { rate: Math.max(0, Number(e.target.value) || 0) })}
+                                                className="w-20 rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-2 py-1 text-sm outline-none focus:ring-2 focus:ring-primary"
+                                            />
+                                        </td>
+                                        {DEPENDANT_COLUMNS.map((d, column) => (
+                                            <td key={d} className="py-2 px-3">
+                                                <input
+                                                    type="number" min="0" step="0.01"
+                                                    value={bracket.fixed[column] ?? 0}
+                                                    onChange={(e) => handleBracketChange(index, {
+                                                        fixed: DEPENDANT_COLUMNS.map((_, i) => i === column ? Math.max(0, Number(e.target.value) || 0) : bracket.fixed[i] ?? 0)
+                                                    })}
+                                                    className="w-24 rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-2 py-1 text-sm outline-none focus:ring-2 focus:ring-primary"
+                                                />
+                                            </td>
+                                        ))}
+                                        <td className="py-2 px-3 text-right">
+                                            <button
+                                                onClick={() => handleBracketsChange(settings.payroll.irpsBrackets.filter((_, i) => i !== index))}
+                                                title="Remover escalão"
+                                                className="p-1 rounded-md text-neutral-gray hover:text-warning hover:bg-warning/10 transition-colors"
+                                            >
+                                                <span className="material-symbols-outlined text-[18px]">delete</span>
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    <button
+                        onClick={() => {
+                            const last = settings.payroll.irpsBrackets[settings.payroll.irpsBrackets.length - 1];
+                            handleBracketsChange([...settings.payroll.irpsBrackets, { from: (last?.from ?? 0) + 1000, rate: last?.rate ?? 0, fixed: last?.fixed ?? [0, 0, 0, 0, 0] }]);
+                        }}
+                        className="self-start text-xs font-medium text-primary hover:underline flex items-center gap-1"
+                    >
+                        <span className="material-symbols-outlined text-[14px]">add</span>
+                        Adicionar escalão
+                    </button>
+                    <p className="text-xs text-neutral-gray">Em cada escalão retém-se o valor fixo da coluna dos dependentes mais a taxa sobre o que excede o limite inferior. Abaixo do primeiro escalão não há retenção. As folhas em rascunho são recalculadas ao atualizar os colaboradores.</p>
+                </div>
+
+                <div className="border-b border-gray-100 dark:border-gray-800 pb-4 pt-4">
+                    <h3 className="text-lg font-bold text-[#0d121b] dark:text-white">Ficheiro de Transferências</h3>
+                    <p className="text-sm text-neutral-gray">Formato do ficheiro de pagamento de salários a carregar no portal do banco.</p>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                    <SelectGroup label="Formato" value={settings.payroll.transferFile.format} onChange={(e:any) => handleTransferFileChange({ format: e.target.value })}>
+                        <option value="csv">CSV (separado)</option>
+                        <option value="fixed">Largura fixa (TXT)</option>
+                    </SelectGroup>
+                    {settings.payroll.transferFile.format === 'csv' && (
+                        <SelectGroup label="Separador" value={settings.payroll.transferFile.separator} onChange={(e:any) => handleTransferFileChange({ separator: e.target.value })}>
+                            <option value=";">Ponto e vírgula (;)</option>
+                            <option value=",">Vírgula (,)</option>
+                            <option value={'\t'}>Tabulação</option>
+                        </SelectGroup>
+                    )}
+                    <InputGroup
+                        label="Descritivo ({mes} = mês)"
+                        value={settings.payroll.transferFile.reference}
+                        onChange={(e) => handleTransferFileChange({ reference: e.target.value })}
+                    />
+                </div>
+
+                {settings.payroll.transferFile.format === 'csv' && (
+                    <SwitchItem
+                        label="Linha de cabeçalho"
+                        description="A primeira linha do ficheiro indica o nome de cada coluna."
+                        checked={settings.payroll.transferFile.header}
+                        onChange={(val) => handleTransferFileChange({ header: val })}
+                        icon="table_rows"
+                        color="text-primary"
+                    />
+                )}
+                <SwitchItem
+                    label="Valores em centavos"
+                    description="Escreve os valores sem separador decimal (1.500,50 MT como 150050), como pedem muitos layouts de largura fixa."
+                    checked={settings.payroll.transferFile.amountInCents}
+                    onChange={(val) => handleTransferFileChange({ amountInCents: val })}
+                    icon="pin"
+                    color="text-primary"
+                />
+
+                <div className="flex flex-col gap-3">
+                    <div className="flex items-center justify-between">
+                        <label className="text-xs font-semibold text-neutral-gray uppercase tracking-wider">Colunas (por ordem)</label>
+                        <button onClick={() => handleChange('payroll', 'transferFile', DEFAULT_TRANSFER_TEMPLATE)} className="text-xs font-medium text-primary hover:underline">
+                            Repor formato padrão
+                        </button>
+                    </div>
+                    <div className="border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-100 dark:divide-gray-800">
+                        {settings.payroll.transferFile.columns.map((column, index, columns) => (
+                            <div key={index} className="flex items-center gap-3 px-3 py-2">
+                                <span className="text-xs text-neutral-gray w-5">{index + 1}.</span>
+                                <select
+                                    value={column.field}
+                                    onChange={(e) => handleTransferFileChange({ columns: columns.map((c, i) => i === index ? { ...c, field: e.target.value as TransferFileField } : c) })}
+                                    className="flex-1 rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-2 py-1 text-sm outline-none focus:ring-2 focus:ring-primary"
+                                >
+                                    {(Object.keys(TRANSFER_FIELD_LABELS) as TransferFileField[]).map(field => (
+                                        <option key={field} value={field}>{TRANSFER_FIELD_LABELS[field]}</option>
+                                    ))}
+                                </select>
+                                {settings.payroll.transferFile.format === 'fixed' && (
+                                    <label className="flex items-center gap-1.5 text-xs text-neutral-gray">
+                                        Largura
+                                        <input
+                                            type="number" min="1"
+                                            value={column.width}
+                                            onChange={(e) => handleTransferFileChange({ columns: columns.map((c, i) => i === index ? { ...c, width: Math.max(1, Math.floor(Number(e.target.value)) || 1) } : c) })}
+                                            className="w-20 rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-2 py-1 text-sm outline-none focus:ring-2 focus:ring-primary"
+                                        />
+                                    </label>
+                                )}
+                                <div className="flex items-center">
+                                    <button onClick={() => moveTransferColumn(index, -1)} disabled={index === 0} title="Mover para cima" className="p-1 rounded-md text-neutral-gray hover:text-primary disabled:opacity-30">
+                                        <span className="material-symbols-outlined text-[18px]">arrow_upward</span>
+                                    </button>
+                                    <button onClick={() => moveTransferColumn(index, 1)} disabled={index === columns.length - 1} title="Mover para baixo" className="p-1 rounded-md text-neutral-gray hover:text-primary disabled:opacity-30">
+                                        <span className="material-symbols-outlined text-[18px]">arrow_downward</span>
+                                    </button>
+                                    <button
+                                        onClick={() => handleTransferFileChange({ columns: columns.filter((_, i) => i !== index) })}
+                                        title="Remover coluna"
+                                        className="p-1 rounded-md text-neutral-gray hover:text-warning hover:bg-warning/10 transition-colors"
+                                    >
+                                        <span className="material-symbols-outlined text-[18px]">delete</span>
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                    <button
+                        onClick={() => handleTransferFileChange({ columns: [...settings.payroll.transferFile.columns, { field: 'reference', width: 20 }] })}
+                        className="self-start text-xs font-medium text-primary hover:underline flex items-center gap-1"
+                    >
+                        <span className="material-symbols-outlined text-[14px]">add</span>
+                        Adicionar coluna
+                    </button>
+                    <p className="text-xs text-neutral-gray">Cada colaborador ocupa uma linha com o NIB, o nome e o salário líquido da folha. Na largura fixa o texto é completado com espaços e os valores com zeros à esquerda; só os nomes são cortados, e um NIB, valor ou descritivo maior do que a coluna impede a exportação. Colaboradores com NIB inválido ficam fora do ficheiro.</p>
+                </div>
+
+                <div className="flex justify-end pt-4 border-t border-gray-100 dark:border-gray-800">
+                  <SaveButton onClick={() => handleSave('payroll')} isSaving={isSaving} />
+                </div>
+            </div>
+          )}
+
+          {/* TAB F: SISTEMA */}
           {activeTab === 'system' && (
               <div className="space-y-8">
                  <div className="border-b border-gray-100 dark:border-gray-800 pb-4">
@@ -421,20 +958,72 @@ export const SettingsView: React.FC = () => {
                     />
                 </div>
 
-                <div className="mt-8 p-6 bg-gray-50 dark:bg-gray-800/50 rounded-xl border border-gray-200 dark:border-gray-700 flex items-center justify-between">
-                    <div>
-                        <h4 className="text-sm font-bold text-[#0d121b] dark:text-white">Backup de Segurança</h4>
-                        <p className="text-xs text-neutral-gray mt-1">Último backup: Hoje, 08:30</p>
+                {quarantined.length > 0 && (
+                  <div className="mt-8 p-6 bg-warning/5 rounded-xl border border-warning/30 flex items-center justify-between gap-4">
+                      <div>
+                          <h4 className="text-sm font-bold text-warning flex items-center gap-2">
+                              <span className="material-symbols-outlined text-[18px]">report</span>
+                              {quarantined.length} registo(s) inválido(s) em quarentena
+                          </h4>
+                          <p className="text-xs text-neutral-gray mt-1">Dados corrompidos ou incompletos encontrados ao carregar. Foram isolados para não afetar o sistema.</p>
+                      </div>
+                      <div className="flex gap-2 shrink-0">
+                          <button onClick={handleExportQuarantine} className="px-3 py-2 bg-white dark:bg-surface-dark border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-medium text-[#0d121b] dark:text-white hover:bg-gray-100 dark:hover:bg-gray-700 shadow-sm transition-colors flex items-center gap-2">
+                              <span className="material-symbols-outlined text-[18px]">download</span>
+                              Exportar
+                          </button>
+                          <button onClick={handleClearQuarantine} className="px-3 py-2 text-sm font-medium text-warning hover:bg-warning/10 rounded-lg transition-colors">
+                              Descartar
+                          </button>
+                      </div>
+                  </div>
+                )}
+
+                <div className="mt-8 p-6 bg-gray-50 dark:bg-gray-800/50 rounded-xl border border-gray-200 dark:border-gray-700 space-y-4">
+                    <div className="flex items-center justify-between gap-4">
+                        <div>
+                            <h4 className="text-sm font-bold text-[#0d121b] dark:text-white">Backup de Segurança</h4>
+                            <p className="text-xs text-neutral-gray mt-1">
+                                {lastBackup
+                                  ? `Último backup: ${formatDate(lastBackup)}, ${new Date(lastBackup).toLocaleTimeString('pt-PT', { hour: '2-digit', minute: '2-digit' })}`
+                                  : 'Nenhum backup criado neste computador.'}
+                            </p>
+                        </div>
+                        <div className="flex gap-2 shrink-0">
+                            <button onClick={() => restoreInputRef.current?.click()} className="px-4 py-2 bg-white dark:bg-surface-dark border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-medium text-[#0d121b] dark:text-white hover:bg-gray-100 dark:hover:bg-gray-700 shadow-sm transition-colors flex items-center gap-2">
+                                <span className="material-symbols-outlined text-[18px]">settings_backup_restore</span>
+                                Restaurar
+                            </button>
+                            <button onClick={handleBackup} className="px-4 py-2 bg-white dark:bg-surface-dark border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-medium text-[#0d121b] dark:text-white hover:bg-gray-100 dark:hover:bg-gray-700 shadow-sm transition-colors flex items-center gap-2">
+                                <span className="material-symbols-outlined text-[18px]">cloud_download</span>
+                                Backup Manual
+                            </button>
+                            <input ref={restoreInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleRestoreFile} />
+                        </div>
                     </div>
-                    <button className="px-4 py-2 bg-white dark:bg-surface-dark border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-medium text-[#0d121b] dark:text-white hover:bg-gray-100 dark:hover:bg-gray-700 shadow-sm transition-colors flex items-center gap-2">
-                        <span className="material-symbols-outlined text-[18px]">cloud_download</span>
-                        Backup Manual
-                    </button>
+                    <p className="text-xs text-neutral-gray">Inclui alunos, transações, eventos, colaboradores e configurações num único ficheiro. Guarde-o fora deste computador.</p>
+                    {backupError && (
+                        <p className="text-xs font-medium text-warning flex items-center gap-1">
+                            <span className="material-symbols-outlined text-[16px]">error</span>
+                            {backupError}
+                        </p>
+                    )}
                 </div>
               </div>
           )}
         </div>
       </div>
+
+      {/* Restore Confirmation */}
+      {pendingRestore && (
+        <RestorePreview
+          fileName={pendingRestore.fileName}
+          diff={pendingRestore.diff}
+          isRestoring={isRestoring}
+          onConfirm={handleConfirmRestore}
+          onCancel={() => setPendingRestore(null)}
+        />
+      )}
     </div>
   );
 };
@@ -506,3 +1095,129 @@ const SwitchItem: React.FC<{ label: string; description: string; checked: boolea
         </label>
     </div>
 );
+
+/**
+ * School-wide sibling discounts: every child of a family but the first enrolled gets them while they are valid.
+ * Saved at once (they are school data, not settings) and applied to the open tuition charges.
+ */
+const SiblingDiscountRules: React.FC = () => {
+    const { discounts, saveDiscount, deleteDiscount } = useSchoolData();
+    const [value, setValue] = useState('');
+    const [validFrom, setValidFrom] = useState(new Date().toISOString().split('T')[0]);
+    const [validTo, setValidTo] = useState('');
+    const rules = discounts.filter(d => d.kind === 'sibling' && !d.studentId).sort((a, b) => b.validFrom.localeCompare(a.validFrom));
+    const isValid = Number(value) > 0 && Number(value) <= 100 && (!validTo || validTo >= validFrom);
+
+    const handleAdd = async () => {
+        if (!isValid) return;
+        await saveDiscount({
+            id: Math.random().toString(36).substr(2, 9),
+            kind: 'sibling',
+            value: Number(value),
+            description: 'Desconto de irmãos',
+            validFrom,
+            ...(validTo && { validTo }),
+        });
+        setValue('');
+        setValidTo('');
+    };
+
+    const inputClasses = "w-full rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:ring-2 focus:ring-primary focus:border-transparent outline-none";
+
+    return (
+        <div className="flex flex-col gap-3">
+            <label className="text-xs font-semibold text-neutral-gray uppercase tracking-wider">Desconto de Irmãos</label>
+            {rules.length > 0 && (
+                <ul className="divide-y divide-gray-100 dark:divide-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
+                    {rules.map(rule => (
+                        <li key={rule.id} className="flex items-center justify-between px-4 py-2 text-sm">
+                            <span className="text-[#0d121b] dark:text-white">
+                                <strong>{rule.value}%</strong>
+                                <span className="text-neutral-gray ml-2">{formatDate(rule.validFrom)} – {rule.validTo ? formatDate(rule.validTo) : 'sem fim'}</span>
+                            </span>
+                            <button onClick={() => deleteDiscount(rule.id)} title="Remover" className="p-1 rounded-md text-neutral-gray hover:text-warning hover:bg-warning/10 transition-colors">
+                                <span className="material-symbols-outlined text-[18px]">delete</span>
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                <input type="number" min="0" max="100" value={value} onChange={(e) => setValue(e.target.value)} placeholder="Desconto (%)" className={inputClasses} />
+                <input type="date" value={validFrom} onChange={(e) => e.target.value && setValidFrom(e.target.value)} className={inputClasses} />
+                <input type="date" value={validTo} min={validFrom} onChange={(e) => setValidTo(e.target.value)} className={inputClasses} />
+                <button
+                    onClick={handleAdd}
+                    disabled={!isValid}
+                    className="px-4 py-2 text-sm font-medium text-primary border border-primary/30 rounded-lg hover:bg-primary/5 transition-colors disabled:opacity-50"
+                >
+                    Adicionar Regra
+                </button>
+            </div>
+            <p className="text-xs text-neutral-gray">Irmãos são identificados pelo telefone ou Nº de BI do pai ou da mãe. O primeiro filho matriculado paga a mensalidade completa.</p>
+        </div>
+    );
+};
+
+const COLLECTION_LABELS: Record<CollectionName, string> = {
+    students: 'Alunos',
+    transactions: 'Transações',
+    events: 'Eventos',
+    employees: 'Colaboradores',
+    classes: 'Turmas',
+    marks: 'Notas',
+    attendance: 'Presenças',
+    charges: 'Propinas',
+    discounts: 'Descontos',
+    plans: 'Acordos de Pagamento',
+    statementLines: 'Extratos Importados',
+    receipts: 'Recibos',
+    payroll: 'Folhas de Salário',
+};
+
+const RestorePreview: React.FC<{ fileName: string; diff: BackupDiff; isRestoring: boolean; onConfirm: () => void; onCancel: () => void }> = ({ fileName, diff, isRestoring, onConfirm, onCancel }) => (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+        <div className="absolute inset-0 bg-black/20 backdrop-blur-sm transition-opacity" onClick={isRestoring ? undefined : onCancel}></div>
+        <div className="relative w-full max-w-md bg-surface-light dark:bg-surface-dark rounded-xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200">
+            <div className="p-5 border-b border-[#e7ebf3] dark:border-gray-800 bg-gray-50/50 dark:bg-gray-800/50">
+                <h2 className="text-lg font-bold text-[#0d121b] dark:text-white">Restaurar Backup</h2>
+                <p className="text-xs text-neutral-gray mt-1 truncate">{fileName}</p>
+            </div>
+            <div className="p-5 space-y-4">
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-xs text-neutral-gray uppercase tracking-wider">
+                            <th className="text-left font-semibold pb-2"></th>
+                            <th className="text-right font-semibold pb-2">Novos</th>
+                            <th className="text-right font-semibold pb-2">Alterados</th>
+                            <th className="text-right font-semibold pb-2">Removidos</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+                        {(Object.keys(COLLECTION_LABELS) as CollectionName[]).map(name => (
+                            <tr key={name}>
+                                <td className="py-2 font-medium text-[#0d121b] dark:text-white">{COLLECTION_LABELS[name]}</td>
+                                <td className="py-2 text-right text-success">{diff.collections[name].added}</td>
+                                <td className="py-2 text-right text-primary">{diff.collections[name].changed}</td>
+                                <td className="py-2 text-right text-warning">{diff.collections[name].removed}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <p className="text-xs text-neutral-gray">
+                    Configurações: {diff.settingsChanged ? 'serão substituídas pelas do backup.' : 'sem alterações.'}
+                </p>
+                <p className="text-xs font-medium text-warning">Os dados atuais serão substituídos. Crie um backup antes de continuar se tiver dúvidas.</p>
+            </div>
+            <div className="p-5 border-t border-[#e7ebf3] dark:border-gray-800 flex justify-end gap-3">
+                <button onClick={onCancel} disabled={isRestoring} className="px-4 py-2 text-sm font-medium text-neutral-gray hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-50">
+                    Cancelar
+                </button>
+                <button onClick={onConfirm} disabled={isRestoring} className="px-4 py-2 bg-primary hover:bg-primary-dark text-white text-sm font-medium rounded-lg shadow-md transition-all flex items-center gap-2 disabled:opacity-70">
+                    {isRestoring && <span className="material-symbols-outlined animate-spin text-[18px]">progress_activity</span>}
+                    {isRestoring ? 'Restaurando...' : 'Aplicar Restauro'}
+                </button>
+            </div>
+        </div>
+    </div>
+);
@@ -1,29 +1,73 @@
 
 import React, { useState, useMemo } from 'react';
-import { Student, GradeLevel } from '../types';
+import { Student, StudentStatus, GradeLevel, ClassLetter, Shift } from '../types';
 import { StudentForm, StudentFormValues } from './students/StudentForm';
+import { ClassesPanel } from './students/ClassesPanel';
+import { MarksPanel } from './students/MarksPanel';
+import { AttendancePanel } from './students/AttendancePanel';
+import { DiscountsPanel } from './students/DiscountsPanel';
+import { TuitionPanel } from './students/TuitionPanel';
 import { useSchoolData } from '../contexts/SchoolDataContext';
+import { useSettings } from '../contexts/SettingsContext';
+import { StudentFinancialStatus, formatCurrency, formatDate } from '../lib/utils';
+import { createClass, formatClassName } from '../lib/classes';
+import { StudentListGrouping, generateReportCardPDF, generateStatementPDF, generateStudentListPDF } from '../lib/pdf-service';
+import { AVAILABLE_GRADES } from '../lib/constants';
+import { InvalidRecordError } from '../lib/repository';
+import { PdfExportMenu } from './PdfExportMenu';
+import { summarizeAttendance } from '../lib/attendance';
+import { LedgerEntryKind, StudentLedger, buildStudentLedger } from '../lib/ledger';
+import { AcademicSettings, RESULT_LABELS, StudentResults, TERM_LABELS, formatMark, getActiveTerms, getStudentResults } from '../lib/grading';
+
+// 'current' = everyone still enrolled (active + suspended); 'transferred' is the archive
+type StatusFilter = 'current' | StudentStatus;
+
+const STATUS_LABELS: Record<StudentStatus, string> = {
+  active: 'Ativo',
+  suspended: 'Suspenso',
+  transferred: 'Transferido',
+};
+
+const STUDENT_LIST_GROUPINGS: { value: StudentListGrouping; label: string }[] = [
+  { value: 'none', label: 'Sem agrupamento' },
+  { value: 'grade', label: 'Por classe' },
+  { value: 'class', label: 'Por turma' },
+];
 
 export const StudentsView: React.FC = () => {
-  const { students, addStudent } = useSchoolData();
+  const { students, classes, marks, attendance, charges, transactions, financialStatuses, addStudent, updateStudent, changeStudentStatus, saveClass } = useSchoolData();
+  const { settings } = useSettings();
   
   const [selectedStudent, setSelectedStudent] = useState<Student | null>(null);
   const [isSheetOpen, setIsSheetOpen] = useState(false);
-  const [activeTab, setActiveTab] = useState<'personal' | 'academic' | 'guardians' | 'health'>('personal');
+  const [activeTab, setActiveTab] = useState<'personal' | 'academic' | 'finance' | 'guardians' | 'health'>('personal');
   const [isCreatingNew, setIsCreatingNew] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isChangingStatus, setIsChangingStatus] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('current');
+  const [gradeFilter, setGradeFilter] = useState<GradeLevel | ''>('');
+  const [viewMode, setViewMode] = useState<'students' | 'classes' | 'marks' | 'attendance'>('students');
   const [toastMessage, setToastMessage] = useState<string | null>(null);
 
+  // Always show the latest saved copy of the open student
+  const currentStudent = selectedStudent ? students.find(s => s.id === selectedStudent.id) ?? selectedStudent : null;
+  const enrolledStudents = students.filter(s => s.status !== 'transferred');
+
   // --- Filtering Logic ---
   const filteredStudents = useMemo(() => {
-    if (!searchTerm) return students;
+    const byStatus = students.filter(student =>
+      (statusFilter === 'current' ? student.status !== 'transferred' : student.status === statusFilter)
+      && (!gradeFilter || student.grade === gradeFilter)
+    );
+    if (!searchTerm) return byStatus;
     const lowerTerm = searchTerm.toLowerCase();
-    return students.filter(student => 
+    return byStatus.filter(student => 
       student.name.toLowerCase().includes(lowerTerm) ||
       student.enrollmentId.toLowerCase().includes(lowerTerm) ||
       student.grade.toLowerCase().includes(lowerTerm)
     );
-  }, [students, searchTerm]);
+  }, [students, searchTerm, statusFilter, gradeFilter]);
 
   // --- Actions ---
 
@@ -36,6 +80,7 @@ export const StudentsView: React.FC = () => {
       setActiveTab('personal');
       setIsCreatingNew(false);
     }
+    setIsEditing(false);
     setIsSheetOpen(true);
   };
 
@@ -44,22 +89,31 @@ export const StudentsView: React.FC = () => {
     setTimeout(() => {
         setSelectedStudent(null);
         setIsCreatingNew(false);
+        setIsEditing(false);
     }, 300);
   };
 
+  const showToast = (msg: string) => {
+    setToastMessage(msg);
+    setTimeout(() => setToastMessage(null), 3000);
+  };
+
   const handleExportCSV = () => {
-    const headers = ["ID Matrícula", "Nome", "Email", "Classe", "Status Financeiro", "Status Acadêmico", "Responsável"];
+    const headers = ["ID Matrícula", "Nome", "Email", "Classe", "Status Financeiro", "Dias em Atraso", "Valor em Dívida", "Status Acadêmico", "Responsável"];
     const csvContent = [
       headers.join(","),
       ...filteredStudents.map(s => {
         const guardianName = s.guardians.financialResponsible === 'Father' ? s.guardians.father.name : s.guardians.mother.name;
+        const finance = financialStatuses[s.id];
         // Escape quotes and wrap strings in quotes to handle commas within data
         return [
           `"${s.enrollmentId}"`,
           `"${s.name}"`,
           `"${s.email}"`,
           `"${s.grade}"`,
-          `"${s.financialStatus}"`,
+          `"${finance?.status ?? s.financialStatus}"`,
+          `${finance?.daysOverdue ?? 0}`,
+          `${(finance?.amountOwed ?? 0).toFixed(2)}`,
           `"${s.status}"`,
           `"${guardianName}"`
         ].join(",");
@@ -76,66 +130,152 @@ export const StudentsView: React.FC = () => {
     document.body.removeChild(link);
   };
 
-  const handleAddNewStudent = (formData: StudentFormValues) => {
-    const newStudent: Student = {
-        id: Math.random().toString(36).substr(2, 9),
+  /**
+   * Builds a student from the enrolment form. When editing, fields the form does not cover
+   * (financial data, status, documents, notes...) are kept from `existing`.
+   */
+  const fromFormValues = (formData: StudentFormValues, existing?: Student): Student => {
+    const financialResponsible = formData.guardians.financialResp === 'pai' ? 'Father' : formData.guardians.financialResp === 'mae' ? 'Mother' : 'Other';
+    return {
+        id: existing?.id ?? Math.random().toString(36).substr(2, 9),
         name: formData.personal.fullName,
-        email: `${formData.personal.fullName.split(' ')[0].toLowerCase()}@student.seiva.mz`,
+        email: existing?.email ?? `${formData.personal.fullName.split(' ')[0].toLowerCase()}@student.seiva.mz`,
         // Use the uploaded base64 avatar if present, otherwise fallback to UI Avatars
-        avatar: formData.avatarBase64 || `https://ui-avatars.com/api/?name=${encodeURIComponent(formData.personal.fullName)}&background=random`,
-        enrollmentId: `#${new Date().getFullYear()}-${Math.floor(Math.random() * 1000)}`,
+        avatar: formData.avatarBase64 || existing?.avatar || `https://ui-avatars.com/api/?name=${encodeURIComponent(formData.personal.fullName)}&background=random`,
+        enrollmentId: existing?.enrollmentId ?? `#${new Date().getFullYear()}-${Math.floor(Math.random() * 1000)}`,
         grade: formData.academic.grade as GradeLevel,
-        balance: 0,
-        status: 'active',
-        financialStatus: 'pending',
-        paidMonths: [],
+        balance: existing?.balance ?? 0,
+        status: existing?.status ?? 'active',
+        statusHistory: existing?.statusHistory,
+        financialStatus: existing?.financialStatus ?? 'pending',
+        paidMonths: existing?.paidMonths ?? [],
         personal: {
             dob: formData.personal.dob,
             gender: formData.personal.gender === 'masculino' ? 'M' : 'F',
             nationality: formData.personal.nationality,
             biNumber: formData.personal.documentId,
             address: formData.personal.address,
-            city: 'Maputo' // Defaulting for now
+            city: existing?.personal.city ?? 'Maputo' // Defaulting for now
         },
         academic: {
             enrollmentDate: formData.academic.enrollmentDate,
-            prevSchool: '',
-            submittedDocs: []
+            prevSchool: existing?.academic.prevSchool ?? '',
+            submittedDocs: existing?.academic.submittedDocs ?? [],
+            year: formData.academic.year,
+            classLetter: formData.academic.classLetter as ClassLetter,
+            shift: formData.academic.shift as Shift
         },
         guardians: {
             father: { 
                 name: formData.guardians.fatherName || '', 
                 phone: formData.guardians.fatherPhone || '', 
-                email: '', 
-                profession: '' 
+                biNumber: formData.guardians.fatherBi || undefined,
+                email: existing?.guardians.father.email ?? '', 
+                profession: existing?.guardians.father.profession ?? '' 
             },
             mother: { 
                 name: formData.guardians.motherName, 
                 phone: formData.guardians.motherPhone, 
-                email: '', 
-                profession: '' 
+                biNumber: formData.guardians.motherBi || undefined,
+                email: existing?.guardians.mother.email ?? '', 
+                profession: existing?.guardians.mother.profession ?? '' 
             },
-            emergency: { 
+            emergency: existing?.guardians.emergency ?? { 
                 name: formData.guardians.motherName, 
                 relation: 'Mãe', 
                 phone: formData.guardians.motherPhone 
             },
-            financialResponsible: formData.guardians.financialResp === 'pai' ? 'Father' : formData.guardians.financialResp === 'mae' ? 'Mother' : 'Other'
+            financialResponsible,
+            financialEmail: formData.guardians.financialEmail,
+            financialNuit: formData.guardians.financialNuit || undefined
         },
         health: {
             bloodType: formData.health.bloodType,
             allergies: formData.health.allergies || '',
-            conditions: '',
-            notes: ''
+            conditions: existing?.health.conditions ?? '',
+            notes: existing?.health.notes ?? ''
         }
     };
+  };
 
-    addStudent(newStudent);
+  // The first student placed in a turma creates it with the default capacity
+  const ensureClassExists = (student: Student) => {
+    const { year, classLetter, shift } = student.academic;
+    if (!year || !classLetter || !shift) return;
+    const schoolClass = createClass(year, student.grade, classLetter, shift);
+    if (!classes.some(c => c.id === schoolClass.id)) saveClass(schoolClass);
+  };
+
+  // A record the storage refuses keeps the form open, with the reason in the toast
+  const reportInvalid = (error: unknown) => {
+    if (!(error instanceof InvalidRecordError)) throw error;
+    showToast(error.message);
+  };
+
+  const handleAddNewStudent = async (formData: StudentFormValues) => {
+    const newStudent = fromFormValues(formData);
+    try {
+      await addStudent(newStudent);
+    } catch (error) {
+      return reportInvalid(error);
+    }
+    ensureClassExists(newStudent);
     closeSheet();
     
     // Show Toast
-    setToastMessage(`Aluno ${newStudent.name} matriculado com sucesso!`);
-    setTimeout(() => setToastMessage(null), 3000);
+    showToast(`Aluno ${newStudent.name} matriculado com sucesso!`);
+  };
+
+  const handleUpdateStudent = async (formData: StudentFormValues) => {
+    if (!currentStudent) return;
+    const updated = fromFormValues(formData, currentStudent);
+    try {
+      await updateStudent(updated);
+    } catch (error) {
+      return reportInvalid(error);
+    }
+    ensureClassExists(updated);
+    setIsEditing(false);
+    showToast('Dados do aluno atualizados com sucesso!');
+  };
+
+  // The list as filtered on screen; the filters are printed under the title
+  const handleExportPDF = (groupBy: StudentListGrouping) => {
+    const filters = [
+      searchTerm && `Pesquisa "${searchTerm}"`,
+      statusFilter === 'current' ? 'Matriculados' : STATUS_LABELS[statusFilter],
+    ].filter(Boolean).join(' · ');
+    generateStudentListPDF(filteredStudents, settings.profile, gradeFilter || 'Geral', { groupBy, filters });
+    showToast("Lista de alunos gerada com sucesso!");
+  };
+
+  const handleChangeStatus = async (status: StudentStatus, reason: string, date: string) => {
+    if (!currentStudent) return;
+    await changeStudentStatus(currentStudent.id, status, reason, date);
+    setIsChangingStatus(false);
+    showToast(status === 'transferred'
+      ? `${currentStudent.name} foi transferido e movido para o arquivo.`
+      : `Situação alterada para ${STATUS_LABELS[status]}.`);
+  };
+
+  const studentYear = (student: Student) => student.academic.year || settings.academic.currentYear;
+
+  const studentClassName = (student: Student) => {
+    const { classLetter, shift } = student.academic;
+    return classLetter && shift ? formatClassName({ grade: student.grade, letter: classLetter, shift }) : student.grade;
+  };
+
+  // Boletim up to the last active trimester
+  const handlePrintReportCard = (student: Student) => {
+    const terms = getActiveTerms(settings.academic);
+    if (terms.length === 0) return;
+    generateReportCardPDF({
+      student,
+      className: studentClassName(student),
+      year: studentYear(student),
+      results: getStudentResults(student, marks, studentYear(student), settings.academic),
+      attendance: summarizeAttendance(attendance, student.id, `${studentYear(student)}-01-01`, `${studentYear(student)}-12-31`),
+    }, settings.academic, terms[terms.length - 1], settings.profile);
   };
 
   return (
@@ -167,6 +307,7 @@ export const StudentsView: React.FC = () => {
                 <span className="material-symbols-outlined text-[18px]">download</span>
                 Exportar CSV
              </button>
+             <PdfExportMenu options={STUDENT_LIST_GROUPINGS} onExport={handleExportPDF} disabled={filteredStudents.length === 0} />
              <button 
                 onClick={() => openSheet(null)}
                 className="px-4 py-2 text-sm font-medium text-white bg-primary rounded-lg hover:bg-primary-dark transition-colors flex items-center gap-2 shadow-sm"
@@ -178,12 +319,37 @@ export const StudentsView: React.FC = () => {
         </div>
 
         {/* Quick Stats Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <StatCard label="Total de Alunos" value={students.length.toString()} icon="groups" color="text-primary" />
-            <StatCard label="Novas Matrículas" value={students.filter(s => new Date(s.academic.enrollmentDate).getMonth() === new Date().getMonth()).length.toString()} sub="Este Mês" icon="person_add" color="text-success" />
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <StatCard label="Total de Alunos" value={enrolledStudents.length.toString()} icon="groups" color="text-primary" />
+            <StatCard label="Novas Matrículas" value={enrolledStudents.filter(s => new Date(s.academic.enrollmentDate).getMonth() === new Date().getMonth()).length.toString()} sub="Este Mês" icon="person_add" color="text-success" />
+            <StatCard label="Arquivo" value={(students.length - enrolledStudents.length).toString()} sub="Transferidos" icon="inventory_2" color="text-neutral-gray" />
         </div>
       </div>
 
+      {/* View Toggle */}
+      <div className="flex gap-1 p-1 bg-gray-100 dark:bg-gray-800 rounded-lg w-fit">
+        {([['students', 'Alunos', 'groups'], ['classes', 'Turmas', 'meeting_room'], ['marks', 'Notas', 'grading'], ['attendance', 'Presenças', 'event_available']] as const).map(([mode, label, icon]) => (
+            <button
+                key={mode}
+                onClick={() => setViewMode(mode)}
+                className={`px-4 py-1.5 text-sm font-medium rounded-md flex items-center gap-2 transition-colors ${
+                    viewMode === mode ? 'bg-white dark:bg-surface-dark text-primary shadow-sm' : 'text-neutral-gray hover:text-[#0d121b] dark:hover:text-white'
+                }`}
+            >
+                <span className="material-symbols-outlined text-[18px]">{icon}</span>
+                {label}
+            </button>
+        ))}
+      </div>
+
+      {viewMode === 'classes' ? (
+        <ClassesPanel onOpenStudent={openSheet} />
+      ) : viewMode === 'marks' ? (
+        <MarksPanel />
+      ) : viewMode === 'attendance' ? (
+        <AttendancePanel />
+      ) : (
+      <>
       {/* 2. Toolbar & Filters */}
       <div className="bg-surface-light dark:bg-surface-dark p-4 rounded-xl border border-[#e7ebf3] dark:border-gray-700 shadow-sm flex flex-col sm:flex-row gap-4 items-center justify-between">
          <div className="relative w-full sm:w-96">
@@ -197,15 +363,23 @@ export const StudentsView: React.FC = () => {
             />
          </div>
          <div className="flex w-full sm:w-auto gap-3 overflow-x-auto pb-1 sm:pb-0">
-            <select className="px-3 py-2 bg-background-light dark:bg-gray-800 rounded-lg text-sm border-transparent focus:border-primary outline-none cursor-pointer min-w-[140px]">
+            <select
+                value={gradeFilter}
+                onChange={(e) => setGradeFilter(e.target.value as GradeLevel | '')}
+                className="px-3 py-2 bg-background-light dark:bg-gray-800 rounded-lg text-sm border-transparent focus:border-primary outline-none cursor-pointer min-w-[140px]"
+            >
                 <option value="">Todas as Classes</option>
-                <option value="6a">6ª Classe</option>
-                <option value="1a">1ª Classe</option>
+                {AVAILABLE_GRADES.map(grade => <option key={grade} value={grade}>{grade}</option>)}
             </select>
-            <select className="px-3 py-2 bg-background-light dark:bg-gray-800 rounded-lg text-sm border-transparent focus:border-primary outline-none cursor-pointer min-w-[140px]">
-                <option value="">Status: Todos</option>
+            <select 
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+                className="px-3 py-2 bg-background-light dark:bg-gray-800 rounded-lg text-sm border-transparent focus:border-primary outline-none cursor-pointer min-w-[140px]"
+            >
+                <option value="current">Status: Matriculados</option>
                 <option value="active">Ativo</option>
                 <option value="suspended">Suspenso</option>
+                <option value="transferred">Arquivo (Transferidos)</option>
             </select>
          </div>
       </div>
@@ -243,7 +417,11 @@ export const StudentsView: React.FC = () => {
                                     </div>
                                 </td>
                                 <td className="py-4 px-6 text-sm font-medium text-neutral-gray">{student.enrollmentId}</td>
-                                <td className="py-4 px-6 text-sm text-[#0d121b] dark:text-white">{student.grade}</td>
+                                <td className="py-4 px-6 text-sm text-[#0d121b] dark:text-white">
+                                    {student.academic.classLetter && student.academic.shift
+                                      ? formatClassName({ grade: student.grade, letter: student.academic.classLetter, shift: student.academic.shift })
+                                      : student.grade}
+                                </td>
                                 <td className="py-4 px-6">
                                     <div className="flex items-center gap-2 group/guardian">
                                         <span className="text-sm text-[#0d121b] dark:text-white">{student.guardians.financialResponsible === 'Father' ? student.guardians.father.name : student.guardians.mother.name}</span>
@@ -256,7 +434,12 @@ export const StudentsView: React.FC = () => {
                                     </div>
                                 </td>
                                 <td className="py-4 px-6">
-                                    <StatusBadge status={student.financialStatus} type="financial" />
+                                    <StatusBadge status={financialStatuses[student.id]?.status ?? student.financialStatus} type="financial" />
+                                    {financialStatuses[student.id]?.status === 'late' && (
+                                        <p className="text-[11px] text-neutral-gray mt-1">
+                                            {financialStatuses[student.id].daysOverdue} dias · {formatCurrency(financialStatuses[student.id].amountOwed)}
+                                        </p>
+                                    )}
                                 </td>
                                 <td className="py-4 px-6">
                                     <StatusBadge status={student.status} type="academic" />
@@ -273,7 +456,7 @@ export const StudentsView: React.FC = () => {
                             <td colSpan={7} className="py-12 text-center text-neutral-gray">
                                 <div className="flex flex-col items-center gap-2">
                                     <span className="material-symbols-outlined text-4xl opacity-50">search_off</span>
-                                    <p>Nenhum aluno encontrado.</p>
+                                    <p>{statusFilter === 'transferred' ? 'Nenhum aluno no arquivo.' : 'Nenhum aluno encontrado.'}</p>
                                 </div>
                             </td>
                         </tr>
@@ -283,6 +466,9 @@ export const StudentsView: React.FC = () => {
         </div>
       </div>
 
+      </>
+      )}
+
       {/* 4. Slide-over Sheet Details */}
       {isSheetOpen && (
           <div className="fixed inset-0 z-50 flex justify-end">
@@ -297,8 +483,8 @@ export const StudentsView: React.FC = () => {
                   {/* Sheet Header */}
                   <div className="p-6 border-b border-[#e7ebf3] dark:border-gray-800 flex items-center justify-between bg-gray-50/50 dark:bg-gray-800/50">
                       <div className="flex items-center gap-4">
-                        {!isCreatingNew && selectedStudent ? (
-                            <img src={selectedStudent.avatar} alt="Avatar" className="size-16 rounded-full border-2 border-white dark:border-gray-700 shadow-sm object-cover" />
+                        {!isCreatingNew && currentStudent ? (
+                            <img src={currentStudent.avatar} alt="Avatar" className="size-16 rounded-full border-2 border-white dark:border-gray-700 shadow-sm object-cover" />
                         ) : (
                             <div className="size-16 rounded-full bg-primary/10 dark:bg-gray-700 flex items-center justify-center border-2 border-white dark:border-gray-700 shadow-sm">
                                 <span className="material-symbols-outlined text-3xl text-primary dark:text-gray-400">{isCreatingNew ? 'person_add' : 'person'}</span>
@@ -306,11 +492,14 @@ export const StudentsView: React.FC = () => {
                         )}
                         <div>
                             <h2 className="text-xl font-bold text-[#0d121b] dark:text-white">
-                                {isCreatingNew ? 'Nova Matrícula' : selectedStudent?.name}
+                                {isCreatingNew ? 'Nova Matrícula' : currentStudent?.name}
                             </h2>
                             <p className="text-sm text-neutral-gray">
-                                {isCreatingNew ? 'Preencha os dados do novo estudante' : `Matrícula: ${selectedStudent?.enrollmentId} • ${selectedStudent?.grade}`}
+                                {isCreatingNew ? 'Preencha os dados do novo estudante' : `Matrícula: ${currentStudent?.enrollmentId} • ${currentStudent?.grade}`}
                             </p>
+                            {!isCreatingNew && currentStudent && (
+                                <div className="mt-1.5"><StatusBadge status={currentStudent.status} type="academic" /></div>
+                            )}
                         </div>
                       </div>
                       <button onClick={closeSheet} className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors">
@@ -319,15 +508,19 @@ export const StudentsView: React.FC = () => {
                   </div>
 
                   {/* Render Student Form OR Tabs for Existing Student */}
-                  {isCreatingNew ? (
+                  {isCreatingNew || (isEditing && currentStudent) ? (
                     <div className="flex-1 overflow-y-auto p-6 scroll-smooth">
-                        <StudentForm onSuccess={handleAddNewStudent} onCancel={closeSheet} />
+                        {isCreatingNew ? (
+                            <StudentForm onSuccess={handleAddNewStudent} onCancel={closeSheet} />
+                        ) : (
+                            <StudentForm initialData={currentStudent!} onSuccess={handleUpdateStudent} onCancel={() => setIsEditing(false)} />
+                        )}
                     </div>
                   ) : (
                     <>
                         {/* Tabs */}
                         <div className="flex border-b border-[#e7ebf3] dark:border-gray-800 px-6 gap-6">
-                            {['personal', 'academic', 'guardians', 'health'].map((tab) => (
+                            {['personal', 'academic', 'finance', 'guardians', 'health'].map((tab) => (
                                 <button
                                     key={tab}
                                     onClick={() => setActiveTab(tab as any)}
@@ -339,6 +532,7 @@ export const StudentsView: React.FC = () => {
                                 >
                                     {tab === 'personal' && 'Dados Pessoais'}
                                     {tab === 'academic' && 'Acadêmico'}
+                                    {tab === 'finance' && 'Financeiro'}
                                     {tab === 'guardians' && 'Encarregados'}
                                     {tab === 'health' && 'Saúde & Obs'}
                                 </button>
@@ -347,28 +541,69 @@ export const StudentsView: React.FC = () => {
 
                         {/* Sheet Content (Scrollable) */}
                         <div className="flex-1 overflow-y-auto p-6">
-                            {selectedStudent && (
+                            {currentStudent && (
                                 <div className="space-y-6">
-                                    {activeTab === 'personal' && <PersonalTab student={selectedStudent} />}
-                                    {activeTab === 'academic' && <AcademicTab student={selectedStudent} />}
-                                    {activeTab === 'guardians' && <GuardiansTab student={selectedStudent} />}
-                                    {activeTab === 'health' && <HealthTab student={selectedStudent} />}
+                                    {activeTab === 'personal' && <PersonalTab student={currentStudent} />}
+                                    {activeTab === 'academic' && (
+                                        <AcademicTab
+                                            student={currentStudent}
+                                            results={getStudentResults(currentStudent, marks, studentYear(currentStudent), settings.academic)}
+                                            academic={settings.academic}
+                                            onPrintReportCard={() => handlePrintReportCard(currentStudent)}
+                                        />
+                                    )}
+                                    {activeTab === 'finance' && (
+                                        <>
+                                            <FinanceTab
+                                                ledger={buildStudentLedger(currentStudent.id, charges, transactions, settings.financial)}
+                                                finance={financialStatuses[currentStudent.id]}
+                                                onPrintStatement={(ledger) => generateStatementPDF(currentStudent, studentClassName(currentStudent), ledger, settings.profile, financialStatuses[currentStudent.id])}
+                                            />
+                                            <TuitionPanel student={currentStudent} />
+                                            <DiscountsPanel student={currentStudent} />
+                                        </>
+                                    )}
+                                    {activeTab === 'guardians' && <GuardiansTab student={currentStudent} />}
+                                    {activeTab === 'health' && <HealthTab student={currentStudent} />}
                                 </div>
                             )}
                         </div>
 
                          {/* Sheet Footer */}
-                         <div className="p-6 border-t border-[#e7ebf3] dark:border-gray-800 flex justify-end gap-3 bg-gray-50/50 dark:bg-gray-800/50">
-                            <button onClick={closeSheet} className="px-4 py-2 text-sm font-medium text-neutral-gray hover:text-[#0d121b] transition-colors">Cancelar</button>
-                            <button className="px-6 py-2 text-sm font-medium text-white bg-primary rounded-lg hover:bg-primary-dark shadow-sm transition-colors">
-                                Salvar Alterações
+                         <div className="p-6 border-t border-[#e7ebf3] dark:border-gray-800 flex justify-between gap-3 bg-gray-50/50 dark:bg-gray-800/50">
+                            <button 
+                                onClick={() => setIsChangingStatus(true)}
+                                className="px-4 py-2 text-sm font-medium text-neutral-gray border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors flex items-center gap-2"
+                            >
+                                <span className="material-symbols-outlined text-[18px]">swap_horiz</span>
+                                Alterar Situação
                             </button>
+                            <div className="flex gap-3">
+                                <button onClick={closeSheet} className="px-4 py-2 text-sm font-medium text-neutral-gray hover:text-[#0d121b] transition-colors">Fechar</button>
+                                <button 
+                                    onClick={() => setIsEditing(true)}
+                                    disabled={currentStudent?.status === 'transferred'}
+                                    className="px-6 py-2 text-sm font-medium text-white bg-primary rounded-lg hover:bg-primary-dark shadow-sm transition-colors flex items-center gap-2 disabled:opacity-50"
+                                >
+                                    <span className="material-symbols-outlined text-[18px]">edit</span>
+                                    Editar Dados
+                                </button>
+                            </div>
                         </div>
                     </>
                   )}
               </div>
           </div>
       )}
+
+      {/* 5. Status Transition Dialog */}
+      {isChangingStatus && currentStudent && (
+          <StatusChangeDialog 
+            student={currentStudent} 
+            onConfirm={handleChangeStatus} 
+            onClose={() => setIsChangingStatus(false)} 
+          />
+      )}
     </div>
   );
 };
@@ -422,7 +657,8 @@ const Field: React.FC<{ label: string; value: string }> = ({ label, value }) =>
         <label className="text-xs font-semibold text-neutral-gray uppercase tracking-wider">{label}</label>
         <input 
             type="text" 
-            defaultValue={value} 
+            value={value} 
+            readOnly
             className="w-full px-3 py-2 bg-background-light dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-sm text-[#0d121b] dark:text-white focus:ring-1 focus:ring-primary focus:border-primary outline-none"
         />
     </div>
@@ -442,10 +678,14 @@ const PersonalTab: React.FC<{ student: Student }> = ({ student }) => (
     </div>
 );
 
-const AcademicTab: React.FC<{ student: Student }> = ({ student }) => (
+const AcademicTab: React.FC<{ student: Student; results: StudentResults; academic: AcademicSettings; onPrintReportCard: () => void }> = ({ student, results, academic, onPrintReportCard }) => (
     <div className="space-y-6">
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <Field label="Classe Atual" value={student.grade} />
+            <Field label="Turma" value={student.academic.classLetter && student.academic.shift
+                ? formatClassName({ grade: student.grade, letter: student.academic.classLetter, shift: student.academic.shift })
+                : 'Por atribuir'} />
+            <Field label="Ano Letivo" value={student.academic.year || '—'} />
             <Field label="Data de Matrícula" value={student.academic.enrollmentDate} />
             <Field label="Escola Anterior" value={student.academic.prevSchool} />
         </div>
@@ -456,7 +696,8 @@ const AcademicTab: React.FC<{ student: Student }> = ({ student }) => (
                     <label key={doc} className="flex items-center gap-2 p-3 border border-[#e7ebf3] dark:border-gray-700 rounded-lg cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors">
                         <input 
                             type="checkbox" 
-                            defaultChecked={student.academic.submittedDocs.includes(doc)}
+                            checked={student.academic.submittedDocs.includes(doc)}
+                            readOnly
                             className="text-primary rounded focus:ring-primary"
                         />
                         <span className="text-sm font-medium">{doc}</span>
@@ -464,6 +705,157 @@ const AcademicTab: React.FC<{ student: Student }> = ({ student }) => (
                 ))}
             </div>
         </div>
+        <ResultsTable results={results} academic={academic} onPrint={onPrintReportCard} />
+        <div>
+            <label className="text-xs font-semibold text-neutral-gray uppercase tracking-wider block mb-3">Histórico de Situação</label>
+            {student.statusHistory && student.statusHistory.length > 0 ? (
+                <ol className="space-y-3 border-l-2 border-gray-100 dark:border-gray-800 pl-4">
+                    {[...student.statusHistory].reverse().map((change) => (
+                        <li key={change.changedAt} className="relative">
+                            <span className="absolute -left-[21px] top-1.5 size-2.5 rounded-full bg-primary"></span>
+                            <p className="text-sm font-medium text-[#0d121b] dark:text-white">
+                                {STATUS_LABELS[change.from]} → {STATUS_LABELS[change.to]}
+                                <span className="text-xs font-normal text-neutral-gray ml-2">{formatDate(change.date)}</span>
+                            </p>
+                            <p className="text-xs text-neutral-gray">{change.reason}</p>
+                        </li>
+                    ))}
+                </ol>
+            ) : (
+                <p className="text-sm text-neutral-gray">Sem alterações de situação desde a matrícula.</p>
+            )}
+        </div>
+    </div>
+);
+
+const RESULT_STYLES: Record<StudentResults['result'], string> = {
+    approved: 'bg-green-50 text-green-700 border-green-200',
+    failed: 'bg-red-50 text-red-700 border-red-200',
+    incomplete: 'bg-gray-100 text-gray-600 border-gray-200',
+};
+
+const ResultsTable: React.FC<{ results: StudentResults; academic: AcademicSettings; onPrint: () => void }> = ({ results, academic, onPrint }) => {
+    const terms = getActiveTerms(academic);
+    const system = academic.gradingSystem;
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-3">
+                <label className="text-xs font-semibold text-neutral-gray uppercase tracking-wider">Aproveitamento</label>
+                <div className="flex items-center gap-2">
+                    <span className={`px-2.5 py-0.5 rounded-full text-xs font-semibold border ${RESULT_STYLES[results.result]}`}>
+                        {RESULT_LABELS[results.result]}
+                    </span>
+                    {terms.length > 0 && (
+                        <button onClick={onPrint} title="Imprimir Boletim" className="p-1 rounded-md text-neutral-gray hover:text-primary hover:bg-primary/10 transition-colors">
+                            <span className="material-symbols-outlined text-[18px]">print</span>
+                        </button>
+                    )}
+                </div>
+            </div>
+            <div className="border border-[#e7ebf3] dark:border-gray-700 rounded-lg overflow-hidden">
+                <table className="w-full text-sm">
+                    <thead className="bg-gray-50 dark:bg-gray-800/50 text-xs text-neutral-gray uppercase">
+                        <tr>
+                            <th className="py-2 px-3 text-left font-semibold">Disciplina</th>
+                            {terms.map(term => <th key={term} className="py-2 px-3 text-center font-semibold">{TERM_LABELS[term].split(' ')[0]}</th>)}
+                            <th className="py-2 px-3 text-right font-semibold">Média</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-[#e7ebf3] dark:divide-gray-800">
+                        {results.subjects.map(row => (
+                            <tr key={row.subject}>
+                                <td className="py-2 px-3 text-[#0d121b] dark:text-white">{row.subject}</td>
+                                {terms.map(term => (
+                                    <td key={term} className="py-2 px-3 text-center text-neutral-gray">{formatMark(row.terms[term] ?? null, system)}</td>
+                                ))}
+                                <td className={`py-2 px-3 text-right font-semibold ${row.passed === null ? 'text-neutral-gray' : row.passed ? 'text-success' : 'text-warning'}`}>
+                                    {formatMark(row.average, system)}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                    <tfoot className="bg-gray-50 dark:bg-gray-800/50">
+                        <tr>
+                            <td colSpan={terms.length + 1} className="py-2 px-3 font-semibold text-[#0d121b] dark:text-white">Média Geral</td>
+                            <td className="py-2 px-3 text-right font-bold text-[#0d121b] dark:text-white">{formatMark(results.average, system)}</td>
+                        </tr>
+                    </tfoot>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+const LEDGER_KIND_STYLES: Record<LedgerEntryKind, string> = {
+    charge: 'text-neutral-gray',
+    fee: 'text-warning',
+    discount: 'text-blue-600',
+    payment: 'text-success',
+};
+
+const FinanceTab: React.FC<{ ledger: StudentLedger; finance?: StudentFinancialStatus; onPrintStatement: (ledger: StudentLedger) => void }> = ({ ledger, finance, onPrintStatement }) => (
+    <div className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="p-4 rounded-lg border border-[#e7ebf3] dark:border-gray-700">
+                <p className="text-xs font-semibold text-neutral-gray uppercase tracking-wider">{ledger.balance > 0 ? 'Saldo em Dívida' : 'Saldo a Favor'}</p>
+                <p className={`text-lg font-bold mt-1 ${ledger.balance > 0 ? 'text-warning' : 'text-success'}`}>{formatCurrency(Math.abs(ledger.balance))}</p>
+            </div>
+            <div className="p-4 rounded-lg border border-[#e7ebf3] dark:border-gray-700">
+                <p className="text-xs font-semibold text-neutral-gray uppercase tracking-wider">Total Debitado</p>
+                <p className="text-lg font-bold mt-1 text-[#0d121b] dark:text-white">{formatCurrency(ledger.totalDebit)}</p>
+            </div>
+            <div className="p-4 rounded-lg border border-[#e7ebf3] dark:border-gray-700">
+                <p className="text-xs font-semibold text-neutral-gray uppercase tracking-wider">Total Pago</p>
+                <p className="text-lg font-bold mt-1 text-[#0d121b] dark:text-white">{formatCurrency(ledger.totalCredit - ledger.totalDiscount)}</p>
+                {ledger.totalDiscount > 0 && <p className="text-xs text-blue-600 mt-0.5">+ {formatCurrency(ledger.totalDiscount)} em descontos</p>}
+            </div>
+        </div>
+        {finance && finance.status !== 'paid' && (
+            <div className="flex items-center gap-2 text-sm">
+                <StatusBadge status={finance.status} type="financial" />
+                <span className="text-neutral-gray">
+                    {finance.status === 'late'
+                        ? `${finance.lateMonths.length} ${finance.lateMonths.length === 1 ? 'mês' : 'meses'} em atraso, o mais antigo há ${finance.daysOverdue} dias`
+                        : `${finance.unpaidMonths.length} ${finance.unpaidMonths.length === 1 ? 'mês' : 'meses'} por pagar dentro do prazo`}
+                </span>
+            </div>
+        )}
+        <div>
+            <div className="flex items-center justify-between mb-3">
+                <label className="text-xs font-semibold text-neutral-gray uppercase tracking-wider">Conta Corrente</label>
+                <button onClick={() => onPrintStatement(ledger)} title="Imprimir Extrato" className="p-1 rounded-md text-neutral-gray hover:text-primary hover:bg-primary/10 transition-colors">
+                    <span className="material-symbols-outlined text-[18px]">print</span>
+                </button>
+            </div>
+            {ledger.entries.length > 0 ? (
+                <div className="border border-[#e7ebf3] dark:border-gray-700 rounded-lg overflow-hidden">
+                    <table className="w-full text-sm">
+                        <thead className="bg-gray-50 dark:bg-gray-800/50 text-xs text-neutral-gray uppercase">
+                            <tr>
+                                <th className="py-2 px-3 text-left font-semibold">Data</th>
+                                <th className="py-2 px-3 text-left font-semibold">Descrição</th>
+                                <th className="py-2 px-3 text-right font-semibold">Valor</th>
+                                <th className="py-2 px-3 text-right font-semibold">Saldo</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-[#e7ebf3] dark:divide-gray-800">
+                            {ledger.entries.map(entry => (
+                                <tr key={entry.id}>
+                                    <td className="py-2 px-3 text-neutral-gray whitespace-nowrap">{formatDate(entry.date)}</td>
+                                    <td className="py-2 px-3 text-[#0d121b] dark:text-white">{entry.description}</td>
+                                    <td className={`py-2 px-3 text-right whitespace-nowrap ${LEDGER_KIND_STYLES[entry.kind]}`}>
+                                        {entry.credit > 0 ? `- ${formatCurrency(entry.credit)}` : formatCurrency(entry.debit)}
+                                    </td>
+                                    <td className="py-2 px-3 text-right whitespace-nowrap font-semibold text-[#0d121b] dark:text-white">{formatCurrency(entry.balance)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            ) : (
+                <p className="text-sm text-neutral-gray">Sem movimentos financeiros registados.</p>
+            )}
+        </div>
     </div>
 );
 
@@ -475,6 +867,7 @@ const GuardiansTab: React.FC<{ student: Student }> = ({ student }) => (
                 <Field label="Nome" value={student.guardians.father.name} />
                 <Field label="Profissão" value={student.guardians.father.profession} />
                 <Field label="Telefone" value={student.guardians.father.phone} />
+                <Field label="Nº BI" value={student.guardians.father.biNumber || ''} />
                 <Field label="Email" value={student.guardians.father.email} />
             </div>
         </div>
@@ -484,6 +877,7 @@ const GuardiansTab: React.FC<{ student: Student }> = ({ student }) => (
                 <Field label="Nome" value={student.guardians.mother.name} />
                 <Field label="Profissão" value={student.guardians.mother.profession} />
                 <Field label="Telefone" value={student.guardians.mother.phone} />
+                <Field label="Nº BI" value={student.guardians.mother.biNumber || ''} />
                 <Field label="Email" value={student.guardians.mother.email} />
             </div>
         </div>
@@ -511,16 +905,94 @@ const HealthTab: React.FC<{ student: Student }> = ({ student }) => (
         <div className="flex flex-col gap-1">
             <label className="text-xs font-semibold text-neutral-gray uppercase tracking-wider">Condições Especiais</label>
             <textarea 
-                defaultValue={student.health.conditions} 
+                value={student.health.conditions} 
+                readOnly
                 className="w-full px-3 py-2 bg-background-light dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-sm focus:ring-1 focus:ring-primary focus:border-primary outline-none min-h-[80px]"
             />
         </div>
         <div className="flex flex-col gap-1">
             <label className="text-xs font-semibold text-neutral-gray uppercase tracking-wider">Observações Internas</label>
             <textarea 
-                defaultValue={student.health.notes} 
+                value={student.health.notes} 
+                readOnly
                 className="w-full px-3 py-2 bg-background-light dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-sm focus:ring-1 focus:ring-primary focus:border-primary outline-none min-h-[100px]"
             />
         </div>
     </div>
 );
+
+const StatusChangeDialog: React.FC<{ student: Student; onConfirm: (status: StudentStatus, reason: string, date: string) => Promise<void>; onClose: () => void }> = ({ student, onConfirm, onClose }) => {
+    const options = (Object.keys(STATUS_LABELS) as StudentStatus[]).filter(status => status !== student.status);
+    const [status, setStatus] = useState<StudentStatus>(options[0]);
+    const [reason, setReason] = useState('');
+    const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleConfirm = async () => {
+        setIsSubmitting(true);
+        await onConfirm(status, reason.trim(), date);
+        setIsSubmitting(false);
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-black/20 backdrop-blur-sm transition-opacity" onClick={onClose}></div>
+            <div className="relative w-full max-w-md bg-surface-light dark:bg-surface-dark rounded-xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200">
+                <div className="p-5 border-b border-[#e7ebf3] dark:border-gray-800 bg-gray-50/50 dark:bg-gray-800/50">
+                    <h2 className="text-lg font-bold text-[#0d121b] dark:text-white">Alterar Situação</h2>
+                    <p className="text-xs text-neutral-gray mt-1">{student.name} • Atual: {STATUS_LABELS[student.status]}</p>
+                </div>
+                <div className="p-5 space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="flex flex-col gap-1.5">
+                            <label className="text-xs font-semibold text-neutral-gray uppercase tracking-wider">Nova Situação</label>
+                            <select
+                                value={status}
+                                onChange={(e) => setStatus(e.target.value as StudentStatus)}
+                                className="w-full rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:ring-2 focus:ring-primary outline-none"
+                            >
+                                {options.map(option => (
+                                    <option key={option} value={option}>{STATUS_LABELS[option]}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="flex flex-col gap-1.5">
+                            <label className="text-xs font-semibold text-neutral-gray uppercase tracking-wider">Data Efetiva</label>
+                            <input
+                                type="date"
+                                value={date}
+                                onChange={(e) => setDate(e.target.value)}
+                                className="w-full rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:ring-2 focus:ring-primary outline-none"
+                            />
+                        </div>
+                    </div>
+                    <div className="flex flex-col gap-1.5">
+                        <label className="text-xs font-semibold text-neutral-gray uppercase tracking-wider">Motivo <span className="text-warning">*</span></label>
+                        <textarea
+                            value={reason}
+                            onChange={(e) => setReason(e.target.value)}
+                            rows={3}
+                            placeholder={status === 'transferred' ? 'Ex: Transferido para a Escola Primária da Polana' : 'Ex: Falta de pagamento'}
+                            className="w-full rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:ring-2 focus:ring-primary outline-none resize-none"
+                        />
+                    </div>
+                    {status === 'transferred' && (
+                        <p className="text-xs font-medium text-warning">O aluno sai das listas e indicadores e passa para o arquivo, onde continua pesquisável.</p>
+                    )}
+                </div>
+                <div className="p-5 border-t border-[#e7ebf3] dark:border-gray-800 flex justify-end gap-3">
+                    <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-neutral-gray hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors">
+                        Cancelar
+                    </button>
+                    <button
+                        onClick={handleConfirm}
+                        disabled={reason.trim().length < 3 || !date || isSubmitting}
+                        className="px-4 py-2 bg-primary hover:bg-primary-dark text-white text-sm font-medium rounded-lg shadow-sm transition-colors disabled:opacity-50"
+                    >
+                        Confirmar
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
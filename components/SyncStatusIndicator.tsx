@@ -0,0 +1,169 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { useSchoolData } from '../contexts/SchoolDataContext';
+import { SyncConflict, SyncState, getChangedFields } from '../lib/sync';
+import { CollectionName, SchoolRecord } from '../lib/repository';
+import { formatDate } from '../lib/utils';
+
+const STATE_STYLES: Record<SyncState, { icon: string; label: string; classes: string }> = {
+  synced: { icon: 'cloud_done', label: 'Sincronizado', classes: 'text-success bg-success/10' },
+  pending: { icon: 'cloud_upload', label: 'Pendente', classes: 'text-orange-600 bg-orange-100 dark:bg-orange-900/20' },
+  syncing: { icon: 'sync', label: 'Sincronizando...', classes: 'text-primary bg-primary/10' },
+  offline: { icon: 'cloud_off', label: 'Offline', classes: 'text-neutral-gray bg-gray-100 dark:bg-gray-800' },
+  error: { icon: 'sync_problem', label: 'Erro de Sincronização', classes: 'text-warning bg-warning/10' },
+};
+
+const COLLECTION_LABELS: Record<CollectionName, string> = {
+  students: 'Aluno',
+  transactions: 'Transação',
+  events: 'Evento',
+  employees: 'Colaborador',
+  classes: 'Turma',
+  marks: 'Nota',
+  attendance: 'Presenças',
+  charges: 'Propina',
+  discounts: 'Desconto',
+  plans: 'Acordo de pagamento',
+  statementLines: 'Linha de extrato',
+  receipts: 'Recibo',
+  payroll: 'Folha de salário',
+};
+
+const formatDateTime = (iso: string) =>
+  `${formatDate(iso)} ${new Date(iso).toLocaleTimeString('pt-PT', { hour: '2-digit', minute: '2-digit' })}`;
+
+/**
+ * Header badge showing the offline sync state, with a panel to resolve conflicts.
+ * Renders nothing when the data repository has no remote store.
+ */
+export const SyncStatusIndicator: React.FC = () => {
+  const { syncStatus, syncNow, resolveConflict } = useSchoolData();
+  const [isOpen, setIsOpen] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  // Close panel when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (panelRef.current && !panelRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  if (!syncStatus) return null;
+
+  const style = STATE_STYLES[syncStatus.state];
+  const conflictCount = syncStatus.conflicts.length;
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`relative flex items-center gap-1.5 px-2.5 py-1.5 rounded-full text-xs font-semibold transition-colors ${style.classes}`}
+        title={syncStatus.lastError || style.label}
+      >
+        <span className={`material-symbols-outlined text-[18px] ${syncStatus.state === 'syncing' ? 'animate-spin' : ''}`}>{style.icon}</span>
+        <span className="hidden lg:inline">{style.label}</span>
+        {syncStatus.pendingCount > 0 && <span>({syncStatus.pendingCount})</span>}
+        {conflictCount > 0 && (
+          <span className="absolute -top-1 -right-1 bg-warning text-white text-[10px] font-bold px-1.5 rounded-full border-2 border-surface-light dark:border-surface-dark">
+            {conflictCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-[360px] bg-surface-light dark:bg-surface-dark rounded-xl shadow-xl border border-[#e7ebf3] dark:border-gray-700 z-50 animate-in fade-in zoom-in-95 duration-100 overflow-hidden">
+          <div className="p-4 border-b border-[#e7ebf3] dark:border-gray-800 flex items-center justify-between">
+            <div>
+              <h4 className="text-sm font-bold text-[#0d121b] dark:text-white">Sincronização</h4>
+              <p className="text-xs text-neutral-gray mt-0.5">
+                {syncStatus.lastSyncedAt ? `Última: ${formatDateTime(syncStatus.lastSyncedAt)}` : 'Ainda não sincronizado'}
+                {' • '}{syncStatus.pendingCount} pendente(s)
+              </p>
+            </div>
+            <button
+              onClick={() => syncNow()}
+              disabled={syncStatus.state === 'syncing' || syncStatus.state === 'offline'}
+              className="px-3 py-1.5 bg-primary text-white text-xs font-bold rounded-lg shadow-sm hover:bg-primary-dark transition-colors disabled:opacity-50 flex items-center gap-1"
+            >
+              <span className="material-symbols-outlined text-[14px]">sync</span>
+              Sincronizar
+            </button>
+          </div>
+
+          {syncStatus.lastError && syncStatus.state === 'error' && (
+            <p className="px-4 py-2 text-xs text-warning bg-warning/5 border-b border-[#e7ebf3] dark:border-gray-800">{syncStatus.lastError}</p>
+          )}
+
+          <div className="max-h-[360px] overflow-y-auto divide-y divide-[#e7ebf3] dark:divide-gray-800">
+            {conflictCount === 0 ? (
+              <p className="p-4 text-sm text-neutral-gray text-center">Nenhum conflito por resolver.</p>
+            ) : (
+              syncStatus.conflicts.map(conflict => (
+                <ConflictItem key={conflict.id} conflict={conflict} onResolve={resolveConflict} />
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// --- Helper Components ---
+
+// Students and employees have a name, events a title, transactions a description
+const recordLabel = (record: SchoolRecord | null, fallback: string) => {
+  if (!record) return fallback;
+  const label = ('name' in record && record.name) || ('title' in record && record.title) || ('description' in record && record.description);
+  return typeof label === 'string' && label ? label : fallback;
+};
+
+const ConflictItem: React.FC<{ conflict: SyncConflict; onResolve: (id: string, keep: 'local' | 'remote') => Promise<void> }> = ({ conflict, onResolve }) => {
+  const [isResolving, setIsResolving] = useState(false);
+  const changedFields = getChangedFields(conflict.local, conflict.remote);
+
+  const handleResolve = async (keep: 'local' | 'remote') => {
+    setIsResolving(true);
+    await onResolve(conflict.id, keep);
+    setIsResolving(false);
+  };
+
+  return (
+    <div className="p-4 space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="material-symbols-outlined text-warning text-[18px]">warning</span>
+        <p className="text-sm font-semibold text-[#0d121b] dark:text-white truncate">
+          {COLLECTION_LABELS[conflict.collection]}: {recordLabel(conflict.local || conflict.remote, conflict.recordId)}
+        </p>
+      </div>
+      <p className="text-xs text-neutral-gray">
+        {!conflict.remote && 'Removido noutro computador, alterado neste.'}
+        {!conflict.local && 'Removido neste computador, alterado noutro.'}
+        {conflict.local && conflict.remote && `Alterado nos dois computadores: ${changedFields.join(', ') || 'sem diferenças visíveis'}.`}
+      </p>
+      <div className="grid grid-cols-2 gap-2 text-[11px] text-neutral-gray">
+        <span>Este PC: {conflict.local?.updatedAt ? formatDateTime(conflict.local.updatedAt) : '—'}</span>
+        <span>Servidor: {conflict.remote?.updatedAt ? formatDateTime(conflict.remote.updatedAt) : '—'}</span>
+      </div>
+      <div className="flex gap-2 pt-1">
+        <button
+          onClick={() => handleResolve('local')}
+          disabled={isResolving}
+          className="flex-1 px-3 py-1.5 text-xs font-semibold rounded-lg border border-primary text-primary hover:bg-primary/5 transition-colors disabled:opacity-50"
+        >
+          Manter deste PC
+        </button>
+        <button
+          onClick={() => handleResolve('remote')}
+          disabled={isResolving}
+          className="flex-1 px-3 py-1.5 text-xs font-semibold rounded-lg border border-gray-300 dark:border-gray-600 text-[#0d121b] dark:text-white hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-50"
+        >
+          Manter do Servidor
+        </button>
+      </div>
+    </div>
+  );
+};
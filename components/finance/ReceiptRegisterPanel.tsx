@@ -0,0 +1,156 @@
+import React, { useMemo, useState } from 'react';
+import { Receipt } from '../../types';
+import { useSchoolData } from '../../contexts/SchoolDataContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import { RECEIPT_PROBLEM_LABELS, ReceiptIssue, getReceiptDetails, verifyReceiptChain } from '../../lib/receipts';
+import { generateDualReceiptPDF } from '../../lib/pdf-service';
+import { formatCurrency, formatDate } from '../../lib/utils';
+
+// Receipts listed before "Ver todos"
+const RECENT_COUNT = 8;
+
+/**
+ * The receipt register: latest numbers issued, reprints ("2ª via"), voiding with a reason and the integrity check
+ * of the hash chain (see lib/receipts.ts).
+ */
+export const ReceiptRegisterPanel: React.FC<{ onNotify: (message: string) => void }> = ({ onNotify }) => {
+  const { students, charges, receipts, transactions, voidReceipt } = useSchoolData();
+  const { settings } = useSettings();
+
+  const [showAll, setShowAll] = useState(false);
+  const [issues, setIssues] = useState<ReceiptIssue[] | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [voidingId, setVoidingId] = useState<string | null>(null);
+  const [voidReason, setVoidReason] = useState('');
+
+  const ordered = useMemo(
+    () => [...receipts].sort((a, b) => b.fiscalYear.localeCompare(a.fiscalYear) || b.sequence - a.sequence),
+    [receipts]
+  );
+  const currentYear = String(new Date().getFullYear());
+  const issuedThisYear = receipts.filter(r => r.fiscalYear === currentYear).length;
+  const visible = showAll ? ordered : ordered.slice(0, RECENT_COUNT);
+
+  const handleVerify = async () => {
+    setIsVerifying(true);
+    try {
+      setIssues(await verifyReceiptChain(receipts, transactions));
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleReprint = (receipt: Receipt) => {
+    const transaction = transactions.find(t => t.id === receipt.transactionId);
+    if (!transaction) return;
+    generateDualReceiptPDF(transaction, getReceiptDetails(transaction, students, charges, settings.financial.paymentMethods), settings.profile, receipt, 'duplicate');
+  };
+
+  const handleVoid = async (receipt: Receipt) => {
+    await voidReceipt(receipt.id, voidReason.trim());
+    setVoidingId(null);
+    setVoidReason('');
+    setIssues(null);
+    onNotify(`Recibo ${receipt.number} anulado.`);
+  };
+
+  return (
+    <div className="bg-surface-light dark:bg-surface-dark rounded-xl border border-[#e7ebf3] dark:border-gray-700 shadow-sm overflow-hidden">
+        <div className="p-4 border-b border-[#e7ebf3] dark:border-gray-800 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div>
+                <h3 className="font-semibold text-[#0d121b] dark:text-white flex items-center gap-2">
+                    <span className="material-symbols-outlined text-primary">receipt</span>
+                    Registo de Recibos
+                </h3>
+                <p className="text-xs text-neutral-gray mt-0.5">
+                    {ordered.length > 0
+                        ? `${issuedThisYear} emitidos em ${currentYear} · último nº ${ordered[0].number}`
+                        : 'Os recibos são numerados por ano fiscal quando uma entrada é registada.'}
+                </p>
+            </div>
+            {ordered.length > 0 && (
+                <button
+                    onClick={handleVerify}
+                    disabled={isVerifying}
+                    className="px-4 py-2 text-sm font-medium text-primary border border-primary/30 rounded-lg hover:bg-primary/5 transition-colors flex items-center gap-2 disabled:opacity-50"
+                >
+                    <span className={`material-symbols-outlined text-[18px] ${isVerifying ? 'animate-spin' : ''}`}>{isVerifying ? 'progress_activity' : 'verified'}</span>
+                    Verificar Integridade
+                </button>
+            )}
+        </div>
+
+        {issues && (
+            issues.length === 0 ? (
+                <div className="px-4 py-3 text-sm text-success bg-success/5 flex items-center gap-2">
+                    <span className="material-symbols-outlined text-[18px]">verified</span>
+                    Registo íntegro: numeração sem falhas e nenhum recibo alterado.
+                </div>
+            ) : (
+                <div className="px-4 py-3 text-sm text-warning bg-warning/5 space-y-1">
+                    <p className="flex items-center gap-2 font-semibold">
+                        <span className="material-symbols-outlined text-[18px]">gpp_bad</span>
+                        {issues.length} {issues.length === 1 ? 'problema encontrado' : 'problemas encontrados'}
+                    </p>
+                    <ul className="text-xs space-y-0.5 max-h-32 overflow-y-auto">
+                        {issues.map((issue, i) => <li key={i}>{issue.number}: {RECEIPT_PROBLEM_LABELS[issue.problem]}</li>)}
+                    </ul>
+                </div>
+            )
+        )}
+
+        {visible.length > 0 && (
+            <ul className="divide-y divide-[#e7ebf3] dark:divide-gray-800">
+                {visible.map(receipt => (
+                    <li key={receipt.id} className={`px-4 py-3 ${receipt.status === 'void' ? 'opacity-60' : ''}`}>
+                        <div className="flex items-center gap-3 text-sm">
+                            <span className={`font-mono font-semibold text-[#0d121b] dark:text-white ${receipt.status === 'void' ? 'line-through' : ''}`}>{receipt.number}</span>
+                            <span className="text-neutral-gray whitespace-nowrap">{formatDate(receipt.date)}</span>
+                            <span className="flex-1 min-w-0 truncate text-neutral-gray" title={receipt.description}>{receipt.payerName || receipt.description}</span>
+                            <span className="font-semibold text-success whitespace-nowrap">{formatCurrency(receipt.amount)}</span>
+                            {receipt.status === 'void' && (
+                                <span title={receipt.voidReason ? `Motivo: ${receipt.voidReason}` : undefined} className="px-2 py-0.5 rounded-full text-[10px] font-bold uppercase bg-gray-100 dark:bg-gray-800 text-neutral-gray">
+                                    Anulado
+                                </span>
+                            )}
+                            <button onClick={() => handleReprint(receipt)} title="Reimprimir (2ª via)" className="p-1 rounded-md text-neutral-gray hover:text-primary hover:bg-primary/10 transition-colors">
+                                <span className="material-symbols-outlined text-[18px]">print</span>
+                            </button>
+                            {receipt.status === 'issued' && (
+                                <button onClick={() => { setVoidingId(receipt.id); setVoidReason(''); }} title="Anular Recibo" className="p-1 rounded-md text-neutral-gray hover:text-warning hover:bg-warning/10 transition-colors">
+                                    <span className="material-symbols-outlined text-[18px]">cancel</span>
+                                </button>
+                            )}
+                        </div>
+                        {voidingId === receipt.id && (
+                            <div className="mt-2 flex items-center gap-2">
+                                <input
+                                    autoFocus
+                                    value={voidReason}
+                                    onChange={(e) => setVoidReason(e.target.value)}
+                                    placeholder="Motivo da anulação (ex: nome do pagador errado)"
+                                    className="flex-1 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-1.5 text-sm focus:ring-2 focus:ring-primary outline-none"
+                                />
+                                <button onClick={() => setVoidingId(null)} className="px-3 py-1.5 text-sm font-medium text-neutral-gray hover:text-[#0d121b] transition-colors">Voltar</button>
+                                <button
+                                    onClick={() => handleVoid(receipt)}
+                                    disabled={voidReason.trim().length < 3}
+                                    className="px-3 py-1.5 text-sm font-medium text-white bg-warning rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                                >
+                                    Anular
+                                </button>
+                            </div>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        )}
+
+        {ordered.length > RECENT_COUNT && (
+            <button onClick={() => setShowAll(!showAll)} className="w-full py-2 text-xs font-semibold text-primary hover:bg-primary/5 transition-colors border-t border-[#e7ebf3] dark:border-gray-800">
+                {showAll ? 'Mostrar menos' : `Ver todos (${ordered.length})`}
+            </button>
+        )}
+    </div>
+  );
+};
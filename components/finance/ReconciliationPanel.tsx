@@ -0,0 +1,187 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { StatementLine, StatementSource } from '../../types';
+import { useSchoolData } from '../../contexts/SchoolDataContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import {
+  MATCH_METHOD_LABELS,
+  STATEMENT_SOURCE_LABELS,
+  StatementImportError,
+  buildStatementTransaction,
+  matchStatementLine,
+  readStatementFile,
+} from '../../lib/reconciliation';
+import { formatCurrency, formatDate } from '../../lib/utils';
+
+const SOURCES = Object.keys(STATEMENT_SOURCE_LABELS) as StatementSource[];
+
+/**
+ * Imports M-Pesa, e-Mola and bank statements and queues their credits for review. Each line comes with the
+ * student it most likely pays for and the months it would settle; confirming records the transaction.
+ */
+export const ReconciliationPanel: React.FC<{ onNotify: (message: string) => void }> = ({ onNotify }) => {
+  const { students, charges, statementLines, importStatementLines, reconcileStatementLine, ignoreStatementLine } = useSchoolData();
+  const { settings } = useSettings();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [source, setSource] = useState<StatementSource>('mpesa');
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [busyLineId, setBusyLineId] = useState<string | null>(null);
+  // Student picked by hand for a line, by line id
+  const [assigned, setAssigned] = useState<Record<string, string>>({});
+
+  const enrolled = useMemo(
+    () => students.filter(s => s.status !== 'transferred').sort((a, b) => a.name.localeCompare(b.name, 'pt')),
+    [students]
+  );
+
+  // Suggested matches first, then the lines nobody could be found for
+  const queue = useMemo(() => statementLines
+    .filter(line => line.status === 'pending')
+    .map(line => ({ line, match: matchStatementLine(line, students, charges, settings.financial) }))
+    .sort((a, b) => Number(!a.match.student) - Number(!b.match.student) || b.line.date.localeCompare(a.line.date)),
+    [statementLines, students, charges, settings.financial]
+  );
+  const matchedCount = queue.filter(item => item.match.student).length;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      const { lines, skipped } = await readStatementFile(file, source);
+      const added = await importStatementLines(lines);
+      const repeated = lines.length - added;
+      onNotify([
+        `${added} ${added === 1 ? 'pagamento importado' : 'pagamentos importados'} de ${file.name}`,
+        repeated > 0 && `${repeated} já importados`,
+        skipped > 0 && `${skipped} linhas ilegíveis`,
+      ].filter(Boolean).join(' · '));
+    } catch (error) {
+      setImportError(error instanceof StatementImportError ? error.message : 'Não foi possível importar o extrato.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleConfirm = async (line: StatementLine, studentId: string) => {
+    const student = students.find(s => s.id === studentId);
+    if (!student) return;
+    setBusyLineId(line.id);
+    try {
+      await reconcileStatementLine(line, buildStatementTransaction(line, student, charges, settings.financial));
+      onNotify(`Pagamento de ${formatCurrency(line.amount)} lançado para ${student.name}.`);
+    } finally {
+      setBusyLineId(null);
+    }
+  };
+
+  return (
+    <div className="bg-surface-light dark:bg-surface-dark rounded-xl border border-[#e7ebf3] dark:border-gray-700 shadow-sm overflow-hidden">
+        <div className="p-4 border-b border-[#e7ebf3] dark:border-gray-800 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div>
+                <h3 className="font-semibold text-[#0d121b] dark:text-white flex items-center gap-2">
+                    <span className="material-symbols-outlined text-primary">account_balance</span>
+                    Reconciliação de Extratos
+                </h3>
+                <p className="text-xs text-neutral-gray mt-0.5">
+                    {queue.length > 0
+                        ? `${queue.length} por conferir · ${matchedCount} com sugestão · ${queue.length - matchedCount} sem correspondência`
+                        : 'Importe o extrato M-Pesa, e-Mola ou bancário (CSV ou XLSX) para lançar os pagamentos.'}
+                </p>
+            </div>
+            <div className="flex items-center gap-2">
+                <select
+                    value={source}
+                    onChange={(e) => setSource(e.target.value as StatementSource)}
+                    className="rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:ring-2 focus:ring-primary outline-none"
+                >
+                    {SOURCES.map(s => <option key={s} value={s}>{STATEMENT_SOURCE_LABELS[s]}</option>)}
+                </select>
+                <input ref={fileInputRef} type="file" accept=".csv,.txt,.xlsx" onChange={handleFile} className="hidden" />
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isImporting}
+                    className="px-4 py-2 text-sm font-medium text-primary border border-primary/30 rounded-lg hover:bg-primary/5 transition-colors flex items-center gap-2 disabled:opacity-50"
+                >
+                    <span className={`material-symbols-outlined text-[18px] ${isImporting ? 'animate-spin' : ''}`}>{isImporting ? 'progress_activity' : 'upload_file'}</span>
+                    Importar Extrato
+                </button>
+            </div>
+        </div>
+
+        {importError && (
+            <div className="px-4 py-3 text-sm text-warning bg-warning/5 flex items-center gap-2">
+                <span className="material-symbols-outlined text-[18px]">error</span>
+                {importError}
+            </div>
+        )}
+
+        {queue.length > 0 && (
+            <ul className="divide-y divide-[#e7ebf3] dark:divide-gray-800 max-h-[420px] overflow-y-auto">
+                {queue.map(({ line, match }) => {
+                    const studentId = assigned[line.id] ?? match.student?.id ?? '';
+                    const options = match.candidates.length > 0 && !assigned[line.id] ? match.candidates : enrolled;
+                    const isBusy = busyLineId === line.id;
+                    return (
+                        <li key={line.id} className="p-4 flex flex-col lg:flex-row lg:items-center gap-3">
+                            <div className="flex-1 min-w-0">
+                                <div className="flex items-center gap-2 text-sm">
+                                    <span className="font-bold text-success">{formatCurrency(line.amount)}</span>
+                                    <span className="text-neutral-gray">{formatDate(line.date)}</span>
+                                    <span className="px-2 py-0.5 rounded-full text-[10px] font-bold uppercase bg-gray-100 dark:bg-gray-800 text-neutral-gray">
+                                        {STATEMENT_SOURCE_LABELS[line.source]}
+                                    </span>
+                                    {line.reference && <span className="text-xs text-neutral-gray truncate">Ref. {line.reference}</span>}
+                                </div>
+                                <p className="text-xs text-neutral-gray truncate mt-0.5">
+                                    {[line.payerName, line.phone, line.description].filter(Boolean).join(' · ')}
+                                </p>
+                                <p className={`text-xs mt-1 ${match.student ? 'text-blue-600' : 'text-orange-500'}`}>
+                                    {match.student && match.matchedBy
+                                        ? `Sugestão: ${match.student.name} (${MATCH_METHOD_LABELS[match.matchedBy]})`
+                                        : match.candidates.length > 0
+                                            ? `${match.candidates.length} alunos possíveis: escolha o correto`
+                                            : 'Sem correspondência: escolha o aluno'}
+                                </p>
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <select
+                                    value={studentId}
+                                    onChange={(e) => setAssigned(prev => ({ ...prev, [line.id]: e.target.value }))}
+                                    className="w-56 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:ring-2 focus:ring-primary outline-none"
+                                >
+                                    <option value="">Selecione o aluno...</option>
+                                    {options.map(s => <option key={s.id} value={s.id}>{s.name} ({s.enrollmentId})</option>)}
+                                    {options !== enrolled && <option value="" disabled>──────────</option>}
+                                    {options !== enrolled && enrolled.filter(s => !options.includes(s)).map(s => (
+                                        <option key={s.id} value={s.id}>{s.name} ({s.enrollmentId})</option>
+                                    ))}
+                                </select>
+                                <button
+                                    onClick={() => handleConfirm(line, studentId)}
+                                    disabled={!studentId || isBusy}
+                                    title="Lançar o pagamento nas propinas mais antigas do aluno"
+                                    className="px-3 py-2 text-sm font-medium text-white bg-success rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                                >
+                                    Confirmar
+                                </button>
+                                <button
+                                    onClick={() => ignoreStatementLine(line.id)}
+                                    disabled={isBusy}
+                                    title="Não é um pagamento de aluno"
+                                    className="p-2 rounded-lg text-neutral-gray hover:text-warning hover:bg-warning/10 transition-colors disabled:opacity-50"
+                                >
+                                    <span className="material-symbols-outlined text-[18px]">block</span>
+                                </button>
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+        )}
+    </div>
+  );
+};
@@ -1,28 +1,33 @@
 
-import React, { useEffect } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { PAYMENT_METHODS } from '../../lib/constants';
 import { useSchoolData } from '../../contexts/SchoolDataContext';
-import { ACADEMIC_MONTHS } from '../../lib/utils';
+import { useSettings } from '../../contexts/SettingsContext';
+import { ACADEMIC_MONTHS, formatCurrency } from '../../lib/utils';
+import { formatMonthLabel, getChargeTotal, getLateFee, getTransactionAllocations } from '../../lib/billing';
+import { getPaymentFee, getPaymentMethod } from '../../lib/payments';
+import { ChargeAllocation, Transaction, TuitionCharge } from '../../types';
 
 // --- Zod Schema ---
-const transactionSchema = z.object({
+const baseTransactionSchema = z.object({
   type: z.enum(['income', 'expense']),
   studentId: z.string().optional(), // Used for auto-fill logic
   payerName: z.string().min(3, "Nome do pagador/beneficiário é obrigatório"),
   description: z.string().min(3, "Descrição deve ter no mínimo 3 caracteres"),
   amount: z.string().refine((val) => !isNaN(Number(val)) && Number(val) > 0, "Valor deve ser positivo"),
   category: z.string().min(1, "Selecione uma categoria"),
-  paymentMethod: z.enum(PAYMENT_METHODS, {
-    errorMap: () => ({ message: "Selecione a forma de pagamento" })
-  }),
+  paymentMethod: z.string().min(1, "Selecione a forma de pagamento"), // Checked against the school's registry on submit
+  reference: z.string().optional(), // Required by some methods (see lib/payments.ts)
   date: z.string().refine((val) => val !== '', "Data é obrigatória"),
   isRecurring: z.boolean().optional(),
   attachment: z.any().optional(),
-  selectedMonths: z.array(z.string()).optional(), // New field for tuition months
-}).superRefine((data, ctx) => {
+  selectedMonths: z.array(z.string()).optional(), // Months tagged on the student (derived from the charges, or ticked when there are none)
+  selectedCharges: z.array(z.string()).optional(), // Tuition charges paid (in full or in part) by this entry
+});
+
+const transactionSchema = baseTransactionSchema.superRefine((data, ctx) => {
   // Business Rule: Expense requires attachment
   if (data.type === 'expense') {
     if (!data.attachment || data.attachment.length === 0) {
@@ -35,15 +40,20 @@ const transactionSchema = z.object({
   }
 });
 
-export type TransactionFormValues = z.infer<typeof transactionSchema> & { attachmentBase64?: string };
+export type TransactionFormValues = z.infer<typeof transactionSchema> & {
+  attachmentBase64?: string;
+  selectedAllocations?: ChargeAllocation[]; // Amount applied to each of selectedCharges
+};
 
 interface TransactionFormProps {
+  initialData?: Transaction; // Edit mode
   onSuccess: (data: TransactionFormValues) => void;
   onCancel: () => void;
 }
 
-export const TransactionForm: React.FC<TransactionFormProps> = ({ onSuccess, onCancel }) => {
-  const { students } = useSchoolData(); // Access global student data
+export const TransactionForm: React.FC<TransactionFormProps> = ({ initialData, onSuccess, onCancel }) => {
+  const { students, charges } = useSchoolData(); // Access global student data
+  const { settings } = useSettings();
   const [fileName, setFileName] = React.useState<string | null>(null);
   const [attachmentBase64, setAttachmentBase64] = React.useState<string | null>(null);
 
@@ -52,16 +62,31 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onSuccess, onC
     handleSubmit, 
     watch, 
     setValue,
+    setError,
     formState: { errors, isSubmitting } 
   } = useForm<TransactionFormValues>({
-    resolver: zodResolver(transactionSchema),
-    defaultValues: {
+    // An edited expense keeps its existing receipt unless a new file is chosen
+    resolver: zodResolver(initialData?.attachment ? baseTransactionSchema : transactionSchema),
+    defaultValues: initialData ? {
+      type: initialData.type,
+      date: initialData.date,
+      isRecurring: false,
+      studentId: initialData.studentId || '',
+      payerName: initialData.payerName || '',
+      description: initialData.description,
+      amount: String(initialData.amount),
+      category: initialData.category,
+      paymentMethod: initialData.method,
+      reference: initialData.reference || '',
+      selectedMonths: initialData.paidMonths || [],
+    } : {
       type: 'income',
       date: new Date().toISOString().split('T')[0],
       isRecurring: false,
       payerName: '',
       description: '',
       amount: '',
+      reference: '',
       selectedMonths: [],
     }
   });
@@ -69,10 +94,73 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onSuccess, onC
   const transactionType = watch('type');
   const selectedStudentId = watch('studentId');
   const category = watch('category');
+  const paymentDate = watch('date');
   const selectedMonths = watch('selectedMonths');
+  const paymentMethod = watch('paymentMethod');
+  const method = paymentMethod ? getPaymentMethod(paymentMethod, settings.financial.paymentMethods) : null;
+  const fee = method ? getPaymentFee(method, Number(watch('amount')) || 0) : 0;
+  // Inactive methods are only listed on the entries that already use them
+  const methodOptions = settings.financial.paymentMethods.filter(m => m.active || m.code === initialData?.method);
+
+  // What the entry being edited already applied to each charge
+  const ownAllocations = useMemo(() => new Map(
+    (initialData ? getTransactionAllocations(initialData, charges, settings.financial) : []).map(a => [a.chargeId, a.amount] as [string, number])
+  ), [initialData, charges, settings.financial]);
+
+  // Amount typed for each selected charge, by charge id
+  const [allocationInputs, setAllocationInputs] = useState<Record<string, string>>(
+    () => Object.fromEntries(Array.from(ownAllocations, ([chargeId, amount]) => [chargeId, amount.toFixed(2)]))
+  );
+
+  // Unpaid charges of the student, plus the ones already paid by the entry being edited
+  const studentCharges = useMemo(() => charges
+    .filter(c => c.studentId === selectedStudentId && ((c.status !== 'paid' && c.amount > 0) || ownAllocations.has(c.id)))
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate)),
+    [charges, selectedStudentId, ownAllocations]
+  );
+  const chosenCharges = studentCharges.filter(c => c.id in allocationInputs);
+
+  /**
+   * Still owed on a charge if paid on the payment date, leaving out what this entry applied to it: the fee is
+   * computed as if the charge were still open, less what other entries already paid.
+   */
+  const chargeOutstanding = (c: TuitionCharge) => {
+    const own = ownAllocations.get(c.id) ?? 0;
+    const paidByOthers = Math.max(0, (c.paidAmount ?? (c.status === 'paid' ? own : 0)) - own);
+    return Math.max(0, Math.round((getChargeTotal({ ...c, status: 'open' }, settings.financial, paymentDate) - paidByOthers) * 100) / 100);
+  };
+  const allocatedTo = (c: TuitionCharge) => Number(allocationInputs[c.id]) || 0;
+  const allocatedTotal = chosenCharges.reduce((sum, c) => sum + allocatedTo(c), 0);
+  const isPartial = (c: TuitionCharge) => allocatedTo(c) + 0.005 < chargeOutstanding(c);
+  const formatChargeMonth = (c: TuitionCharge) =>
+    c.year === paymentDate?.slice(0, 4) ? formatMonthLabel(c.month) : `${formatMonthLabel(c.month)} ${c.year}`;
+
+  const toggleCharge = (c: TuitionCharge) => setAllocationInputs(prev => {
+    if (c.id in prev) {
+      const { [c.id]: _, ...rest } = prev;
+      return rest;
+    }
+    return { ...prev, [c.id]: chargeOutstanding(c).toFixed(2) };
+  });
+
+  // Spreads the amount typed in "Valor" over the charges, oldest first
+  const distributeAmount = () => {
+    let remaining = Number(watch('amount')) || 0;
+    const next: Record<string, string> = {};
+    studentCharges.forEach(c => {
+      if (remaining <= 0) return;
+      const amount = Math.min(remaining, chargeOutstanding(c));
+      if (amount <= 0) return;
+      next[c.id] = amount.toFixed(2);
+      remaining = Math.round((remaining - amount) * 100) / 100;
+    });
+    setAllocationInputs(next);
+  };
 
   // --- Auto-Fill Logic ---
   useEffect(() => {
+    // Keep the payer saved with an edited entry until another student is picked
+    if (initialData?.payerName && selectedStudentId === initialData.studentId) return;
     if (transactionType === 'income' && selectedStudentId) {
       const student = students.find(s => s.id === selectedStudentId);
       if (student) {
@@ -93,25 +181,31 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onSuccess, onC
         }
       }
     }
-  }, [selectedStudentId, transactionType, students, setValue, category]);
+  }, [selectedStudentId, transactionType, students, setValue, category, initialData]);
 
   // --- Dynamic Description Logic (Months) ---
   useEffect(() => {
     if (transactionType === 'income' && selectedStudentId && category === 'Mensalidade') {
         const student = students.find(s => s.id === selectedStudentId);
         if (student) {
-            if (selectedMonths && selectedMonths.length > 0) {
-                // Capitalize months
-                const formattedMonths = selectedMonths
-                    .map(m => m.charAt(0).toUpperCase() + m.slice(1))
-                    .join(', ');
+            if (chosenCharges.length > 0) {
+                const formattedMonths = chosenCharges.map(c => isPartial(c) ? `${formatChargeMonth(c)} (parcial)` : formatChargeMonth(c)).join(', ');
                 setValue('description', `Mensalidade: ${formattedMonths} - Aluno: ${student.name}`);
+            } else if (studentCharges.length === 0 && selectedMonths && selectedMonths.length > 0) {
+                setValue('description', `Mensalidade: ${selectedMonths.map(formatMonthLabel).join(', ')} - Aluno: ${student.name}`);
             } else {
                 setValue('description', `Mensalidade Ref. ao aluno: ${student.name}`);
             }
         }
     }
-  }, [selectedMonths, selectedStudentId, transactionType, category, students, setValue]);
+  }, [allocationInputs, selectedMonths, studentCharges, paymentDate, selectedStudentId, transactionType, category, students, setValue]);
+
+  // --- Amount Logic (Charges) ---
+  useEffect(() => {
+    if (transactionType === 'income' && category === 'Mensalidade' && chosenCharges.length > 0) {
+        setValue('amount', allocatedTotal.toFixed(2));
+    }
+  }, [allocationInputs, studentCharges, transactionType, category, setValue]);
 
   // Dynamic Categories
   const incomeCategories = ['Mensalidade', 'Uniforme', 'Matrícula', 'Material Escolar', 'Transporte', 'Doação'];
@@ -135,9 +229,39 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onSuccess, onC
   };
 
   const onSubmit = async (data: TransactionFormValues) => {
+    const isTuition = data.type === 'income' && data.category === 'Mensalidade' && !!data.studentId;
+    if (!methodOptions.some(m => m.code === data.paymentMethod)) {
+      setError('paymentMethod', { message: 'Forma de pagamento desconhecida ou inativa' });
+      return;
+    }
+    if (method?.requiresReference && !data.reference?.trim()) {
+      setError('reference', { message: `Indique a referência do pagamento (${method.label})` });
+      return;
+    }
+    const paid = isTuition ? chosenCharges : [];
+    const invalid = paid.find(c => allocatedTo(c) <= 0 || allocatedTo(c) > chargeOutstanding(c) + 0.005);
+    if (invalid) {
+      setError('amount', { message: `Valor a aplicar em ${formatChargeMonth(invalid)} deve estar entre 0 e ${formatCurrency(chargeOutstanding(invalid))}` });
+      return;
+    }
+    if (Number(data.amount) + 0.005 < allocatedTotal && paid.length > 0) {
+      setError('amount', { message: `Valor inferior ao total aplicado às propinas (${formatCurrency(allocatedTotal)})` });
+      return;
+    }
     await new Promise(resolve => setTimeout(resolve, 800)); // Simulate network
-    // Pass the base64 string up
-    onSuccess({ ...data, attachmentBase64: attachmentBase64 || undefined });
+    // Entries recorded before billing keep the months they were tagged with
+    const legacyMonths = initialData && !initialData.chargeIds ? initialData.paidMonths || [] : [];
+    // Without charges for the student the months are ticked by hand
+    const untrackedMonths = isTuition && studentCharges.length === 0 ? data.selectedMonths || [] : legacyMonths;
+    // Only months this entry settles in full are tagged on the student
+    const settled = paid.filter(c => !isPartial(c));
+    onSuccess({
+      ...data,
+      selectedCharges: paid.map(c => c.id),
+      selectedAllocations: paid.map(c => ({ chargeId: c.id, amount: allocatedTo(c) })),
+      selectedMonths: paid.length > 0 ? Array.from(new Set(settled.map(c => c.month))) : untrackedMonths,
+      attachmentBase64: attachmentBase64 || undefined,
+    });
   };
 
   return (
@@ -183,7 +307,9 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onSuccess, onC
                     className="w-full appearance-none rounded-lg border border-blue-200 dark:border-blue-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none transition-all"
                 >
                     <option value="">Selecione um aluno para preencher...</option>
-                    {students.map(student => (
+                    {students
+                        .filter(student => student.status !== 'transferred' || student.id === initialData?.studentId)
+                        .map(student => (
                         <option key={student.id} value={student.id}>
                             {student.name} ({student.grade})
                         </option>
@@ -225,41 +351,120 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onSuccess, onC
             {errors.category && <span className="text-xs text-warning animate-in slide-in-from-left-1">{errors.category.message}</span>}
         </div>
 
-        {/* Month Selector (Smart Logic) */}
+        {/* Charge Selector (Smart Logic) */}
         {transactionType === 'income' && category === 'Mensalidade' && selectedStudentId && (
             <div className="p-4 bg-gray-50 dark:bg-gray-800/50 rounded-xl border border-gray-100 dark:border-gray-700 space-y-3">
-                <label className="text-xs font-bold text-neutral-gray uppercase tracking-wider flex items-center gap-1">
-                    <span className="material-symbols-outlined text-sm">calendar_month</span>
-                    Meses a Pagar
-                </label>
-                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
-                    {ACADEMIC_MONTHS.map((month) => {
-                        const isPaid = students.find(s => s.id === selectedStudentId)?.paidMonths.includes(month);
-                        return (
-                            <label 
-                                key={month} 
-                                className={`
-                                    flex items-center gap-2 p-2 rounded-lg border text-sm cursor-pointer transition-all
-                                    ${isPaid 
-                                        ? 'bg-green-50 border-green-100 text-green-700 opacity-60 cursor-not-allowed' 
-                                        : 'bg-white dark:bg-surface-dark border-gray-200 dark:border-gray-700 hover:border-primary'}
-                                `}
-                            >
-                                {isPaid ? (
-                                    <span className="material-symbols-outlined text-sm">check_circle</span>
-                                ) : (
+                <div className="flex items-center justify-between">
+                    <label className="text-xs font-bold text-neutral-gray uppercase tracking-wider flex items-center gap-1">
+                        <span className="material-symbols-outlined text-sm">calendar_month</span>
+                        Propinas a Liquidar
+                    </label>
+                    {studentCharges.length > 0 && (
+                        <button
+                            type="button"
+                            onClick={distributeAmount}
+                            title="Aplica o valor indicado às propinas mais antigas primeiro"
+                            className="text-xs font-semibold text-primary hover:underline flex items-center gap-1"
+                        >
+                            <span className="material-symbols-outlined text-[16px]">low_priority</span>
+                            Distribuir Valor
+                        </button>
+                    )}
+                </div>
+                {studentCharges.length > 0 ? (
+                    <div className="space-y-2">
+                        {studentCharges.map((charge) => {
+                            const lateFee = getLateFee({ ...charge, status: 'open' }, settings.financial, paymentDate);
+                            const outstanding = chargeOutstanding(charge);
+                            const paidByOthers = Math.round((charge.amount + lateFee - outstanding) * 100) / 100;
+                            const isChosen = charge.id in allocationInputs;
+                            return (
+                                <div 
+                                    key={charge.id} 
+                                    className="flex items-center gap-3 p-2 rounded-lg border text-sm transition-all bg-white dark:bg-surface-dark border-gray-200 dark:border-gray-700 hover:border-primary"
+                                >
                                     <input 
                                         type="checkbox" 
-                                        value={month} 
-                                        {...register('selectedMonths')}
-                                        className="rounded text-primary focus:ring-primary size-4" 
+                                        checked={isChosen}
+                                        onChange={() => toggleCharge(charge)}
+                                        className="rounded text-primary focus:ring-primary size-4 cursor-pointer" 
                                     />
-                                )}
-                                <span className="capitalize">{month}</span>
-                            </label>
-                        );
-                    })}
-                </div>
+                                    <div className="flex-1 min-w-0">
+                                        <p className="font-medium text-[#0d121b] dark:text-white">
+                                            {formatChargeMonth(charge)}
+                                            {charge.planId && <span className="ml-1 text-xs font-normal text-blue-600">(em acordo)</span>}
+                                        </p>
+                                        <p className={`text-xs ${lateFee > 0 ? 'text-warning' : 'text-neutral-gray'}`}>
+                                            Vence a {new Date(charge.dueDate).toLocaleDateString('pt-PT')}
+                                            {!!charge.discount && ` · Desconto ${formatCurrency(charge.discount)}`}
+                                            {lateFee > 0 && ` · Multa ${formatCurrency(lateFee)}`}
+                                            {paidByOthers > 0 && ` · Já pago ${formatCurrency(paidByOthers)}`}
+                                        </p>
+                                    </div>
+                                    {isChosen ? (
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="0.01"
+                                            max={outstanding}
+                                            value={allocationInputs[charge.id]}
+                                            onChange={(e) => setAllocationInputs(prev => ({ ...prev, [charge.id]: e.target.value }))}
+                                            title={`Em dívida: ${formatCurrency(outstanding)}`}
+                                            className="w-28 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-2 py-1 text-sm text-right focus:ring-2 focus:ring-primary outline-none"
+                                        />
+                                    ) : (
+                                        <span className="font-semibold text-[#0d121b] dark:text-white">{formatCurrency(outstanding)}</span>
+                                    )}
+                                </div>
+                            );
+                        })}
+                        {chosenCharges.length > 0 && (
+                            <div className="flex justify-between pt-2 text-sm font-bold text-[#0d121b] dark:text-white">
+                                <span>
+                                    Total ({chosenCharges.length} {chosenCharges.length === 1 ? 'mês' : 'meses'}
+                                    {chosenCharges.some(isPartial) && ', pagamento parcial'})
+                                </span>
+                                <span>{formatCurrency(allocatedTotal)}</span>
+                            </div>
+                        )}
+                    </div>
+                ) : (
+                    <div className="space-y-2">
+                        <p className="text-xs text-neutral-gray">
+                            Sem propinas em aberto para este aluno. Indique os meses pagos, ou gere as mensalidades do ano no painel Financeiro para controlar valores e multas.
+                        </p>
+                        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                            {ACADEMIC_MONTHS.map((month) => {
+                                // Months paid by other entries; those of the entry being edited stay selectable
+                                const isPaid = !!students.find(s => s.id === selectedStudentId)?.paidMonths.includes(month)
+                                    && !initialData?.paidMonths?.includes(month);
+                                return (
+                                    <label
+                                        key={month}
+                                        className={`
+                                            flex items-center gap-2 p-2 rounded-lg border text-sm cursor-pointer transition-all
+                                            ${isPaid
+                                                ? 'bg-green-50 border-green-100 text-green-700 opacity-60 cursor-not-allowed'
+                                                : 'bg-white dark:bg-surface-dark border-gray-200 dark:border-gray-700 hover:border-primary'}
+                                        `}
+                                    >
+                                        {isPaid ? (
+                                            <span className="material-symbols-outlined text-sm">check_circle</span>
+                                        ) : (
+                                            <input
+                                                type="checkbox"
+                                                value={month}
+                                                {...register('selectedMonths')}
+                                                className="rounded text-primary focus:ring-primary size-4"
+                                            />
+                                        )}
+                                        <span className="capitalize">{month}</span>
+                                    </label>
+                                );
+                            })}
+                        </div>
+                    </div>
+                )}
             </div>
         )}
 
@@ -306,15 +511,29 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onSuccess, onC
                     className="w-full appearance-none rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:ring-2 focus:ring-primary focus:border-transparent outline-none"
                 >
                     <option value="">Selecione...</option>
-                    {PAYMENT_METHODS.map(method => (
-                        <option key={method} value={method}>{method}</option>
+                    {methodOptions.map(m => (
+                        <option key={m.code} value={m.code}>{m.label}</option>
                     ))}
                 </select>
                 <span className="pointer-events-none absolute right-3 top-1/2 -translate-y-1/2 material-symbols-outlined text-gray-400 text-lg">expand_more</span>
             </div>
             {errors.paymentMethod && <span className="text-xs text-warning animate-in slide-in-from-left-1">{errors.paymentMethod.message}</span>}
+            {fee > 0 && <span className="text-xs text-neutral-gray">Taxa do operador: {formatCurrency(fee)}</span>}
         </div>
 
+        {/* Payment Reference */}
+        {method?.requiresReference && (
+            <div className="flex flex-col gap-1.5">
+                <label className="text-xs font-semibold text-neutral-gray uppercase tracking-wider">Referência <span className="text-warning">*</span></label>
+                <input 
+                    {...register('reference')}
+                    className="w-full rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:ring-2 focus:ring-primary focus:border-transparent outline-none"
+                    placeholder={method.code === 'mpesa' || method.code === 'emola' ? "Ex: código da mensagem de confirmação" : "Ex: nº do talão ou da operação"}
+                />
+                {errors.reference && <span className="text-xs text-warning animate-in slide-in-from-left-1">{errors.reference.message}</span>}
+            </div>
+        )}
+
         {/* File Upload (Conditional UI) */}
         <div className="flex flex-col gap-1.5">
           <label className="text-xs font-semibold text-neutral-gray uppercase tracking-wider flex justify-between">
@@ -349,10 +568,10 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onSuccess, onC
                  ) : null}
 
                  <span className={`material-symbols-outlined text-3xl mb-2 relative z-10 ${errors.attachment ? 'text-warning' : 'text-neutral-gray'}`}>
-                    {fileName ? 'check_circle' : 'cloud_upload'}
+                    {fileName || initialData?.attachment ? 'check_circle' : 'cloud_upload'}
                  </span>
                  <p className={`text-xs font-medium relative z-10 ${errors.attachment ? 'text-warning' : 'text-[#0d121b] dark:text-white'}`}>
-                    {fileName || "Clique ou arraste para anexar"}
+                    {fileName || (initialData?.attachment ? "Comprovativo anexado (clique para substituir)" : "Clique ou arraste para anexar")}
                  </p>
                  <p className="text-[10px] text-neutral-gray mt-1 relative z-10">PDF, PNG ou JPG (Máx. 5MB)</p>
             </div>
@@ -391,7 +610,7 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onSuccess, onC
             ) : (
                  <>
                     <span className="material-symbols-outlined text-[18px]">check</span>
-                    Confirmar Transação
+                    {initialData ? 'Guardar Alterações' : 'Confirmar Transação'}
                  </>
             )}
           </button>
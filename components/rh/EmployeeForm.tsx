@@ -3,6 +3,7 @@ import React, { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
+import { isValidNib } from '../../lib/bank-transfer';
 
 const employeeSchema = z.object({
   personal: z.object({
@@ -12,6 +13,8 @@ const employeeSchema = z.object({
     nuit: z.string().min(9, "NUIT deve ter 9 dígitos").max(9),
     email: z.string().email("Email inválido"),
     phone: z.string().min(9, "Telefone inválido"),
+    dependants: z.string().regex(/^\d{0,2}$/, "Número de dependentes inválido").optional(),
+    inssNumber: z.string().optional(),
   }),
   contract: z.object({
     department: z.string().min(1, "Selecione um departamento"),
@@ -23,7 +26,7 @@ const employeeSchema = z.object({
   bank: z.object({
     bankName: z.string().min(2, "Nome do banco obrigatório"),
     accountNumber: z.string().min(5, "Número de conta obrigatório"),
-    nib: z.string().min(21, "NIB deve ter 21 dígitos"),
+    nib: z.string().refine(isValidNib, "NIB inválido: 21 dígitos com dígitos de controlo corretos"),
   }),
 });
 
@@ -127,6 +130,16 @@ export const EmployeeForm: React.FC<EmployeeFormProps> = ({ onSuccess, onCancel
                     <input type="date" {...register('personal.dob')} className="input-base" />
                     {errors.personal?.dob && <span className="text-xs text-warning">{errors.personal.dob.message}</span>}
                 </div>
+
+                <div className="flex flex-col gap-1.5">
+                    <label className="text-xs font-semibold text-neutral-gray uppercase tracking-wider">Dependentes (IRPS)</label>
+                    <input type="number" min="0" {...register('personal.dependants')} className="input-base" placeholder="0" />
+                    {errors.personal?.dependants && <span className="text-xs text-warning">{errors.personal.dependants.message}</span>}
+                </div>
+                <div className="flex flex-col gap-1.5">
+                    <label className="text-xs font-semibold text-neutral-gray uppercase tracking-wider">Nº Beneficiário INSS</label>
+                    <input {...register('personal.inssNumber')} className="input-base" placeholder="Opcional" />
+                </div>
              </div>
         </div>
       </section>
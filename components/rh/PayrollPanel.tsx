@@ -0,0 +1,338 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { PayrollEntry, PayrollStatus, PaymentMethodCode } from '../../types';
+import { useSchoolData } from '../../contexts/SchoolDataContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import { PAYROLL_STATUS_LABELS, calculatePayrollEntry, formatPayrollMonth, getPayrollRuns } from '../../lib/payroll';
+import { getTodayKey } from '../../lib/attendance';
+import { formatCurrency, formatDate } from '../../lib/utils';
+import { generatePayrollPayslipsPDF, generatePayslipPDF } from '../../lib/pdf-service';
+import { buildBankTransferFile } from '../../lib/bank-transfer';
+import { TaxDeclarations } from './TaxDeclarations';
+
+const STATUS_STYLES: Record<PayrollStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+  processing: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
+  paid: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+};
+
+const downloadText = (content: string, filename: string) => {
+  const blob = new Blob([content], { type: 'text/plain;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute("href", url);
+  link.setAttribute("download", filename);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+const inputClass = "rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-1.5 text-sm focus:ring-2 focus:ring-primary outline-none";
+
+/**
+ * Monthly payroll runs (see lib/payroll.ts): generated from the employees' base salary, with bonuses and
+ * deductions entered per employee while in draft; INSS and IRPS follow Configurações → Salários. Paying a run
+ * records its net total under 'Salários'. Payslips (recibos de vencimento) print per employee or for the whole run,
+ * and a closed run exports the bank transfer file laid out by the template in Configurações → Salários.
+ * Amounts are masked unless the RH header's "Mostrar Valores" is on.
+ */
+export const PayrollPanel: React.FC<{ showValues: boolean; onNotify: (message: string) => void }> = ({ showValues, onNotify }) => {
+  const { employees, payroll, createPayrollRun, savePayrollEntry, deletePayrollEntry, changePayrollStatus, payPayrollRun } = useSchoolData();
+  const { settings } = useSettings();
+
+  const runs = useMemo(() => getPayrollRuns(payroll), [payroll]);
+  const [month, setMonth] = useState(getTodayKey().slice(0, 7));
+  const [isBusy, setIsBusy] = useState(false);
+  const [isPaying, setIsPaying] = useState(false);
+  const [paymentDate, setPaymentDate] = useState(getTodayKey());
+  const [method, setMethod] = useState<PaymentMethodCode>('bank_transfer');
+
+  const run = runs.find(r => r.monthReference === month);
+  const hasNegativeNet = !!run?.entries.some(e => e.netSalary < 0);
+  const transferFile = useMemo(
+    () => run && run.status !== 'draft' ? buildBankTransferFile(run.monthReference, run.entries, employees, settings.payroll.transferFile) : null,
+    [run, employees, settings.payroll.transferFile]
+  );
+  const methodOptions = settings.financial.paymentMethods.filter(m => m.active);
+  const money = (value: number) => showValues ? formatCurrency(value) : '••••••';
+
+  useEffect(() => setIsPaying(false), [month]);
+
+  const payslipOf = (entry: PayrollEntry) => ({ entry, employee: employees.find(e => e.id === entry.employeeId) });
+
+  const handleExportTransfers = () => {
+    if (!transferFile || transferFile.lines.length === 0 || transferFile.overflows.length > 0) return;
+    downloadText(transferFile.content, transferFile.filename);
+    onNotify(`Ficheiro bancário com ${transferFile.lines.length} transferências (${formatCurrency(transferFile.total)}).`);
+  };
+
+  const handlePrintPayslips = () => {
+    if (!run) return;
+    generatePayrollPayslipsPDF(run.entries.map(payslipOf), run.monthReference, settings.profile);
+  };
+
+  const handleGenerate = async () => {
+    setIsBusy(true);
+    try {
+      const added = await createPayrollRun(month);
+      onNotify(run
+        ? `Folha atualizada${added > 0 ? `: ${added} ${added === 1 ? 'colaborador adicionado' : 'colaboradores adicionados'}` : '.'}`
+        : `Folha de ${formatPayrollMonth(month)} criada com ${added} colaboradores.`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // Saves an amount or note typed in a draft row once the field loses focus
+  const handleEntryChange = (entry: PayrollEntry, patch: Partial<Pick<PayrollEntry, 'bonuses' | 'deductions' | 'notes'>>) => {
+    const next = { ...entry, ...patch };
+    if (next.bonuses === entry.bonuses && next.deductions === entry.deductions && next.notes === entry.notes) return;
+    savePayrollEntry(calculatePayrollEntry(next, employees.find(e => e.id === entry.employeeId), settings.payroll));
+  };
+
+  const handleStatus = async (status: Exclude<PayrollStatus, 'paid'>) => {
+    await changePayrollStatus(month, status);
+    onNotify(status === 'processing' ? 'Folha fechada para processamento.' : 'Folha reaberta para edição.');
+  };
+
+  const handlePay = async () => {
+    setIsBusy(true);
+    try {
+      const transaction = await payPayrollRun(month, paymentDate, method);
+      if (transaction) onNotify(`Folha paga: ${formatCurrency(transaction.amount)} lançados em Salários.`);
+      setIsPaying(false);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const amountInput = (entry: PayrollEntry, field: 'bonuses' | 'deductions') => (
+    <input
+      key={`${entry.id}-${field}-${entry.version ?? 0}`}
+      type="number"
+      min="0"
+      step="0.01"
+      defaultValue={entry[field] || ''}
+      placeholder="0,00"
+      onBlur={(e) => handleEntryChange(entry, { [field]: Math.max(0, Number(e.target.value) || 0) })}
+      className={`${inputClass} w-28 text-right`}
+    />
+  );
+
+  return (
+    <div className="space-y-6 flex-1 flex flex-col animate-in fade-in duration-300">
+        {/* Month selection */}
+        <div className="flex flex-col sm:flex-row gap-4 justify-between sm:items-center bg-surface-light dark:bg-surface-dark p-4 rounded-xl border border-[#e7ebf3] dark:border-gray-700">
+            <div className="flex items-center gap-3">
+                <input type="month" value={month} onChange={(e) => e.target.value && setMonth(e.target.value)} className={inputClass} />
+                {runs.length > 0 && (
+                    <div className="flex gap-2 overflow-x-auto">
+                        {runs.slice(0, 6).map(r => (
+                            <button
+                                key={r.monthReference}
+                                onClick={() => setMonth(r.monthReference)}
+                                className={`px-3 py-1.5 rounded-full text-xs font-semibold whitespace-nowrap transition-colors ${r.monthReference === month ? 'bg-primary text-white' : 'bg-gray-100 dark:bg-gray-800 text-neutral-gray hover:bg-gray-200'}`}
+                            >
+                                {r.monthReference}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+            {(!run || run.status === 'draft') && (
+                <button
+                    onClick={handleGenerate}
+                    disabled={isBusy || employees.length === 0}
+                    className="px-4 py-2 text-sm font-medium text-white bg-primary rounded-lg hover:bg-primary-dark transition-colors flex items-center gap-2 shadow-sm disabled:opacity-50"
+                >
+                    <span className="material-symbols-outlined text-[18px]">{run ? 'sync' : 'add'}</span>
+                    {run ? 'Atualizar Colaboradores' : 'Gerar Folha'}
+                </button>
+            )}
+        </div>
+
+        {!run ? (
+            <div className="bg-surface-light dark:bg-surface-dark rounded-xl border border-[#e7ebf3] dark:border-gray-700 py-12 text-center text-neutral-gray">
+                <span className="material-symbols-outlined text-[40px] text-gray-300">payments</span>
+                <p className="mt-2 text-sm">Ainda não existe folha de salário para {formatPayrollMonth(month)}.</p>
+            </div>
+        ) : (
+            <div className="bg-surface-light dark:bg-surface-dark rounded-xl border border-[#e7ebf3] dark:border-gray-700 shadow-sm overflow-hidden flex-1">
+                <div className="p-4 border-b border-[#e7ebf3] dark:border-gray-800 flex flex-col lg:flex-row lg:items-center justify-between gap-3">
+                    <div>
+                        <h3 className="font-semibold text-[#0d121b] dark:text-white flex items-center gap-2">
+                            Folha de {formatPayrollMonth(run.monthReference)}
+                            <span className={`px-2.5 py-0.5 rounded-full text-[11px] font-semibold ${STATUS_STYLES[run.status]}`}>
+                                {PAYROLL_STATUS_LABELS[run.status]}
+                            </span>
+                        </h3>
+                        <p className="text-xs text-neutral-gray mt-0.5">
+                            {run.entries.length} colaboradores · Total líquido {money(run.totals.netSalary)} · INSS da escola {money(run.totals.inssEmployer)}
+                            {run.status === 'paid' && run.paymentDate && ` · Paga em ${formatDate(run.paymentDate)}`}
+                        </p>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                        <button
+                            onClick={handlePrintPayslips}
+                            className="px-4 py-2 text-sm font-medium text-neutral-gray bg-white dark:bg-surface-dark border border-[#e7ebf3] dark:border-gray-700 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors flex items-center gap-2"
+                        >
+                            <span className="material-symbols-outlined text-[18px]">picture_as_pdf</span>
+                            Recibos (PDF)
+                        </button>
+                        {transferFile && (
+                            <button
+                                onClick={handleExportTransfers}
+                                disabled={transferFile.lines.length === 0 || transferFile.overflows.length > 0}
+                                className="px-4 py-2 text-sm font-medium text-neutral-gray bg-white dark:bg-surface-dark border border-[#e7ebf3] dark:border-gray-700 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors flex items-center gap-2 disabled:opacity-50"
+                            >
+                                <span className="material-symbols-outlined text-[18px]">account_balance</span>
+                                Ficheiro Bancário
+                            </button>
+                        )}
+                        {run.status === 'draft' && (
+                            <button
+                                onClick={() => handleStatus('processing')}
+                                disabled={hasNegativeNet}
+                                title={hasNegativeNet ? 'Há colaboradores com descontos acima do salário' : undefined}
+                                className="px-4 py-2 text-sm font-medium text-white bg-primary rounded-lg hover:bg-primary-dark transition-colors flex items-center gap-2 disabled:opacity-50"
+                            >
+                                <span className="material-symbols-outlined text-[18px]">lock</span>
+                                Fechar Folha
+                            </button>
+                        )}
+                        {run.status === 'processing' && !isPaying && (
+                            <>
+                                <button onClick={() => handleStatus('draft')} className="px-4 py-2 text-sm font-medium text-neutral-gray hover:text-[#0d121b] dark:hover:text-white transition-colors">
+                                    Reabrir
+                                </button>
+                                <button onClick={() => setIsPaying(true)} className="px-4 py-2 text-sm font-medium text-white bg-success rounded-lg hover:bg-green-700 transition-colors flex items-center gap-2">
+                                    <span className="material-symbols-outlined text-[18px]">payments</span>
+                                    Registar Pagamento
+                                </button>
+                            </>
+                        )}
+                        {run.status === 'processing' && isPaying && (
+                            <>
+                                <input type="date" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value)} className={inputClass} />
+                                <select value={method} onChange={(e) => setMethod(e.target.value as PaymentMethodCode)} className={inputClass}>
+                                    {methodOptions.map(m => <option key={m.code} value={m.code}>{m.label}</option>)}
+                                </select>
+                                <button onClick={() => setIsPaying(false)} className="px-3 py-1.5 text-sm font-medium text-neutral-gray hover:text-[#0d121b] transition-colors">Voltar</button>
+                                <button
+                                    onClick={handlePay}
+                                    disabled={isBusy || !paymentDate}
+                                    className="px-3 py-1.5 text-sm font-medium text-white bg-success rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                                >
+                                    Confirmar Pagamento
+                                </button>
+                            </>
+                        )}
+                    </div>
+                </div>
+
+                {run.status === 'draft' && !showValues && (
+                    <p className="px-4 py-2 text-xs text-neutral-gray bg-gray-50 dark:bg-gray-800/50 flex items-center gap-2">
+                        <span className="material-symbols-outlined text-[16px]">visibility_off</span>
+                        Mostre os valores para lançar bónus e descontos.
+                    </p>
+                )}
+
+                {transferFile && transferFile.invalidNib.length > 0 && (
+                    <p className="px-4 py-2 text-xs text-warning bg-warning/5 flex items-start gap-2">
+                        <span className="material-symbols-outlined text-[16px]">warning</span>
+                        <span>Fora do ficheiro bancário por NIB inválido: {transferFile.invalidNib.join(', ')}. Corrija o NIB na ficha do colaborador.</span>
+                    </p>
+                )}
+                {transferFile && transferFile.overflows.length > 0 && (
+                    <p className="px-4 py-2 text-xs text-warning bg-warning/5 flex items-start gap-2">
+                        <span className="material-symbols-outlined text-[16px]">error</span>
+                        <span>Ficheiro bancário bloqueado: {transferFile.overflows.join('; ')}. Alargue as colunas em Configurações → Salários.</span>
+                    </p>
+                )}
+
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left border-collapse">
+                        <thead>
+                            <tr className="bg-gray-50/50 dark:bg-gray-800/50 border-b border-[#e7ebf3] dark:border-gray-800">
+                                <th className="py-3 px-4 text-xs font-semibold text-neutral-gray uppercase tracking-wider">Colaborador</th>
+                                <th className="py-3 px-4 text-xs font-semibold text-neutral-gray uppercase tracking-wider text-right">Salário Base</th>
+                                <th className="py-3 px-4 text-xs font-semibold text-neutral-gray uppercase tracking-wider text-right">Bónus</th>
+                                <th className="py-3 px-4 text-xs font-semibold text-neutral-gray uppercase tracking-wider text-right">INSS</th>
+                                <th className="py-3 px-4 text-xs font-semibold text-neutral-gray uppercase tracking-wider text-right">IRPS</th>
+                                <th className="py-3 px-4 text-xs font-semibold text-neutral-gray uppercase tracking-wider text-right">Outros Descontos</th>
+                                <th className="py-3 px-4 text-xs font-semibold text-neutral-gray uppercase tracking-wider">Observações</th>
+                                <th className="py-3 px-4 text-xs font-semibold text-neutral-gray uppercase tracking-wider text-right">Líquido</th>
+                                <th className="py-3 px-4"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-[#e7ebf3] dark:divide-gray-800">
+                            {run.entries.map(entry => {
+                                const isEditable = run.status === 'draft' && showValues;
+                                return (
+                                    <tr key={entry.id} className="hover:bg-gray-50 dark:hover:bg-gray-800/50 transition-colors">
+                                        <td className="py-3 px-4">
+                                            <p className="text-sm font-semibold text-[#0d121b] dark:text-white">{entry.employeeName}</p>
+                                            <p className="text-xs text-neutral-gray">{entry.employeeRole}</p>
+                                        </td>
+                                        <td className="py-3 px-4 text-sm text-right whitespace-nowrap">{money(entry.baseSalary)}</td>
+                                        <td className="py-3 px-4 text-sm text-right whitespace-nowrap">{isEditable ? amountInput(entry, 'bonuses') : money(entry.bonuses)}</td>
+                                        <td className="py-3 px-4 text-sm text-right whitespace-nowrap text-warning">{money(entry.inss)}</td>
+                                        <td className="py-3 px-4 text-sm text-right whitespace-nowrap text-warning">{money(entry.irps)}</td>
+                                        <td className="py-3 px-4 text-sm text-right whitespace-nowrap text-warning">{isEditable ? amountInput(entry, 'deductions') : money(entry.deductions)}</td>
+                                        <td className="py-3 px-4 text-sm text-neutral-gray">
+                                            {isEditable ? (
+                                                <input
+                                                    key={`${entry.id}-notes-${entry.version ?? 0}`}
+                                                    defaultValue={entry.notes ?? ''}
+                                                    placeholder="Ex: horas extra, adiantamento"
+                                                    onBlur={(e) => handleEntryChange(entry, { notes: e.target.value.trim() || undefined })}
+                                                    className={`${inputClass} w-full min-w-[180px]`}
+                                                />
+                                            ) : entry.notes}
+                                        </td>
+                                        <td className={`py-3 px-4 text-sm text-right font-semibold whitespace-nowrap ${entry.netSalary < 0 ? 'text-warning' : 'text-[#0d121b] dark:text-white'}`}>
+                                            {money(entry.netSalary)}
+                                        </td>
+                                        <td className="py-3 px-4 text-right whitespace-nowrap">
+                                            <button
+                                                onClick={() => generatePayslipPDF(payslipOf(entry), settings.profile)}
+                                                title="Recibo de vencimento"
+                                                className="p-1 rounded-md text-neutral-gray hover:text-primary hover:bg-primary/10 transition-colors"
+                                            >
+                                                <span className="material-symbols-outlined text-[18px]">receipt_long</span>
+                                            </button>
+                                            {run.status === 'draft' && (
+                                                <button
+                                                    onClick={() => deletePayrollEntry(entry.id)}
+                                                    title="Retirar da folha"
+                                                    className="p-1 rounded-md text-neutral-gray hover:text-warning hover:bg-warning/10 transition-colors"
+                                                >
+                                                    <span className="material-symbols-outlined text-[18px]">person_remove</span>
+                                                </button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                        <tfoot>
+                            <tr className="bg-gray-50/50 dark:bg-gray-800/50 border-t border-[#e7ebf3] dark:border-gray-800 text-sm font-bold">
+                                <td className="py-3 px-4">Total</td>
+                                <td className="py-3 px-4 text-right whitespace-nowrap">{money(run.totals.baseSalary)}</td>
+                                <td className="py-3 px-4 text-right whitespace-nowrap">{money(run.totals.bonuses)}</td>
+                                <td className="py-3 px-4 text-right whitespace-nowrap text-warning">{money(run.totals.inss)}</td>
+                                <td className="py-3 px-4 text-right whitespace-nowrap text-warning">{money(run.totals.irps)}</td>
+                                <td className="py-3 px-4 text-right whitespace-nowrap text-warning">{money(run.totals.deductions)}</td>
+                                <td className="py-3 px-4"></td>
+                                <td className="py-3 px-4 text-right whitespace-nowrap text-primary">{money(run.totals.netSalary)}</td>
+                                <td className="py-3 px-4"></td>
+                            </tr>
+                        </tfoot>
+                    </table>
+                </div>
+            </div>
+        )}
+
+        {run && <TaxDeclarations run={run} showValues={showValues} />}
+    </div>
+  );
+};
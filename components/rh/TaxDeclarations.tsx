@@ -0,0 +1,113 @@
+import React, { useMemo } from 'react';
+import { useSchoolData } from '../../contexts/SchoolDataContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import { PayrollRun, formatPayrollMonth } from '../../lib/payroll';
+import { IRPS_CATEGORY_LABELS, IrpsCategory, buildInssDeclaration, buildIrpsDeclaration } from '../../lib/taxes';
+import { formatCurrency } from '../../lib/utils';
+
+const downloadCsv = (rows: (string | number)[][], filename: string) => {
+  const csvContent = rows.map(r => r.map(cell => typeof cell === 'string' ? `"${cell.replace(/"/g, '""')}"` : cell.toFixed(2)).join(",")).join("\n");
+  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute("href", url);
+  link.setAttribute("download", filename);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+const SummaryRow: React.FC<{ label: string; value: string; strong?: boolean }> = ({ label, value, strong }) => (
+  <div className={`flex justify-between text-sm ${strong ? 'font-bold text-[#0d121b] dark:text-white pt-2 border-t border-[#e7ebf3] dark:border-gray-800' : 'text-neutral-gray'}`}>
+    <span>{label}</span>
+    <span className="whitespace-nowrap">{value}</span>
+  </div>
+);
+
+const MissingWarning: React.FC<{ names: string[]; what: string }> = ({ names, what }) => names.length === 0 ? null : (
+  <p className="text-xs text-warning flex items-start gap-1.5">
+    <span className="material-symbols-outlined text-[16px]">warning</span>
+    <span>Sem {what}: {names.join(', ')}</span>
+  </p>
+);
+
+/**
+ * Monthly INSS and IRPS declarations of a payroll run (see lib/taxes.ts), with the per-worker detail the
+ * accountant files exported as CSV.
+ */
+export const TaxDeclarations: React.FC<{ run: PayrollRun; showValues: boolean }> = ({ run, showValues }) => {
+  const { employees } = useSchoolData();
+  const { settings } = useSettings();
+  const { inssEmployeeRate, inssEmployerRate } = settings.payroll;
+
+  const inss = useMemo(() => buildInssDeclaration(run.monthReference, run.entries, employees), [run, employees]);
+  const irps = useMemo(() => buildIrpsDeclaration(run.monthReference, run.entries, employees), [run, employees]);
+  const money = (value: number) => showValues ? formatCurrency(value) : '••••••';
+  const month = formatPayrollMonth(run.monthReference);
+
+  const exportInss = () => downloadCsv([
+    ["Nº Beneficiário", "Nome", "Remuneração", `Trabalhador (${inssEmployeeRate}%)`, `Entidade (${inssEmployerRate}%)`, "Total"],
+    ...inss.lines.map(l => [l.inssNumber ?? '', l.name, l.grossSalary, l.employee, l.employer, l.employee + l.employer]),
+    ["", "TOTAL", inss.totals.grossSalary, inss.totals.employee, inss.totals.employer, inss.totals.total],
+  ], `declaracao-inss-${run.monthReference}.csv`);
+
+  const exportIrps = () => downloadCsv([
+    ["NUIT", "Nome", "Categoria", "Dependentes", "Rendimento", "IRPS Retido"],
+    ...irps.lines.map(l => [l.nuit, l.name, l.category, String(l.dependants), l.grossSalary, l.irps]),
+    ["", "TOTAL", "", "", irps.totals.A.grossSalary + irps.totals.B.grossSalary, irps.totalWithheld],
+  ], `declaracao-irps-${run.monthReference}.csv`);
+
+  const exportButton = (onClick: () => void) => (
+    <button onClick={onClick} className="text-xs font-medium text-primary hover:underline flex items-center gap-1">
+        <span className="material-symbols-outlined text-[14px]">download</span>
+        Exportar CSV
+    </button>
+  );
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div className="bg-surface-light dark:bg-surface-dark rounded-xl border border-[#e7ebf3] dark:border-gray-700 shadow-sm p-4 space-y-3">
+            <div className="flex items-center justify-between">
+                <h3 className="font-semibold text-[#0d121b] dark:text-white flex items-center gap-2">
+                    <span className="material-symbols-outlined text-primary">health_and_safety</span>
+                    Declaração INSS – {month}
+                </h3>
+                {exportButton(exportInss)}
+            </div>
+            <div className="space-y-1.5">
+                <SummaryRow label="Trabalhadores inscritos" value={String(inss.lines.length)} />
+                <SummaryRow label="Total de remunerações" value={money(inss.totals.grossSalary)} />
+                <SummaryRow label={`Contribuição do trabalhador (${inssEmployeeRate}%)`} value={money(inss.totals.employee)} />
+                <SummaryRow label={`Contribuição da entidade (${inssEmployerRate}%)`} value={money(inss.totals.employer)} />
+                <SummaryRow label="Total a pagar ao INSS" value={money(inss.totals.total)} strong />
+            </div>
+            <MissingWarning names={inss.missingNumbers} what="nº de beneficiário" />
+        </div>
+
+        <div className="bg-surface-light dark:bg-surface-dark rounded-xl border border-[#e7ebf3] dark:border-gray-700 shadow-sm p-4 space-y-3">
+            <div className="flex items-center justify-between">
+                <h3 className="font-semibold text-[#0d121b] dark:text-white flex items-center gap-2">
+                    <span className="material-symbols-outlined text-primary">account_balance</span>
+                    Retenções de IRPS – {month}
+                </h3>
+                {exportButton(exportIrps)}
+            </div>
+            <div className="space-y-1.5">
+                {(Object.keys(IRPS_CATEGORY_LABELS) as IrpsCategory[]).filter(c => irps.totals[c].count > 0).map(category => (
+                    <SummaryRow
+                        key={category}
+                        label={`${IRPS_CATEGORY_LABELS[category]} (${irps.totals[category].count}) · ${money(irps.totals[category].grossSalary)}`}
+                        value={money(irps.totals[category].irps)}
+                    />
+                ))}
+                <SummaryRow label="Total retido a entregar" value={money(irps.totalWithheld)} strong />
+            </div>
+            <MissingWarning names={irps.missingNuit} what="NUIT válido" />
+        </div>
+
+        {run.status === 'draft' && (
+            <p className="lg:col-span-2 text-xs text-neutral-gray">Valores provisórios: a folha ainda está em rascunho.</p>
+        )}
+    </div>
+  );
+};
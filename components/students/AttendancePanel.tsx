@@ -0,0 +1,167 @@
+import React, { useState, useMemo } from 'react';
+import { AttendanceStatus } from '../../types';
+import { useSchoolData } from '../../contexts/SchoolDataContext';
+import { formatClassName, getClassRoster } from '../../lib/classes';
+import { ATTENDANCE_LABELS, ATTENDANCE_STATUSES, createAttendanceRecord, getAttendanceId, getTodayKey } from '../../lib/attendance';
+
+const STATUS_STYLES: Record<AttendanceStatus, { icon: string; active: string }> = {
+  present: { icon: 'check_circle', active: 'bg-green-50 text-green-700 border-green-200' },
+  absent: { icon: 'cancel', active: 'bg-red-50 text-red-700 border-red-200' },
+  late: { icon: 'schedule', active: 'bg-orange-50 text-orange-700 border-orange-200' },
+  excused: { icon: 'assignment_turned_in', active: 'bg-blue-50 text-blue-700 border-blue-200' },
+};
+
+/**
+ * Livro de presenças: marks each student of a turma present, absent, late or excused on a given day.
+ */
+export const AttendancePanel: React.FC = () => {
+  const { students, classes, attendance, saveAttendance } = useSchoolData();
+  const today = getTodayKey();
+
+  const [date, setDate] = useState(today);
+  const [classId, setClassId] = useState('');
+  // Marks changed since the last save, by student id. Cleared when the selection changes.
+  const [edits, setEdits] = useState<Record<string, AttendanceStatus>>({});
+  const [toastMessage, setToastMessage] = useState<string | null>(null);
+
+  const year = date.slice(0, 4);
+  const yearClasses = useMemo(() => classes
+    .filter(c => c.year === year)
+    .sort((a, b) => a.grade.localeCompare(b.grade) || a.shift.localeCompare(b.shift) || a.letter.localeCompare(b.letter)),
+    [classes, year]
+  );
+  const schoolClass = yearClasses.find(c => c.id === classId) ?? yearClasses[0] ?? null;
+  const roster = schoolClass ? getClassRoster(students, schoolClass) : [];
+  const record = schoolClass ? attendance.find(r => r.id === getAttendanceId(schoolClass.id, date)) : undefined;
+
+  const statusOf = (studentId: string): AttendanceStatus | undefined => edits[studentId] ?? record?.entries[studentId];
+  const counts = ATTENDANCE_STATUSES.map(status => [status, roster.filter(s => statusOf(s.id) === status).length] as const);
+  const unmarked = roster.filter(s => !statusOf(s.id)).length;
+  const hasChanges = Object.keys(edits).some(id => edits[id] !== record?.entries[id]);
+
+  const showToast = (msg: string) => {
+    setToastMessage(msg);
+    setTimeout(() => setToastMessage(null), 3000);
+  };
+
+  const changeSelection = (apply: () => void) => {
+    apply();
+    setEdits({});
+  };
+
+  const markRemainingPresent = () => {
+    setEdits(prev => ({
+      ...prev,
+      ...Object.fromEntries(roster.filter(s => !statusOf(s.id)).map(s => [s.id, 'present' as AttendanceStatus])),
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!schoolClass) return;
+    await saveAttendance({
+      ...record,
+      ...createAttendanceRecord(schoolClass.id, date, { ...record?.entries, ...edits }),
+    });
+    setEdits({});
+    showToast('Presenças registadas com sucesso!');
+  };
+
+  const selectClasses = "px-3 py-2 bg-background-light dark:bg-gray-800 rounded-lg text-sm border-transparent focus:border-primary outline-none cursor-pointer";
+
+  return (
+    <div className="space-y-4">
+      {/* Toolbar */}
+      <div className="bg-surface-light dark:bg-surface-dark p-4 rounded-xl border border-[#e7ebf3] dark:border-gray-700 shadow-sm flex flex-col lg:flex-row gap-4 items-center justify-between">
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="date"
+            value={date}
+            max={today}
+            onChange={(e) => e.target.value && changeSelection(() => setDate(e.target.value))}
+            className={selectClasses}
+          />
+          <select value={schoolClass?.id ?? ''} onChange={(e) => changeSelection(() => setClassId(e.target.value))} className={selectClasses} disabled={yearClasses.length === 0}>
+            {yearClasses.map(c => <option key={c.id} value={c.id}>{formatClassName(c)}</option>)}
+          </select>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={markRemainingPresent}
+            disabled={unmarked === 0}
+            className="px-4 py-2 text-sm font-medium text-neutral-gray border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            <span className="material-symbols-outlined text-[18px]">done_all</span>
+            Restantes Presentes
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!hasChanges}
+            className="px-4 py-2 text-sm font-medium text-white bg-primary rounded-lg hover:bg-primary-dark transition-colors flex items-center gap-2 shadow-sm disabled:opacity-50"
+          >
+            <span className="material-symbols-outlined text-[18px]">save</span>
+            Guardar Presenças
+          </button>
+        </div>
+      </div>
+
+      {!schoolClass ? (
+        <div className="py-12 text-center text-neutral-gray bg-surface-light dark:bg-surface-dark rounded-xl border border-[#e7ebf3] dark:border-gray-700">
+          <span className="material-symbols-outlined text-4xl opacity-50">event_available</span>
+          <p className="mt-2">Nenhuma turma criada para {year}.</p>
+        </div>
+      ) : (
+        <div className="bg-surface-light dark:bg-surface-dark rounded-xl border border-[#e7ebf3] dark:border-gray-700 shadow-sm overflow-hidden">
+          <div className="px-6 py-3 border-b border-[#e7ebf3] dark:border-gray-700 flex flex-wrap items-center gap-4 text-xs text-neutral-gray">
+            {counts.map(([status, count]) => (
+              <span key={status}>{ATTENDANCE_LABELS[status]}: <strong className="text-[#0d121b] dark:text-white">{count}</strong></span>
+            ))}
+            {unmarked > 0 && <span className="text-orange-600 font-medium">{unmarked} por marcar</span>}
+          </div>
+          {roster.length > 0 ? (
+            <ul className="divide-y divide-[#e7ebf3] dark:divide-gray-800">
+              {roster.map((student, index) => (
+                <li key={student.id} className="flex flex-col sm:flex-row sm:items-center gap-3 px-6 py-3">
+                  <div className="flex items-center gap-3 flex-1 min-w-0">
+                    <span className="w-6 text-xs text-neutral-gray">{index + 1}</span>
+                    <img src={student.avatar} alt={student.name} className="size-8 rounded-full object-cover" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-semibold text-[#0d121b] dark:text-white truncate">{student.name}</p>
+                      <p className="text-xs text-neutral-gray">{student.enrollmentId}</p>
+                    </div>
+                  </div>
+                  <div className="flex gap-1.5">
+                    {ATTENDANCE_STATUSES.map(status => (
+                      <button
+                        key={status}
+                        onClick={() => setEdits(prev => ({ ...prev, [student.id]: status }))}
+                        title={ATTENDANCE_LABELS[status]}
+                        className={`px-2.5 py-1 rounded-lg border text-xs font-medium flex items-center gap-1 transition-colors ${
+                          statusOf(student.id) === status
+                            ? STATUS_STYLES[status].active
+                            : 'border-gray-200 dark:border-gray-700 text-neutral-gray hover:bg-gray-50 dark:hover:bg-gray-800'
+                        }`}
+                      >
+                        <span className="material-symbols-outlined text-[16px]">{STATUS_STYLES[status].icon}</span>
+                        <span className="hidden md:inline">{ATTENDANCE_LABELS[status]}</span>
+                      </button>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="p-12 text-sm text-center text-neutral-gray">Nenhum aluno nesta turma.</p>
+          )}
+        </div>
+      )}
+
+      {/* Toast Notification */}
+      {toastMessage && (
+        <div className="fixed top-20 right-6 z-50 bg-gray-900 text-white px-4 py-3 rounded-lg shadow-lg flex items-center gap-3 animate-in slide-in-from-right fade-in duration-300">
+          <span className="material-symbols-outlined text-green-400">check_circle</span>
+          <span className="text-sm font-medium">{toastMessage}</span>
+        </div>
+      )}
+    </div>
+  );
+};
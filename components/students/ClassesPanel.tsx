@@ -0,0 +1,355 @@
+import React, { useState, useMemo } from 'react';
+import { SchoolClass, Student, GradeLevel, ClassLetter, Shift } from '../../types';
+import { useSchoolData } from '../../contexts/SchoolDataContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import { AVAILABLE_GRADES, CLASS_LETTERS, ACADEMIC_SHIFTS } from '../../lib/constants';
+import { createClass, formatClassName, getClassRoster, getStudentClassId, DEFAULT_CLASS_CAPACITY } from '../../lib/classes';
+import { generateStudentListPDF } from '../../lib/pdf-service';
+
+interface ClassesPanelProps {
+  onOpenStudent: (student: Student) => void;
+}
+
+/**
+ * Turmas of an academic year with their occupancy, plus the roster of the selected turma.
+ */
+export const ClassesPanel: React.FC<ClassesPanelProps> = ({ onOpenStudent }) => {
+  const { students, classes, employees, saveClass, deleteClass } = useSchoolData();
+  const currentYear = new Date().getFullYear().toString();
+
+  const years = useMemo(
+    () => Array.from(new Set([currentYear, ...classes.map(c => c.year)])).sort().reverse(),
+    [classes, currentYear]
+  );
+  const [year, setYear] = useState(currentYear);
+  const [selectedClassId, setSelectedClassId] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  // Sorted by grade, then shift, then letter
+  const yearClasses = useMemo(() => classes
+    .filter(c => c.year === year)
+    .sort((a, b) => a.grade.localeCompare(b.grade) || a.shift.localeCompare(b.shift) || a.letter.localeCompare(b.letter)),
+    [classes, year]
+  );
+
+  const unplaced = students.filter(s => s.status !== 'transferred' && !getStudentClassId(s)).length;
+  const selectedClass = classes.find(c => c.id === selectedClassId) ?? null;
+  const teachers = employees.filter(e => e.department === 'Docentes' && e.status !== 'terminated');
+
+  const handleCreate = async (schoolClass: SchoolClass) => {
+    await saveClass(schoolClass);
+    setIsCreating(false);
+    setYear(schoolClass.year);
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Toolbar */}
+      <div className="bg-surface-light dark:bg-surface-dark p-4 rounded-xl border border-[#e7ebf3] dark:border-gray-700 shadow-sm flex flex-col sm:flex-row gap-4 items-center justify-between">
+        <div className="flex items-center gap-3">
+          <select
+            value={year}
+            onChange={(e) => setYear(e.target.value)}
+            className="px-3 py-2 bg-background-light dark:bg-gray-800 rounded-lg text-sm border-transparent focus:border-primary outline-none cursor-pointer"
+          >
+            {years.map(y => <option key={y} value={y}>Ano Letivo {y}</option>)}
+          </select>
+          {unplaced > 0 && (
+            <span className="text-xs font-medium text-orange-600 flex items-center gap-1">
+              <span className="material-symbols-outlined text-[16px]">info</span>
+              {unplaced} aluno(s) sem turma atribuída
+            </span>
+          )}
+        </div>
+        <button
+          onClick={() => setIsCreating(true)}
+          className="px-4 py-2 text-sm font-medium text-white bg-primary rounded-lg hover:bg-primary-dark transition-colors flex items-center gap-2 shadow-sm"
+        >
+          <span className="material-symbols-outlined text-[18px]">add</span>
+          Nova Turma
+        </button>
+      </div>
+
+      {/* Class Cards */}
+      {yearClasses.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {yearClasses.map(schoolClass => (
+            <ClassCard
+              key={schoolClass.id}
+              schoolClass={schoolClass}
+              enrolled={getClassRoster(students, schoolClass).length}
+              teacherName={employees.find(e => e.id === schoolClass.teacherId)?.name}
+              onClick={() => setSelectedClassId(schoolClass.id)}
+            />
+          ))}
+        </div>
+      ) : (
+        <div className="py-12 text-center text-neutral-gray bg-surface-light dark:bg-surface-dark rounded-xl border border-[#e7ebf3] dark:border-gray-700">
+          <span className="material-symbols-outlined text-4xl opacity-50">meeting_room</span>
+          <p className="mt-2">Nenhuma turma criada para {year}.</p>
+        </div>
+      )}
+
+      {isCreating && (
+        <ClassFormDialog
+          title="Nova Turma"
+          teachers={teachers}
+          existingIds={classes.map(c => c.id)}
+          defaultYear={year}
+          onSave={handleCreate}
+          onClose={() => setIsCreating(false)}
+        />
+      )}
+
+      {selectedClass && (
+        <RosterSheet
+          schoolClass={selectedClass}
+          roster={getClassRoster(students, selectedClass)}
+          teachers={teachers}
+          onSave={saveClass}
+          onDelete={async () => {
+            await deleteClass(selectedClass.id);
+            setSelectedClassId(null);
+          }}
+          onOpenStudent={onOpenStudent}
+          onClose={() => setSelectedClassId(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+// --- Helper Components ---
+
+const OccupancyBar: React.FC<{ enrolled: number; capacity: number }> = ({ enrolled, capacity }) => {
+  const ratio = Math.min(enrolled / capacity, 1);
+  const color = ratio >= 1 ? 'bg-warning' : ratio >= 0.9 ? 'bg-orange-500' : 'bg-success';
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs">
+        <span className="text-neutral-gray">Ocupação</span>
+        <span className="font-semibold text-[#0d121b] dark:text-white">{enrolled}/{capacity}</span>
+      </div>
+      <div className="h-2 rounded-full bg-gray-100 dark:bg-gray-800 overflow-hidden">
+        <div className={`h-full rounded-full ${color}`} style={{ width: `${ratio * 100}%` }}></div>
+      </div>
+    </div>
+  );
+};
+
+const ClassCard: React.FC<{ schoolClass: SchoolClass; enrolled: number; teacherName?: string; onClick: () => void }> = ({ schoolClass, enrolled, teacherName, onClick }) => (
+  <button
+    onClick={onClick}
+    className="text-left bg-surface-light dark:bg-surface-dark p-5 rounded-xl border border-[#e7ebf3] dark:border-gray-700 shadow-sm hover:border-primary/40 hover:shadow-md transition-all space-y-4"
+  >
+    <div className="flex items-start justify-between gap-3">
+      <div>
+        <h3 className="text-base font-bold text-[#0d121b] dark:text-white">{formatClassName(schoolClass)}</h3>
+        <p className="text-xs text-neutral-gray mt-1">
+          {schoolClass.room ? `Sala ${schoolClass.room}` : 'Sala por definir'} • {teacherName || 'Sem diretor de turma'}
+        </p>
+      </div>
+      <div className="p-2 rounded-lg bg-primary/10 text-primary">
+        <span className="material-symbols-outlined">meeting_room</span>
+      </div>
+    </div>
+    <OccupancyBar enrolled={enrolled} capacity={schoolClass.capacity} />
+  </button>
+);
+
+const ClassFormDialog: React.FC<{
+  title: string;
+  teachers: { id: string; name: string }[];
+  existingIds: string[];
+  defaultYear: string;
+  onSave: (schoolClass: SchoolClass) => Promise<void>;
+  onClose: () => void;
+}> = ({ title, teachers, existingIds, defaultYear, onSave, onClose }) => {
+  const [year, setYear] = useState(defaultYear);
+  const [grade, setGrade] = useState<GradeLevel>(AVAILABLE_GRADES[0]);
+  const [letter, setLetter] = useState<ClassLetter>(CLASS_LETTERS[0]);
+  const [shift, setShift] = useState<Shift>('manha');
+  const [capacity, setCapacity] = useState(DEFAULT_CLASS_CAPACITY);
+  const [room, setRoom] = useState('');
+  const [teacherId, setTeacherId] = useState('');
+
+  const draft = createClass(year, grade, letter, shift, capacity);
+  const isDuplicate = existingIds.includes(draft.id);
+
+  const handleSave = () => onSave({ ...draft, room: room || undefined, teacherId: teacherId || undefined });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/20 backdrop-blur-sm transition-opacity" onClick={onClose}></div>
+      <div className="relative w-full max-w-md bg-surface-light dark:bg-surface-dark rounded-xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-5 border-b border-[#e7ebf3] dark:border-gray-800 bg-gray-50/50 dark:bg-gray-800/50">
+          <h2 className="text-lg font-bold text-[#0d121b] dark:text-white">{title}</h2>
+          <p className="text-xs text-neutral-gray mt-1">{formatClassName(draft)} • {year}</p>
+        </div>
+        <div className="p-5 grid grid-cols-2 gap-4">
+          <DialogField label="Ano Letivo">
+            <input value={year} onChange={(e) => setYear(e.target.value)} maxLength={4} className={inputClasses} />
+          </DialogField>
+          <DialogField label="Classe">
+            <select value={grade} onChange={(e) => setGrade(e.target.value as GradeLevel)} className={inputClasses}>
+              {AVAILABLE_GRADES.map(g => <option key={g} value={g}>{g}</option>)}
+            </select>
+          </DialogField>
+          <DialogField label="Turma">
+            <select value={letter} onChange={(e) => setLetter(e.target.value as ClassLetter)} className={inputClasses}>
+              {CLASS_LETTERS.map(l => <option key={l} value={l}>Turma {l}</option>)}
+            </select>
+          </DialogField>
+          <DialogField label="Turno">
+            <select value={shift} onChange={(e) => setShift(e.target.value as Shift)} className={inputClasses}>
+              {ACADEMIC_SHIFTS.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+            </select>
+          </DialogField>
+          <DialogField label="Capacidade">
+            <input type="number" min={1} value={capacity} onChange={(e) => setCapacity(Number(e.target.value))} className={inputClasses} />
+          </DialogField>
+          <DialogField label="Sala">
+            <input value={room} onChange={(e) => setRoom(e.target.value)} placeholder="Ex: 12" className={inputClasses} />
+          </DialogField>
+          <div className="col-span-2">
+            <DialogField label="Diretor de Turma">
+              <select value={teacherId} onChange={(e) => setTeacherId(e.target.value)} className={inputClasses}>
+                <option value="">Por definir</option>
+                {teachers.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+              </select>
+            </DialogField>
+          </div>
+          {isDuplicate && <p className="col-span-2 text-xs font-medium text-warning">Esta turma já existe.</p>}
+        </div>
+        <div className="p-5 border-t border-[#e7ebf3] dark:border-gray-800 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-neutral-gray hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors">Cancelar</button>
+          <button
+            onClick={handleSave}
+            disabled={isDuplicate || !/^\d{4}$/.test(year) || capacity < 1}
+            className="px-4 py-2 bg-primary hover:bg-primary-dark text-white text-sm font-medium rounded-lg shadow-sm transition-colors disabled:opacity-50"
+          >
+            Criar Turma
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const RosterSheet: React.FC<{
+  schoolClass: SchoolClass;
+  roster: Student[];
+  teachers: { id: string; name: string }[];
+  onSave: (schoolClass: SchoolClass) => Promise<void>;
+  onDelete: () => Promise<void>;
+  onOpenStudent: (student: Student) => void;
+  onClose: () => void;
+}> = ({ schoolClass, roster, teachers, onSave, onDelete, onOpenStudent, onClose }) => {
+  const { settings } = useSettings();
+  const [capacity, setCapacity] = useState(schoolClass.capacity);
+  const [room, setRoom] = useState(schoolClass.room || '');
+  const [teacherId, setTeacherId] = useState(schoolClass.teacherId || '');
+
+  const isDirty = capacity !== schoolClass.capacity || room !== (schoolClass.room || '') || teacherId !== (schoolClass.teacherId || '');
+  const name = formatClassName(schoolClass);
+
+  const handleSave = () => onSave({ ...schoolClass, capacity, room: room || undefined, teacherId: teacherId || undefined });
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/20 backdrop-blur-sm transition-opacity" onClick={onClose}></div>
+      <div className="relative w-full max-w-xl bg-surface-light dark:bg-surface-dark shadow-2xl h-full flex flex-col animate-in slide-in-from-right duration-300">
+        <div className="p-6 border-b border-[#e7ebf3] dark:border-gray-800 flex items-center justify-between bg-gray-50/50 dark:bg-gray-800/50">
+          <div>
+            <h2 className="text-xl font-bold text-[#0d121b] dark:text-white">{name}</h2>
+            <p className="text-sm text-neutral-gray">Ano Letivo {schoolClass.year} • {roster.length} aluno(s)</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors">
+            <span className="material-symbols-outlined text-neutral-gray">close</span>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Settings */}
+          <div className="grid grid-cols-3 gap-4">
+            <DialogField label="Capacidade">
+              <input type="number" min={1} value={capacity} onChange={(e) => setCapacity(Number(e.target.value))} className={inputClasses} />
+            </DialogField>
+            <DialogField label="Sala">
+              <input value={room} onChange={(e) => setRoom(e.target.value)} className={inputClasses} />
+            </DialogField>
+            <DialogField label="Diretor de Turma">
+              <select value={teacherId} onChange={(e) => setTeacherId(e.target.value)} className={inputClasses}>
+                <option value="">Por definir</option>
+                {teachers.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+              </select>
+            </DialogField>
+          </div>
+          {capacity < roster.length && (
+            <p className="text-xs font-medium text-warning">A capacidade é inferior ao número de alunos já matriculados.</p>
+          )}
+          <OccupancyBar enrolled={roster.length} capacity={Math.max(capacity, 1)} />
+
+          {/* Roster */}
+          <div className="border border-[#e7ebf3] dark:border-gray-700 rounded-xl overflow-hidden">
+            {roster.length > 0 ? (
+              <ul className="divide-y divide-[#e7ebf3] dark:divide-gray-800">
+                {roster.map((student, index) => (
+                  <li key={student.id}>
+                    <button onClick={() => onOpenStudent(student)} className="w-full flex items-center gap-3 px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-800/50 transition-colors text-left">
+                      <span className="w-6 text-xs text-neutral-gray">{index + 1}</span>
+                      <img src={student.avatar} alt={student.name} className="size-8 rounded-full object-cover" />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-semibold text-[#0d121b] dark:text-white truncate">{student.name}</p>
+                        <p className="text-xs text-neutral-gray">{student.enrollmentId}</p>
+                      </div>
+                      {student.status === 'suspended' && (
+                        <span className="px-2 py-0.5 rounded-full text-[10px] font-semibold border bg-gray-100 text-gray-600 border-gray-200">Suspenso</span>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="p-6 text-sm text-center text-neutral-gray">Nenhum aluno nesta turma.</p>
+            )}
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-[#e7ebf3] dark:border-gray-800 flex justify-between gap-3 bg-gray-50/50 dark:bg-gray-800/50">
+          <div className="flex gap-2">
+            <button
+              onClick={() => generateStudentListPDF(roster, settings.profile, name)}
+              disabled={roster.length === 0}
+              className="px-4 py-2 text-sm font-medium text-neutral-gray border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors flex items-center gap-2 disabled:opacity-50"
+            >
+              <span className="material-symbols-outlined text-[18px]">print</span>
+              Imprimir Lista
+            </button>
+            {roster.length === 0 && (
+              <button onClick={onDelete} className="px-4 py-2 text-sm font-medium text-warning hover:bg-warning/10 rounded-lg transition-colors">
+                Eliminar Turma
+              </button>
+            )}
+          </div>
+          <button
+            onClick={handleSave}
+            disabled={!isDirty || capacity < 1}
+            className="px-6 py-2 text-sm font-medium text-white bg-primary rounded-lg hover:bg-primary-dark shadow-sm transition-colors disabled:opacity-50"
+          >
+            Salvar Alterações
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const inputClasses = "w-full rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:ring-2 focus:ring-primary outline-none";
+
+const DialogField: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex flex-col gap-1.5">
+    <label className="text-xs font-semibold text-neutral-gray uppercase tracking-wider">{label}</label>
+    {children}
+  </div>
+);
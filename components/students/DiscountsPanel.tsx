@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { DiscountKind, DiscountRule, Student } from '../../types';
+import { useSchoolData } from '../../contexts/SchoolDataContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import { DISCOUNT_KIND_LABELS, findSiblings, formatDiscountValue, getApplicableDiscounts, hasOlderSibling, isDiscountActive } from '../../lib/discounts';
+import { getStudentTuition, getTuitionAmount } from '../../lib/billing';
+import { getTodayKey } from '../../lib/attendance';
+import { formatCurrency, formatDate } from '../../lib/utils';
+
+const STUDENT_KINDS: DiscountKind[] = ['percentage', 'fixed', 'exemption'];
+
+/**
+ * Bolsas, discounts and exemptions of a student, plus the sibling discount it gets from its family.
+ */
+export const DiscountsPanel: React.FC<{ student: Student }> = ({ student }) => {
+  const { students, discounts, saveDiscount, deleteDiscount } = useSchoolData();
+  const { settings } = useSettings();
+  const today = getTodayKey();
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [kind, setKind] = useState<DiscountKind>('percentage');
+  const [value, setValue] = useState('');
+  const [description, setDescription] = useState('');
+  const [validFrom, setValidFrom] = useState(today);
+  const [validTo, setValidTo] = useState('');
+
+  const context = { rules: discounts, students };
+  const ownRules = discounts.filter(d => d.studentId === student.id).sort((a, b) => b.validFrom.localeCompare(a.validFrom));
+  const siblings = findSiblings(student, students);
+  const siblingRules = getApplicableDiscounts(student, context, today).filter(d => d.kind === 'sibling');
+  const tuition = getStudentTuition(student, settings.financial, context, today);
+
+  const isValid = description.trim().length >= 3
+    && (kind === 'exemption' || Number(value) > 0)
+    && (kind !== 'percentage' || Number(value) <= 100)
+    && (!validTo || validTo >= validFrom);
+
+  const resetForm = () => {
+    setIsAdding(false);
+    setKind('percentage');
+    setValue('');
+    setDescription('');
+    setValidFrom(today);
+    setValidTo('');
+  };
+
+  const handleAdd = async () => {
+    if (!isValid) return;
+    const rule: DiscountRule = {
+      id: Math.random().toString(36).substr(2, 9),
+      kind,
+      studentId: student.id,
+      value: kind === 'exemption' ? 0 : Number(value),
+      description: description.trim(),
+      validFrom,
+      ...(validTo && { validTo }),
+    };
+    await saveDiscount(rule);
+    resetForm();
+  };
+
+  const inputClasses = "w-full rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:ring-2 focus:ring-primary focus:border-transparent outline-none";
+
+  return (
+    <div>
+        <div className="flex items-center justify-between mb-3">
+            <label className="text-xs font-semibold text-neutral-gray uppercase tracking-wider">Descontos e Bolsas</label>
+            {!isAdding && student.status !== 'transferred' && (
+                <button onClick={() => setIsAdding(true)} className="text-xs font-semibold text-primary hover:underline flex items-center gap-1">
+                    <span className="material-symbols-outlined text-[16px]">add</span>
+                    Adicionar
+                </button>
+            )}
+        </div>
+
+        <p className="text-sm text-neutral-gray mb-3">
+            Mensalidade atual: {tuition.discount > 0 && <span className="line-through mr-1">{formatCurrency(getTuitionAmount(student, settings.financial))}</span>}
+            <strong className="text-[#0d121b] dark:text-white">{formatCurrency(tuition.amount)}</strong>
+        </p>
+
+        <ul className="space-y-2">
+            {ownRules.map(rule => {
+                const active = isDiscountActive(rule, today);
+                return (
+                    <li key={rule.id} className={`flex items-center gap-3 p-3 rounded-lg border border-[#e7ebf3] dark:border-gray-700 ${active ? '' : 'opacity-60'}`}>
+                        <span className="material-symbols-outlined text-blue-600">{rule.kind === 'exemption' ? 'verified' : 'sell'}</span>
+                        <div className="flex-1 min-w-0">
+                            <p className="text-sm font-medium text-[#0d121b] dark:text-white truncate">
+                                {rule.description} <span className="text-blue-600">({formatDiscountValue(rule)})</span>
+                            </p>
+                            <p className="text-xs text-neutral-gray">
+                                {DISCOUNT_KIND_LABELS[rule.kind]} · {formatDate(rule.validFrom)} – {rule.validTo ? formatDate(rule.validTo) : 'sem fim'}
+                                {!active && ' · Inativo'}
+                            </p>
+                        </div>
+                        <button onClick={() => deleteDiscount(rule.id)} title="Remover" className="p-1 rounded-md text-neutral-gray hover:text-warning hover:bg-warning/10 transition-colors">
+                            <span className="material-symbols-outlined text-[18px]">delete</span>
+                        </button>
+                    </li>
+                );
+            })}
+            {siblings.length > 0 && (
+                <li className="flex items-center gap-3 p-3 rounded-lg bg-blue-50 dark:bg-blue-900/10 border border-blue-100 dark:border-blue-800">
+                    <span className="material-symbols-outlined text-blue-600">family_restroom</span>
+                    <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-[#0d121b] dark:text-white">Irmãos: {siblings.map(s => s.name).join(', ')}</p>
+                        <p className="text-xs text-neutral-gray">
+                            {!hasOlderSibling(student, students)
+                                ? 'Primeiro filho matriculado: paga a mensalidade completa.'
+                                : siblingRules.length > 0
+                                    ? `Desconto de irmãos: ${siblingRules.map(formatDiscountValue).join(' + ')}`
+                                    : 'Sem desconto de irmãos em vigor (ver Configurações > Financeiro).'}
+                        </p>
+                    </div>
+                </li>
+            )}
+            {ownRules.length === 0 && siblings.length === 0 && !isAdding && (
+                <p className="text-sm text-neutral-gray">Sem descontos atribuídos.</p>
+            )}
+        </ul>
+
+        {isAdding && (
+            <div className="mt-3 p-4 bg-gray-50 dark:bg-gray-800/50 rounded-xl border border-gray-100 dark:border-gray-700 space-y-3">
+                <div className="grid grid-cols-2 gap-3">
+                    <select value={kind} onChange={(e) => setKind(e.target.value as DiscountKind)} className={inputClasses}>
+                        {STUDENT_KINDS.map(k => <option key={k} value={k}>{DISCOUNT_KIND_LABELS[k]}</option>)}
+                    </select>
+                    <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={kind === 'exemption' ? '' : value}
+                        disabled={kind === 'exemption'}
+                        onChange={(e) => setValue(e.target.value)}
+                        placeholder={kind === 'fixed' ? 'Valor (MT)' : 'Percentagem'}
+                        className={`${inputClasses} disabled:opacity-50`}
+                    />
+                </div>
+                <input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Ex: Bolsa de mérito" className={inputClasses} />
+                <div className="grid grid-cols-2 gap-3">
+                    <label className="flex flex-col gap-1 text-xs text-neutral-gray">
+                        Válido de
+                        <input type="date" value={validFrom} onChange={(e) => e.target.value && setValidFrom(e.target.value)} className={inputClasses} />
+                    </label>
+                    <label className="flex flex-col gap-1 text-xs text-neutral-gray">
+                        Até (opcional)
+                        <input type="date" value={validTo} min={validFrom} onChange={(e) => setValidTo(e.target.value)} className={inputClasses} />
+                    </label>
+                </div>
+                <p className="text-xs text-neutral-gray">As mensalidades em aberto são recalculadas; as já pagas mantêm o valor.</p>
+                <div className="flex justify-end gap-2">
+                    <button onClick={resetForm} className="px-4 py-2 text-sm font-medium text-neutral-gray hover:text-[#0d121b] transition-colors">Cancelar</button>
+                    <button
+                        onClick={handleAdd}
+                        disabled={!isValid}
+                        className="px-4 py-2 text-sm font-medium text-white bg-primary rounded-lg hover:bg-primary-dark transition-colors disabled:opacity-50"
+                    >
+                        Guardar Desconto
+                    </button>
+                </div>
+            </div>
+        )}
+    </div>
+  );
+};
@@ -0,0 +1,241 @@
+import React, { useState, useMemo } from 'react';
+import { Mark, Term } from '../../types';
+import { useSchoolData } from '../../contexts/SchoolDataContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import { formatClassName, getClassRoster } from '../../lib/classes';
+import {
+  GRADING_SCALES,
+  TERM_LABELS,
+  createMark,
+  convertMark,
+  formatMark,
+  getActiveTerms,
+  getMarkId,
+  getStudentResults,
+  getSubjectsForGrade,
+  isPassing,
+  parseMark,
+} from '../../lib/grading';
+import { generateClassReportCardsPDF } from '../../lib/pdf-service';
+import { summarizeAttendance } from '../../lib/attendance';
+
+/**
+ * Pauta: marks of one turma in one subject and trimester, with each student's running average.
+ */
+export const MarksPanel: React.FC = () => {
+  const { students, classes, marks, attendance, saveMarks, deleteMarks } = useSchoolData();
+  const { settings } = useSettings();
+  const { academic } = settings;
+  const system = academic.gradingSystem;
+  const terms = getActiveTerms(academic);
+
+  const years = useMemo(
+    () => Array.from(new Set([academic.currentYear, ...classes.map(c => c.year)])).sort().reverse(),
+    [classes, academic.currentYear]
+  );
+  const [year, setYear] = useState(academic.currentYear);
+  const yearClasses = useMemo(() => classes
+    .filter(c => c.year === year)
+    .sort((a, b) => a.grade.localeCompare(b.grade) || a.shift.localeCompare(b.shift) || a.letter.localeCompare(b.letter)),
+    [classes, year]
+  );
+
+  const [classId, setClassId] = useState('');
+  const [subject, setSubject] = useState('');
+  const [term, setTerm] = useState<Term | ''>('');
+  // Values typed since the last save, by student id. Cleared when the selection changes.
+  const [edits, setEdits] = useState<Record<string, string>>({});
+  const [toastMessage, setToastMessage] = useState<string | null>(null);
+
+  const schoolClass = yearClasses.find(c => c.id === classId) ?? yearClasses[0] ?? null;
+  const subjects = schoolClass ? getSubjectsForGrade(schoolClass.grade) : [];
+  const selectedSubject = subjects.find(s => s === subject) ?? subjects[0] ?? '';
+  const selectedTerm = terms.find(t => t === term) ?? terms[0] ?? null;
+  const roster = schoolClass ? getClassRoster(students, schoolClass) : [];
+
+  const showToast = (msg: string) => {
+    setToastMessage(msg);
+    setTimeout(() => setToastMessage(null), 3000);
+  };
+
+  const changeSelection = (apply: () => void) => {
+    apply();
+    setEdits({});
+  };
+
+  const savedMark = (studentId: string): Mark | undefined =>
+    selectedTerm ? marks.find(m => m.id === getMarkId(year, studentId, selectedTerm, selectedSubject)) : undefined;
+
+  // Marks entered under another grading system are shown converted to the current one
+  const savedValue = (studentId: string) => {
+    const mark = savedMark(studentId);
+    return mark ? formatMark(convertMark(mark.value, mark.system, system), system) : '';
+  };
+
+  const valueOf = (studentId: string) => edits[studentId] ?? savedValue(studentId);
+  const isInvalid = (studentId: string) => valueOf(studentId).trim() !== '' && parseMark(valueOf(studentId), system) === null;
+
+  const editedIds = Object.keys(edits).filter(id => edits[id].trim() !== savedValue(id));
+  const hasInvalid = editedIds.some(isInvalid);
+  const entered = roster.filter(s => parseMark(valueOf(s.id), system) !== null).length;
+
+  const handleSave = async () => {
+    if (!selectedTerm || hasInvalid) return;
+    const changed: Mark[] = [];
+    const removed: string[] = [];
+    editedIds.forEach(studentId => {
+      const existing = savedMark(studentId);
+      const value = parseMark(edits[studentId], system);
+      if (value === null) {
+        if (existing) removed.push(existing.id);
+      } else {
+        changed.push({ ...existing, ...createMark(year, studentId, selectedTerm, selectedSubject, value, system) });
+      }
+    });
+    await saveMarks(changed);
+    if (removed.length > 0) await deleteMarks(removed);
+    setEdits({});
+    showToast('Pauta guardada com sucesso!');
+  };
+
+  // One boletim per student, covering the trimesters up to the selected one
+  const handlePrintReportCards = () => {
+    if (!schoolClass || !selectedTerm) return;
+    const className = formatClassName(schoolClass);
+    const cards = roster.map(student => ({
+      student,
+      className,
+      year,
+      results: getStudentResults(student, marks, year, academic, selectedTerm),
+      attendance: summarizeAttendance(attendance, student.id, `${year}-01-01`, `${year}-12-31`),
+    }));
+    generateClassReportCardsPDF(cards, className, academic, selectedTerm, settings.profile);
+  };
+
+  const selectClasses = "px-3 py-2 bg-background-light dark:bg-gray-800 rounded-lg text-sm border-transparent focus:border-primary outline-none cursor-pointer";
+
+  return (
+    <div className="space-y-4">
+      {/* Toolbar */}
+      <div className="bg-surface-light dark:bg-surface-dark p-4 rounded-xl border border-[#e7ebf3] dark:border-gray-700 shadow-sm flex flex-col lg:flex-row gap-4 items-center justify-between">
+        <div className="flex flex-wrap items-center gap-3">
+          <select value={year} onChange={(e) => changeSelection(() => setYear(e.target.value))} className={selectClasses}>
+            {years.map(y => <option key={y} value={y}>Ano Letivo {y}</option>)}
+          </select>
+          <select value={schoolClass?.id ?? ''} onChange={(e) => changeSelection(() => setClassId(e.target.value))} className={selectClasses} disabled={yearClasses.length === 0}>
+            {yearClasses.map(c => <option key={c.id} value={c.id}>{formatClassName(c)}</option>)}
+          </select>
+          <select value={selectedSubject} onChange={(e) => changeSelection(() => setSubject(e.target.value))} className={selectClasses} disabled={subjects.length === 0}>
+            {subjects.map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+          <select value={selectedTerm ?? ''} onChange={(e) => changeSelection(() => setTerm(e.target.value as Term))} className={selectClasses} disabled={terms.length === 0}>
+            {terms.map(t => <option key={t} value={t}>{TERM_LABELS[t]}</option>)}
+          </select>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handlePrintReportCards}
+            disabled={!selectedTerm || roster.length === 0 || editedIds.length > 0}
+            title={editedIds.length > 0 ? 'Guarde a pauta antes de imprimir' : undefined}
+            className="px-4 py-2 text-sm font-medium text-neutral-gray border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            <span className="material-symbols-outlined text-[18px]">print</span>
+            Boletins
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={editedIds.length === 0 || hasInvalid}
+            className="px-4 py-2 text-sm font-medium text-white bg-primary rounded-lg hover:bg-primary-dark transition-colors flex items-center gap-2 shadow-sm disabled:opacity-50"
+          >
+            <span className="material-symbols-outlined text-[18px]">save</span>
+            Guardar Pauta
+          </button>
+        </div>
+      </div>
+
+      {!schoolClass || !selectedTerm ? (
+        <div className="py-12 text-center text-neutral-gray bg-surface-light dark:bg-surface-dark rounded-xl border border-[#e7ebf3] dark:border-gray-700">
+          <span className="material-symbols-outlined text-4xl opacity-50">grading</span>
+          <p className="mt-2">
+            {!schoolClass ? `Nenhuma turma criada para ${year}.` : 'Nenhum trimestre ativo. Ative os períodos em Configurações › Acadêmico.'}
+          </p>
+        </div>
+      ) : (
+        <div className="bg-surface-light dark:bg-surface-dark rounded-xl border border-[#e7ebf3] dark:border-gray-700 shadow-sm overflow-hidden">
+          <div className="px-6 py-3 border-b border-[#e7ebf3] dark:border-gray-700 flex flex-wrap items-center justify-between gap-2 text-xs text-neutral-gray">
+            <span>{entered}/{roster.length} notas lançadas • Escala {GRADING_SCALES[system].label}</span>
+            <span>Média de aprovação: <strong className="text-[#0d121b] dark:text-white">{formatMark(academic.passingGrade, system)}</strong></span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="bg-gray-50 dark:bg-gray-800/50 border-b border-[#e7ebf3] dark:border-gray-700">
+                  <th className="py-3 px-6 text-xs font-semibold text-neutral-gray uppercase tracking-wider w-12">Nº</th>
+                  <th className="py-3 px-6 text-xs font-semibold text-neutral-gray uppercase tracking-wider">Aluno</th>
+                  <th className="py-3 px-6 text-xs font-semibold text-neutral-gray uppercase tracking-wider w-40">{TERM_LABELS[selectedTerm]}</th>
+                  <th className="py-3 px-6 text-xs font-semibold text-neutral-gray uppercase tracking-wider text-right">Média da Disciplina</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[#e7ebf3] dark:divide-gray-700">
+                {roster.length > 0 ? roster.map((student, index) => {
+                  const subjectResult = getStudentResults(student, marks, year, academic).subjects.find(s => s.subject === selectedSubject);
+                  const average = subjectResult?.average ?? null;
+                  return (
+                    <tr key={student.id} className="hover:bg-gray-50 dark:hover:bg-gray-800/30 transition-colors">
+                      <td className="py-3 px-6 text-sm text-neutral-gray">{index + 1}</td>
+                      <td className="py-3 px-6">
+                        <div className="flex items-center gap-3">
+                          <img src={student.avatar} alt={student.name} className="size-8 rounded-full object-cover" />
+                          <div>
+                            <p className="text-sm font-semibold text-[#0d121b] dark:text-white">{student.name}</p>
+                            <p className="text-xs text-neutral-gray">{student.enrollmentId}</p>
+                          </div>
+                        </div>
+                      </td>
+                      <td className="py-3 px-6">
+                        <input
+                          value={valueOf(student.id)}
+                          onChange={(e) => setEdits(prev => ({ ...prev, [student.id]: e.target.value }))}
+                          placeholder={system === 'A-F' ? 'A-F' : `0-${GRADING_SCALES[system].max}`}
+                          className={`w-24 rounded-lg border px-3 py-1.5 text-sm text-center outline-none focus:ring-2 focus:ring-primary bg-white dark:bg-gray-800 ${
+                            isInvalid(student.id) ? 'border-warning text-warning' : 'border-gray-300 dark:border-gray-700'
+                          }`}
+                        />
+                      </td>
+                      <td className="py-3 px-6 text-right">
+                        {average === null ? (
+                          <span className="text-sm text-neutral-gray">—</span>
+                        ) : (
+                          <span className={`text-sm font-bold ${isPassing(average, academic) ? 'text-success' : 'text-warning'}`}>
+                            {formatMark(average, system)}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                }) : (
+                  <tr>
+                    <td colSpan={4} className="py-12 text-center text-sm text-neutral-gray">Nenhum aluno nesta turma.</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+          {hasInvalid && (
+            <p className="px-6 py-3 border-t border-[#e7ebf3] dark:border-gray-700 text-xs font-medium text-warning">
+              Há notas fora da escala {GRADING_SCALES[system].label}. Corrija-as antes de guardar.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Toast Notification */}
+      {toastMessage && (
+        <div className="fixed top-20 right-6 z-50 bg-gray-900 text-white px-4 py-3 rounded-lg shadow-lg flex items-center gap-3 animate-in slide-in-from-right fade-in duration-300">
+          <span className="material-symbols-outlined text-green-400">check_circle</span>
+          <span className="text-sm font-medium">{toastMessage}</span>
+        </div>
+      )}
+    </div>
+  );
+};
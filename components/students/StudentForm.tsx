@@ -4,6 +4,9 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { AVAILABLE_GRADES, CLASS_LETTERS, ACADEMIC_SHIFTS } from '../../lib/constants';
+import { Student, GradeLevel, ClassLetter, Shift } from '../../types';
+import { useSchoolData } from '../../contexts/SchoolDataContext';
+import { getClassId, getClassRoster, DEFAULT_CLASS_CAPACITY } from '../../lib/classes';
 
 // --- Zod Schema ---
 const studentFormSchema = z.object({
@@ -25,10 +28,13 @@ const studentFormSchema = z.object({
   guardians: z.object({
     fatherName: z.string().optional(),
     fatherPhone: z.string().optional(),
+    fatherBi: z.string().optional(),
     motherName: z.string().min(3, "Nome da mãe é obrigatório"),
     motherPhone: z.string().min(8, "Contato válido é obrigatório"),
+    motherBi: z.string().optional(),
     financialResp: z.enum(['pai', 'mae', 'outro']),
     financialEmail: z.string().email("Email inválido para faturamento"),
+    financialNuit: z.string().regex(/^(\d{9})?$/, "NUIT deve ter 9 dígitos").optional(),
   }),
   health: z.object({
     bloodType: z.string(),
@@ -39,20 +45,63 @@ const studentFormSchema = z.object({
 export type StudentFormValues = z.infer<typeof studentFormSchema> & { avatarBase64?: string };
 
 interface StudentFormProps {
+  initialData?: Student; // Edit mode
   onSuccess: (data: StudentFormValues) => void;
   onCancel: () => void;
 }
 
-export const StudentForm: React.FC<StudentFormProps> = ({ onSuccess, onCancel }) => {
-  const [avatarPreview, setAvatarPreview] = useState<string | null>(null);
+/**
+ * Maps a saved student back onto the enrolment form fields.
+ */
+const toFormValues = (student: Student): Partial<StudentFormValues> => {
+  const { father, mother, financialResponsible } = student.guardians;
+  return {
+    personal: {
+      fullName: student.name,
+      dob: student.personal.dob,
+      gender: student.personal.gender === 'M' ? 'masculino' : 'feminino',
+      documentId: student.personal.biNumber,
+      nationality: student.personal.nationality,
+      address: student.personal.address,
+    },
+    academic: {
+      year: student.academic.year || new Date().getFullYear().toString(),
+      grade: student.grade,
+      classLetter: student.academic.classLetter || '',
+      shift: student.academic.shift || 'manha',
+      enrollmentDate: student.academic.enrollmentDate,
+    },
+    guardians: {
+      fatherName: father.name,
+      fatherPhone: father.phone,
+      fatherBi: father.biNumber || '',
+      motherName: mother.name,
+      motherPhone: mother.phone,
+      motherBi: mother.biNumber || '',
+      financialResp: financialResponsible === 'Father' ? 'pai' : financialResponsible === 'Mother' ? 'mae' : 'outro',
+      financialEmail: student.guardians.financialEmail || (financialResponsible === 'Father' ? father.email : mother.email),
+      financialNuit: student.guardians.financialNuit || '',
+    },
+    health: {
+      bloodType: student.health.bloodType,
+      allergies: student.health.allergies,
+    },
+  };
+};
+
+export const StudentForm: React.FC<StudentFormProps> = ({ initialData, onSuccess, onCancel }) => {
+  const [avatarPreview, setAvatarPreview] = useState<string | null>(initialData?.avatar ?? null);
+  const { students, classes } = useSchoolData();
 
   const {
     register,
     handleSubmit,
+    watch,
+    setError,
     formState: { errors, isSubmitting },
   } = useForm<StudentFormValues>({
     resolver: zodResolver(studentFormSchema),
-    defaultValues: {
+    defaultValues: initialData ? toFormValues(initialData) : {
       personal: { nationality: 'mocambicana', gender: 'masculino' },
       academic: { year: new Date().getFullYear().toString(), grade: '1ª Classe', shift: 'manha', enrollmentDate: new Date().toISOString().split('T')[0] },
       guardians: { financialResp: 'pai' },
@@ -60,7 +109,25 @@ export const StudentForm: React.FC<StudentFormProps> = ({ onSuccess, onCancel })
     },
   });
 
+  // --- Turma Occupancy ---
+  const [year, grade, classLetter, shift] = watch(['academic.year', 'academic.grade', 'academic.classLetter', 'academic.shift']);
+  const occupancy = (() => {
+    if (!classLetter) return null;
+    const id = getClassId(year, grade as GradeLevel, classLetter as ClassLetter, shift as Shift);
+    const schoolClass = classes.find(c => c.id === id);
+    const capacity = schoolClass?.capacity ?? DEFAULT_CLASS_CAPACITY;
+    // The student being edited does not take a second seat in their own turma
+    const enrolled = schoolClass
+      ? getClassRoster(students, schoolClass).filter(s => s.id !== initialData?.id).length
+      : 0;
+    return { enrolled, capacity, isFull: enrolled >= capacity };
+  })();
+
   const onSubmit = async (data: StudentFormValues) => {
+    if (occupancy?.isFull) {
+      setError('academic.classLetter', { message: `Turma cheia (${occupancy.enrolled}/${occupancy.capacity}). Escolha outra turma ou turno.` });
+      return;
+    }
     // Pass the base64 image along with data
     const finalData = { ...data, avatarBase64: avatarPreview || undefined };
     await new Promise((resolve) => setTimeout(resolve, 800));
@@ -180,6 +247,11 @@ export const StudentForm: React.FC<StudentFormProps> = ({ onSuccess, onCancel })
                   <option key={letter} value={letter}>Turma {letter}</option>
               ))}
             </Select>
+            {occupancy && !errors.academic?.classLetter && (
+              <span className={`text-xs font-medium ${occupancy.isFull ? 'text-warning' : 'text-neutral-gray'}`}>
+                {occupancy.enrolled}/{occupancy.capacity} alunos{occupancy.isFull ? ' • Turma cheia' : ''}
+              </span>
+            )}
           </FormItem>
 
           <FormItem label="Turno" error={errors.academic?.shift?.message}>
@@ -215,6 +287,9 @@ export const StudentForm: React.FC<StudentFormProps> = ({ onSuccess, onCancel })
                 <FormItem label="Contato">
                     <Input {...register('guardians.fatherPhone')} placeholder="+258..." />
                 </FormItem>
+                <FormItem label="Nº BI">
+                    <Input {...register('guardians.fatherBi')} />
+                </FormItem>
             </div>
             
             {/* Mother */}
@@ -226,6 +301,9 @@ export const StudentForm: React.FC<StudentFormProps> = ({ onSuccess, onCancel })
                 <FormItem label="Contato" error={errors.guardians?.motherPhone?.message}>
                     <Input {...register('guardians.motherPhone')} placeholder="+258..." />
                 </FormItem>
+                <FormItem label="Nº BI">
+                    <Input {...register('guardians.motherBi')} />
+                </FormItem>
             </div>
 
             {/* Financial Resp */}
@@ -240,6 +318,9 @@ export const StudentForm: React.FC<StudentFormProps> = ({ onSuccess, onCancel })
                 <FormItem label="Email para Faturas" error={errors.guardians?.financialEmail?.message}>
                     <Input {...register('guardians.financialEmail')} type="email" placeholder="exemplo@email.com" />
                 </FormItem>
+                <FormItem label="NUIT do Responsável (Recibos)" error={errors.guardians?.financialNuit?.message}>
+                    <Input {...register('guardians.financialNuit')} placeholder="123456789" />
+                </FormItem>
             </div>
         </div>
       </section>
@@ -294,7 +375,7 @@ export const StudentForm: React.FC<StudentFormProps> = ({ onSuccess, onCancel })
             ) : (
                 <>
                     <span className="material-symbols-outlined text-sm">save</span>
-                    Salvar Matrícula
+                    {initialData ? 'Salvar Alterações' : 'Salvar Matrícula'}
                 </>
             )}
           </button>
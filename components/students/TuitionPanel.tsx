@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import { PaymentPlan, Student, TuitionCharge } from '../../types';
+import { useSchoolData } from '../../contexts/SchoolDataContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import {
+  PLAN_STATE_LABELS,
+  PlanState,
+  buildInstalments,
+  formatMonthLabel,
+  getChargeBalance,
+  getLateFee,
+  getPlanProgress,
+  isChargeOverdue,
+} from '../../lib/billing';
+import { getTodayKey } from '../../lib/attendance';
+import { formatCurrency, formatDate } from '../../lib/utils';
+
+const PLAN_STATE_STYLES: Record<PlanState, string> = {
+  active: 'bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-400',
+  completed: 'bg-success/10 text-success',
+  defaulted: 'bg-warning/10 text-warning',
+  cancelled: 'bg-gray-100 text-neutral-gray dark:bg-gray-800',
+};
+
+const chargeStatus = (charge: TuitionCharge, today: string): { label: string; className: string } => {
+  if (charge.status === 'paid') return { label: charge.amount > 0 ? 'Pago' : 'Isento', className: 'text-success' };
+  if (charge.planId) return { label: 'Em acordo', className: 'text-blue-600' };
+  if (isChargeOverdue(charge, today)) return { label: charge.status === 'partial' ? 'Parcial · Vencida' : 'Vencida', className: 'text-warning' };
+  return { label: charge.status === 'partial' ? 'Parcial' : 'Em aberto', className: 'text-neutral-gray' };
+};
+
+/**
+ * Tuition of a student month by month (paid, outstanding) and its instalment agreements for overdue months.
+ */
+export const TuitionPanel: React.FC<{ student: Student }> = ({ student }) => {
+  const { charges, plans, savePlan, cancelPlan } = useSchoolData();
+  const { settings } = useSettings();
+  const today = getTodayKey();
+
+  const [isAgreeing, setIsAgreeing] = useState(false);
+  const [instalmentCount, setInstalmentCount] = useState('3');
+  const [firstDueDate, setFirstDueDate] = useState(today);
+  const [notes, setNotes] = useState('');
+
+  const studentCharges = charges
+    .filter(c => c.studentId === student.id && (c.status === 'paid' || c.dueDate <= today || (c.paidAmount ?? 0) > 0))
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+  const studentPlans = plans.filter(p => p.studentId === student.id).sort((a, b) => b.agreedAt.localeCompare(a.agreedAt));
+
+  // Overdue months not yet under an active agreement can be rescheduled
+  const eligible = studentCharges.filter(c => isChargeOverdue(c, today) && !c.planId);
+  const eligibleTotal = eligible.reduce((sum, c) => sum + getChargeBalance(c, settings.financial, today), 0);
+  const count = Math.floor(Number(instalmentCount));
+  const isValid = eligible.length > 0 && count >= 2 && count <= 12 && firstDueDate >= today;
+
+  const resetForm = () => {
+    setIsAgreeing(false);
+    setInstalmentCount('3');
+    setFirstDueDate(today);
+    setNotes('');
+  };
+
+  const handleAgree = async () => {
+    if (!isValid) return;
+    const total = Math.round(eligibleTotal * 100) / 100;
+    const plan: PaymentPlan = {
+      id: Math.random().toString(36).substr(2, 9),
+      studentId: student.id,
+      chargeIds: eligible.map(c => c.id),
+      total,
+      paidBefore: eligible.reduce((sum, c) => sum + (c.paidAmount ?? 0), 0),
+      instalments: buildInstalments(total, count, firstDueDate),
+      status: 'active',
+      agreedAt: today,
+      ...(notes.trim() && { notes: notes.trim() }),
+    };
+    await savePlan(plan);
+    resetForm();
+  };
+
+  const handleCancel = async (plan: PaymentPlan) => {
+    if (!window.confirm('Anular este acordo? As multas por atraso das propinas voltam a ser calculadas.')) return;
+    await cancelPlan(plan.id);
+  };
+
+  const inputClasses = "w-full rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:ring-2 focus:ring-primary focus:border-transparent outline-none";
+
+  return (
+    <div className="space-y-6">
+        <div>
+            <label className="block text-xs font-semibold text-neutral-gray uppercase tracking-wider mb-3">Propinas</label>
+            {studentCharges.length > 0 ? (
+                <div className="border border-[#e7ebf3] dark:border-gray-700 rounded-lg overflow-hidden">
+                    <table className="w-full text-sm">
+                        <thead className="bg-gray-50 dark:bg-gray-800/50 text-xs text-neutral-gray uppercase">
+                            <tr>
+                                <th className="py-2 px-3 text-left font-semibold">Mês</th>
+                                <th className="py-2 px-3 text-right font-semibold">Valor</th>
+                                <th className="py-2 px-3 text-right font-semibold">Pago</th>
+                                <th className="py-2 px-3 text-right font-semibold">Em Dívida</th>
+                                <th className="py-2 px-3 text-left font-semibold">Estado</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-[#e7ebf3] dark:divide-gray-800">
+                            {studentCharges.map(charge => {
+                                const status = chargeStatus(charge, today);
+                                return (
+                                    <tr key={charge.id}>
+                                        <td className="py-2 px-3 text-[#0d121b] dark:text-white whitespace-nowrap">{formatMonthLabel(charge.month)} {charge.year}</td>
+                                        <td className="py-2 px-3 text-right whitespace-nowrap">{formatCurrency(charge.amount + getLateFee(charge, settings.financial, today))}</td>
+                                        <td className="py-2 px-3 text-right whitespace-nowrap text-success">{formatCurrency(charge.paidAmount ?? (charge.status === 'paid' ? charge.amount + (charge.lateFee ?? 0) : 0))}</td>
+                                        <td className="py-2 px-3 text-right whitespace-nowrap font-semibold text-[#0d121b] dark:text-white">{formatCurrency(getChargeBalance(charge, settings.financial, today))}</td>
+                                        <td className={`py-2 px-3 text-xs font-semibold whitespace-nowrap ${status.className}`}>{status.label}</td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            ) : (
+                <p className="text-sm text-neutral-gray">Sem propinas vencidas.</p>
+            )}
+        </div>
+
+        <div>
+            <div className="flex items-center justify-between mb-3">
+                <label className="text-xs font-semibold text-neutral-gray uppercase tracking-wider">Acordos de Pagamento</label>
+                {!isAgreeing && eligible.length > 0 && (
+                    <button onClick={() => setIsAgreeing(true)} className="text-xs font-semibold text-primary hover:underline flex items-center gap-1">
+                        <span className="material-symbols-outlined text-[16px]">handshake</span>
+                        Novo Acordo
+                    </button>
+                )}
+            </div>
+
+            {isAgreeing && (
+                <div className="mb-3 p-4 bg-gray-50 dark:bg-gray-800/50 rounded-xl border border-gray-100 dark:border-gray-700 space-y-3">
+                    <p className="text-sm text-[#0d121b] dark:text-white">
+                        {eligible.map(c => `${formatMonthLabel(c.month)} ${c.year}`).join(', ')}: <strong>{formatCurrency(eligibleTotal)}</strong> (com multas até hoje)
+                    </p>
+                    <div className="grid grid-cols-2 gap-3">
+                        <label className="flex flex-col gap-1 text-xs text-neutral-gray">
+                            Nº de prestações
+                            <input type="number" min="2" max="12" value={instalmentCount} onChange={(e) => setInstalmentCount(e.target.value)} className={inputClasses} />
+                        </label>
+                        <label className="flex flex-col gap-1 text-xs text-neutral-gray">
+                            Primeira prestação
+                            <input type="date" value={firstDueDate} min={today} onChange={(e) => e.target.value && setFirstDueDate(e.target.value)} className={inputClasses} />
+                        </label>
+                    </div>
+                    <input value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Observações (opcional)" className={inputClasses} />
+                    {isValid && (
+                        <p className="text-xs text-neutral-gray">
+                            {buildInstalments(eligibleTotal, count, firstDueDate).map(i => `${formatDate(i.dueDate)}: ${formatCurrency(i.amount)}`).join(' · ')}
+                        </p>
+                    )}
+                    <p className="text-xs text-neutral-gray">As multas ficam congeladas enquanto o acordo estiver em vigor.</p>
+                    <div className="flex justify-end gap-2">
+                        <button onClick={resetForm} className="px-4 py-2 text-sm font-medium text-neutral-gray hover:text-[#0d121b] transition-colors">Cancelar</button>
+                        <button
+                            onClick={handleAgree}
+                            disabled={!isValid}
+                            className="px-4 py-2 text-sm font-medium text-white bg-primary rounded-lg hover:bg-primary-dark transition-colors disabled:opacity-50"
+                        >
+                            Registar Acordo
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {studentPlans.length > 0 ? (
+                <ul className="space-y-3">
+                    {studentPlans.map(plan => {
+                        const progress = getPlanProgress(plan, charges, today);
+                        return (
+                            <li key={plan.id} className="p-3 rounded-lg border border-[#e7ebf3] dark:border-gray-700 space-y-2">
+                                <div className="flex items-center gap-3">
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-sm font-medium text-[#0d121b] dark:text-white">
+                                            Acordo de {formatDate(plan.agreedAt)} · {formatCurrency(progress.paid)} de {formatCurrency(plan.total)}
+                                        </p>
+                                        {plan.notes && <p className="text-xs text-neutral-gray truncate">{plan.notes}</p>}
+                                    </div>
+                                    <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${PLAN_STATE_STYLES[progress.state]}`}>
+                                        {PLAN_STATE_LABELS[progress.state]}
+                                    </span>
+                                    {plan.status === 'active' && progress.state !== 'completed' && (
+                                        <button onClick={() => handleCancel(plan)} title="Anular Acordo" className="p-1 rounded-md text-neutral-gray hover:text-warning hover:bg-warning/10 transition-colors">
+                                            <span className="material-symbols-outlined text-[18px]">cancel</span>
+                                        </button>
+                                    )}
+                                </div>
+                                <div className="flex flex-wrap gap-2">
+                                    {progress.instalments.map((instalment, i) => (
+                                        <span
+                                            key={i}
+                                            className={`px-2 py-1 rounded-md text-xs border ${
+                                                instalment.status === 'paid' ? 'border-success/30 text-success'
+                                                : instalment.status === 'overdue' ? 'border-warning/30 text-warning'
+                                                : 'border-[#e7ebf3] dark:border-gray-700 text-neutral-gray'}`}
+                                        >
+                                            {i + 1}ª · {formatDate(instalment.dueDate)} · {formatCurrency(instalment.amount)}
+                                        </span>
+                                    ))}
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            ) : !isAgreeing && (
+                <p className="text-sm text-neutral-gray">Sem acordos de pagamento.</p>
+            )}
+        </div>
+    </div>
+  );
+};
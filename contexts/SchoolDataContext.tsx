@@ -1,7 +1,24 @@
 
-import React, { createContext, useContext, useState, useEffect, useMemo } from 'react';
-import { Student, Transaction, CalendarEvent, Employee, KPIData } from '../types';
-import { getStudentFinancialStatus } from '../lib/utils';
+import React, { createContext, useContext, useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { Student, StudentStatus, Transaction, CalendarEvent, Employee, SchoolClass, Mark, AttendanceRecord, TuitionCharge, DiscountRule, PaymentPlan, StatementLine, Receipt, PayrollEntry, PayrollStatus, PaymentMethodCode, KPIData } from '../types';
+import { StudentFinancialStatus } from '../lib/utils';
+import { buildReceipt, getActiveReceipt } from '../lib/receipts';
+import { buildPayrollEntries, buildPayrollTransaction, getPayrollRuns } from '../lib/payroll';
+import { generateTuitionCharges, getLateFee, getStudentFinancialSummary, getTransactionAllocations, repriceOpenCharges, settleCharges } from '../lib/billing';
+import { useSettings } from './SettingsContext';
+import {
+  SchoolRepository,
+  SchoolCollections,
+  SchoolSnapshot,
+  CollectionName,
+  InvalidRecordError,
+  loadSnapshot,
+  createLocalStorageRepository,
+  createSupabaseRepository
+} from '../lib/repository';
+import { SyncStatus, createSyncedRepository, isSyncedRepository, stampVersion } from '../lib/sync';
+import { applySnapshot } from '../lib/backup';
+import { supabase } from '../lib/supabaseClient';
 
 // --- CONTEXT DEFINITION ---
 
@@ -10,16 +27,57 @@ interface SchoolDataContextType {
   transactions: Transaction[];
   events: CalendarEvent[];
   employees: Employee[];
+  classes: SchoolClass[];
+  marks: Mark[];
+  attendance: AttendanceRecord[];
+  charges: TuitionCharge[];
+  discounts: DiscountRule[];
+  plans: PaymentPlan[];
+  statementLines: StatementLine[];
+  receipts: Receipt[];
+  payroll: PayrollEntry[];
   
   // Actions
   addStudent: (student: Student) => Promise<void>;
   updateStudent: (student: Student) => Promise<void>;
-  addTransaction: (transaction: Transaction) => Promise<void>;
+  changeStudentStatus: (id: string, status: StudentStatus, reason: string, date: string) => Promise<void>;
+  addTransaction: (transaction: Transaction) => Promise<Transaction>;
+  updateTransaction: (transaction: Transaction) => Promise<Transaction>;
+  cancelTransaction: (id: string, reason: string) => Promise<void>;
   addEvent: (event: CalendarEvent) => Promise<void>;
   updateEvent: (event: CalendarEvent) => Promise<void>;
   deleteEvent: (id: string) => Promise<void>;
   addEmployee: (employee: Employee) => Promise<void>;
+  saveClass: (schoolClass: SchoolClass) => Promise<void>;
+  deleteClass: (id: string) => Promise<void>;
+  saveMarks: (marks: Mark[]) => Promise<void>;
+  deleteMarks: (ids: string[]) => Promise<void>;
+  saveAttendance: (record: AttendanceRecord) => Promise<void>;
+  generateCharges: (year: string) => Promise<number>;
+  saveDiscount: (rule: DiscountRule) => Promise<void>;
+  deleteDiscount: (id: string) => Promise<void>;
+  savePlan: (plan: PaymentPlan) => Promise<void>;
+  cancelPlan: (id: string) => Promise<void>;
+  importStatementLines: (lines: StatementLine[]) => Promise<number>;
+  reconcileStatementLine: (line: StatementLine, transaction: Transaction) => Promise<void>;
+  ignoreStatementLine: (id: string) => Promise<void>;
+  issueReceipt: (transaction: Transaction) => Promise<Receipt>;
+  voidReceipt: (id: string, reason: string) => Promise<void>;
+  createPayrollRun: (monthReference: string) => Promise<number>;
+  savePayrollEntry: (entry: PayrollEntry) => Promise<void>;
+  deletePayrollEntry: (id: string) => Promise<void>;
+  changePayrollStatus: (monthReference: string, status: Exclude<PayrollStatus, 'paid'>) => Promise<void>;
+  payPayrollRun: (monthReference: string, paymentDate: string, method: PaymentMethodCode) => Promise<Transaction | null>;
   refreshData: () => Promise<void>;
+  restoreSnapshot: (snapshot: SchoolSnapshot) => Promise<void>;
+
+  // Offline Sync (null when the repository has no remote store)
+  syncStatus: SyncStatus | null;
+  syncNow: () => Promise<void>;
+  resolveConflict: (conflictId: string, keep: 'local' | 'remote') => Promise<void>;
+
+  // Financial status of every student today, by id (shared by KPIs, badges and reports)
+  financialStatuses: Record<string, StudentFinancialStatus>;
 
   // Computed KPIs
   kpis: {
@@ -28,140 +86,540 @@ interface SchoolDataContextType {
     totalExpenses: number;
     netBalance: number;
     delinquencyRate: number; // Percentage
+    amountOwed: number;
   };
   isLoading: boolean;
 }
 
 const SchoolDataContext = createContext<SchoolDataContextType | undefined>(undefined);
 
-const STORAGE_KEYS = {
-  STUDENTS: 'seiva_students',
-  TRANSACTIONS: 'seiva_transactions',
-  EVENTS: 'seiva_events',
-  EMPLOYEES: 'seiva_employees'
-};
+/**
+ * Backend selected at build time through DATA_BACKEND.
+ * Default: offline-first (localStorage cache synced to Supabase). 'local': browser only.
+ */
+const defaultRepository: SchoolRepository = process.env.DATA_BACKEND === 'local'
+  ? createLocalStorageRepository()
+  : createSyncedRepository(createLocalStorageRepository(), createSupabaseRepository(supabase));
+
+// Pull changes made on other PCs while this one stays open
+const SYNC_INTERVAL_MS = 60_000;
 
-export const SchoolDataProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+export const SchoolDataProvider: React.FC<{ children: React.ReactNode; repository?: SchoolRepository }> = ({ children, repository = defaultRepository }) => {
   // 1. Initial State: Initialize with empty arrays (Server-Safe)
   const [students, setStudents] = useState<Student[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [events, setEvents] = useState<CalendarEvent[]>([]);
   const [employees, setEmployees] = useState<Employee[]>([]);
+  const [classes, setClasses] = useState<SchoolClass[]>([]);
+  const [marks, setMarks] = useState<Mark[]>([]);
+  const [attendance, setAttendance] = useState<AttendanceRecord[]>([]);
+  const [charges, setCharges] = useState<TuitionCharge[]>([]);
+  const [discounts, setDiscounts] = useState<DiscountRule[]>([]);
+  const [plans, setPlans] = useState<PaymentPlan[]>([]);
+  const [statementLines, setStatementLines] = useState<StatementLine[]>([]);
+  const [receipts, setReceipts] = useState<Receipt[]>([]);
+  const [payroll, setPayroll] = useState<PayrollEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(
+    isSyncedRepository(repository) ? repository.getStatus() : null
+  );
+  const syncTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const receiptQueue = useRef<Promise<unknown>>(Promise.resolve());
+  const { settings } = useSettings();
 
-  // 2. useEffect Loader: Load from LocalStorage ONLY after mount
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      try {
-        const savedStudents = localStorage.getItem(STORAGE_KEYS.STUDENTS);
-        const savedTx = localStorage.getItem(STORAGE_KEYS.TRANSACTIONS);
-        const savedEvents = localStorage.getItem(STORAGE_KEYS.EVENTS);
-        const savedEmployees = localStorage.getItem(STORAGE_KEYS.EMPLOYEES);
-
-        if (savedStudents) setStudents(JSON.parse(savedStudents));
-        if (savedTx) setTransactions(JSON.parse(savedTx));
-        if (savedEvents) {
-          const parsedEvents = JSON.parse(savedEvents);
-          // Hydrate Date strings back to Date objects
-          const hydratedEvents = parsedEvents.map((e: any) => ({
-            ...e,
-            start: new Date(e.start),
-            end: new Date(e.end)
-          }));
-          setEvents(hydratedEvents);
-        }
-        if (savedEmployees) setEmployees(JSON.parse(savedEmployees));
-      } catch (error) {
-        console.error("Failed to load data from localStorage", error);
-      } finally {
-        setIsLoading(false);
-      }
+  // 2. Loader: (Re)fetch every collection from the repository
+  const refreshData = useCallback(async () => {
+    try {
+      const snapshot = await loadSnapshot(repository);
+      setStudents(snapshot.students);
+      setTransactions(snapshot.transactions);
+      setEvents(snapshot.events);
+      setEmployees(snapshot.employees);
+      setClasses(snapshot.classes);
+      setMarks(snapshot.marks);
+      setAttendance(snapshot.attendance);
+      setCharges(snapshot.charges);
+      setDiscounts(snapshot.discounts);
+      setPlans(snapshot.plans);
+      setStatementLines(snapshot.statementLines);
+      setReceipts(snapshot.receipts);
+      setPayroll(snapshot.payroll);
+    } catch (error) {
+      console.error(`Failed to load data from ${repository.kind} repository`, error);
     }
-  }, []);
+  }, [repository]);
 
-  // 3. Save data when state changes
-  useEffect(() => {
-    if (typeof window !== 'undefined' && !isLoading) {
-      localStorage.setItem(STORAGE_KEYS.STUDENTS, JSON.stringify(students));
-    }
-  }, [students, isLoading]);
+  // 3. Sync: replay pending changes against the remote store, then reload the local cache
+  const syncNow = useCallback(async () => {
+    if (!isSyncedRepository(repository)) return;
+    setSyncStatus({ ...repository.getStatus(), state: 'syncing' });
+    const status = await repository.sync();
+    setSyncStatus(status);
+    await refreshData();
+  }, [repository, refreshData]);
 
-  useEffect(() => {
-    if (typeof window !== 'undefined' && !isLoading) {
-      localStorage.setItem(STORAGE_KEYS.TRANSACTIONS, JSON.stringify(transactions));
-    }
-  }, [transactions, isLoading]);
+  // Debounced so a burst of saves (e.g. transaction + student) is pushed in one pass
+  const scheduleSync = () => {
+    if (!isSyncedRepository(repository)) return;
+    setSyncStatus(repository.getStatus());
+    if (syncTimer.current) clearTimeout(syncTimer.current);
+    syncTimer.current = setTimeout(() => { syncNow(); }, 1000);
+  };
 
   useEffect(() => {
-    if (typeof window !== 'undefined' && !isLoading) {
-      localStorage.setItem(STORAGE_KEYS.EVENTS, JSON.stringify(events));
+    if (typeof window !== 'undefined') {
+      refreshData()
+        .finally(() => setIsLoading(false))
+        .then(() => syncNow());
     }
-  }, [events, isLoading]);
+  }, [refreshData, syncNow]);
 
   useEffect(() => {
-    if (typeof window !== 'undefined' && !isLoading) {
-      localStorage.setItem(STORAGE_KEYS.EMPLOYEES, JSON.stringify(employees));
+    if (!isSyncedRepository(repository)) return;
+    const handleOnline = () => { syncNow(); };
+    const handleOffline = () => setSyncStatus(repository.getStatus());
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    const interval = setInterval(() => { if (navigator.onLine) syncNow(); }, SYNC_INTERVAL_MS);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      clearInterval(interval);
+    };
+  }, [repository, syncNow]);
+
+  const resolveConflict = async (conflictId: string, keep: 'local' | 'remote') => {
+    if (!isSyncedRepository(repository)) return;
+    try {
+      setSyncStatus(await repository.resolveConflict(conflictId, keep));
+      await refreshData();
+    } catch (error) {
+      console.error(`Failed to resolve conflict ${conflictId}`, error);
     }
-  }, [employees, isLoading]);
+  };
 
+  // 4. Persist a single record. State is updated optimistically by the caller with the stamped record.
+  // A record the repository refuses as invalid is taken back off the screen and the error passed on for the form to show.
+  const persist = async <K extends CollectionName>(collection: K, record: SchoolCollections[K]) => {
+    try {
+      await repository.upsert(collection, record);
+    } catch (error) {
+      console.error(`Failed to save ${collection} record ${record.id}`, error);
+      if (error instanceof InvalidRecordError) {
+        await refreshData();
+        throw error;
+      }
+    }
+    scheduleSync();
+  };
 
   // --- Actions ---
 
-  const addStudent = async (s: Student) => {
+  const addStudent = async (student: Student) => {
+    const s = stampVersion(student);
     setStudents(prev => [s, ...prev]);
+    await persist('students', s);
   };
 
-  const updateStudent = async (s: Student) => {
+  const updateStudent = async (student: Student) => {
+    const s = stampVersion(student);
     setStudents(prev => prev.map(item => item.id === s.id ? s : item));
+    await persist('students', s);
+  };
+
+  const changeStudentStatus = async (id: string, status: StudentStatus, reason: string, date: string) => {
+    const student = students.find(s => s.id === id);
+    if (!student || student.status === status) return;
+    await updateStudent({
+      ...student,
+      status,
+      statusHistory: [
+        ...(student.statusHistory || []),
+        { from: student.status, to: status, reason, date, changedAt: new Date().toISOString() }
+      ]
+    });
   };
   
-  const addTransaction = async (t: Transaction) => {
+  // Months a transaction settles for a student. Cancelled entries settle nothing.
+  const settledMonths = (t: Transaction | null | undefined, studentId: string) =>
+    t && t.status !== 'cancelled' && t.studentId === studentId ? t.paidMonths || [] : [];
+
+  /**
+   * Keeps the linked students' paidMonths in line when a transaction goes from `previous` to `next`.
+   * Months still settled by another transaction of the same student stay paid.
+   * `currentCharges` are the charges as reconciled for `next`, so the stored status is not one step behind.
+   */
+  const reconcilePaidMonths = async (previous: Transaction | null, next: Transaction, currentCharges: TuitionCharge[]) => {
+    const studentIds = new Set([previous?.studentId, next.studentId].filter((id): id is string => !!id));
+    for (const studentId of studentIds) {
+      const student = students.find(s => s.id === studentId);
+      if (!student) continue;
+
+      const settledElsewhere = new Set(
+        transactions.filter(t => t.id !== next.id).flatMap(t => settledMonths(t, studentId))
+      );
+      const released = settledMonths(previous, studentId).filter(m => !settledElsewhere.has(m));
+      const paidMonths = Array.from(new Set([
+        ...student.paidMonths.filter(m => !released.includes(m)),
+        ...settledMonths(next, studentId),
+      ]));
+
+      const { status } = getStudentFinancialSummary({ ...student, paidMonths }, settings.financial, {
+        discounts: { rules: discounts, students },
+        charges: currentCharges,
+      });
+      const samePaidMonths = paidMonths.length === student.paidMonths.length && paidMonths.every(m => student.paidMonths.includes(m));
+      if (samePaidMonths && status === student.financialStatus) continue;
+      await updateStudent({ ...student, paidMonths, financialStatus: status });
+    }
+  };
+
+  // Creates or updates a batch of tuition charges (ids are derived, see lib/billing.ts)
+  const saveCharges = async (changed: TuitionCharge[]) => {
+    const stamped = changed.map(c => stampVersion(c));
+    const byId = new Map(stamped.map(c => [c.id, c] as [string, TuitionCharge]));
+    setCharges(prev => [...prev.filter(c => !byId.has(c.id)), ...stamped]);
+    for (const c of stamped) {
+      await persist('charges', c);
+    }
+  };
+
+  /**
+   * Re-settles the charges `previous` and `next` pay (see settleCharges in lib/billing.ts): partly paid, paid,
+   * or reopened once the transaction no longer pays them or is cancelled. Returns the charges as reconciled.
+   */
+  const reconcileCharges = async (previous: Transaction | null, next: Transaction) => {
+    const affected = new Set([
+      ...(previous ? getTransactionAllocations(previous, charges, settings.financial) : []),
+      ...getTransactionAllocations(next, charges, settings.financial),
+    ].map(a => a.chargeId));
+    charges.forEach(c => c.transactionId === next.id && affected.add(c.id));
+    if (affected.size === 0) return charges;
+
+    const changed = settleCharges(charges, [...transactions.filter(t => t.id !== next.id), next], settings.financial, affected);
+    if (changed.length > 0) await saveCharges(changed);
+    const byId = new Map(changed.map(c => [c.id, c] as [string, TuitionCharge]));
+    return charges.map(c => byId.get(c.id) ?? c);
+  };
+
+  // Bills every active student for `year` and reprices open charges; returns how many charges were created
+  const generateCharges = async (year: string) => {
+    const created = generateTuitionCharges(students, charges, settings.financial, year, discounts);
+    const changed = [...created, ...repriceOpenCharges(charges, students, settings.financial, discounts)];
+    if (changed.length > 0) await saveCharges(changed);
+    return created.length;
+  };
+
+  // Open charges follow the discount rules in force; paid ones keep their price
+  const repriceCharges = async (rules: DiscountRule[]) => {
+    const changed = repriceOpenCharges(charges, students, settings.financial, rules);
+    if (changed.length > 0) await saveCharges(changed);
+  };
+
+  const saveDiscount = async (rule: DiscountRule) => {
+    const d = stampVersion(rule);
+    const rules = discounts.some(item => item.id === d.id) ? discounts.map(item => item.id === d.id ? d : item) : [...discounts, d];
+    setDiscounts(rules);
+    await persist('discounts', d);
+    await repriceCharges(rules);
+  };
+
+  const deleteDiscount = async (id: string) => {
+    const rules = discounts.filter(d => d.id !== id);
+    setDiscounts(rules);
+    try {
+      await repository.remove('discounts', id);
+    } catch (error) {
+      console.error(`Failed to delete discount ${id}`, error);
+    }
+    scheduleSync();
+    await repriceCharges(rules);
+  };
+
+  /**
+   * Records an instalment agreement. The late fees of its charges are frozen at their value on the day it was
+   * agreed, and stop accruing until it is cancelled.
+   */
+  const savePlan = async (plan: PaymentPlan) => {
+    const p = stampVersion(plan);
+    setPlans(prev => prev.some(item => item.id === p.id) ? prev.map(item => item.id === p.id ? p : item) : [p, ...prev]);
+    await persist('plans', p);
+    const covered = charges
+      .filter(c => p.chargeIds.includes(c.id) && c.status !== 'paid' && c.planId !== p.id)
+      .map(c => ({ ...c, planId: p.id, lateFee: getLateFee(c, settings.financial, p.agreedAt) }));
+    if (covered.length > 0) await saveCharges(covered);
+  };
+
+  // Cancelled plans are kept for the record; their charges accrue late fees again
+  const cancelPlan = async (id: string) => {
+    const plan = plans.find(p => p.id === id);
+    if (!plan || plan.status === 'cancelled') return;
+    const p = stampVersion({ ...plan, status: 'cancelled' as const });
+    setPlans(prev => prev.map(item => item.id === id ? p : item));
+    await persist('plans', p);
+    const released = charges.filter(c => c.planId === id).map(c => ({ ...c, planId: '' }));
+    if (released.length > 0) await saveCharges(released);
+  };
+
+  const addTransaction = async (transaction: Transaction) => {
+    const t = stampVersion(transaction);
     setTransactions(prev => [t, ...prev]);
+    await persist('transactions', t);
     
     // Auto-update student financial status if linked
-    if (t.studentId && t.paidMonths && t.paidMonths.length > 0) {
-      setStudents(prev => prev.map(s => {
-        if (s.id === t.studentId) {
-          const updatedPaidMonths = Array.from(new Set([...s.paidMonths, ...t.paidMonths!]));
-          const newStatus = getStudentFinancialStatus(updatedPaidMonths);
-          return { ...s, paidMonths: updatedPaidMonths, financialStatus: newStatus };
-        }
-        return s;
-      }));
+    const reconciled = await reconcileCharges(null, t);
+    await reconcilePaidMonths(null, t, reconciled);
+    return t;
+  };
+
+  const updateTransaction = async (transaction: Transaction) => {
+    const previous = transactions.find(t => t.id === transaction.id) ?? null;
+    const t = stampVersion(transaction);
+    setTransactions(prev => prev.map(item => item.id === t.id ? t : item));
+    await persist('transactions', t);
+    const reconciled = await reconcileCharges(previous, t);
+    await reconcilePaidMonths(previous, t, reconciled);
+    return t;
+  };
+
+  // Adds the lines of an imported statement that are not in the queue yet; returns how many were new
+  const importStatementLines = async (lines: StatementLine[]) => {
+    const known = new Set(statementLines.map(l => l.id));
+    const added = lines.filter(l => !known.has(l.id)).map(l => stampVersion(l));
+    setStatementLines(prev => [...added, ...prev]);
+    for (const l of added) {
+      await persist('statementLines', l);
     }
+    return added.length;
+  };
+
+  const saveStatementLine = async (line: StatementLine) => {
+    const l = stampVersion(line);
+    setStatementLines(prev => prev.map(item => item.id === l.id ? l : item));
+    await persist('statementLines', l);
+  };
+
+  // Records the payment a statement line stands for and takes the line out of the queue
+  const reconcileStatementLine = async (line: StatementLine, transaction: Transaction) => {
+    await addTransaction(transaction);
+    await saveStatementLine({ ...line, status: 'reconciled', transactionId: transaction.id });
+  };
+
+  // Credits that are not school payments (transfers between accounts, refunds...) leave the queue as 'ignored'
+  const ignoreStatementLine = async (id: string) => {
+    const line = statementLines.find(l => l.id === id);
+    if (!line || line.status !== 'pending') return;
+    await saveStatementLine({ ...line, status: 'ignored' });
+  };
+
+  /**
+   * Issues the next receipt of the register for `transaction` (see lib/receipts.ts) and stores its number on the
+   * transaction. The transaction must be saved already (as returned by addTransaction): the receipt references it.
+   * The repository takes the number, on the server where PCs share the register; when it cannot (e.g. offline)
+   * a ReceiptIssueError is thrown and the transaction stays without receipt.
+   * Receipts are issued one at a time, each reading the register as the previous one left it, so a double click
+   * or a batch never numbers two receipts alike; a transaction that got its receipt meanwhile keeps that one.
+   */
+  const issueReceipt = (transaction: Transaction): Promise<Receipt> => {
+    const issued = receiptQueue.current.then(() => issueNextReceipt(transaction));
+    receiptQueue.current = issued.catch(() => undefined);
+    return issued;
+  };
+
+  const issueNextReceipt = async (transaction: Transaction) => {
+    const existing = getActiveReceipt(transaction.id, await repository.list('receipts'));
+    if (existing) return existing;
+    const r = await repository.issueReceipt(async last => stampVersion(await buildReceipt(transaction, last)));
+    setReceipts(prev => [r, ...prev]);
+    const t = stampVersion({ ...transaction, receiptNumber: r.number });
+    setTransactions(prev => prev.map(item => item.id === t.id ? t : item));
+    await persist('transactions', t);
+    return r;
+  };
+
+  // Voided receipts keep their number in the register; the transaction can then be given a new receipt
+  const voidReceipt = async (id: string, reason: string) => {
+    const receipt = receipts.find(r => r.id === id);
+    if (!receipt || receipt.status === 'void') return;
+    const r = stampVersion({ ...receipt, status: 'void' as const, voidReason: reason, voidedAt: new Date().toISOString() });
+    setReceipts(prev => prev.map(item => item.id === id ? r : item));
+    await persist('receipts', r);
+  };
+
+  // Creates or updates a batch of payroll entries (ids are derived from month/employee, see lib/payroll.ts)
+  const savePayrollEntries = async (changed: PayrollEntry[]) => {
+    const stamped = changed.map(e => stampVersion(e));
+    const byId = new Map(stamped.map(e => [e.id, e] as [string, PayrollEntry]));
+    setPayroll(prev => [...prev.filter(e => !byId.has(e.id)), ...stamped]);
+    for (const e of stamped) {
+      await persist('payroll', e);
+    }
+  };
+
+  /**
+   * Starts the `monthReference` run, or brings its draft up to date with the employees (new hires, salary changes).
+   * Returns how many employees were added.
+   */
+  const createPayrollRun = async (monthReference: string) => {
+    const changed = buildPayrollEntries(employees, payroll, monthReference, settings.payroll);
+    if (changed.length > 0) await savePayrollEntries(changed);
+    const known = new Set(payroll.map(e => e.id));
+    return changed.filter(e => !known.has(e.id)).length;
+  };
+
+  const savePayrollEntry = (entry: PayrollEntry) => savePayrollEntries([entry]);
+
+  // Only drafts can lose an employee (e.g. someone who is not being paid this month)
+  const deletePayrollEntry = async (id: string) => {
+    const entry = payroll.find(e => e.id === id);
+    if (!entry || entry.status !== 'draft') return;
+    setPayroll(prev => prev.filter(e => e.id !== id));
+    try {
+      await repository.remove('payroll', id);
+    } catch (error) {
+      console.error(`Failed to delete payroll entry ${id}`, error);
+    }
+    scheduleSync();
+  };
+
+  // Locks a draft for payment, or reopens it. Paid runs are final.
+  const changePayrollStatus = async (monthReference: string, status: Exclude<PayrollStatus, 'paid'>) => {
+    const entries = payroll.filter(e => e.monthReference === monthReference);
+    if (entries.length === 0 || entries.some(e => e.status === 'paid')) return;
+    await savePayrollEntries(entries.filter(e => e.status !== status).map(e => ({ ...e, status })));
+  };
+
+  // Records the run's net total as a 'Salários' expense and marks every entry as paid by it
+  const payPayrollRun = async (monthReference: string, paymentDate: string, method: PaymentMethodCode) => {
+    const run = getPayrollRuns(payroll).find(r => r.monthReference === monthReference);
+    if (!run || run.status !== 'processing') return null;
+    const transaction = buildPayrollTransaction(run, paymentDate, method);
+    await addTransaction(transaction);
+    await savePayrollEntries(run.entries.map(e => ({ ...e, status: 'paid' as const, paymentDate, transactionId: transaction.id })));
+    return transaction;
+  };
+
+  // Soft delete: the entry stays in the ledger as 'cancelled', its months are reopened and its receipt voided
+  const cancelTransaction = async (id: string, reason: string) => {
+    const transaction = transactions.find(t => t.id === id);
+    if (!transaction || transaction.status === 'cancelled') return;
+    await updateTransaction({
+      ...transaction,
+      status: 'cancelled',
+      cancellationReason: reason,
+      cancelledAt: new Date().toISOString(),
+    });
+    const receipt = getActiveReceipt(id, receipts);
+    if (receipt) await voidReceipt(receipt.id, reason);
   };
   
-  const addEvent = async (e: CalendarEvent) => {
+  const addEvent = async (event: CalendarEvent) => {
+    const e = stampVersion(event);
     setEvents(prev => [...prev, e]);
+    await persist('events', e);
   };
 
-  const updateEvent = async (e: CalendarEvent) => {
+  const updateEvent = async (event: CalendarEvent) => {
+    const e = stampVersion(event);
     setEvents(prev => prev.map(ev => ev.id === e.id ? e : ev));
+    await persist('events', e);
   };
 
   const deleteEvent = async (id: string) => {
     setEvents(prev => prev.filter(ev => ev.id !== id));
+    try {
+      await repository.remove('events', id);
+    } catch (error) {
+      console.error(`Failed to delete event ${id}`, error);
+    }
+    scheduleSync();
   };
 
-  const addEmployee = async (e: Employee) => {
+  const addEmployee = async (employee: Employee) => {
+    const e = stampVersion(employee);
     setEmployees(prev => [e, ...prev]);
+    await persist('employees', e);
   };
 
-  const refreshData = async () => {
-    // No-op for LocalStorage, data is always fresh in state
-    return Promise.resolve();
+  // Creates or updates a turma (ids are derived from grade/letter/shift/year, see lib/classes.ts)
+  const saveClass = async (schoolClass: SchoolClass) => {
+    const c = stampVersion(schoolClass);
+    setClasses(prev => prev.some(item => item.id === c.id) ? prev.map(item => item.id === c.id ? c : item) : [...prev, c]);
+    await persist('classes', c);
   };
 
-  // Computed KPIs
+  const deleteClass = async (id: string) => {
+    setClasses(prev => prev.filter(c => c.id !== id));
+    try {
+      await repository.remove('classes', id);
+    } catch (error) {
+      console.error(`Failed to delete class ${id}`, error);
+    }
+    scheduleSync();
+  };
+
+  // Creates or updates a batch of marks (e.g. a whole pauta). Ids are derived, see lib/grading.ts
+  const saveMarks = async (changed: Mark[]) => {
+    const stamped = changed.map(m => stampVersion(m));
+    const byId = new Map(stamped.map(m => [m.id, m] as [string, Mark]));
+    setMarks(prev => [...prev.filter(m => !byId.has(m.id)), ...stamped]);
+    for (const m of stamped) {
+      await persist('marks', m);
+    }
+  };
+
+  const deleteMarks = async (ids: string[]) => {
+    setMarks(prev => prev.filter(m => !ids.includes(m.id)));
+    for (const id of ids) {
+      try {
+        await repository.remove('marks', id);
+      } catch (error) {
+        console.error(`Failed to delete mark ${id}`, error);
+      }
+    }
+    scheduleSync();
+  };
+
+  // Creates or updates the register of a turma for one day (see lib/attendance.ts)
+  const saveAttendance = async (record: AttendanceRecord) => {
+    const a = stampVersion(record);
+    setAttendance(prev => prev.some(item => item.id === a.id) ? prev.map(item => item.id === a.id ? a : item) : [a, ...prev]);
+    await persist('attendance', a);
+  };
+
+  // Replaces every collection with a validated backup (see lib/backup.ts). Throws if it could not be applied.
+  const restoreSnapshot = async (snapshot: SchoolSnapshot) => {
+    try {
+      await applySnapshot(repository, snapshot);
+    } finally {
+      await refreshData();
+      scheduleSync();
+    }
+  };
+
+  // Computed KPIs (transferred students are archived and no longer count)
+  const financialStatuses = useMemo(() => {
+    const today = new Date();
+    return Object.fromEntries(
+      students.map(s => [s.id, getStudentFinancialSummary(s, settings.financial, {
+        referenceDate: today,
+        discounts: { rules: discounts, students },
+        charges,
+      })] as [string, StudentFinancialStatus])
+    );
+  }, [students, discounts, charges, settings.financial]);
+
   const kpis = useMemo(() => {
-    const totalStudents = students.length;
+    const enrolled = students.filter(s => s.status !== 'transferred');
+    const totalStudents = enrolled.length;
     const revenue = transactions
         .filter(t => t.type === 'income' && t.status === 'completed')
         .reduce((acc, curr) => acc + curr.amount, 0);
     const expenses = transactions
         .filter(t => t.type === 'expense' && t.status === 'completed')
         .reduce((acc, curr) => acc + curr.amount, 0);
-    const lateStudents = students.filter(s => getStudentFinancialStatus(s.paidMonths) === 'late').length;
+    const lateStudents = enrolled.filter(s => financialStatuses[s.id]?.status === 'late').length;
+    const amountOwed = enrolled.reduce((acc, s) => acc + (financialStatuses[s.id]?.amountOwed ?? 0), 0);
     const delinquencyRate = totalStudents > 0 ? (lateStudents / totalStudents) * 100 : 0;
 
     return {
@@ -169,9 +627,10 @@ export const SchoolDataProvider: React.FC<{ children: React.ReactNode }> = ({ ch
         totalRevenue: revenue,
         totalExpenses: expenses,
         netBalance: revenue - expenses,
-        delinquencyRate: parseFloat(delinquencyRate.toFixed(1))
+        delinquencyRate: parseFloat(delinquencyRate.toFixed(1)),
+        amountOwed
     };
-  }, [students, transactions]);
+  }, [students, transactions, financialStatuses]);
 
   return (
     <SchoolDataContext.Provider value={{
@@ -179,14 +638,51 @@ export const SchoolDataProvider: React.FC<{ children: React.ReactNode }> = ({ ch
       transactions,
       events,
       employees,
+      classes,
+      marks,
+      attendance,
+      charges,
+      discounts,
+      plans,
+      statementLines,
+      receipts,
+      payroll,
       addStudent,
       updateStudent,
+      changeStudentStatus,
       addTransaction,
+      updateTransaction,
+      cancelTransaction,
       addEvent,
       updateEvent,
       deleteEvent,
       addEmployee,
+      saveClass,
+      deleteClass,
+      saveMarks,
+      deleteMarks,
+      saveAttendance,
+      generateCharges,
+      saveDiscount,
+      deleteDiscount,
+      savePlan,
+      cancelPlan,
+      importStatementLines,
+      reconcileStatementLine,
+      ignoreStatementLine,
+      issueReceipt,
+      voidReceipt,
+      createPayrollRun,
+      savePayrollEntry,
+      deletePayrollEntry,
+      changePayrollStatus,
+      payPayrollRun,
       refreshData,
+      restoreSnapshot,
+      syncStatus,
+      syncNow,
+      resolveConflict,
+      financialStatuses,
       kpis,
       isLoading
     }}>
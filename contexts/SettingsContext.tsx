@@ -1,6 +1,10 @@
 
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { SchoolSettings } from '../types';
+import { settingsSchema } from '../lib/schemas';
+import { readDocument, writeStore, mergeWithDefaults, SETTINGS_KEY } from '../lib/storage';
+import { DEFAULT_PAYMENT_METHODS } from '../lib/payments';
+import { DEFAULT_PAYROLL_SETTINGS } from '../lib/taxes';
 
 // Extend the types to include User Profile for the "Admin Profile" requirement
 export interface ExtendedSettings extends SchoolSettings {
@@ -20,13 +24,17 @@ const DEFAULT_SETTINGS: ExtendedSettings = {
     address: 'Av. Julius Nyerere, 1342, Polana Cimento, Maputo',
     email: 'contacto@seiva.mz',
     phone: '+258 84 123 4567',
-    logo: 'https://ui-avatars.com/api/?name=SN&background=1152d4&color=fff&size=128&font-size=0.4' // Default placeholder
+    logo: 'https://ui-avatars.com/api/?name=SN&background=1152d4&color=fff&size=128&font-size=0.4', // Default placeholder
+    primaryColor: '#047857',
+    accentColor: '#F97316',
+    receiptFooter: 'Documento processado por computador'
   },
   academic: {
     currentYear: '2024',
     gradingSystem: '0-20',
     passingGrade: 10,
-    activeTerms: ['1', '2']
+    activeTerms: ['1', '2'],
+    attendanceAlerts: { absences: 3, lates: 3, windowDays: 30 }
   },
   financial: {
     currency: 'MT - Metical',
@@ -34,8 +42,12 @@ const DEFAULT_SETTINGS: ExtendedSettings = {
     lateFee: 10,
     tuitionCycle1: 5000,
     tuitionCycle2: 6500,
+    graceDays: 0,
+    vacationMonths: ['janeiro'],
+    paymentMethods: DEFAULT_PAYMENT_METHODS,
     bankInfo: 'Millennium Bim\nConta: 123456789\nNIB: 000100001234567890123'
   },
+  payroll: DEFAULT_PAYROLL_SETTINGS,
   system: {
     maintenanceMode: false,
     emailAlerts: true,
@@ -55,6 +67,7 @@ interface SettingsContextType {
   updateSchoolLogo: (file: File) => Promise<void>;
   updateUserAvatar: (file: File) => Promise<void>;
   resetSettings: () => void;
+  restoreSettings: (settings: SchoolSettings) => void;
 }
 
 const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
@@ -65,15 +78,11 @@ export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({ chil
 
   // 1. Load from LocalStorage on Mount
   useEffect(() => {
-    const stored = localStorage.getItem('seiva_app_settings');
+    // Deep merge with defaults so fields added by later releases are present in every section.
+    // Settings that still fail validation are quarantined and the defaults are used instead.
+    const stored = readDocument<ExtendedSettings>(SETTINGS_KEY, settingsSchema, data => mergeWithDefaults(DEFAULT_SETTINGS, data));
     if (stored) {
-      try {
-        const parsed = JSON.parse(stored);
-        // Merge with default to ensure new fields are present if schema changes
-        setSettings({ ...DEFAULT_SETTINGS, ...parsed });
-      } catch (e) {
-        console.error("Failed to parse settings", e);
-      }
+      setSettings(stored);
     }
     setIsLoaded(true);
   }, []);
@@ -81,7 +90,7 @@ export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({ chil
   // 2. Persist to LocalStorage whenever settings change
   useEffect(() => {
     if (isLoaded) {
-      localStorage.setItem('seiva_app_settings', JSON.stringify(settings));
+      writeStore(SETTINGS_KEY, settings);
     }
   }, [settings, isLoaded]);
 
@@ -122,11 +131,16 @@ export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({ chil
 
   const resetSettings = () => {
     setSettings(DEFAULT_SETTINGS);
-    localStorage.removeItem('seiva_app_settings');
+    localStorage.removeItem(SETTINGS_KEY);
+  };
+
+  // Used by backup restore; sections missing from older backups fall back to the defaults
+  const restoreSettings = (restored: SchoolSettings) => {
+    setSettings(mergeWithDefaults(DEFAULT_SETTINGS, restored));
   };
 
   return (
-    <SettingsContext.Provider value={{ settings, updateSettings, updateSchoolLogo, updateUserAvatar, resetSettings }}>
+    <SettingsContext.Provider value={{ settings, updateSettings, updateSchoolLogo, updateUserAvatar, resetSettings, restoreSettings }}>
       {children}
     </SettingsContext.Provider>
   );
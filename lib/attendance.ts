@@ -0,0 +1,72 @@
+import { AttendanceRecord, AttendanceStatus, SchoolSettings, Student, StudentAlert } from '../types';
+import { getStudentClassId } from './classes';
+import { toDateKey } from './utils';
+
+// --- Livro de Presenças ---
+
+export const ATTENDANCE_STATUSES: AttendanceStatus[] = ['present', 'absent', 'late', 'excused'];
+
+export const ATTENDANCE_LABELS: Record<AttendanceStatus, string> = {
+  present: 'Presente',
+  absent: 'Falta',
+  late: 'Atraso',
+  excused: 'Falta Justificada',
+};
+
+export type AttendanceSummary = Record<AttendanceStatus, number>;
+
+export type AttendanceAlertSettings = SchoolSettings['academic']['attendanceAlerts'];
+
+/**
+ * One register per turma and day, so two teachers opening the same day edit the same record.
+ */
+export function getAttendanceId(classId: string, date: string): string {
+  return `${classId}-${date}`;
+}
+
+export function createAttendanceRecord(classId: string, date: string, entries: AttendanceRecord['entries'] = {}): AttendanceRecord {
+  return { id: getAttendanceId(classId, date), classId, date, entries };
+}
+
+/**
+ * Counts a student's marks in every register between `from` and `to` (yyyy-MM-dd, both inclusive).
+ */
+export function summarizeAttendance(records: AttendanceRecord[], studentId: string, from = '', to = '9999-12-31'): AttendanceSummary {
+  const summary: AttendanceSummary = { present: 0, absent: 0, late: 0, excused: 0 };
+  records.forEach(record => {
+    const status = record.entries[studentId];
+    if (status && record.date >= from && record.date <= to) summary[status]++;
+  });
+  return summary;
+}
+
+export const getTodayKey = () => toDateKey(new Date());
+
+/**
+ * Enrolled students whose unexcused absences or lateness in the last `windowDays` reached the thresholds,
+ * most affected first. Only the register of the student's current turma is counted.
+ */
+export function getAttendanceAlerts(
+  students: Student[],
+  records: AttendanceRecord[],
+  thresholds: AttendanceAlertSettings,
+  today: Date = new Date()
+): { absences: StudentAlert[]; lates: StudentAlert[] } {
+  const from = new Date(today);
+  from.setDate(from.getDate() - thresholds.windowDays + 1);
+  const range = [toDateKey(from), toDateKey(today)] as const;
+
+  const absences: StudentAlert[] = [];
+  const lates: StudentAlert[] = [];
+  students.forEach(student => {
+    const classId = getStudentClassId(student);
+    if (student.status === 'transferred' || !classId) return;
+    const summary = summarizeAttendance(records.filter(r => r.classId === classId), student.id, ...range);
+    const alert = { id: student.id, name: student.name, grade: student.grade, avatar: student.avatar };
+    if (summary.absent >= thresholds.absences) absences.push({ ...alert, count: summary.absent });
+    if (summary.late >= thresholds.lates) lates.push({ ...alert, count: summary.late });
+  });
+
+  const byCount = (a: StudentAlert, b: StudentAlert) => b.count - a.count || a.name.localeCompare(b.name, 'pt');
+  return { absences: absences.sort(byCount), lates: lates.sort(byCount) };
+}
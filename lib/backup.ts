@@ -0,0 +1,247 @@
+import { SchoolSettings } from '../types';
+import {
+  SchoolRepository,
+  SchoolSnapshot,
+  CollectionName,
+  SchoolCollections,
+  COLLECTIONS,
+  COLLECTION_NAMES,
+  loadSnapshot,
+} from './repository';
+import { settingsSchema } from './schemas';
+import { migrate, getSchemaVersion, SETTINGS_KEY } from './storage';
+import { getChangedFields } from './sync';
+import { sha256 } from './utils';
+
+// --- Backup Archive ---
+// A single JSON file with every collection plus the settings, stamped with the storage
+// schema versions it was written with so older backups are migrated on restore.
+
+const BACKUP_FORMAT = 'seiva-backup';
+const BACKUP_FORMAT_VERSION = 1;
+const LAST_BACKUP_KEY = 'seiva_last_backup';
+
+export interface BackupData {
+  collections: SchoolSnapshot;
+  settings: SchoolSettings;
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  createdAt: string;
+  schemaVersions: Record<string, number>;
+  checksum: string; // SHA-256 of JSON.stringify(data)
+  data: BackupData;
+}
+
+export interface CollectionDiff {
+  added: number;
+  changed: number;
+  removed: number;
+}
+
+export interface BackupDiff {
+  collections: Record<CollectionName, CollectionDiff>;
+  settingsChanged: boolean;
+}
+
+/** Raised when a file cannot be restored. The message is shown to the user as is. */
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+// --- Export ---
+
+export async function createBackup(data: BackupData): Promise<BackupArchive> {
+  // Round-trip first so Date fields are hashed exactly as they will be read back
+  const plain: BackupData = JSON.parse(JSON.stringify(data));
+  const schemaVersions = Object.fromEntries(
+    [...COLLECTION_NAMES.map(name => COLLECTIONS[name].storageKey), SETTINGS_KEY].map(key => [key, getSchemaVersion(key)])
+  );
+
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    createdAt: new Date().toISOString(),
+    schemaVersions,
+    checksum: await sha256(JSON.stringify(plain)),
+    data: plain,
+  };
+}
+
+export async function downloadBackup(data: BackupData) {
+  const archive = await createBackup(data);
+  const blob = new Blob([JSON.stringify(archive)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `seiva_backup_${archive.createdAt.split('T')[0]}.json`;
+  link.click();
+  // The download starts asynchronously; revoking the URL straight away can cancel it in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+  localStorage.setItem(LAST_BACKUP_KEY, archive.createdAt);
+}
+
+export const getLastBackupDate = () => localStorage.getItem(LAST_BACKUP_KEY);
+
+// --- Import ---
+
+const recordLabel = (record: unknown, index: number) =>
+  record !== null && typeof record === 'object' && 'id' in record ? String(record.id) : String(index);
+
+/**
+ * Migrates the records of one collection of the archive and validates them against the collection's schema.
+ * Problems are collected in `errors`; only the records that passed are returned.
+ */
+function parseCollection<K extends CollectionName>(name: K, data: unknown, fromVersion: number, errors: string[]): SchoolCollections[K][] {
+  const { storageKey, schema, hydrate } = COLLECTIONS[name];
+  const records = migrate(storageKey, data ?? [], fromVersion);
+  if (!Array.isArray(records)) {
+    errors.push(`${name}: lista de registos em falta`);
+    return [];
+  }
+  const valid: SchoolCollections[K][] = [];
+  records.forEach((record, index) => {
+    const parsed = schema.safeParse(record);
+    if (parsed.success) {
+      valid.push((hydrate ? hydrate(parsed.data) : parsed.data) as SchoolCollections[K]);
+    } else {
+      errors.push(`${name}[${recordLabel(record, index)}]: ${parsed.error.issues[0]?.message}`);
+    }
+  });
+  return valid;
+}
+
+/**
+ * Checks the file format and checksum, migrates it to the current schema and validates every record.
+ * Any problem rejects the whole archive, so a restore is never applied halfway.
+ */
+export async function parseBackup(text: string): Promise<BackupData> {
+  let archive: BackupArchive;
+  try {
+    archive = JSON.parse(text);
+  } catch {
+    throw new BackupError('O ficheiro não é um backup válido (JSON ilegível).');
+  }
+
+  if (archive?.format !== BACKUP_FORMAT || !archive.data) {
+    throw new BackupError('O ficheiro não é um backup do sistema.');
+  }
+  if (archive.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new BackupError('Este backup foi criado por uma versão mais recente do sistema.');
+  }
+  if (await sha256(JSON.stringify(archive.data)) !== archive.checksum) {
+    throw new BackupError('Checksum inválido: o ficheiro está corrompido ou foi alterado.');
+  }
+
+  const versions = archive.schemaVersions || {};
+  const errors: string[] = [];
+  const collections = Object.fromEntries(COLLECTION_NAMES.map(name => [
+    name,
+    parseCollection(name, archive.data.collections?.[name], versions[COLLECTIONS[name].storageKey] ?? 0, errors),
+  ])) as SchoolSnapshot;
+
+  const settings = settingsSchema.safeParse(migrate(SETTINGS_KEY, archive.data.settings, versions[SETTINGS_KEY] ?? 0));
+  if (!settings.success) errors.push(`configurações: ${settings.error.issues[0]?.message}`);
+
+  if (errors.length > 0) {
+    const more = errors.length > 3 ? ` (+${errors.length - 3})` : '';
+    throw new BackupError(`Backup com ${errors.length} registo(s) inválido(s): ${errors.slice(0, 3).join('; ')}${more}`);
+  }
+
+  return { collections, settings: settings.data as SchoolSettings };
+}
+
+// --- Restore ---
+
+const isSameRecord = (a: object, b: object) =>
+  getChangedFields(JSON.parse(JSON.stringify(a)), JSON.parse(JSON.stringify(b))).length === 0;
+
+/**
+ * Counts what a restore would do to each collection, compared with the current data.
+ */
+export function diffBackup(current: BackupData, incoming: BackupData): BackupDiff {
+  const collections = Object.fromEntries(COLLECTION_NAMES.map(name => {
+    const currentById = new Map<string, any>(current.collections[name].map(r => [r.id, r] as [string, any]));
+    const incomingIds = new Set(incoming.collections[name].map(r => r.id));
+    const diff: CollectionDiff = { added: 0, changed: 0, removed: 0 };
+
+    incoming.collections[name].forEach(record => {
+      const existing = currentById.get(record.id);
+      if (!existing) diff.added++;
+      else if (!isSameRecord(existing, record)) diff.changed++;
+    });
+    diff.removed = current.collections[name].filter(r => !incomingIds.has(r.id)).length;
+    return [name, diff];
+  })) as Record<CollectionName, CollectionDiff>;
+
+  return {
+    collections,
+    settingsChanged: JSON.stringify(current.settings) !== JSON.stringify(incoming.settings),
+  };
+}
+
+/**
+ * Makes the repository match `incoming`, writing only what differs.
+ * Restored records are versioned on top of the current copy so the sync treats them as new local edits.
+ * If a write fails, the records already written are put back before the error is rethrown.
+ */
+export async function applySnapshot(repository: SchoolRepository, incoming: SchoolSnapshot): Promise<void> {
+  const current = await loadSnapshot(repository);
+  const applied: AppliedChange[] = [];
+
+  try {
+    for (const name of COLLECTION_NAMES) {
+      await restoreCollection(repository, name, current[name], incoming[name], applied);
+    }
+  } catch (error) {
+    console.error('Restore failed, rolling back', error);
+    for (const change of applied.reverse()) {
+      try {
+        await change.undo();
+      } catch (rollbackError) {
+        console.error(`Failed to roll back ${change.collection} record ${change.id}`, rollbackError);
+      }
+    }
+    throw error;
+  }
+}
+
+interface AppliedChange {
+  collection: CollectionName;
+  id: string;
+  undo: () => Promise<void>;
+}
+
+// Writes the records of one collection that differ from `current`, recording how to undo each write in `applied`
+async function restoreCollection<K extends CollectionName>(
+  repository: SchoolRepository,
+  name: K,
+  current: SchoolCollections[K][],
+  incoming: SchoolCollections[K][],
+  applied: AppliedChange[]
+) {
+  const currentById = new Map(current.map(r => [r.id, r]));
+  const incomingIds = new Set(incoming.map(r => r.id));
+
+  for (const record of incoming) {
+    const existing = currentById.get(record.id);
+    if (existing && isSameRecord(existing, record)) continue;
+    const restored: SchoolCollections[K] = { ...record, version: Math.max(existing?.version ?? 0, record.version ?? 0) + 1, updatedAt: new Date().toISOString() };
+    await repository.upsert(name, restored);
+    applied.push({
+      collection: name,
+      id: record.id,
+      undo: () => existing ? repository.upsert(name, existing) : repository.remove(name, record.id),
+    });
+  }
+
+  for (const record of current.filter(r => !incomingIds.has(r.id))) {
+    await repository.remove(name, record.id);
+    applied.push({ collection: name, id: record.id, undo: () => repository.upsert(name, record) });
+  }
+}
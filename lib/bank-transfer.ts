@@ -0,0 +1,120 @@
+import { Employee, PayrollEntry, TransferFileField, TransferFileTemplate } from '../types';
+
+// --- Ficheiro de Transferências ---
+// Salaries are paid with one bulk transfer file uploaded to the school's bank portal instead of typing each
+// transfer. Banks differ in layout (CSV or fixed-width columns), so the layout is a template in
+// Configurações → Salários.
+
+export const TRANSFER_FIELD_LABELS: Record<TransferFileField, string> = {
+  nib: 'NIB',
+  name: 'Nome',
+  amount: 'Valor',
+  reference: 'Descritivo',
+};
+
+export const DEFAULT_TRANSFER_TEMPLATE: TransferFileTemplate = {
+  format: 'csv',
+  separator: ';',
+  header: true,
+  amountInCents: false,
+  reference: 'SALARIO {mes}',
+  columns: [
+    { field: 'nib', width: 21 },
+    { field: 'name', width: 40 },
+    { field: 'amount', width: 15 },
+    { field: 'reference', width: 20 },
+  ],
+};
+
+export const normalizeNib = (nib: string) => nib.replace(/[\s.-]/g, '');
+
+/**
+ * NIB of a Mozambican bank account: 21 digits (bank, branch, account and two check digits), valid when the
+ * whole number mod 97 is 1 (ISO 7064 MOD 97-10, as in the IBAN).
+ */
+export function isValidNib(nib: string): boolean {
+  const digits = normalizeNib(nib);
+  if (!/^\d{21}$/.test(digits)) return false;
+  // Digit by digit: the number does not fit a double
+  return digits.split('').reduce((rest, digit) => (rest * 10 + Number(digit)) % 97, 0) === 1;
+}
+
+export interface TransferLine {
+  employeeId: string;
+  name: string;
+  nib: string;
+  amount: number;
+}
+
+export interface BankTransferFile {
+  monthReference: string;
+  lines: TransferLine[];
+  total: number;
+  invalidNib: string[]; // Employees left out of the file: their NIB is missing or fails the check digits
+  overflows: string[]; // Values longer than their fixed-width column; the file must not be exported while any remain
+  content: string;
+  filename: string;
+}
+
+// Bank portals reject accented letters in fixed-width files
+const toAscii = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+const csvCell = (value: string, separator: string) =>
+  value.includes(separator) || value.includes('"') ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Transfer file of a payroll run (its entries): the net salary of each employee to their NIB, laid out by
+ * `template`. Employees with nothing to receive are skipped; those without a valid NIB are listed in
+ * `invalidNib` and left out. In the fixed-width layout only names are cut to fit: a NIB, amount or reference
+ * wider than its column would shift the columns after it, so it is reported in `overflows` instead.
+ */
+export function buildBankTransferFile(
+  monthReference: string,
+  entries: PayrollEntry[],
+  employees: Employee[],
+  template: TransferFileTemplate
+): BankTransferFile {
+  const byId = new Map(employees.map(e => [e.id, e] as [string, Employee]));
+  const payable = entries.filter(entry => entry.netSalary > 0);
+  const nibOf = (entry: PayrollEntry) => normalizeNib(byId.get(entry.employeeId)?.bank.nib ?? '');
+  const lines = payable
+    .filter(entry => isValidNib(nibOf(entry)))
+    .map(entry => ({ employeeId: entry.employeeId, name: entry.employeeName, nib: nibOf(entry), amount: entry.netSalary }));
+
+  const reference = template.reference.replace(/\{mes\}/g, monthReference);
+  const valueOf = (line: TransferLine, field: TransferFileField) => {
+    if (field === 'nib') return line.nib;
+    if (field === 'name') return line.name;
+    if (field === 'reference') return reference;
+    return template.amountInCents ? String(Math.round(line.amount * 100)) : line.amount.toFixed(2);
+  };
+
+  const overflows = new Set<string>();
+
+  // Fixed width: text is padded with spaces on the right, numbers with zeros on the left
+  const rows = template.format === 'fixed'
+    ? lines.map(line => template.columns.map(({ field, width }) => {
+        const value = toAscii(valueOf(line, field).toUpperCase());
+        if (field === 'name') return value.slice(0, width).padEnd(width, ' ');
+        if (value.length > width) {
+          overflows.add(field === 'reference'
+            ? `${TRANSFER_FIELD_LABELS.reference} "${value}" excede ${width} caracteres`
+            : `${TRANSFER_FIELD_LABELS[field]} de ${line.name} excede ${width} caracteres`);
+        }
+        return field === 'amount' ? value.padStart(width, '0') : value.padEnd(width, ' ');
+      }).join(''))
+    : [
+        ...(template.header ? [template.columns.map(c => TRANSFER_FIELD_LABELS[c.field]).join(template.separator)] : []),
+        ...lines.map(line => template.columns.map(c => csvCell(valueOf(line, c.field), template.separator)).join(template.separator)),
+      ];
+
+  return {
+    monthReference,
+    lines,
+    total: Math.round(lines.reduce((acc, l) => acc + l.amount, 0) * 100) / 100,
+    invalidNib: payable.filter(entry => !isValidNib(nibOf(entry))).map(entry => entry.employeeName),
+    overflows: Array.from(overflows),
+    content: rows.join('\r\n') + '\r\n',
+    filename: `transferencias-salarios-${monthReference}.${template.format === 'fixed' ? 'txt' : 'csv'}`,
+  };
+}
@@ -0,0 +1,286 @@
+import { ChargeAllocation, DiscountRule, PaymentPlan, PlanInstalment, SchoolSettings, Student, Transaction, TuitionCharge } from '../types';
+import { ACADEMIC_MONTHS, StudentFinancialStatus, getMonthDueDate, getStudentFinancialStatus, toDateKey } from './utils';
+import { getCycle } from './grading';
+import { DiscountContext, DiscountResult, applyDiscounts, getApplicableDiscounts } from './discounts';
+
+// --- Propinas ---
+
+export type FinancialSettings = SchoolSettings['financial'];
+
+export function getChargeId(year: string, studentId: string, month: string): string {
+  return `${year}-${studentId}-${month}`;
+}
+
+/** Calendar month (1-12) of an academic month ('fevereiro' = 2). */
+export const getMonthNumber = (month: string) => ACADEMIC_MONTHS.indexOf(month) + 2;
+
+export const formatMonthLabel = (month: string) => month.charAt(0).toUpperCase() + month.slice(1);
+
+/**
+ * Monthly tuition of a student, by cycle (1ª-3ª: tuitionCycle1, 4ª-6ª: tuitionCycle2).
+ */
+export function getTuitionAmount(student: Student, financial: FinancialSettings): number {
+  return getCycle(student.grade) === 'CYCLE_1' ? financial.tuitionCycle1 : financial.tuitionCycle2;
+}
+
+/**
+ * Tuition due by a student on `date` (yyyy-MM-dd): the cycle tuition less the discounts valid that day.
+ */
+export function getStudentTuition(student: Student, financial: FinancialSettings, discounts: DiscountContext, date: string): DiscountResult {
+  return applyDiscounts(getTuitionAmount(student, financial), getApplicableDiscounts(student, discounts, date));
+}
+
+/**
+ * Due date of a month's tuition. A due day past the end of the month falls on its last day.
+ */
+export function getDueDate(year: string, month: string, dueDay: string | number): string {
+  return toDateKey(getMonthDueDate(Number(year), getMonthNumber(month) - 1, dueDay));
+}
+
+/**
+ * Late fee owed on `charge` if it is paid on `onDate` (yyyy-MM-dd): `lateFee`% of the tuition after the due date.
+ * A settled charge keeps the fee it was paid with, and a charge under a payment plan the fee it was agreed with.
+ */
+export function getLateFee(charge: TuitionCharge, financial: FinancialSettings, onDate: string): number {
+  if (charge.status === 'paid' || charge.planId) return charge.lateFee ?? 0;
+  if (onDate <= charge.dueDate) return 0;
+  return Math.round(charge.amount * financial.lateFee) / 100;
+}
+
+export const getChargeTotal = (charge: TuitionCharge, financial: FinancialSettings, onDate: string) =>
+  charge.amount + getLateFee(charge, financial, onDate);
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * What is still owed on `charge` if paid on `onDate`: tuition plus late fee, less the payments already allocated.
+ */
+export const getChargeBalance = (charge: TuitionCharge, financial: FinancialSettings, onDate: string) =>
+  charge.status === 'paid' ? 0 : Math.max(0, roundCents(getChargeTotal(charge, financial, onDate) - (charge.paidAmount ?? 0)));
+
+export const isChargeOverdue = (charge: TuitionCharge, today: string = toDateKey(new Date())) =>
+  charge.status !== 'paid' && charge.amount > 0 && today > charge.dueDate;
+
+/**
+ * How a payment is split over tuition charges. Entries recorded before partial payments settled each of
+ * their charges in full, with the late fee due on the payment date.
+ */
+export function getTransactionAllocations(t: Transaction, charges: TuitionCharge[], financial: FinancialSettings): ChargeAllocation[] {
+  if (t.allocations) return t.allocations;
+  return (t.chargeIds || []).flatMap(chargeId => {
+    const charge = charges.find(c => c.id === chargeId);
+    return charge ? [{ chargeId, amount: getChargeTotal({ ...charge, status: 'open' }, financial, t.date) }] : [];
+  });
+}
+
+/**
+ * Recomputes `chargeIds` from the payments allocated to them by `transactions` (cancelled entries excepted) and
+ * returns the ones that changed. A charge is paid once its payments cover the tuition plus the late fee due on
+ * the last payment date, and partial while they cover only part of it.
+ */
+export function settleCharges(
+  charges: TuitionCharge[],
+  transactions: Transaction[],
+  financial: FinancialSettings,
+  chargeIds: Set<string>
+): TuitionCharge[] {
+  const payments = new Map<string, { amount: number; date: string; transactionId: string }[]>();
+  transactions
+    .filter(t => t.status !== 'cancelled')
+    .forEach(t => getTransactionAllocations(t, charges, financial)
+      .filter(a => chargeIds.has(a.chargeId))
+      .forEach(a => payments.set(a.chargeId, [...(payments.get(a.chargeId) || []), { amount: a.amount, date: t.date, transactionId: t.id }])));
+
+  return charges.filter(c => chargeIds.has(c.id)).flatMap(charge => {
+    const list = (payments.get(charge.id) || []).sort((a, b) => a.date.localeCompare(b.date));
+    const paidAmount = roundCents(list.reduce((sum, p) => sum + p.amount, 0));
+    const last = list[list.length - 1];
+    const lateFee = last ? getLateFee({ ...charge, status: 'open' }, financial, last.date) : 0;
+
+    let next: TuitionCharge;
+    if (last && paidAmount >= roundCents(charge.amount + lateFee)) {
+      next = { ...charge, status: 'paid', paidAmount, transactionId: last.transactionId, paidAt: last.date, lateFee };
+    } else {
+      next = { ...charge, status: paidAmount > 0 ? 'partial' : 'open', paidAmount };
+    }
+
+    const unchanged = next.status === charge.status && next.paidAmount === (charge.paidAmount ?? 0)
+      && next.transactionId === charge.transactionId && next.paidAt === charge.paidAt && next.lateFee === charge.lateFee;
+    return unchanged && (charge.paidAmount !== undefined || paidAmount === 0) ? [] : [next];
+  });
+}
+
+/**
+ * Financial status from a student's tuition charges due up to `today` (any year): partially paid months stay
+ * unpaid, exempted ones (amount 0) count as paid. amountOwed excludes late fees, as in getStudentFinancialStatus.
+ */
+export function getChargesFinancialStatus(charges: TuitionCharge[], financial: FinancialSettings, today: string): StudentFinancialStatus {
+  const graceDeadline = (dueDate: string) => {
+    const deadline = new Date(`${dueDate}T00:00:00`);
+    deadline.setDate(deadline.getDate() + (financial.graceDays || 0));
+    return toDateKey(deadline);
+  };
+  const unpaid = charges
+    .filter(c => c.dueDate.slice(0, 7) <= today.slice(0, 7) && c.status !== 'paid' && c.amount > 0)
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+  const late = unpaid.filter(c => today > graceDeadline(c.dueDate));
+  const daysOverdue = late.length > 0
+    ? Math.round((new Date(`${today}T00:00:00`).getTime() - new Date(`${late[0].dueDate}T00:00:00`).getTime()) / 86_400_000)
+    : 0;
+
+  return {
+    status: late.length > 0 ? 'late' : unpaid.length > 0 ? 'pending' : 'paid',
+    daysOverdue,
+    amountOwed: roundCents(unpaid.reduce((sum, c) => sum + Math.max(0, c.amount - (c.paidAmount ?? 0)), 0)),
+    unpaidMonths: unpaid.map(c => c.month),
+    lateMonths: late.map(c => c.month),
+  };
+}
+
+export interface FinancialSummaryOptions {
+  referenceDate?: Date;
+  discounts?: DiscountContext;
+  charges?: TuitionCharge[]; // All charges; the student's own are picked out
+}
+
+/**
+ * Financial status of a student under the school's billing rules. Used by the KPIs, badges and reports alike.
+ * Students billed through tuition charges are assessed from them; others from their paidMonths.
+ */
+export function getStudentFinancialSummary(
+  student: Student,
+  financial: FinancialSettings,
+  { referenceDate = new Date(), discounts = { rules: [], students: [] }, charges = [] }: FinancialSummaryOptions = {}
+): StudentFinancialStatus {
+  const studentCharges = charges.filter(c => c.studentId === student.id);
+  if (studentCharges.length > 0) return getChargesFinancialStatus(studentCharges, financial, toDateKey(referenceDate));
+
+  return getStudentFinancialStatus(student.paidMonths, {
+    dueDay: financial.dueDay,
+    graceDays: financial.graceDays,
+    vacationMonths: financial.vacationMonths,
+    referenceDate,
+    monthlyAmount: getStudentTuition(student, financial, discounts, toDateKey(referenceDate)).amount,
+    billedFrom: student.academic.enrollmentDate,
+  });
+}
+
+/**
+ * Unpaid (open or partially paid) charges of a student, oldest first. Exempted months are left out.
+ */
+export function getOpenCharges(charges: TuitionCharge[], studentId: string): TuitionCharge[] {
+  return charges
+    .filter(c => c.studentId === studentId && c.status !== 'paid' && c.amount > 0)
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+}
+
+/**
+ * Charges missing for `year`: one per month of ACADEMIC_MONTHS (vacation months excepted) for every active student.
+ * Months before the enrolment of a student who joined during that year are not billed.
+ * Each charge is priced with the discounts valid on its due date.
+ * Existing charges are never touched, so this can be run again after new enrolments.
+ */
+export function generateTuitionCharges(
+  students: Student[],
+  existing: TuitionCharge[],
+  financial: FinancialSettings,
+  year: string,
+  rules: DiscountRule[] = []
+): TuitionCharge[] {
+  const existingIds = new Set(existing.map(c => c.id));
+  const charges: TuitionCharge[] = [];
+
+  students.filter(s => s.status === 'active').forEach(student => {
+    const enrollment = student.academic.enrollmentDate || '';
+    const firstMonth = enrollment.startsWith(year) ? Number(enrollment.slice(5, 7)) : 1;
+
+    ACADEMIC_MONTHS.forEach(month => {
+      const id = getChargeId(year, student.id, month);
+      if (existingIds.has(id) || getMonthNumber(month) < firstMonth || financial.vacationMonths.includes(month)) return;
+      const dueDate = getDueDate(year, month, financial.dueDay);
+      const { amount, discount } = getStudentTuition(student, financial, { rules, students }, dueDate);
+      charges.push({
+        id,
+        studentId: student.id,
+        year,
+        month,
+        amount,
+        ...(discount > 0 && { discount }),
+        dueDate,
+        status: 'open',
+      });
+    });
+  });
+
+  return charges;
+}
+
+/**
+ * Open charges whose price changed since they were generated (new or expired discounts, a sibling enrolled...),
+ * repriced with the rules valid on their due date. Paid charges keep the amount they were settled with.
+ */
+export function repriceOpenCharges(
+  charges: TuitionCharge[],
+  students: Student[],
+  financial: FinancialSettings,
+  rules: DiscountRule[]
+): TuitionCharge[] {
+  const byId = new Map(students.map(s => [s.id, s] as [string, Student]));
+  return charges.flatMap(charge => {
+    const student = byId.get(charge.studentId);
+    if (charge.status !== 'open' || !student) return [];
+    const { amount, discount } = getStudentTuition(student, financial, { rules, students }, charge.dueDate);
+    if (amount === charge.amount && discount === (charge.discount ?? 0)) return [];
+    return [{ ...charge, amount, discount }];
+  });
+}
+
+// --- Acordos de Pagamento ---
+
+export type PlanState = 'active' | 'completed' | 'defaulted' | 'cancelled';
+
+export const PLAN_STATE_LABELS: Record<PlanState, string> = {
+  active: 'Em curso',
+  completed: 'Cumprido',
+  defaulted: 'Em incumprimento',
+  cancelled: 'Anulado',
+};
+
+/**
+ * Splits `total` in `count` monthly instalments from `firstDueDate`; the last one absorbs the rounding.
+ */
+export function buildInstalments(total: number, count: number, firstDueDate: string): PlanInstalment[] {
+  const [year, month, day] = firstDueDate.split('-').map(Number);
+  const amount = Math.floor((total / count) * 100) / 100;
+  return Array.from({ length: count }, (_, i) => ({
+    dueDate: toDateKey(getMonthDueDate(year, month - 1 + i, day)),
+    amount: i === count - 1 ? roundCents(total - amount * (count - 1)) : amount,
+  }));
+}
+
+export interface PlanProgress {
+  paid: number; // Paid on the plan's charges since it was agreed
+  state: PlanState;
+  instalments: (PlanInstalment & { status: 'paid' | 'due' | 'overdue' })[];
+}
+
+/**
+ * Payments are credited to the instalments in order; the plan is defaulted once an instalment is past due unpaid.
+ */
+export function getPlanProgress(plan: PaymentPlan, charges: TuitionCharge[], today: string = toDateKey(new Date())): PlanProgress {
+  const planCharges = charges.filter(c => plan.chargeIds.includes(c.id));
+  const paid = Math.max(0, roundCents(planCharges.reduce((sum, c) => sum + (c.paidAmount ?? 0), 0) - plan.paidBefore));
+
+  let covered = paid;
+  const instalments = plan.instalments.map(instalment => {
+    const isPaid = covered + 0.005 >= instalment.amount;
+    covered = Math.max(0, covered - instalment.amount);
+    return { ...instalment, status: isPaid ? 'paid' as const : today > instalment.dueDate ? 'overdue' as const : 'due' as const };
+  });
+
+  const state: PlanState = plan.status === 'cancelled' ? 'cancelled'
+    : planCharges.every(c => c.status === 'paid') || paid + 0.005 >= plan.total ? 'completed'
+    : instalments.some(i => i.status === 'overdue') ? 'defaulted'
+    : 'active';
+  return { paid, state, instalments };
+}
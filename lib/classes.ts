@@ -0,0 +1,46 @@
+import { SchoolClass, Student, GradeLevel, ClassLetter, Shift } from '../types';
+import { ACADEMIC_SHIFTS } from './constants';
+
+// --- Turmas ---
+
+export const DEFAULT_CLASS_CAPACITY = 40;
+
+/**
+ * Classes are keyed by year, grade, letter and shift, so the same turma always gets the same id
+ * on every PC (e.g. "2024-3-B-manha").
+ */
+export function getClassId(year: string, grade: GradeLevel, letter: ClassLetter, shift: Shift): string {
+  return `${year}-${parseInt(grade, 10)}-${letter}-${shift}`;
+}
+
+export const getShiftLabel = (shift: Shift) =>
+  ACADEMIC_SHIFTS.find(s => s.value === shift)?.label.split(' ')[0] ?? shift;
+
+/**
+ * Display name, e.g. "3ª Classe B – Manhã".
+ */
+export function formatClassName(schoolClass: Pick<SchoolClass, 'grade' | 'letter' | 'shift'>): string {
+  return `${schoolClass.grade} ${schoolClass.letter} – ${getShiftLabel(schoolClass.shift)}`;
+}
+
+/**
+ * Id of the turma a student is placed in, or null when the placement is incomplete.
+ */
+export function getStudentClassId(student: Student): string | null {
+  const { year, classLetter, shift } = student.academic;
+  if (!year || !classLetter || !shift) return null;
+  return getClassId(year, student.grade, classLetter, shift);
+}
+
+/**
+ * Enrolled students of a turma (transferred students are archived and left out), sorted by name.
+ */
+export function getClassRoster(students: Student[], schoolClass: SchoolClass): Student[] {
+  return students
+    .filter(s => s.status !== 'transferred' && getStudentClassId(s) === schoolClass.id)
+    .sort((a, b) => a.name.localeCompare(b.name, 'pt'));
+}
+
+export function createClass(year: string, grade: GradeLevel, letter: ClassLetter, shift: Shift, capacity = DEFAULT_CLASS_CAPACITY): SchoolClass {
+  return { id: getClassId(year, grade, letter, shift), year, grade, letter, shift, capacity };
+}
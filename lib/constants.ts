@@ -49,14 +49,11 @@ export const ACADEMIC_SUBJECTS = [
   "Ofícios"
 ] as const;
 
-export const PAYMENT_METHODS = [
-  "M-Pesa",
-  "E-Mola",
-  "Transferência Bancária",
-  "Depósito Bancário",
-  "POS",
-  "Numerário"
-] as const;
+// Subjects taught only in one cycle; every other subject is common to both
+export const CYCLE_SUBJECTS: Record<keyof typeof EDUCATION_CYCLES, readonly (typeof ACADEMIC_SUBJECTS)[number][]> = {
+  CYCLE_1: ["Estudo do Meio"],
+  CYCLE_2: ["Ciências Naturais", "Ciências Sociais", "Inglês", "Educação Musical", "Ofícios"]
+};
 
 export const MOCK_SCHOOL_DATA = {
   name: SCHOOL_NAME,
@@ -0,0 +1,89 @@
+import { DiscountKind, DiscountRule, Student } from '../types';
+import { formatCurrency } from './utils';
+
+// --- Descontos, Bolsas e Isenções ---
+
+export const DISCOUNT_KIND_LABELS: Record<DiscountKind, string> = {
+  percentage: 'Bolsa / Desconto (%)',
+  fixed: 'Desconto Fixo (MT)',
+  exemption: 'Isenção Total',
+  sibling: 'Desconto de Irmãos (%)',
+};
+
+/** Rules and students needed to price a student's tuition. */
+export interface DiscountContext {
+  rules: DiscountRule[];
+  students: Student[];
+}
+
+export interface DiscountResult {
+  amount: number;   // Tuition due after discounts
+  discount: number; // Deducted from the base tuition
+  rules: DiscountRule[];
+}
+
+export const isDiscountActive = (rule: DiscountRule, date: string) =>
+  rule.validFrom <= date && (!rule.validTo || date <= rule.validTo);
+
+// Last 9 digits, so "+258 84 123 4567" and "841234567" match
+export const normalizePhone = (phone: string) => phone.replace(/\D/g, '').slice(-9);
+
+/**
+ * Phone and BI numbers of a student's parents, used to tell which students share a family.
+ */
+export function getGuardianKeys(student: Student): string[] {
+  const { father, mother } = student.guardians;
+  const keys = [father, mother].flatMap(parent => [
+    normalizePhone(parent.phone || ''),
+    parent.biNumber?.trim().toUpperCase() || '',
+  ]);
+  return keys.filter(key => key.length >= 6);
+}
+
+/**
+ * Enrolled students sharing a parent's phone or BI number with `student`.
+ */
+export function findSiblings(student: Student, students: Student[]): Student[] {
+  const keys = new Set(getGuardianKeys(student));
+  if (keys.size === 0) return [];
+  return students.filter(s =>
+    s.id !== student.id && s.status !== 'transferred' && getGuardianKeys(s).some(key => keys.has(key))
+  );
+}
+
+const enrolledBefore = (a: Student, b: Student) =>
+  (a.academic.enrollmentDate || '').localeCompare(b.academic.enrollmentDate || '') || a.id.localeCompare(b.id);
+
+/**
+ * The first child enrolled in a family pays full tuition; sibling discounts apply to the others.
+ */
+export function hasOlderSibling(student: Student, students: Student[]): boolean {
+  return findSiblings(student, students).some(sibling => enrolledBefore(sibling, student) < 0);
+}
+
+/**
+ * Rules that apply to a student on `date`: its own rules, plus school-wide sibling rules when it has an older sibling.
+ */
+export function getApplicableDiscounts(student: Student, context: DiscountContext, date: string): DiscountRule[] {
+  const active = context.rules.filter(rule => isDiscountActive(rule, date));
+  const own = active.filter(rule => rule.studentId === student.id);
+  const sibling = active.filter(rule => rule.kind === 'sibling' && !rule.studentId);
+  return sibling.length > 0 && hasOlderSibling(student, context.students) ? [...own, ...sibling] : own;
+}
+
+/**
+ * Applies discount rules to a base tuition. An exemption waives it; percentages add up (to 100%) and are taken
+ * before fixed amounts. The result is never negative.
+ */
+export function applyDiscounts(base: number, rules: DiscountRule[]): DiscountResult {
+  if (rules.some(rule => rule.kind === 'exemption')) return { amount: 0, discount: base, rules };
+  const percentage = Math.min(100, rules
+    .filter(rule => rule.kind === 'percentage' || rule.kind === 'sibling')
+    .reduce((sum, rule) => sum + rule.value, 0));
+  const fixed = rules.filter(rule => rule.kind === 'fixed').reduce((sum, rule) => sum + rule.value, 0);
+  const amount = Math.max(0, Math.round((base * (100 - percentage) - fixed * 100)) / 100);
+  return { amount, discount: Math.round((base - amount) * 100) / 100, rules };
+}
+
+export const formatDiscountValue = (rule: DiscountRule) =>
+  rule.kind === 'exemption' ? '100%' : rule.kind === 'fixed' ? formatCurrency(rule.value) : `${rule.value}%`;
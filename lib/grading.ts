@@ -0,0 +1,160 @@
+import { GradeLevel, GradingSystem, Mark, SchoolSettings, Student, Term } from '../types';
+import { ACADEMIC_SUBJECTS, CYCLE_SUBJECTS, EDUCATION_CYCLES } from './constants';
+
+// --- Avaliação ---
+
+export type Subject = (typeof ACADEMIC_SUBJECTS)[number];
+export type Cycle = keyof typeof EDUCATION_CYCLES;
+
+export const TERMS: Term[] = ['1', '2', '3'];
+
+export const TERM_LABELS: Record<Term, string> = {
+  '1': '1º Trimestre',
+  '2': '2º Trimestre',
+  '3': '3º Trimestre',
+};
+
+export const GRADING_SCALES: Record<GradingSystem, { label: string; max: number; step: number; defaultPassingGrade: number }> = {
+  '0-20': { label: '0 - 20 Valores', max: 20, step: 0.1, defaultPassingGrade: 10 },
+  '0-100': { label: '0 - 100 Pontos', max: 100, step: 1, defaultPassingGrade: 50 },
+  'A-F': { label: 'A - F', max: 5, step: 1, defaultPassingGrade: 3 },
+};
+
+// A-F marks are stored as points so they can be averaged like the numeric scales
+export const LETTER_GRADES = ['F', 'E', 'D', 'C', 'B', 'A'] as const;
+
+export type AcademicSettings = SchoolSettings['academic'];
+
+// --- Subjects ---
+
+export function getCycle(grade: GradeLevel): Cycle {
+  return EDUCATION_CYCLES.CYCLE_1.includes(grade) ? 'CYCLE_1' : 'CYCLE_2';
+}
+
+/**
+ * Subjects taught in a grade: the common ones plus those specific to its cycle, in curriculum order.
+ */
+export function getSubjectsForGrade(grade: GradeLevel): Subject[] {
+  const cycle = getCycle(grade);
+  const otherCycles = (Object.keys(CYCLE_SUBJECTS) as Cycle[]).filter(c => c !== cycle);
+  const excluded = new Set(otherCycles.flatMap(c => CYCLE_SUBJECTS[c]));
+  return ACADEMIC_SUBJECTS.filter(subject => !excluded.has(subject));
+}
+
+// --- Marks ---
+
+export function getMarkId(year: string, studentId: string, term: Term, subject: string): string {
+  return `${year}-${studentId}-${term}-${subject}`;
+}
+
+export function createMark(year: string, studentId: string, term: Term, subject: string, value: number, system: GradingSystem): Mark {
+  return { id: getMarkId(year, studentId, term, subject), studentId, year, term, subject, value, system };
+}
+
+/**
+ * Reads a mark typed by the user ("14,5", "87", "b"). Returns null when it is not valid on `system`.
+ */
+export function parseMark(input: string, system: GradingSystem): number | null {
+  const text = input.trim();
+  if (!text) return null;
+
+  if (system === 'A-F') {
+    const index = LETTER_GRADES.findIndex(letter => letter === text.toUpperCase());
+    return index >= 0 ? index : null;
+  }
+
+  const value = Number(text.replace(',', '.'));
+  const { max, step } = GRADING_SCALES[system];
+  if (!Number.isFinite(value) || value < 0 || value > max) return null;
+  // Reject more precision than the scale allows (e.g. 14,55 on 0-20)
+  return Math.abs(Math.round(value / step) * step - value) < 1e-9 ? value : null;
+}
+
+export function formatMark(value: number | null, system: GradingSystem): string {
+  if (value === null) return '—';
+  if (system === 'A-F') return LETTER_GRADES[Math.round(value)];
+  return value.toLocaleString('pt-PT', { maximumFractionDigits: 1 });
+}
+
+/**
+ * Converts a value between scales through its share of the maximum.
+ */
+export function convertMark(value: number, from: GradingSystem, to: GradingSystem): number {
+  if (from === to) return value;
+  const converted = (value / GRADING_SCALES[from].max) * GRADING_SCALES[to].max;
+  return to === 'A-F' ? Math.round(converted) : roundAverage(converted);
+}
+
+const roundAverage = (value: number) => Math.round(value * 10) / 10;
+
+// Letter averages are rounded to a whole letter so the approval matches what is shown
+const average = (values: number[], system: GradingSystem) => {
+  if (values.length === 0) return null;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return system === 'A-F' ? Math.round(mean) : roundAverage(mean);
+};
+
+// --- Results ---
+
+export type AcademicResult = 'approved' | 'failed' | 'incomplete';
+
+export const RESULT_LABELS: Record<AcademicResult, string> = {
+  approved: 'Aprovado',
+  failed: 'Reprovado',
+  incomplete: 'Em curso',
+};
+
+export interface SubjectResult {
+  subject: Subject;
+  terms: Partial<Record<Term, number>>; // Active terms with a mark, on the current scale
+  average: number | null;
+  passed: boolean | null; // null while the subject has no marks
+}
+
+export interface StudentResults {
+  subjects: SubjectResult[];
+  average: number | null; // Mean of the subject averages
+  result: AcademicResult;
+}
+
+/** Trimesters counted in averages, in order. */
+export const getActiveTerms = (academic: AcademicSettings): Term[] =>
+  TERMS.filter(term => academic.activeTerms.includes(term));
+
+export const isPassing = (value: number, academic: AcademicSettings) => value >= academic.passingGrade;
+
+/**
+ * Averages of a student in a school year under the current grading settings.
+ * Subject averages cover the active trimesters that have a mark; the overall result stays
+ * 'incomplete' until every subject has a mark in every active trimester, and is then decided
+ * by comparing the overall average with `passingGrade`.
+ * `upToTerm` limits the results to the trimesters closed so far (e.g. for a 1st-trimester boletim).
+ */
+export function getStudentResults(student: Student, marks: Mark[], year: string, academic: AcademicSettings, upToTerm?: Term): StudentResults {
+  const terms = getActiveTerms(academic).filter(term => !upToTerm || term <= upToTerm);
+  const studentMarks = marks.filter(m => m.studentId === student.id && m.year === year);
+
+  const subjects = getSubjectsForGrade(student.grade).map((subject): SubjectResult => {
+    const termMarks: Partial<Record<Term, number>> = {};
+    terms.forEach(term => {
+      const mark = studentMarks.find(m => m.subject === subject && m.term === term);
+      if (mark) termMarks[term] = convertMark(mark.value, mark.system, academic.gradingSystem);
+    });
+    const subjectAverage = average(Object.values(termMarks), academic.gradingSystem);
+    return {
+      subject,
+      terms: termMarks,
+      average: subjectAverage,
+      passed: subjectAverage === null ? null : isPassing(subjectAverage, academic),
+    };
+  });
+
+  const overall = average(subjects.filter(s => s.average !== null).map(s => s.average as number), academic.gradingSystem);
+  const isComplete = terms.length > 0 && subjects.every(s => Object.keys(s.terms).length === terms.length);
+
+  return {
+    subjects,
+    average: overall,
+    result: !isComplete || overall === null ? 'incomplete' : isPassing(overall, academic) ? 'approved' : 'failed',
+  };
+}
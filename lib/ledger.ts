@@ -0,0 +1,107 @@
+import { TuitionCharge, Transaction } from '../types';
+import { FinancialSettings, formatMonthLabel, getLateFee } from './billing';
+import { toDateKey } from './utils';
+
+// --- Conta Corrente do Aluno ---
+
+export type LedgerEntryKind = 'charge' | 'fee' | 'discount' | 'payment';
+
+export const LEDGER_KIND_LABELS: Record<LedgerEntryKind, string> = {
+  charge: 'Débito',
+  fee: 'Multa',
+  discount: 'Desconto',
+  payment: 'Pagamento',
+};
+
+export interface LedgerEntry {
+  id: string;
+  date: string; // yyyy-MM-dd
+  kind: LedgerEntryKind;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number; // Running balance after this entry; positive = owed by the student
+  transactionId?: string;
+}
+
+export interface StudentLedger {
+  entries: LedgerEntry[];
+  totalDebit: number;
+  totalCredit: number; // Payments and discounts
+  totalDiscount: number;
+  balance: number;
+}
+
+// Same-day entries: what is owed is listed before what settles it
+const KIND_ORDER: LedgerEntryKind[] = ['charge', 'fee', 'discount', 'payment'];
+
+const chargeLabel = (charge: TuitionCharge) => `${formatMonthLabel(charge.month)} ${charge.year}`;
+
+const isTuitionPayment = (t: Transaction) => (t.chargeIds?.length ?? 0) > 0 || t.category === 'Mensalidade';
+
+/**
+ * Statement of account of a student on `today` (yyyy-MM-dd), from its tuition charges and linked transactions.
+ * - Charges are debited on their due date (or earlier, once paid in advance); future months are left out.
+ *   Their discount (bolsa, sibling discount, exemption) is credited on the same day.
+ * - Late fees are debited when paid, or accrued up to `today` while the charge is open.
+ * - Completed income entries are credited. Entries other than tuition (uniforms, material...) are sold and
+ *   paid at once, so they are debited and credited on the same day. Cancelled entries are ignored.
+ */
+export function buildStudentLedger(
+  studentId: string,
+  charges: TuitionCharge[],
+  transactions: Transaction[],
+  financial: FinancialSettings,
+  today: string = toDateKey(new Date())
+): StudentLedger {
+  const entries: Omit<LedgerEntry, 'balance'>[] = [];
+
+  charges
+    .filter(c => c.studentId === studentId && (c.status === 'paid' || c.dueDate <= today))
+    .forEach(charge => {
+      const label = chargeLabel(charge);
+      const discount = charge.discount ?? 0;
+      entries.push({ id: `${charge.id}-charge`, date: charge.dueDate, kind: 'charge', description: `Mensalidade ${label}`, debit: charge.amount + discount, credit: 0 });
+      if (discount > 0) {
+        entries.push({ id: `${charge.id}-discount`, date: charge.dueDate, kind: 'discount', description: `Desconto ${label}`, debit: 0, credit: discount });
+      }
+
+      const lateFee = getLateFee(charge, financial, today);
+      if (lateFee > 0) {
+        const paid = charge.status === 'paid';
+        entries.push({
+          id: `${charge.id}-fee`,
+          date: paid && charge.paidAt ? charge.paidAt : today,
+          kind: 'fee',
+          description: paid ? `Multa por atraso ${label}` : `Multa por atraso ${label} (até hoje)`,
+          debit: lateFee,
+          credit: 0,
+        });
+      }
+    });
+
+  transactions
+    .filter(t => t.studentId === studentId && t.type === 'income' && t.status === 'completed')
+    .forEach(t => {
+      if (!isTuitionPayment(t)) {
+        entries.push({ id: `${t.id}-sale`, date: t.date, kind: 'charge', description: t.category, debit: t.amount, credit: 0, transactionId: t.id });
+      }
+      entries.push({ id: `${t.id}-payment`, date: t.date, kind: 'payment', description: t.description, debit: 0, credit: t.amount, transactionId: t.id });
+    });
+
+  entries.sort((a, b) => a.date.localeCompare(b.date) || KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind));
+
+  let balance = 0;
+  const withBalance = entries.map(entry => {
+    balance = Math.round((balance + entry.debit - entry.credit) * 100) / 100;
+    return { ...entry, balance };
+  });
+
+  return {
+    entries: withBalance,
+    totalDebit: entries.reduce((sum, e) => sum + e.debit, 0),
+    totalCredit: entries.reduce((sum, e) => sum + e.credit, 0),
+    totalDiscount: entries.filter(e => e.kind === 'discount').reduce((sum, e) => sum + e.credit, 0),
+    balance,
+  };
+}
@@ -0,0 +1,100 @@
+import { PaymentMethod, PaymentMethodCode, Transaction } from '../types';
+
+// --- Formas de Pagamento ---
+// The registry lives in the settings: every school starts with DEFAULT_PAYMENT_METHODS and can rename, price or
+// disable them and add its own. Methods are never removed, so the entries that use one keep its name.
+
+// Codes are lowercase ASCII so they stay valid identifiers in the database (transactions_method_check)
+export const PAYMENT_METHOD_CODE_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+export const DEFAULT_PAYMENT_METHODS: PaymentMethod[] = [
+  { code: 'mpesa', label: 'M-Pesa', active: true, requiresReference: true, feePercent: 0, feeFixed: 0 },
+  { code: 'emola', label: 'E-Mola', active: true, requiresReference: true, feePercent: 0, feeFixed: 0 },
+  { code: 'bank_transfer', label: 'Transferência Bancária', active: true, requiresReference: true, feePercent: 0, feeFixed: 0 },
+  { code: 'bank_deposit', label: 'Depósito Bancário', active: true, requiresReference: true, feePercent: 0, feeFixed: 0 },
+  { code: 'pos', label: 'POS', active: true, requiresReference: false, feePercent: 0, feeFixed: 0 },
+  { code: 'cash', label: 'Numerário', active: true, requiresReference: false, feePercent: 0, feeFixed: 0 },
+];
+
+// Values saved before the registry: the form labels and the old Transaction.method union
+const LEGACY_METHODS: Record<string, PaymentMethodCode> = {
+  'M-Pesa': 'mpesa',
+  'E-Mola': 'emola',
+  'Transferência Bancária': 'bank_transfer',
+  'Bank Transfer': 'bank_transfer',
+  'Depósito Bancário': 'bank_deposit',
+  'POS': 'pos',
+  'Numerário': 'cash',
+  'Cash': 'cash',
+};
+
+/**
+ * Code of a stored method value, translating the labels saved by older releases. Other values are returned
+ * as they are, so validation reports the ones that are not codes.
+ */
+export const toPaymentMethodCode = (value: string): PaymentMethodCode => LEGACY_METHODS[value] ?? value;
+
+/**
+ * Code for a method the school adds, derived from its name and distinct from the codes in `methods`.
+ */
+export function createPaymentMethodCode(label: string, methods: PaymentMethod[]): PaymentMethodCode {
+  const base = label.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_').replace(/^[^a-z]+|_+$/g, '') || 'forma';
+  let code = base;
+  for (let n = 2; methods.some(m => m.code === code); n++) code = `${base}_${n}`;
+  return code;
+}
+
+/**
+ * The school's configuration of a method. Methods missing from it use the default, or (added on another PC)
+ * show their code as the name.
+ */
+export function getPaymentMethod(code: PaymentMethodCode, methods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS): PaymentMethod {
+  return methods.find(m => m.code === code)
+    ?? DEFAULT_PAYMENT_METHODS.find(m => m.code === code)
+    ?? { code, label: code, active: false, requiresReference: false, feePercent: 0, feeFixed: 0 };
+}
+
+// Position of a method in the registry; methods missing from it come last
+export const getPaymentMethodRank = (code: PaymentMethodCode, methods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS) => {
+  const index = methods.findIndex(m => m.code === code);
+  return index < 0 ? methods.length : index;
+};
+
+export const getPaymentMethodLabel = (code: PaymentMethodCode, methods?: PaymentMethod[]) =>
+  getPaymentMethod(code, methods).label;
+
+/**
+ * Fee the operator charges on `amount` under the method's rule, rounded to the cent.
+ */
+export function getPaymentFee(method: PaymentMethod, amount: number): number {
+  if (amount <= 0 || (!method.feePercent && !method.feeFixed)) return 0;
+  return Math.round((amount * method.feePercent + method.feeFixed * 100)) / 100;
+}
+
+export interface PaymentMethodSummary {
+  code: PaymentMethodCode;
+  label: string;
+  count: number;
+  income: number;
+  expense: number;
+  fees: number;
+}
+
+/**
+ * Completed transactions grouped by payment method, in the registry order. Methods without movements are left out.
+ */
+export function summarizeByMethod(transactions: Transaction[], methods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS): PaymentMethodSummary[] {
+  const byCode = new Map<PaymentMethodCode, PaymentMethodSummary>();
+  transactions
+    .filter(t => t.status === 'completed')
+    .forEach(t => {
+      const summary = byCode.get(t.method)
+        ?? { code: t.method, label: getPaymentMethodLabel(t.method, methods), count: 0, income: 0, expense: 0, fees: 0 };
+      summary.count++;
+      summary[t.type] += t.amount;
+      summary.fees += t.fee ?? 0;
+      byCode.set(t.method, summary);
+    });
+  return Array.from(byCode.values()).sort((a, b) => getPaymentMethodRank(a.code, methods) - getPaymentMethodRank(b.code, methods));
+}
@@ -0,0 +1,142 @@
+import { Employee, PayrollEntry, PayrollStatus, PaymentMethodCode, Transaction } from '../types';
+import { PayrollSettings, computeStatutoryDeductions } from './taxes';
+
+// --- Folha de Salário ---
+// A payroll run is the set of entries of one month ("2024-03"), one per employee. The whole run moves from
+// draft (bonuses and deductions still being entered) to processing (amounts locked for payment) to paid, when
+// its net total is recorded as a single expense in the 'Salários' category. INSS and IRPS are worked out on
+// base + bonuses whenever an entry is calculated (see lib/taxes.ts).
+
+export const PAYROLL_CATEGORY = 'Salários';
+
+export const PAYROLL_STATUS_LABELS: Record<PayrollStatus, string> = {
+  draft: 'Rascunho',
+  processing: 'Em Processamento',
+  paid: 'Paga',
+};
+
+export const getPayrollEntryId = (monthReference: string, employeeId: string) => `${monthReference}-${employeeId}`;
+
+// "2024-03" → "Março de 2024"
+export const formatPayrollMonth = (monthReference: string) => {
+  const [year, month] = monthReference.split('-').map(Number);
+  const label = new Date(year, month - 1, 1).toLocaleDateString('pt-PT', { month: 'long', year: 'numeric' });
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+// Everyone with a contract in force is paid, including staff on vacation or sick leave
+export const isOnPayroll = (employee: Employee) => employee.status !== 'terminated';
+
+export const getNetSalary = (entry: Pick<PayrollEntry, 'baseSalary' | 'bonuses' | 'deductions' | 'inss' | 'irps'>) =>
+  Math.round((entry.baseSalary + entry.bonuses - entry.inss - entry.irps - entry.deductions) * 100) / 100;
+
+/**
+ * `entry` with its INSS, IRPS and net salary worked out for `employee`. Without the employee record the
+ * statutory deductions already on the entry are kept.
+ */
+export function calculatePayrollEntry(entry: PayrollEntry, employee: Employee | undefined, settings: PayrollSettings): PayrollEntry {
+  const taxes = employee
+    ? computeStatutoryDeductions(entry.baseSalary + entry.bonuses, employee, settings)
+    : { inss: entry.inss, inssEmployer: entry.inssEmployer, irps: entry.irps };
+  const next = { ...entry, ...taxes };
+  return { ...next, netSalary: getNetSalary(next) };
+}
+
+/**
+ * Draft entries of the `monthReference` run: new ones for the employees on the payroll who are not in it yet,
+ * and the existing drafts refreshed with the employee's current name, role, base salary and deductions. Runs
+ * already in processing or paid are left as they are.
+ */
+export function buildPayrollEntries(employees: Employee[], entries: PayrollEntry[], monthReference: string, settings: PayrollSettings): PayrollEntry[] {
+  const current = new Map(
+    entries.filter(e => e.monthReference === monthReference).map(e => [e.employeeId, e] as [string, PayrollEntry])
+  );
+  if (Array.from(current.values()).some(e => e.status !== 'draft')) return [];
+
+  return employees.filter(isOnPayroll).flatMap(employee => {
+    const existing = current.get(employee.id);
+    const next = calculatePayrollEntry({
+      id: getPayrollEntryId(monthReference, employee.id),
+      bonuses: 0,
+      deductions: 0,
+      ...existing,
+      employeeId: employee.id,
+      employeeName: employee.name,
+      employeeRole: employee.role,
+      monthReference,
+      baseSalary: employee.salary.base,
+      inss: 0,
+      inssEmployer: 0,
+      irps: 0,
+      netSalary: 0,
+      status: 'draft',
+    }, employee, settings);
+    const unchanged = existing
+      && existing.employeeName === next.employeeName
+      && existing.employeeRole === next.employeeRole
+      && existing.baseSalary === next.baseSalary
+      && existing.inss === next.inss
+      && existing.inssEmployer === next.inssEmployer
+      && existing.irps === next.irps
+      && existing.netSalary === next.netSalary;
+    return unchanged ? [] : [next];
+  });
+}
+
+export interface PayrollRun {
+  monthReference: string;
+  status: PayrollStatus;
+  entries: PayrollEntry[];
+  totals: Record<'baseSalary' | 'bonuses' | 'deductions' | 'inss' | 'inssEmployer' | 'irps' | 'netSalary', number>;
+  paymentDate?: string;
+  transactionId?: string;
+}
+
+// Order of the states; a run whose entries disagree (edited on two PCs) shows the least advanced one
+const STATUS_ORDER: PayrollStatus[] = ['draft', 'processing', 'paid'];
+
+/**
+ * Entries grouped into monthly runs, latest month first, with the employees in alphabetical order.
+ */
+export function getPayrollRuns(entries: PayrollEntry[]): PayrollRun[] {
+  const months = Array.from(new Set(entries.map(e => e.monthReference))).sort().reverse();
+  return months.map(monthReference => {
+    const members = entries
+      .filter(e => e.monthReference === monthReference)
+      .sort((a, b) => a.employeeName.localeCompare(b.employeeName, 'pt'));
+    const sum = (field: keyof PayrollRun['totals']) =>
+      Math.round(members.reduce((acc, e) => acc + e[field], 0) * 100) / 100;
+    const paid = members.find(e => e.transactionId);
+    return {
+      monthReference,
+      status: STATUS_ORDER[Math.min(...members.map(e => STATUS_ORDER.indexOf(e.status)))],
+      entries: members,
+      totals: {
+        baseSalary: sum('baseSalary'),
+        bonuses: sum('bonuses'),
+        deductions: sum('deductions'),
+        inss: sum('inss'),
+        inssEmployer: sum('inssEmployer'),
+        irps: sum('irps'),
+        netSalary: sum('netSalary'),
+      },
+      ...(paid && { paymentDate: paid.paymentDate, transactionId: paid.transactionId }),
+    };
+  });
+}
+
+/**
+ * The expense that pays `run`: its net total, in the 'Salários' category.
+ */
+export function buildPayrollTransaction(run: PayrollRun, paymentDate: string, method: PaymentMethodCode): Transaction {
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    date: paymentDate,
+    amount: run.totals.netSalary,
+    type: 'expense',
+    category: PAYROLL_CATEGORY,
+    description: `Folha de Salário - ${formatPayrollMonth(run.monthReference)} (${run.entries.length} colaboradores)`,
+    method,
+    status: 'completed',
+  };
+}
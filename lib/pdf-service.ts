@@ -1,69 +1,104 @@
 
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
-import { Student, Transaction } from '../types';
-import { formatCurrency } from './utils';
+import { Employee, PaymentMethod, PayrollEntry, Receipt, SchoolSettings, Student, Transaction, Term } from '../types';
+import { StudentFinancialStatus, amountInWords, formatCurrency } from './utils';
+import { AcademicSettings, StudentResults, RESULT_LABELS, TERM_LABELS, formatMark, getActiveTerms } from './grading';
+import { AttendanceSummary } from './attendance';
+import { StudentLedger } from './ledger';
+import { getPaymentMethodLabel, getPaymentMethodRank } from './payments';
+import { ReceiptDetails } from './receipts';
+import { PAYROLL_STATUS_LABELS, formatPayrollMonth } from './payroll';
+import { formatClassName } from './classes';
+import { AVAILABLE_GRADES } from './constants';
 
-// --- Configuration ---
-// Instructions: Paste your Google Drive Link inside the quotes.
-// If the image does not load due to CORS, convert your image to Base64 and paste the long string here instead.
-const SCHOOL_LOGO = "https://drive.google.com/file/d/1-EoFPUZzWgms4VoE5uoYXBwOphg8Fz1J/view?usp=sharing";
+// --- Branding ---
+// Name, contacts, logo and colours come from the school profile (Configurações → Identidade da Escola).
 
+export type SchoolProfile = SchoolSettings['profile'];
+
+type RGB = [number, number, number];
+
+// Fixed palette; the school's primary and accent colours are taken from the profile
 const BRAND_COLORS = {
-  primary: [4, 120, 87], // #047857 (Green)
-  secondary: [249, 115, 22], // #F97316 (Orange)
   danger: [220, 38, 38], // #DC2626 (Red)
   text: [13, 18, 27], // #0d121b
   gray: [75, 85, 99], // #4b5563
   lightGray: [243, 244, 246] // #f3f4f6
 };
 
-// Generic info for other reports (Student List, Financial Report)
-const SCHOOL_INFO = {
-  name: "ESCOLA SEIVA DA NAÇÃO",
-  subtitle: "Ensino Primário",
-  address: "Av. Samora Machel, Bairro de Mussumbuluco",
-  contact: "Cell: 842 696 623 | NUIT: 107 698 558"
+interface Branding {
+  profile: SchoolProfile;
+  primary: RGB;
+  secondary: RGB;
+  logo: { data: string; format: string } | null;
+}
+
+const hexToRgb = (hex: string, fallback: RGB): RGB => {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return fallback;
+  const value = parseInt(match[1], 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
 };
 
-// --- Helpers ---
+// Only uploaded (base64) logos are embedded: jsPDF cannot fetch remote images, which also fail CORS
+const createBranding = (profile: SchoolProfile): Branding => {
+  const logo = /^data:image\/(png|jpe?g|webp);base64,/i.exec(profile.logo);
+  return {
+    profile,
+    primary: hexToRgb(profile.primaryColor, [4, 120, 87]),
+    secondary: hexToRgb(profile.accentColor, [249, 115, 22]),
+    logo: logo ? { data: profile.logo, format: logo[1].toUpperCase().replace('JPG', 'JPEG') } : null,
+  };
+};
 
-const addHeader = (doc: jsPDF, title: string) => {
-  const pageWidth = doc.internal.pageSize.width;
-  
-  // Logo Fallback
-  if (SCHOOL_LOGO && SCHOOL_LOGO.length > 10) {
+// Logo, or a disc with the school's initial when none was uploaded
+const drawLogo = (doc: jsPDF, brand: Branding, x: number, y: number, size: number) => {
+  if (brand.logo) {
     try {
-        doc.addImage(SCHOOL_LOGO, 'JPEG', 14, 10, 20, 20);
-    } catch (e) {
-        // Silent fail or console warn
+      doc.addImage(brand.logo.data, brand.logo.format, x, y, size, size);
+      return;
+    } catch (error) {
+      console.warn("Logo could not be loaded", error);
     }
-  } else {
-    doc.setFillColor(BRAND_COLORS.primary[0], BRAND_COLORS.primary[1], BRAND_COLORS.primary[2]);
-    doc.circle(24, 20, 10, 'F');
-    doc.setTextColor(255, 255, 255);
-    doc.setFontSize(14);
-    doc.setFont("helvetica", "bold");
-    doc.text("S", 22, 23);
   }
+  doc.setFillColor(brand.primary[0], brand.primary[1], brand.primary[2]);
+  doc.circle(x + size / 2, y + size / 2, size / 2, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFontSize(size * 0.7);
+  doc.setFont("helvetica", "bold");
+  doc.text(brand.profile.name.trim().charAt(0).toUpperCase() || "E", x + size / 2, y + size / 2, { align: 'center', baseline: 'middle' });
+};
+
+// Contact line under the school name: phone, e-mail and NUIT when filled in
+const contactLine = (profile: SchoolProfile) =>
+  [profile.phone && `Tel: ${profile.phone}`, profile.email, profile.nuit && `NUIT: ${profile.nuit}`].filter(Boolean).join(' | ');
+
+// --- Helpers ---
+
+const addHeader = (doc: jsPDF, title: string, brand: Branding) => {
+  const pageWidth = doc.internal.pageSize.width;
+  const { profile } = brand;
+  
+  drawLogo(doc, brand, 14, 10, 20);
 
   // School Info
-  doc.setTextColor(BRAND_COLORS.primary[0], BRAND_COLORS.primary[1], BRAND_COLORS.primary[2]);
+  doc.setTextColor(brand.primary[0], brand.primary[1], brand.primary[2]);
   doc.setFontSize(14);
   doc.setFont("helvetica", "bold");
-  doc.text(SCHOOL_INFO.name, 40, 18);
+  doc.text(profile.name.toUpperCase(), 40, 18);
 
   doc.setTextColor(BRAND_COLORS.gray[0], BRAND_COLORS.gray[1], BRAND_COLORS.gray[2]);
   doc.setFontSize(10);
   doc.setFont("helvetica", "normal");
-  doc.text(SCHOOL_INFO.subtitle, 40, 24);
+  doc.text(profile.slogan, 40, 24);
   
   doc.setFontSize(8);
-  doc.text(SCHOOL_INFO.address, 40, 29);
-  doc.text(SCHOOL_INFO.contact, 40, 33);
+  doc.text(profile.address.replace(/\s*\n\s*/g, ', '), 40, 29, { maxWidth: pageWidth - 54 });
+  doc.text(contactLine(profile), 40, 33);
 
   // Line
-  doc.setDrawColor(BRAND_COLORS.primary[0], BRAND_COLORS.primary[1], BRAND_COLORS.primary[2]);
+  doc.setDrawColor(brand.primary[0], brand.primary[1], brand.primary[2]);
   doc.setLineWidth(0.5);
   doc.line(14, 40, pageWidth - 14, 40);
 
@@ -80,7 +115,7 @@ const addHeader = (doc: jsPDF, title: string) => {
   doc.text(`Gerado em: ${today}`, pageWidth - 14, 15, { align: 'right' });
 };
 
-const addFooter = (doc: jsPDF) => {
+const addFooter = (doc: jsPDF, brand: Branding) => {
   const pageCount = doc.getNumberOfPages();
   const pageWidth = doc.internal.pageSize.width;
   const pageHeight = doc.internal.pageSize.height;
@@ -90,7 +125,7 @@ const addFooter = (doc: jsPDF) => {
     doc.setFontSize(8);
     doc.setTextColor(150, 150, 150);
     doc.text(
-      `Página ${i} de ${pageCount} - Seiva da Nação (Gestão Integrada)`,
+      `Página ${i} de ${pageCount} - ${[brand.profile.name, brand.profile.slogan && `(${brand.profile.slogan})`].filter(Boolean).join(' ')}`,
       pageWidth / 2,
       pageHeight - 10,
       { align: 'center' }
@@ -98,33 +133,93 @@ const addFooter = (doc: jsPDF) => {
   }
 };
 
+// Items split by `keyOf`, each group keeping the order the items came in
+const groupItems = <T,>(items: T[], keyOf: (item: T) => string): Map<string, T[]> => {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => {
+    const key = keyOf(item);
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  });
+  return groups;
+};
+
+// Filters applied on screen, printed under the title so the list is not mistaken for the full one
+const addFiltersLine = (doc: jsPDF, filters: string | undefined, y: number) => {
+  if (!filters) return y;
+  doc.setFontSize(8);
+  doc.setFont("helvetica", "normal");
+  doc.setTextColor(BRAND_COLORS.gray[0], BRAND_COLORS.gray[1], BRAND_COLORS.gray[2]);
+  doc.text(`Filtros: ${filters}`, 14, y, { maxWidth: doc.internal.pageSize.width - 28 });
+  return y + 6;
+};
+
+const groupHeaderRow = (label: string, colSpan: number, brand: Branding) => [{
+  content: label,
+  colSpan,
+  styles: { fontStyle: 'bold', fillColor: BRAND_COLORS.lightGray, textColor: brand.primary },
+}];
+
 // --- Exports ---
 
-export const generateStudentListPDF = (students: Student[], className: string = "Geral") => {
+export type StudentListGrouping = 'none' | 'grade' | 'class';
+
+export interface StudentListOptions {
+  groupBy?: StudentListGrouping;
+  filters?: string; // e.g. "Pesquisa "Ana" · Matriculados"
+}
+
+const STUDENT_STATUS_LABELS: Record<Student['status'], string> = {
+  active: 'Ativo',
+  suspended: 'Suspenso',
+  transferred: 'Transferido',
+};
+
+const studentClassLabel = (student: Student) => {
+  const { classLetter, shift } = student.academic;
+  return classLetter && shift ? formatClassName({ grade: student.grade, letter: classLetter, shift }) : `${student.grade} – sem turma`;
+};
+
+/**
+ * Student list, optionally split by classe or turma (in grade order) with the head count of each group.
+ */
+export const generateStudentListPDF = (students: Student[], profile: SchoolProfile, className: string = "Geral", options: StudentListOptions = {}) => {
   const doc = new jsPDF();
-  addHeader(doc, `Lista de Alunos - ${className}`);
+  const brand = createBranding(profile);
+  addHeader(doc, `Lista de Alunos - ${className}`, brand);
+  const startY = addFiltersLine(doc, options.filters, 55);
 
   const tableColumn = ["#", "Nome Completo", "Matrícula", "Classe", "Gênero", "Status"];
   const tableRows: any[] = [];
 
-  students.forEach((student, index) => {
-    tableRows.push([
-      index + 1,
-      student.name,
-      student.enrollmentId,
-      student.grade,
-      student.personal.gender === 'M' ? 'Masc' : 'Fem',
-      student.status === 'active' ? 'Ativo' : 'Inativo',
-    ]);
-  });
+  const studentRow = (student: Student, index: number) => [
+    index + 1,
+    student.name,
+    student.enrollmentId,
+    options.groupBy === 'class' ? studentClassLabel(student) : student.grade,
+    student.personal.gender === 'M' ? 'Masc' : 'Fem',
+    STUDENT_STATUS_LABELS[student.status] ?? student.status,
+  ];
+
+  if (!options.groupBy || options.groupBy === 'none') {
+    students.forEach((student, index) => tableRows.push(studentRow(student, index)));
+  } else {
+    const gradeIndex = (grade: string) => (AVAILABLE_GRADES as readonly string[]).indexOf(grade);
+    const groups = groupItems(students, options.groupBy === 'class' ? studentClassLabel : s => s.grade);
+    Array.from(groups.entries())
+      .sort(([a, [first]], [b, [other]]) => gradeIndex(first.grade) - gradeIndex(other.grade) || a.localeCompare(b, 'pt'))
+      .forEach(([label, members]) => {
+        tableRows.push(groupHeaderRow(`${label} (${members.length} ${members.length === 1 ? 'aluno' : 'alunos'})`, tableColumn.length, brand));
+        members.forEach((student, index) => tableRows.push(studentRow(student, index)));
+      });
+  }
 
   autoTable(doc, {
     head: [tableColumn],
     body: tableRows,
-    startY: 55,
+    startY,
     theme: 'striped',
     headStyles: {
-      fillColor: BRAND_COLORS.primary as any,
+      fillColor: brand.primary as any,
       textColor: [255, 255, 255],
       fontStyle: 'bold',
     },
@@ -132,20 +227,37 @@ export const generateStudentListPDF = (students: Student[], className: string =
     alternateRowStyles: { fillColor: [240, 253, 244] }
   });
 
-  addFooter(doc);
+  addFooter(doc, brand);
   const filename = `lista_alunos_${className.toLowerCase().replace(/\s/g, '_')}_${new Date().getTime()}.pdf`;
   doc.save(filename);
 };
 
-export const generateFinancialReportPDF = (transactions: Transaction[], periodLabel: string) => {
+export type TransactionGrouping = 'none' | 'category' | 'method';
+
+export interface FinancialReportOptions {
+  groupBy?: TransactionGrouping;
+  filters?: string;
+  methods?: PaymentMethod[]; // The school's method labels (Configurações → Financeiro)
+}
+
+// Completed movements only: cancelled transactions are listed but count for nothing
+const sumCompleted = (transactions: Transaction[], type: Transaction['type']) =>
+  transactions.filter(t => t.type === type && t.status === 'completed').reduce((sum, t) => sum + t.amount, 0);
+
+/**
+ * Financial report for the period: totals, then the transactions, optionally grouped by category or payment
+ * method with the entradas, saídas and saldo of each group.
+ */
+export const generateFinancialReportPDF = (transactions: Transaction[], periodLabel: string, profile: SchoolProfile, options: FinancialReportOptions = {}) => {
   const doc = new jsPDF();
-  addHeader(doc, `Relatório Financeiro - ${periodLabel}`);
+  const brand = createBranding(profile);
+  addHeader(doc, `Relatório Financeiro - ${periodLabel}`, brand);
 
-  const income = transactions.filter(t => t.type === 'income' && t.status === 'completed').reduce((sum, t) => sum + t.amount, 0);
-  const expense = transactions.filter(t => t.type === 'expense' && t.status === 'completed').reduce((sum, t) => sum + t.amount, 0);
+  const income = sumCompleted(transactions, 'income');
+  const expense = sumCompleted(transactions, 'expense');
   const balance = income - expense;
 
-  const startY = 60;
+  const startY = addFiltersLine(doc, options.filters, 55) + 5;
   
   // KPI Boxes
   doc.setDrawColor(200, 200, 200);
@@ -154,7 +266,7 @@ export const generateFinancialReportPDF = (transactions: Transaction[], periodLa
   doc.setFillColor(240, 253, 244); 
   doc.roundedRect(14, startY, 55, 25, 2, 2, 'FD');
   doc.setFontSize(9);
-  doc.setTextColor(BRAND_COLORS.primary[0], BRAND_COLORS.primary[1], BRAND_COLORS.primary[2]);
+  doc.setTextColor(brand.primary[0], brand.primary[1], brand.primary[2]);
   doc.text("Total Entradas", 20, startY + 8);
   doc.setFontSize(12);
   doc.setFont("helvetica", "bold");
@@ -181,46 +293,96 @@ export const generateFinancialReportPDF = (transactions: Transaction[], periodLa
   doc.text(formatCurrency(balance), 146, startY + 18);
 
   const tableColumn = ["Data", "Descrição", "Categoria", "Tipo", "Método", "Valor"];
-  const tableRows = transactions.map(t => [
-    t.date,
-    t.description,
-    t.category,
-    t.type === 'income' ? 'Entrada' : 'Saída',
-    t.method,
-    formatCurrency(t.amount)
-  ]);
+  const tableRows: any[] = [];
+  // Type of the transaction on each body row (null on group and subtotal rows), to colour the amounts
+  const rowTypes: (Transaction['type'] | null)[] = [];
+
+  const methodLabel = (t: Transaction) => getPaymentMethodLabel(t.method, options.methods);
+  const pushTransaction = (t: Transaction) => {
+    tableRows.push([
+      t.date,
+      t.status === 'cancelled' ? `${t.description} (Anulada)` : t.description,
+      t.category,
+      t.type === 'income' ? 'Entrada' : 'Saída',
+      methodLabel(t),
+      formatCurrency(t.amount)
+    ]);
+    rowTypes.push(t.type);
+  };
+
+  if (!options.groupBy || options.groupBy === 'none') {
+    transactions.forEach(pushTransaction);
+  } else {
+    const byMethod = options.groupBy === 'method';
+    const groups = Array.from(groupItems(transactions, byMethod ? t => t.method : t => t.category).entries());
+    if (byMethod) {
+      groups.sort(([a], [b]) => getPaymentMethodRank(a, options.methods) - getPaymentMethodRank(b, options.methods));
+    } else {
+      groups.sort(([a], [b]) => a.localeCompare(b, 'pt'));
+    }
+
+    groups.forEach(([key, members]) => {
+      tableRows.push(groupHeaderRow(byMethod ? methodLabel(members[0]) : key, tableColumn.length, brand));
+      rowTypes.push(null);
+      members.forEach(pushTransaction);
+
+      const groupIncome = sumCompleted(members, 'income');
+      const groupExpense = sumCompleted(members, 'expense');
+      tableRows.push([
+        {
+          content: `Subtotal: Entradas ${formatCurrency(groupIncome)} · Saídas ${formatCurrency(groupExpense)}`,
+          colSpan: 5,
+          styles: { halign: 'right', fontStyle: 'bold' },
+        },
+        {
+          content: formatCurrency(groupIncome - groupExpense),
+          styles: { fontStyle: 'bold', textColor: groupIncome - groupExpense < 0 ? BRAND_COLORS.danger : BRAND_COLORS.text },
+        },
+      ]);
+      rowTypes.push(null);
+    });
+  }
 
   autoTable(doc, {
     head: [tableColumn],
     body: tableRows,
     startY: startY + 35,
-    headStyles: { fillColor: BRAND_COLORS.primary as any },
+    headStyles: { fillColor: brand.primary as any },
     styles: { fontSize: 8 },
     didParseCell: (data) => {
-      if (data.section === 'body' && data.column.index === 5) {
-        if (data.row.raw[3] === 'Saída') {
+      const type = data.section === 'body' ? rowTypes[data.row.index] : null;
+      if (type && data.column.index === 5) {
+        if (type === 'expense') {
           data.cell.styles.textColor = BRAND_COLORS.danger as any;
         } else {
-          data.cell.styles.textColor = BRAND_COLORS.primary as any;
+          data.cell.styles.textColor = brand.primary as any;
         }
       }
     }
   });
 
-  addFooter(doc);
+  addFooter(doc, brand);
   doc.save(`relatorio_financeiro_${periodLabel.toLowerCase().replace(/\s/g, '_')}.pdf`);
 };
 
 /**
  * Generates a Dual Receipt (Landscape A4 split in two).
- * Includes automatic image detection, dynamic table positioning, and proper footers.
+ * `details` holds the fiscal fields (see getReceiptDetails) and `receipt` the register entry (see lib/receipts.ts);
+ * reprints are marked "2ª VIA" and voided receipts "ANULADO".
  */
-export const generateDualReceiptPDF = (transaction: Transaction) => {
+export const generateDualReceiptPDF = (
+  transaction: Transaction,
+  details: ReceiptDetails,
+  profile: SchoolProfile,
+  receipt?: Receipt,
+  copy: 'original' | 'duplicate' = 'original'
+) => {
   const doc = new jsPDF({
     orientation: 'landscape',
     unit: 'mm',
     format: 'a4'
   });
+  const brand = createBranding(profile);
 
   const pageWidth = 297;
   const pageHeight = 210;
@@ -234,52 +396,40 @@ export const generateDualReceiptPDF = (transaction: Transaction) => {
   doc.setLineDashPattern([], 0);
 
   // --- Parse Data ---
-  const payerName = transaction.description.includes('Aluno:') 
-      ? transaction.description.split('Aluno:')[1].trim() 
-      : "Enc. / Pagador";
-  
-  const refInfo = transaction.category + " - " + (transaction.paidMonths?.join(', ') || transaction.description);
+  const { student, className, period } = details;
+  const payer = details.payerNuit ? `${details.payerName} (NUIT ${details.payerNuit})` : details.payerName;
+  const refInfo = transaction.category + " - " + (period || transaction.description);
+  const receiptNumber = receipt?.number ?? transaction.receiptNumber ?? `#${transaction.id.toUpperCase().substring(0, 8)}`;
+  const watermark = receipt?.status === 'void' ? "ANULADO" : copy === 'duplicate' ? "2ª VIA" : null;
 
   // --- Render Loop (2 Copies) ---
   [0, halfWidth].forEach((offsetX, index) => {
     const isSchoolCopy = index === 0;
     
     // 1. Draw Logo
-    try {
-      if (SCHOOL_LOGO) {
-        // Attempt to draw image
-        // X = 10 + offsetX, Y = 10, W = 25, H = 25
-        doc.addImage(SCHOOL_LOGO, 'JPEG', 10 + offsetX, 10, 25, 25);
-      }
-    } catch (error) {
-      console.warn("Logo could not be loaded", error);
-      // Fallback Circle
-      doc.setFillColor(BRAND_COLORS.primary[0], BRAND_COLORS.primary[1], BRAND_COLORS.primary[2]);
-      doc.circle(22 + offsetX, 22, 12, 'F');
-    }
+    drawLogo(doc, brand, 10 + offsetX, 10, 25);
 
     // 2. Draw Header Text (Shifted right to accommodate logo)
     const textStartX = 40 + offsetX;
     
     // Title
-    doc.setTextColor(BRAND_COLORS.primary[0], BRAND_COLORS.primary[1], BRAND_COLORS.primary[2]);
+    doc.setTextColor(brand.primary[0], brand.primary[1], brand.primary[2]);
     doc.setFontSize(12);
     doc.setFont("helvetica", "bold");
-    doc.text("ESCOLA SEIVA DA NAÇÃO", textStartX, 15);
+    doc.text(profile.name.toUpperCase(), textStartX, 15, { maxWidth: halfWidth - 50 });
 
     // Address & Info Block
     doc.setTextColor(55, 65, 81); // Dark Gray (#374151)
     doc.setFontSize(8);
     doc.setFont("helvetica", "normal");
     
-    const headerLines = [
-        "Av. Samora Machel",
-        "Bairro de Mussumbuluco",
-        "No 90/1 e 90/1/C",
-        "Cell: 842 696 623 / 877 236 290",
-        "NUIT: 107 698 558",
-        "Matola - Moçambique"
-    ];
+    // Address as typed in the profile (one line per line, long lines wrapped), then the contacts
+    const headerLines: string[] = [
+        ...profile.address.split('\n').filter(line => line.trim()).flatMap(line => doc.splitTextToSize(line.trim(), halfWidth - 50)),
+        profile.phone && `Cell: ${profile.phone}`,
+        profile.email,
+        profile.nuit && `NUIT: ${profile.nuit}`,
+    ].filter(Boolean);
 
     let currentY = 20;
     headerLines.forEach((line) => {
@@ -288,14 +438,14 @@ export const generateDualReceiptPDF = (transaction: Transaction) => {
     });
 
     // Separator Line
-    doc.setDrawColor(BRAND_COLORS.primary[0], BRAND_COLORS.primary[1], BRAND_COLORS.primary[2]);
+    doc.setDrawColor(brand.primary[0], brand.primary[1], brand.primary[2]);
     doc.setLineWidth(0.5);
     doc.line(offsetX + 10, currentY + 2, offsetX + halfWidth - 10, currentY + 2);
 
     // 3. Receipt Title
     const titleY = currentY + 12;
     doc.setFontSize(14);
-    doc.setTextColor(BRAND_COLORS.primary[0], BRAND_COLORS.primary[1], BRAND_COLORS.primary[2]);
+    doc.setTextColor(brand.primary[0], brand.primary[1], brand.primary[2]);
     doc.setFont("helvetica", "bold");
     doc.text("RECIBO DE PAGAMENTO", offsetX + (halfWidth / 2), titleY, { align: 'center' });
     
@@ -305,8 +455,9 @@ export const generateDualReceiptPDF = (transaction: Transaction) => {
 
     // 4. Info Box
     const boxY = titleY + 10;
+    const boxHeight = student ? 34 : 24;
     doc.setFillColor(BRAND_COLORS.lightGray[0], BRAND_COLORS.lightGray[1], BRAND_COLORS.lightGray[2]);
-    doc.roundedRect(offsetX + 10, boxY, halfWidth - 20, 24, 2, 2, 'F');
+    doc.roundedRect(offsetX + 10, boxY, halfWidth - 20, boxHeight, 2, 2, 'F');
 
     doc.setFontSize(8);
     doc.setTextColor(100, 100, 100);
@@ -315,13 +466,23 @@ export const generateDualReceiptPDF = (transaction: Transaction) => {
     doc.text("Recebemos de:", offsetX + 14, boxY + 6);
     doc.setFont("helvetica", "bold");
     doc.setTextColor(BRAND_COLORS.text[0], BRAND_COLORS.text[1], BRAND_COLORS.text[2]);
-    doc.text(payerName, offsetX + 14, boxY + 11);
+    doc.text(payer.substring(0, 55), offsetX + 14, boxY + 11);
     
+    let leftY = boxY + 16;
+    if (student) {
+        doc.setFont("helvetica", "normal");
+        doc.setTextColor(100, 100, 100);
+        doc.text("Aluno:", offsetX + 14, leftY);
+        doc.setTextColor(BRAND_COLORS.text[0], BRAND_COLORS.text[1], BRAND_COLORS.text[2]);
+        doc.text(`${student.name} (${student.enrollmentId})${className ? ` - ${className}` : ''}`.substring(0, 60), offsetX + 14, leftY + 4);
+        leftY += 10;
+    }
+
     doc.setFont("helvetica", "normal");
     doc.setTextColor(100, 100, 100);
-    doc.text("Referente a:", offsetX + 14, boxY + 16);
+    doc.text("Referente a:", offsetX + 14, leftY);
     doc.setTextColor(BRAND_COLORS.text[0], BRAND_COLORS.text[1], BRAND_COLORS.text[2]);
-    doc.text(refInfo.substring(0, 45) + (refInfo.length > 45 ? '...' : ''), offsetX + 14, boxY + 20);
+    doc.text(refInfo.substring(0, 60) + (refInfo.length > 60 ? '...' : ''), offsetX + 14, leftY + 4);
 
     // Right
     const rightAlignX = offsetX + halfWidth - 14;
@@ -335,21 +496,21 @@ export const generateDualReceiptPDF = (transaction: Transaction) => {
     doc.setTextColor(100, 100, 100);
     doc.text("Recibo Nº:", rightAlignX, boxY + 16, { align: 'right' });
     doc.setTextColor(BRAND_COLORS.text[0], BRAND_COLORS.text[1], BRAND_COLORS.text[2]);
-    doc.text(`#${transaction.id.toUpperCase().substring(0, 8)}`, rightAlignX, boxY + 20, { align: 'right' });
+    doc.text(receiptNumber, rightAlignX, boxY + 20, { align: 'right' });
 
     // 5. Transaction Table
     autoTable(doc, {
-        startY: boxY + 30,
+        startY: boxY + boxHeight + 6,
         head: [['Descrição', 'Método', 'Valor']],
         body: [[
             transaction.description,
-            transaction.method,
+            transaction.reference ? `${details.methodLabel}\nRef. ${transaction.reference}` : details.methodLabel,
             formatCurrency(transaction.amount)
         ]],
         theme: 'striped',
         styles: { fontSize: 9, cellPadding: 3 },
         headStyles: { 
-            fillColor: BRAND_COLORS.primary as any,
+            fillColor: brand.primary as any,
             textColor: [255, 255, 255],
             fontStyle: 'bold'
         },
@@ -376,23 +537,391 @@ export const generateDualReceiptPDF = (transaction: Transaction) => {
     // TOTAL (Size 10, Bold, Orange, Right Aligned)
     doc.setFontSize(10); 
     doc.setFont("helvetica", "bold");
-    doc.setTextColor(249, 115, 22); // Orange #F97316
+    doc.setTextColor(brand.secondary[0], brand.secondary[1], brand.secondary[2]);
     doc.text("TOTAL A PAGAR:", 95 + offsetX, footerY + 5, { align: 'right' });
     doc.text(formatCurrency(transaction.amount), 138 + offsetX, footerY + 5, { align: 'right' });
 
+    // Amount in words
+    doc.setFontSize(8);
+    doc.setFont("helvetica", "italic");
+    doc.setTextColor(BRAND_COLORS.text[0], BRAND_COLORS.text[1], BRAND_COLORS.text[2]);
+    const words = doc.splitTextToSize(`Por extenso: ${amountInWords(transaction.amount)}`, halfWidth - 20);
+    doc.text(words, offsetX + 10, footerY + 12);
+    const signatureY = footerY + 12 + words.length * 4 + 12;
+
     // Signature
     doc.setDrawColor(200, 200, 200);
-    doc.line(20 + offsetX, footerY + 20, 128 + offsetX, footerY + 20);
+    doc.line(20 + offsetX, signatureY, 128 + offsetX, signatureY);
     doc.setFontSize(7);
     doc.setTextColor(100, 100, 100);
     doc.setFont("helvetica", "normal");
-    doc.text("O Tesoureiro / A Secretaria", 74 + offsetX, footerY + 24, { align: 'center' });
+    doc.text("O Tesoureiro / A Secretaria", 74 + offsetX, signatureY + 4, { align: 'center' });
 
     // Footer Branding
     doc.setFontSize(6);
     doc.setTextColor(180, 180, 180);
-    doc.text("Documento processado por computador - Seiva da Nação", 74 + offsetX, 195, { align: "center" });
+    doc.text(profile.receiptFooter || `Documento processado por computador - ${profile.name}`, 74 + offsetX, 195, { align: "center", maxWidth: halfWidth - 20 });
+    if (receipt) {
+        // First characters of the register hash, to check a paper copy against the register
+        doc.text(`Código de controlo: ${receipt.hash.substring(0, 8).toUpperCase()}`, 74 + offsetX, 198, { align: "center" });
+    }
+
+    // Watermark across the copy
+    if (watermark) {
+        doc.saveGraphicsState();
+        doc.setGState(new (doc as any).GState({ opacity: 0.15 }));
+        doc.setFontSize(60);
+        doc.setFont("helvetica", "bold");
+        if (receipt?.status === 'void') doc.setTextColor(BRAND_COLORS.danger[0], BRAND_COLORS.danger[1], BRAND_COLORS.danger[2]);
+        else doc.setTextColor(BRAND_COLORS.gray[0], BRAND_COLORS.gray[1], BRAND_COLORS.gray[2]);
+        doc.text(watermark, offsetX + halfWidth / 2, pageHeight / 2 + 10, { align: 'center', angle: 30 });
+        doc.restoreGraphicsState();
+    }
+    if (receipt?.status === 'void' && receipt.voidReason) {
+        doc.setFontSize(8);
+        doc.setFont("helvetica", "bold");
+        doc.setTextColor(BRAND_COLORS.danger[0], BRAND_COLORS.danger[1], BRAND_COLORS.danger[2]);
+        doc.text(`Anulado: ${receipt.voidReason}`.substring(0, 70), 74 + offsetX, 188, { align: "center" });
+    }
+  });
+
+  doc.save(`recibo_${receiptNumber.replace(/[^\w-]/g, '_')}.pdf`);
+};
+
+// --- Boletim ---
+
+export interface ReportCard {
+  student: Student;
+  className: string;
+  year: string;
+  results: StudentResults; // Computed up to the trimester being reported, see getStudentResults
+  attendance?: AttendanceSummary; // Totals for the school year, see summarizeAttendance
+}
+
+const resultColor = (result: StudentResults['result'], brand: Branding): number[] =>
+  result === 'approved' ? brand.primary : result === 'failed' ? BRAND_COLORS.danger : BRAND_COLORS.gray;
+
+const drawReportCard = (doc: jsPDF, card: ReportCard, academic: AcademicSettings, term: Term, brand: Branding) => {
+  const pageWidth = doc.internal.pageSize.width;
+  const system = academic.gradingSystem;
+  const terms = getActiveTerms(academic).filter(t => t <= term);
+
+  addHeader(doc, `Boletim de Notas - ${TERM_LABELS[term]} ${card.year}`, brand);
+
+  // Student Box
+  const boxY = 56;
+  doc.setFillColor(BRAND_COLORS.lightGray[0], BRAND_COLORS.lightGray[1], BRAND_COLORS.lightGray[2]);
+  doc.roundedRect(14, boxY, pageWidth - 28, 18, 2, 2, 'F');
+  doc.setFontSize(8);
+  doc.setFont("helvetica", "normal");
+  doc.setTextColor(100, 100, 100);
+  doc.text("Aluno:", 18, boxY + 6);
+  doc.text("Turma:", 18, boxY + 13);
+  doc.text("Matrícula:", pageWidth - 60, boxY + 6);
+  doc.text("Ano Letivo:", pageWidth - 60, boxY + 13);
+  doc.setFont("helvetica", "bold");
+  doc.setTextColor(BRAND_COLORS.text[0], BRAND_COLORS.text[1], BRAND_COLORS.text[2]);
+  doc.text(card.student.name, 32, boxY + 6);
+  doc.text(card.className, 32, boxY + 13);
+  doc.text(card.student.enrollmentId, pageWidth - 18, boxY + 6, { align: 'right' });
+  doc.text(card.year, pageWidth - 18, boxY + 13, { align: 'right' });
+
+  // Marks Table
+  autoTable(doc, {
+    startY: boxY + 24,
+    head: [["Disciplina", ...terms.map(t => TERM_LABELS[t]), "Média", "Situação"]],
+    body: card.results.subjects.map(row => [
+      row.subject,
+      ...terms.map(t => formatMark(row.terms[t] ?? null, system)),
+      formatMark(row.average, system),
+      row.passed === null ? '—' : row.passed ? 'Aprovado' : 'Reprovado',
+    ]),
+    foot: [["Média Geral", ...terms.map(() => ''), formatMark(card.results.average, system), '']],
+    theme: 'striped',
+    headStyles: { fillColor: brand.primary as any, textColor: [255, 255, 255], fontStyle: 'bold' },
+    footStyles: { fillColor: BRAND_COLORS.lightGray as any, textColor: BRAND_COLORS.text as any, fontStyle: 'bold' },
+    styles: { fontSize: 9, cellPadding: 3, halign: 'center' },
+    columnStyles: { 0: { halign: 'left' } },
+    didParseCell: (data) => {
+      if (data.section === 'body' && data.column.index === terms.length + 2 && data.cell.raw === 'Reprovado') {
+        data.cell.styles.textColor = BRAND_COLORS.danger as any;
+      }
+    }
+  });
+
+  // Attendance
+  const attendanceY = (doc as any).lastAutoTable.finalY + 8;
+  const attendance = card.attendance;
+  autoTable(doc, {
+    startY: attendanceY,
+    head: [["Presenças", "Faltas", "Faltas Justificadas", "Atrasos"]],
+    body: [attendance
+      ? [attendance.present, attendance.absent, attendance.excused, attendance.late].map(String)
+      : ['—', '—', '—', '—']],
+    theme: 'grid',
+    headStyles: { fillColor: BRAND_COLORS.gray as any, textColor: [255, 255, 255] },
+    styles: { fontSize: 9, halign: 'center' },
+  });
+
+  // Result
+  const resultY = (doc as any).lastAutoTable.finalY + 12;
+  const color = resultColor(card.results.result, brand);
+  doc.setFontSize(11);
+  doc.setFont("helvetica", "bold");
+  doc.setTextColor(BRAND_COLORS.text[0], BRAND_COLORS.text[1], BRAND_COLORS.text[2]);
+  doc.text("Resultado:", 14, resultY);
+  doc.setTextColor(color[0], color[1], color[2]);
+  doc.text(RESULT_LABELS[card.results.result].toUpperCase(), 40, resultY);
+  doc.setFontSize(8);
+  doc.setFont("helvetica", "normal");
+  doc.setTextColor(100, 100, 100);
+  doc.text(`Média de aprovação: ${formatMark(academic.passingGrade, system)}`, 14, resultY + 5);
+
+  // Signatures
+  const signY = resultY + 30;
+  doc.setDrawColor(200, 200, 200);
+  doc.line(20, signY, 90, signY);
+  doc.line(pageWidth - 90, signY, pageWidth - 20, signY);
+  doc.setFontSize(7);
+  doc.text("O Director de Turma", 55, signY + 4, { align: 'center' });
+  doc.text("O Encarregado de Educação", pageWidth - 55, signY + 4, { align: 'center' });
+};
+
+/**
+ * Boletim of one student for the trimester `term`.
+ */
+export const generateReportCardPDF = (card: ReportCard, academic: AcademicSettings, term: Term, profile: SchoolProfile) => {
+  const doc = new jsPDF();
+  const brand = createBranding(profile);
+  drawReportCard(doc, card, academic, term, brand);
+  addFooter(doc, brand);
+  doc.save(`boletim_${card.student.name.toLowerCase().replace(/\s/g, '_')}_${term}trim_${card.year}.pdf`);
+};
+
+/**
+ * Boletins of a whole turma in a single file, one student per page.
+ */
+export const generateClassReportCardsPDF = (cards: ReportCard[], className: string, academic: AcademicSettings, term: Term, profile: SchoolProfile) => {
+  const doc = new jsPDF();
+  const brand = createBranding(profile);
+  cards.forEach((card, index) => {
+    if (index > 0) doc.addPage();
+    drawReportCard(doc, card, academic, term, brand);
+  });
+  addFooter(doc, brand);
+  doc.save(`boletins_${className.toLowerCase().replace(/\s/g, '_')}_${term}trim.pdf`);
+};
+
+// --- Extrato ---
+
+/**
+ * Statement of account (extrato) of a student, as built by buildStudentLedger.
+ */
+export const generateStatementPDF = (student: Student, className: string, ledger: StudentLedger, profile: SchoolProfile, finance?: StudentFinancialStatus) => {
+  const doc = new jsPDF();
+  const brand = createBranding(profile);
+  const pageWidth = doc.internal.pageSize.width;
+  addHeader(doc, "Extrato de Conta Corrente", brand);
+
+  // Student Box
+  const boxY = 56;
+  doc.setFillColor(BRAND_COLORS.lightGray[0], BRAND_COLORS.lightGray[1], BRAND_COLORS.lightGray[2]);
+  doc.roundedRect(14, boxY, pageWidth - 28, 18, 2, 2, 'F');
+  doc.setFontSize(8);
+  doc.setFont("helvetica", "normal");
+  doc.setTextColor(100, 100, 100);
+  doc.text("Aluno:", 18, boxY + 6);
+  doc.text("Turma:", 18, boxY + 13);
+  doc.text("Matrícula:", pageWidth - 60, boxY + 6);
+  doc.text("Encarregado:", pageWidth - 60, boxY + 13);
+  doc.setFont("helvetica", "bold");
+  doc.setTextColor(BRAND_COLORS.text[0], BRAND_COLORS.text[1], BRAND_COLORS.text[2]);
+  doc.text(student.name, 32, boxY + 6);
+  doc.text(className, 32, boxY + 13);
+  doc.text(student.enrollmentId, pageWidth - 18, boxY + 6, { align: 'right' });
+  const guardian = student.guardians.financialResponsible === 'Father' ? student.guardians.father
+    : student.guardians.financialResponsible === 'Mother' ? student.guardians.mother
+    : student.guardians.emergency;
+  doc.text(guardian.name, pageWidth - 18, boxY + 13, { align: 'right' });
+
+  // Movements
+  autoTable(doc, {
+    startY: boxY + 24,
+    head: [["Data", "Descrição", "Débito", "Crédito", "Saldo"]],
+    body: ledger.entries.map(e => [
+      new Date(e.date).toLocaleDateString('pt-PT'),
+      e.description,
+      e.debit ? formatCurrency(e.debit) : '',
+      e.credit ? formatCurrency(e.credit) : '',
+      formatCurrency(e.balance),
+    ]),
+    foot: [["", "Totais", formatCurrency(ledger.totalDebit), formatCurrency(ledger.totalCredit), formatCurrency(ledger.balance)]],
+    theme: 'striped',
+    headStyles: { fillColor: brand.primary as any, textColor: [255, 255, 255], fontStyle: 'bold' },
+    footStyles: { fillColor: BRAND_COLORS.lightGray as any, textColor: BRAND_COLORS.text as any, fontStyle: 'bold' },
+    styles: { fontSize: 8, cellPadding: 2.5 },
+    columnStyles: { 0: { cellWidth: 22 }, 2: { halign: 'right' }, 3: { halign: 'right' }, 4: { halign: 'right' } },
+  });
+
+  // Balance
+  const balanceY = (doc as any).lastAutoTable.finalY + 12;
+  const owed = ledger.balance > 0;
+  const color = owed ? BRAND_COLORS.danger : brand.primary;
+  doc.setFontSize(11);
+  doc.setFont("helvetica", "bold");
+  doc.setTextColor(BRAND_COLORS.text[0], BRAND_COLORS.text[1], BRAND_COLORS.text[2]);
+  doc.text(owed ? "Saldo em dívida:" : "Saldo a favor:", 14, balanceY);
+  doc.setTextColor(color[0], color[1], color[2]);
+  doc.text(formatCurrency(Math.abs(ledger.balance)), 50, balanceY);
+  if (finance && finance.daysOverdue > 0) {
+    doc.setFontSize(8);
+    doc.setFont("helvetica", "normal");
+    doc.setTextColor(100, 100, 100);
+    doc.text(`Mensalidade mais antiga em atraso há ${finance.daysOverdue} dias.`, 14, balanceY + 5);
+  }
+
+  addFooter(doc, brand);
+  doc.save(`extrato_${student.name.toLowerCase().replace(/\s/g, '_')}_${new Date().toISOString().split('T')[0]}.pdf`);
+};
+
+// --- Recibo de Vencimento ---
+
+export interface Payslip {
+  entry: PayrollEntry;
+  employee?: Employee; // Missing when the employee record was deleted after the run
+}
+
+const drawPayslip = (doc: jsPDF, slip: Payslip, brand: Branding) => {
+  const pageWidth = doc.internal.pageSize.width;
+  const pageHeight = doc.internal.pageSize.height;
+  const { entry, employee } = slip;
+
+  addHeader(doc, `Recibo de Vencimento - ${formatPayrollMonth(entry.monthReference)}`, brand);
+
+  // Employee Box
+  const boxY = 56;
+  doc.setFillColor(BRAND_COLORS.lightGray[0], BRAND_COLORS.lightGray[1], BRAND_COLORS.lightGray[2]);
+  doc.roundedRect(14, boxY, pageWidth - 28, 25, 2, 2, 'F');
+  doc.setFontSize(8);
+  doc.setFont("helvetica", "normal");
+  doc.setTextColor(100, 100, 100);
+  doc.text("Colaborador:", 18, boxY + 6);
+  doc.text("Cargo:", 18, boxY + 13);
+  doc.text("Departamento:", 18, boxY + 20);
+  doc.text("NUIT:", pageWidth - 75, boxY + 6);
+  doc.text("Nº BI:", pageWidth - 75, boxY + 13);
+  doc.text("Nº INSS:", pageWidth - 75, boxY + 20);
+  doc.setFont("helvetica", "bold");
+  doc.setTextColor(BRAND_COLORS.text[0], BRAND_COLORS.text[1], BRAND_COLORS.text[2]);
+  doc.text(entry.employeeName, 40, boxY + 6);
+  doc.text(entry.employeeRole, 40, boxY + 13);
+  doc.text(employee?.department ?? '—', 40, boxY + 20);
+  doc.text(employee?.personal.nuit || '—', pageWidth - 18, boxY + 6, { align: 'right' });
+  doc.text(employee?.personal.biNumber || '—', pageWidth - 18, boxY + 13, { align: 'right' });
+  doc.text(employee?.personal.inssNumber || '—', pageWidth - 18, boxY + 20, { align: 'right' });
+
+  // Earnings and Deductions
+  const dependants = employee?.personal.dependants ?? 0;
+  const gross = entry.baseSalary + entry.bonuses;
+  const totalDeductions = entry.inss + entry.irps + entry.deductions;
+  const rows: string[][] = [["Salário Base", formatCurrency(entry.baseSalary), '']];
+  if (entry.bonuses > 0) rows.push(["Bónus e Subsídios", formatCurrency(entry.bonuses), '']);
+  if (entry.inss > 0) rows.push(["INSS - Contribuição do Trabalhador", '', formatCurrency(entry.inss)]);
+  rows.push([`IRPS - Retenção na Fonte${dependants > 0 ? ` (${dependants} dependente${dependants > 1 ? 's' : ''})` : ''}`, '', formatCurrency(entry.irps)]);
+  if (entry.deductions > 0) rows.push([`Outros Descontos${entry.notes ? ` (${entry.notes})` : ''}`, '', formatCurrency(entry.deductions)]);
+
+  autoTable(doc, {
+    startY: boxY + 31,
+    head: [["Descrição", "Abonos", "Descontos"]],
+    body: rows,
+    foot: [["Totais", formatCurrency(gross), formatCurrency(totalDeductions)]],
+    theme: 'striped',
+    headStyles: { fillColor: brand.primary as any, textColor: [255, 255, 255], fontStyle: 'bold' },
+    footStyles: { fillColor: BRAND_COLORS.lightGray as any, textColor: BRAND_COLORS.text as any, fontStyle: 'bold' },
+    styles: { fontSize: 9, cellPadding: 3 },
+    columnStyles: { 1: { halign: 'right', cellWidth: 40 }, 2: { halign: 'right', cellWidth: 40 } },
   });
 
-  doc.save(`recibo_duplo_${transaction.id}.pdf`);
+  // Net Pay
+  const netY = (doc as any).lastAutoTable.finalY + 12;
+  doc.setFontSize(11);
+  doc.setFont("helvetica", "bold");
+  doc.setTextColor(BRAND_COLORS.text[0], BRAND_COLORS.text[1], BRAND_COLORS.text[2]);
+  doc.text("Líquido a receber:", 14, netY);
+  doc.setTextColor(brand.secondary[0], brand.secondary[1], brand.secondary[2]);
+  doc.text(formatCurrency(entry.netSalary), pageWidth - 14, netY, { align: 'right' });
+  doc.setFontSize(8);
+  doc.setFont("helvetica", "italic");
+  doc.setTextColor(100, 100, 100);
+  const words = doc.splitTextToSize(`Por extenso: ${amountInWords(entry.netSalary)}`, pageWidth - 28);
+  doc.text(words, 14, netY + 6);
+
+  // Bank Box
+  const bankY = netY + 6 + words.length * 4 + 4;
+  doc.setFillColor(BRAND_COLORS.lightGray[0], BRAND_COLORS.lightGray[1], BRAND_COLORS.lightGray[2]);
+  doc.roundedRect(14, bankY, pageWidth - 28, 18, 2, 2, 'F');
+  doc.setFont("helvetica", "normal");
+  doc.setTextColor(100, 100, 100);
+  doc.text("Banco:", 18, bankY + 6);
+  doc.text("Nº de Conta:", 18, bankY + 13);
+  doc.text("NIB:", pageWidth - 90, bankY + 6);
+  doc.text("Pagamento:", pageWidth - 90, bankY + 13);
+  doc.setFont("helvetica", "bold");
+  doc.setTextColor(BRAND_COLORS.text[0], BRAND_COLORS.text[1], BRAND_COLORS.text[2]);
+  doc.text(employee?.bank.bankName || '—', 40, bankY + 6);
+  doc.text(employee?.bank.accountNumber || '—', 40, bankY + 13);
+  doc.text(employee?.bank.nib || '—', pageWidth - 18, bankY + 6, { align: 'right' });
+  doc.text(
+    entry.status === 'paid' && entry.paymentDate
+      ? new Date(entry.paymentDate).toLocaleDateString('pt-PT')
+      : PAYROLL_STATUS_LABELS[entry.status],
+    pageWidth - 18, bankY + 13, { align: 'right' }
+  );
+
+  // Signatures
+  const signY = bankY + 45;
+  doc.setDrawColor(200, 200, 200);
+  doc.line(20, signY, 90, signY);
+  doc.line(pageWidth - 90, signY, pageWidth - 20, signY);
+  doc.setFontSize(7);
+  doc.setFont("helvetica", "normal");
+  doc.setTextColor(100, 100, 100);
+  doc.text("A Direção", 55, signY + 4, { align: 'center' });
+  doc.text("O Colaborador", pageWidth - 55, signY + 4, { align: 'center' });
+
+  // Amounts of a draft run can still change
+  if (entry.status === 'draft') {
+    doc.saveGraphicsState();
+    doc.setGState(new (doc as any).GState({ opacity: 0.15 }));
+    doc.setFontSize(60);
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(BRAND_COLORS.gray[0], BRAND_COLORS.gray[1], BRAND_COLORS.gray[2]);
+    doc.text("PROVISÓRIO", pageWidth / 2, pageHeight / 2, { align: 'center', angle: 30 });
+    doc.restoreGraphicsState();
+  }
+};
+
+/**
+ * Recibo de vencimento of one employee for a payroll month. Drafts are marked "PROVISÓRIO".
+ */
+export const generatePayslipPDF = (slip: Payslip, profile: SchoolProfile) => {
+  const doc = new jsPDF();
+  const brand = createBranding(profile);
+  drawPayslip(doc, slip, brand);
+  addFooter(doc, brand);
+  doc.save(`recibo_vencimento_${slip.entry.employeeName.toLowerCase().replace(/\s/g, '_')}_${slip.entry.monthReference}.pdf`);
+};
+
+/**
+ * Recibos de vencimento of a whole payroll run in a single file, one employee per page.
+ */
+export const generatePayrollPayslipsPDF = (slips: Payslip[], monthReference: string, profile: SchoolProfile) => {
+  const doc = new jsPDF();
+  const brand = createBranding(profile);
+  slips.forEach((slip, index) => {
+    if (index > 0) doc.addPage();
+    drawPayslip(doc, slip, brand);
+  });
+  addFooter(doc, brand);
+  doc.save(`recibos_vencimento_${monthReference}.pdf`);
 };
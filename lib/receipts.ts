@@ -0,0 +1,185 @@
+import { PaymentMethod, Receipt, Student, Transaction, TuitionCharge } from '../types';
+import { sha256 } from './utils';
+import { getPaymentMethodLabel } from './payments';
+import { formatMonthLabel } from './billing';
+import { formatClassName } from './classes';
+
+// --- Registo de Recibos ---
+// Receipts are numbered per fiscal year (the calendar year in Mozambique) without gaps: 2024/000001, 2024/000002...
+// Each one stores the hash of its content and of the receipt issued before it, so editing or deleting a receipt
+// anywhere in the register is caught by verifyReceiptChain. Where PCs share the register, the number is taken on
+// the server when the receipt is issued (see SchoolRepository.issueReceipt), never derived offline.
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+export const formatReceiptNumber = (fiscalYear: string, sequence: number) =>
+  `${fiscalYear}/${String(sequence).padStart(6, '0')}`;
+
+// Register order: by fiscal year, then by number
+const byNumber = (a: Receipt, b: Receipt) => a.fiscalYear.localeCompare(b.fiscalYear) || a.sequence - b.sequence;
+
+export const getLastReceipt = (receipts: Receipt[]) => [...receipts].sort(byNumber).pop() ?? null;
+
+/** Raised when no number can be taken for a receipt. The message is shown to the user as is. */
+export class ReceiptIssueError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReceiptIssueError';
+  }
+}
+
+// Everything printed on the receipt, plus the link to the previous one. Void details are left out: voiding
+// annotates a receipt, it does not change what was issued.
+const hashReceipt = (receipt: Omit<Receipt, 'hash' | 'status' | 'voidReason' | 'voidedAt'>) => sha256(JSON.stringify([
+  receipt.previousHash,
+  receipt.number,
+  receipt.transactionId,
+  receipt.issuedAt,
+  receipt.date,
+  receipt.amount.toFixed(2),
+  receipt.payerName,
+  receipt.description,
+  receipt.method,
+  receipt.studentId ?? '',
+]));
+
+/**
+ * The receipt `transaction` gets when issued at `issuedAt` right after `last`, the last receipt of the register:
+ * the next number of the fiscal year, chained to it. The id is the receipt's own; the number only becomes final
+ * once the repository has stored it (see SchoolRepository.issueReceipt).
+ */
+export async function buildReceipt(transaction: Transaction, last: Receipt | null, issuedAt = new Date()): Promise<Receipt> {
+  const fiscalYear = String(issuedAt.getFullYear());
+  const sequence = last?.fiscalYear === fiscalYear ? last.sequence + 1 : 1;
+  const number = formatReceiptNumber(fiscalYear, sequence);
+
+  const content = {
+    id: Math.random().toString(36).substr(2, 9),
+    number,
+    fiscalYear,
+    sequence,
+    transactionId: transaction.id,
+    issuedAt: issuedAt.toISOString(),
+    date: transaction.date,
+    amount: transaction.amount,
+    payerName: transaction.payerName ?? '',
+    description: transaction.description,
+    method: transaction.method,
+    ...(transaction.studentId && { studentId: transaction.studentId }),
+    previousHash: last?.hash ?? GENESIS_HASH,
+  };
+  return { ...content, hash: await hashReceipt(content), status: 'issued' };
+}
+
+// The receipt currently standing for a transaction (voided ones are kept in the register only)
+export const getActiveReceipt = (transactionId: string, receipts: Receipt[]) =>
+  receipts.find(r => r.transactionId === transactionId && r.status === 'issued');
+
+/**
+ * Whether `receipt` still states what `transaction` records. A correction of the amount, date, method or payer
+ * calls for the receipt to be voided and a new one issued.
+ */
+export const isReceiptCurrent = (receipt: Receipt, transaction: Transaction) =>
+  transaction.status !== 'cancelled'
+  && transaction.type === 'income'
+  && transaction.amount === receipt.amount
+  && transaction.date === receipt.date
+  && transaction.method === receipt.method
+  && (transaction.payerName ?? '') === receipt.payerName;
+
+export type ReceiptProblem = 'gap' | 'duplicate' | 'broken_chain' | 'altered' | 'transaction_changed';
+
+export const RECEIPT_PROBLEM_LABELS: Record<ReceiptProblem, string> = {
+  gap: 'Número em falta',
+  duplicate: 'Número repetido',
+  broken_chain: 'Recibo anterior alterado ou removido',
+  altered: 'Conteúdo do recibo alterado',
+  transaction_changed: 'Transação alterada depois de emitido o recibo',
+};
+
+export interface ReceiptIssue {
+  number: string;
+  problem: ReceiptProblem;
+}
+
+/**
+ * Checks the whole register: numbering without gaps or repeats per fiscal year, every hash against the
+ * receipt's content and the previous receipt, and every receipt still in force against its transaction.
+ * An empty list means the register is intact.
+ */
+export async function verifyReceiptChain(receipts: Receipt[], transactions: Transaction[]): Promise<ReceiptIssue[]> {
+  const issues: ReceiptIssue[] = [];
+  const ordered = [...receipts].sort(byNumber);
+  const transactionsById = new Map(transactions.map(t => [t.id, t] as [string, Transaction]));
+
+  let previous: Receipt | undefined;
+  for (const receipt of ordered) {
+    if (previous?.fiscalYear === receipt.fiscalYear && previous.sequence === receipt.sequence) {
+      issues.push({ number: receipt.number, problem: 'duplicate' });
+    } else {
+      const expected = previous?.fiscalYear === receipt.fiscalYear ? previous.sequence + 1 : 1;
+      for (let missing = expected; missing < receipt.sequence; missing++) {
+        issues.push({ number: formatReceiptNumber(receipt.fiscalYear, missing), problem: 'gap' });
+      }
+    }
+
+    if (receipt.previousHash !== (previous?.hash ?? GENESIS_HASH)) {
+      issues.push({ number: receipt.number, problem: 'broken_chain' });
+    }
+    if (await hashReceipt(receipt) !== receipt.hash || receipt.number !== formatReceiptNumber(receipt.fiscalYear, receipt.sequence)) {
+      issues.push({ number: receipt.number, problem: 'altered' });
+    }
+
+    const transaction = transactionsById.get(receipt.transactionId);
+    if (receipt.status === 'issued' && (!transaction || !isReceiptCurrent(receipt, transaction))) {
+      issues.push({ number: receipt.number, problem: 'transaction_changed' });
+    }
+    previous = receipt;
+  }
+  return issues;
+}
+
+// --- Dados Fiscais do Recibo ---
+
+/** What a receipt prints besides the transaction itself (see generateDualReceiptPDF). */
+export interface ReceiptDetails {
+  payerName: string;
+  payerNuit?: string;
+  methodLabel: string; // Name of the payment method as configured by the school
+  student?: Student;
+  className?: string;
+  period?: string; // Months paid, e.g. "Fevereiro, Março 2024"
+}
+
+/**
+ * Fiscal details of the receipt for `transaction`, taken from the student it is linked to. The payer is the name
+ * recorded on the transaction, or else the student's financial responsible. `methods` are the school's payment
+ * methods (settings.financial.paymentMethods).
+ */
+export function getReceiptDetails(transaction: Transaction, students: Student[], charges: TuitionCharge[], methods?: PaymentMethod[]): ReceiptDetails {
+  const methodLabel = getPaymentMethodLabel(transaction.method, methods);
+  const student = transaction.studentId ? students.find(s => s.id === transaction.studentId) : undefined;
+  if (!student) return { payerName: transaction.payerName || 'Enc. / Pagador', methodLabel };
+
+  const { father, mother, financialResponsible, financialNuit } = student.guardians;
+  const responsible = financialResponsible === 'Father' ? father.name : financialResponsible === 'Mother' ? mother.name : '';
+  const { classLetter, shift } = student.academic;
+
+  // Months grouped by year, in due date order
+  const paid = charges
+    .filter(c => transaction.chargeIds?.includes(c.id))
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+  const years = Array.from(new Set(paid.map(c => c.year)));
+  const period = years.length > 0
+    ? years.map(year => `${paid.filter(c => c.year === year).map(c => formatMonthLabel(c.month)).join(', ')} ${year}`).join('; ')
+    : transaction.paidMonths?.map(formatMonthLabel).join(', ');
+
+  return {
+    payerName: transaction.payerName || responsible || 'Enc. / Pagador',
+    ...(financialNuit && { payerNuit: financialNuit }),
+    methodLabel,
+    student,
+    className: classLetter && shift ? formatClassName({ grade: student.grade, letter: classLetter, shift }) : student.grade,
+    ...(period && { period }),
+  };
+}
@@ -0,0 +1,327 @@
+import { ChargeAllocation, PaymentMethodCode, StatementLine, StatementSource, Student, Transaction, TuitionCharge } from '../types';
+import { FinancialSettings, formatMonthLabel, getChargeBalance, getOpenCharges } from './billing';
+import { getPaymentFee, getPaymentMethod } from './payments';
+import { normalizePhone } from './discounts';
+import { SheetRows, readSpreadsheet } from './spreadsheet';
+
+// --- Reconciliação de Extratos (M-Pesa, e-Mola, Banco) ---
+
+export const STATEMENT_SOURCE_LABELS: Record<StatementSource, string> = {
+  mpesa: 'M-Pesa',
+  emola: 'e-Mola',
+  bank: 'Banco',
+};
+
+// Payment method recorded on the transactions created from each source
+export const STATEMENT_SOURCE_METHODS: Record<StatementSource, PaymentMethodCode> = {
+  mpesa: 'mpesa',
+  emola: 'emola',
+  bank: 'bank_transfer',
+};
+
+/** Raised when a statement file cannot be imported. The message is shown to the user as is. */
+export class StatementImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatementImportError';
+  }
+}
+
+// --- Parsing ---
+
+type StatementColumn = 'date' | 'debit' | 'credit' | 'reference' | 'phone' | 'description' | 'status';
+
+/**
+ * Header keywords of the M-Pesa ("Receipt No.", "Completion Time", "Paid In", "Other Party Info"...), e-Mola and
+ * bank exports, accents and case ignored. Columns are assigned in this order, so "Data Valor" is a date and
+ * "Valor Débito" a debit before any "valor" is taken as the credit.
+ */
+const COLUMN_KEYWORDS: [StatementColumn, string[]][] = [
+  ['date', ['completion time', 'data valor', 'data mov', 'data', 'date']],
+  ['debit', ['withdrawn', 'debito', 'debit', 'saida']],
+  ['credit', ['paid in', 'credito', 'credit', 'entrada', 'recebido', 'montante', 'valor', 'amount']],
+  ['reference', ['receipt', 'recibo', 'referencia', 'reference', 'id da transacao', 'transaction id', 'ref']],
+  ['phone', ['other party', 'contraparte', 'remetente', 'msisdn', 'telefone', 'numero', 'phone']],
+  ['description', ['details', 'detalhes', 'descritivo', 'descricao', 'description', 'narrativa', 'movimento']],
+  ['status', ['transaction status', 'status', 'estado']],
+];
+
+const normalizeText = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+function findColumns(header: string[]): Partial<Record<StatementColumn, number>> {
+  const cells = header.map(normalizeText);
+  const taken = new Set<number>();
+  const columns: Partial<Record<StatementColumn, number>> = {};
+  COLUMN_KEYWORDS.forEach(([column, keywords]) => {
+    for (const keyword of keywords) {
+      const index = cells.findIndex((cell, i) => !taken.has(i) && cell.includes(keyword));
+      if (index >= 0) {
+        columns[column] = index;
+        taken.add(index);
+        return;
+      }
+    }
+  });
+  return columns;
+}
+
+/**
+ * Date of a statement cell as yyyy-MM-dd: ISO, day-first (dd/MM/yyyy, dd-MM-yy, dd.MM.yyyy) with an optional
+ * time, or an Excel serial number. Null when it is not a date.
+ */
+export function parseStatementDate(value: string): string | null {
+  const text = value.trim();
+  if (/^\d{5}(\.\d+)?$/.test(text)) {
+    return new Date(Date.UTC(1899, 11, 30) + Math.floor(Number(text)) * 86_400_000).toISOString().slice(0, 10);
+  }
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const dayFirst = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/);
+  if (!dayFirst) return null;
+  const [day, month] = [Number(dayFirst[1]), Number(dayFirst[2])];
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const year = dayFirst[3].length === 2 ? `20${dayFirst[3]}` : dayFirst[3];
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Amount of a statement cell: "1.500,00 MT", "1,500.00", "1500" or "-250,5". A single separator followed by
+ * exactly three digits is read as a thousands separator. NaN when there is no number.
+ */
+export function parseStatementAmount(value: string): number {
+  let text = value.replace(/[^\d,.-]/g, '');
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  if (lastComma >= 0 && lastDot >= 0) {
+    const decimal = lastComma > lastDot ? ',' : '.';
+    text = text.split(decimal === ',' ? '.' : ',').join('').replace(decimal, '.');
+  } else if (lastComma >= 0 || lastDot >= 0) {
+    const separator = lastComma >= 0 ? ',' : '.';
+    const parts = text.split(separator);
+    const isThousands = parts.length > 2 || parts[parts.length - 1].length === 3;
+    text = isThousands ? parts.join('') : parts.join('.');
+  }
+  return text && text !== '-' ? Number(text) : NaN;
+}
+
+// Mozambican mobile number (82-87), with or without the 258 country code
+const PHONE_PATTERN = /(?:\+?258[\s-]?)?(8[2-7](?:[\s-]?\d){7})(?!\d)/;
+
+const extractPhone = (text: string) => {
+  const match = text.match(PHONE_PATTERN);
+  return match ? normalizePhone(match[1]) : undefined;
+};
+
+// Name next to the number in cells like "258841234567 - JOAO SILVA"
+const extractName = (text: string) => {
+  const name = text.replace(PHONE_PATTERN, '').replace(/^[\s\-:|,]+|[\s\-:|,]+$/g, '');
+  return /[a-z]/i.test(name) ? name : undefined;
+};
+
+// Stable id for lines without an operator reference (FNV-1a)
+const hashLine = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  return (hash >>> 0).toString(36);
+};
+
+export interface ParsedStatement {
+  lines: StatementLine[];
+  skipped: number; // Rows that looked like credits but had no valid date or amount
+}
+
+const FAILED_STATUS = /fail|falh|cancel|revers|anulad|rejeit/;
+
+/**
+ * Credit lines of a statement sheet. The header row is looked for in the first rows (exports often start with
+ * the account details); debits and failed operations are left out.
+ */
+export function parseStatement(rows: SheetRows, source: StatementSource, fileName: string, importedAt = new Date().toISOString()): ParsedStatement {
+  const headerIndex = rows.slice(0, 20).findIndex(row => {
+    const columns = findColumns(row);
+    return columns.date !== undefined && columns.credit !== undefined;
+  });
+  if (headerIndex < 0) {
+    throw new StatementImportError('Não foi possível identificar as colunas de data e valor no extrato.');
+  }
+  const columns = findColumns(rows[headerIndex]);
+  const cell = (row: string[], column: StatementColumn) => columns[column] !== undefined ? row[columns[column]!] ?? '' : '';
+
+  const lines = new Map<string, StatementLine>();
+  let skipped = 0;
+  rows.slice(headerIndex + 1).forEach(row => {
+    if (FAILED_STATUS.test(normalizeText(cell(row, 'status')))) return;
+    const credit = cell(row, 'credit');
+    if (!credit) return; // Debit, balance or total row
+
+    const amount = Math.round(parseStatementAmount(credit) * 100) / 100;
+    if (amount <= 0) return;
+    const date = parseStatementDate(cell(row, 'date'));
+    if (!date || isNaN(amount)) {
+      skipped++;
+      return;
+    }
+
+    const reference = cell(row, 'reference');
+    const description = cell(row, 'description');
+    const party = cell(row, 'phone');
+    const phone = extractPhone(party) ?? extractPhone(description);
+    const id = reference
+      ? `${source}-${reference.toLowerCase().replace(/[^a-z0-9]/g, '')}`
+      : `${source}-${hashLine([date, amount, phone, description].join('|'))}`;
+    lines.set(id, {
+      id,
+      source,
+      date,
+      amount,
+      reference,
+      ...(phone && { phone }),
+      ...(extractName(party) && { payerName: extractName(party) }),
+      description,
+      fileName,
+      importedAt,
+      status: 'pending',
+    });
+  });
+  return { lines: Array.from(lines.values()), skipped };
+}
+
+/**
+ * Reads and parses an uploaded .csv or .xlsx statement.
+ */
+export async function readStatementFile(file: File, source: StatementSource): Promise<ParsedStatement> {
+  let rows: SheetRows;
+  try {
+    rows = await readSpreadsheet(file);
+  } catch (error) {
+    throw new StatementImportError(error instanceof Error ? error.message : 'Não foi possível ler o ficheiro.');
+  }
+  return parseStatement(rows, source, file.name);
+}
+
+// --- Matching ---
+
+export type MatchMethod = 'reference' | 'phone' | 'amount';
+
+export const MATCH_METHOD_LABELS: Record<MatchMethod, string> = {
+  reference: 'Nº de matrícula na referência',
+  phone: 'Telefone do encarregado',
+  amount: 'Valor em dívida',
+};
+
+export interface StatementMatch {
+  student?: Student;
+  matchedBy?: MatchMethod;
+  candidates: Student[]; // Students it may belong to when the match is ambiguous
+}
+
+// "#2026-050", "2026/50" and "2026 050" all read "2026-50"
+const enrollmentKey = (text: string) => {
+  const match = text.match(/(\d{4})\D{0,2}0*(\d{1,4})(?!\d)/);
+  return match ? `${match[1]}-${match[2]}` : '';
+};
+
+const enrollmentKeys = (text: string) =>
+  Array.from(text.matchAll(/\d{4}\D{0,2}\d{1,4}(?!\d)/g), m => enrollmentKey(m[0]));
+
+const guardianPhones = (student: Student) => {
+  const { father, mother, emergency } = student.guardians;
+  return [father.phone, mother.phone, emergency.phone].map(phone => normalizePhone(phone || '')).filter(phone => phone.length === 9);
+};
+
+// Paying the oldest month, or the oldest months together, on the statement date
+const expectsAmount = (student: Student, amount: number, date: string, charges: TuitionCharge[], financial: FinancialSettings) => {
+  let total = 0;
+  return getOpenCharges(charges, student.id).some(charge => {
+    total += getChargeBalance(charge, financial, date);
+    return Math.abs(total - amount) < 0.5;
+  });
+};
+
+/**
+ * Student a statement line most likely pays for: the enrollment number written in the reference, else the
+ * sender's phone among the guardians' (siblings told apart by the amount due), else a unique student owing
+ * exactly that amount.
+ */
+export function matchStatementLine(
+  line: StatementLine,
+  students: Student[],
+  charges: TuitionCharge[],
+  financial: FinancialSettings
+): StatementMatch {
+  const enrolled = students.filter(s => s.status !== 'transferred');
+  const owes = (s: Student) => expectsAmount(s, line.amount, line.date, charges, financial);
+
+  const keys = new Set(enrollmentKeys(`${line.reference} ${line.description}`));
+  const byReference = enrolled.filter(s => keys.has(enrollmentKey(s.enrollmentId)));
+  if (byReference.length === 1) return { student: byReference[0], matchedBy: 'reference', candidates: byReference };
+
+  if (line.phone) {
+    const byPhone = enrolled.filter(s => guardianPhones(s).includes(line.phone!));
+    const narrowed = byPhone.length > 1 ? byPhone.filter(owes) : byPhone;
+    if (narrowed.length === 1) return { student: narrowed[0], matchedBy: 'phone', candidates: byPhone };
+    if (byPhone.length > 0) return { candidates: byPhone };
+  }
+
+  const byAmount = enrolled.filter(owes);
+  if (byAmount.length === 1) return { student: byAmount[0], matchedBy: 'amount', candidates: byAmount };
+  return { candidates: byAmount.length <= 5 ? byAmount : [] };
+}
+
+/**
+ * Splits a payment over a student's unpaid charges, oldest first, with the balances due on `date`.
+ */
+export function allocatePayment(charges: TuitionCharge[], studentId: string, amount: number, financial: FinancialSettings, date: string): ChargeAllocation[] {
+  let remaining = amount;
+  return getOpenCharges(charges, studentId).flatMap(charge => {
+    const allocated = Math.min(remaining, getChargeBalance(charge, financial, date));
+    if (allocated <= 0) return [];
+    remaining = Math.round((remaining - allocated) * 100) / 100;
+    return [{ chargeId: charge.id, amount: allocated }];
+  });
+}
+
+const financialGuardianName = (student: Student) => {
+  const { father, mother, emergency, financialResponsible } = student.guardians;
+  return financialResponsible === 'Father' ? father.name : financialResponsible === 'Mother' ? mother.name : emergency.name;
+};
+
+/**
+ * Tuition payment proposed for a statement line, paying the student's oldest months first.
+ * Whatever exceeds the amount due is left as credit on the student's account.
+ */
+export function buildStatementTransaction(
+  line: StatementLine,
+  student: Student,
+  charges: TuitionCharge[],
+  financial: FinancialSettings
+): Transaction {
+  const allocations = allocatePayment(charges, student.id, line.amount, financial, line.date);
+  const months = allocations.map(a => {
+    const charge = charges.find(c => c.id === a.chargeId)!;
+    const label = charge.year === line.date.slice(0, 4) ? formatMonthLabel(charge.month) : `${formatMonthLabel(charge.month)} ${charge.year}`;
+    return { charge, label, settled: a.amount + 0.005 >= getChargeBalance(charge, financial, line.date) };
+  });
+  const reference = line.reference ? ` (${STATEMENT_SOURCE_LABELS[line.source]} ${line.reference})` : '';
+  const method = getPaymentMethod(STATEMENT_SOURCE_METHODS[line.source], financial.paymentMethods);
+
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    date: line.date,
+    description: months.length > 0
+      ? `Mensalidade: ${months.map(m => m.settled ? m.label : `${m.label} (parcial)`).join(', ')} - Aluno: ${student.name}${reference}`
+      : `Mensalidade Ref. ao aluno: ${student.name}${reference}`,
+    amount: line.amount,
+    type: 'income',
+    category: 'Mensalidade',
+    method: method.code,
+    ...(line.reference && { reference: line.reference }),
+    fee: getPaymentFee(method, line.amount),
+    status: 'completed',
+    payerName: line.payerName || financialGuardianName(student),
+    studentId: student.id,
+    paidMonths: Array.from(new Set(months.filter(m => m.settled).map(m => m.charge.month))),
+    chargeIds: allocations.map(a => a.chargeId),
+    allocations,
+  };
+}
@@ -0,0 +1,266 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ZodTypeAny } from 'zod';
+import { Student, Transaction, CalendarEvent, Employee, SchoolClass, Mark, AttendanceRecord, TuitionCharge, DiscountRule, PaymentPlan, StatementLine, Receipt, PayrollEntry } from '../types';
+import { studentSchema, transactionSchema, calendarEventSchema, employeeSchema, classSchema, markSchema, attendanceSchema, chargeSchema, discountSchema, planSchema, statementLineSchema, receiptSchema, payrollEntrySchema } from './schemas';
+import { formatIssues, readCollection, writeStore } from './storage';
+import { toPaymentMethodCode } from './payments';
+import { ReceiptIssueError, getLastReceipt } from './receipts';
+
+// --- Collections ---
+
+/**
+ * Every persisted collection and the entity it holds.
+ * Adding a collection here (plus its entry in COLLECTIONS) is all a backend needs.
+ */
+export interface SchoolCollections {
+  students: Student;
+  transactions: Transaction;
+  events: CalendarEvent;
+  employees: Employee;
+  classes: SchoolClass;
+  marks: Mark;
+  attendance: AttendanceRecord;
+  charges: TuitionCharge;
+  discounts: DiscountRule;
+  plans: PaymentPlan;
+  statementLines: StatementLine;
+  receipts: Receipt;
+  payroll: PayrollEntry;
+}
+
+export type CollectionName = keyof SchoolCollections;
+export type SchoolRecord = SchoolCollections[CollectionName];
+
+export type SchoolSnapshot = { [K in CollectionName]: SchoolCollections[K][] };
+
+interface CollectionConfig {
+  storageKey: string; // localStorage key
+  table: string;      // Supabase table
+  orderBy: string;    // Supabase column used to sort results
+  ascending: boolean;
+  schema: ZodTypeAny; // Validates records loaded from localStorage (see lib/storage.ts)
+  hydrate?: (raw: any) => any; // Rebuilds non-JSON types (e.g. Date) after loading
+}
+
+export const COLLECTIONS: Record<CollectionName, CollectionConfig> = {
+  students: { storageKey: 'seiva_students', table: 'students', orderBy: 'created_at', ascending: false, schema: studentSchema },
+  transactions: {
+    storageKey: 'seiva_transactions',
+    table: 'transactions',
+    orderBy: 'created_at',
+    ascending: false,
+    schema: transactionSchema,
+    // Rows written by older releases hold method labels (see lib/payments.ts)
+    hydrate: (t: any) => ({ ...t, method: toPaymentMethodCode(t.method) })
+  },
+  events: {
+    storageKey: 'seiva_events',
+    table: 'events',
+    orderBy: 'start',
+    ascending: true,
+    schema: calendarEventSchema,
+    hydrate: (e: any) => ({ ...e, start: new Date(e.start), end: new Date(e.end) })
+  },
+  employees: { storageKey: 'seiva_employees', table: 'employees', orderBy: 'created_at', ascending: false, schema: employeeSchema },
+  classes: { storageKey: 'seiva_classes', table: 'classes', orderBy: 'id', ascending: true, schema: classSchema },
+  marks: { storageKey: 'seiva_marks', table: 'marks', orderBy: 'id', ascending: true, schema: markSchema },
+  attendance: { storageKey: 'seiva_attendance', table: 'attendance', orderBy: 'date', ascending: false, schema: attendanceSchema },
+  charges: { storageKey: 'seiva_charges', table: 'charges', orderBy: 'due_date', ascending: true, schema: chargeSchema },
+  discounts: { storageKey: 'seiva_discounts', table: 'discounts', orderBy: 'valid_from', ascending: true, schema: discountSchema },
+  plans: { storageKey: 'seiva_plans', table: 'payment_plans', orderBy: 'agreed_at', ascending: false, schema: planSchema },
+  statementLines: { storageKey: 'seiva_statement_lines', table: 'statement_lines', orderBy: 'date', ascending: false, schema: statementLineSchema },
+  receipts: { storageKey: 'seiva_receipts', table: 'receipts', orderBy: 'issued_at', ascending: false, schema: receiptSchema },
+  payroll: { storageKey: 'seiva_payroll', table: 'payroll', orderBy: 'month_reference', ascending: false, schema: payrollEntrySchema },
+};
+
+export const COLLECTION_NAMES = Object.keys(COLLECTIONS) as CollectionName[];
+
+// --- Repository Contract ---
+
+/** Raised when a record does not match the schema of its collection. Nothing is saved; the message is shown to the user as is. */
+export class InvalidRecordError extends Error {
+  constructor(readonly collection: CollectionName, readonly issues: string[]) {
+    super(`O registo não foi guardado porque tem dados inválidos: ${issues.join('; ')}`);
+    this.name = 'InvalidRecordError';
+  }
+}
+
+/**
+ * Storage backend used by SchoolDataProvider.
+ * Implementations must be safe to call concurrently for different collections.
+ */
+export interface SchoolRepository {
+  readonly kind: 'local' | 'supabase' | 'synced';
+  list<K extends CollectionName>(collection: K): Promise<SchoolCollections[K][]>;
+  get<K extends CollectionName>(collection: K, id: string): Promise<SchoolCollections[K] | null>;
+  upsert<K extends CollectionName>(collection: K, record: SchoolCollections[K]): Promise<void>;
+  remove(collection: CollectionName, id: string): Promise<void>;
+  /**
+   * Stores a new receipt under the next free number of the register. `build` is given the last receipt issued and
+   * returns the one that follows it. Where PCs share the register the number is taken on the server, and `build`
+   * runs again if another PC took it first.
+   */
+  issueReceipt(build: (last: Receipt | null) => Promise<Receipt>): Promise<Receipt>;
+}
+
+/**
+ * Loads every collection in parallel.
+ */
+export async function loadSnapshot(repository: SchoolRepository): Promise<SchoolSnapshot> {
+  const entries = await Promise.all(
+    COLLECTION_NAMES.map(async name => [name, await repository.list(name)] as const)
+  );
+  return Object.fromEntries(entries) as SchoolSnapshot;
+}
+
+// --- LocalStorage Implementation ---
+
+export interface LocalSchoolRepository extends SchoolRepository {
+  replaceAll<K extends CollectionName>(collection: K, records: SchoolCollections[K][]): Promise<void>;
+}
+
+// Validated records of each collection as last read or written, so reading or saving one record does not
+// parse, migrate and validate the whole collection again. A write from another tab drops that collection.
+const localCache = new Map<CollectionName, unknown[]>();
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    if (event.key === null) localCache.clear();
+    COLLECTION_NAMES.filter(name => COLLECTIONS[name].storageKey === event.key).forEach(name => localCache.delete(name));
+  });
+}
+
+/**
+ * Keeps each collection as a versioned JSON array under its `seiva_*` key.
+ * Data never leaves the browser, so each PC sees its own copy.
+ * Records that fail validation on load are quarantined rather than crashing the app.
+ */
+export function createLocalStorageRepository(): LocalSchoolRepository {
+  const read = <K extends CollectionName>(collection: K): SchoolCollections[K][] => {
+    let records = localCache.get(collection) as SchoolCollections[K][] | undefined;
+    if (!records) {
+      const { storageKey, schema, hydrate } = COLLECTIONS[collection];
+      const loaded = readCollection<SchoolCollections[K]>(storageKey, schema);
+      records = hydrate ? loaded.map(hydrate) : loaded;
+      localCache.set(collection, records);
+    }
+    return [...records];
+  };
+
+  // `validated`: every record is known to match the schema, so the list can be served from the cache.
+  // An unvalidated list (a restore) is read back through readCollection, which quarantines what does not match.
+  const write = <K extends CollectionName>(collection: K, records: SchoolCollections[K][], validated: boolean) => {
+    writeStore(COLLECTIONS[collection].storageKey, records);
+    if (validated) localCache.set(collection, records);
+    else localCache.delete(collection);
+  };
+
+  const repository: LocalSchoolRepository = {
+    kind: 'local',
+    async list(collection) {
+      return read(collection);
+    },
+    async get(collection, id) {
+      return read(collection).find(r => r.id === id) ?? null;
+    },
+    async upsert(collection, record) {
+      // Only the new record needs checking, and it is refused before anything is written
+      const parsed = COLLECTIONS[collection].schema.safeParse(record);
+      if (!parsed.success) throw new InvalidRecordError(collection, formatIssues(parsed.error));
+      const records = read(collection);
+      const index = records.findIndex(r => r.id === record.id);
+      if (index >= 0) {
+        records[index] = record;
+      } else {
+        records.unshift(record);
+      }
+      write(collection, records, true);
+    },
+    async remove(collection, id) {
+      write(collection, read(collection).filter(r => r.id !== id), true);
+    },
+    async replaceAll(collection, records) {
+      write(collection, records, false);
+    },
+    // This PC's copy is the whole register
+    async issueReceipt(build) {
+      const receipt = await build(getLastReceipt(read('receipts')));
+      await repository.upsert('receipts', receipt);
+      return receipt;
+    },
+  };
+  return repository;
+}
+
+// --- Supabase Implementation ---
+
+const toSnakeCase = (key: string) => key.replace(/[A-Z]/g, c => `_${c.toLowerCase()}`);
+const toCamelCase = (key: string) => key.replace(/_([a-z])/g, (_, c) => c.toUpperCase());
+
+/**
+ * Maps top-level entity fields to table columns (camelCase -> snake_case).
+ * Nested objects (personal, guardians, ...) are stored as jsonb as they are.
+ */
+const toRow = (record: Record<string, any>) =>
+  Object.fromEntries(Object.entries(record).map(([key, value]) => [toSnakeCase(key), value]));
+
+const fromRow = (row: Record<string, any>) =>
+  Object.fromEntries(
+    Object.entries(row)
+      // Bookkeeping columns are not part of the entity; NULL maps back to an absent optional field
+      .filter(([key, value]) => key !== 'created_at' && value !== null)
+      .map(([key, value]) => [toCamelCase(key), value])
+  );
+
+const toEntity = <K extends CollectionName>(collection: K, row: Record<string, any>): SchoolCollections[K] => {
+  const { hydrate } = COLLECTIONS[collection];
+  const entity = fromRow(row);
+  return (hydrate ? hydrate(entity) : entity) as SchoolCollections[K];
+};
+
+// How many times a receipt is numbered again when other PCs keep taking the number first
+const RECEIPT_ISSUE_ATTEMPTS = 5;
+
+/**
+ * Shares data between every PC through the tables defined in supabase_setup.sql.
+ */
+export function createSupabaseRepository(client: SupabaseClient): SchoolRepository {
+  return {
+    kind: 'supabase',
+    async list(collection) {
+      const { table, orderBy, ascending } = COLLECTIONS[collection];
+      const { data, error } = await client.from(table).select('*').order(orderBy, { ascending });
+      if (error) throw error;
+      return (data || []).map(row => toEntity(collection, row));
+    },
+    async get(collection, id) {
+      const { data, error } = await client.from(COLLECTIONS[collection].table).select('*').eq('id', id).maybeSingle();
+      if (error) throw error;
+      return data ? toEntity(collection, data) : null;
+    },
+    async upsert(collection, record) {
+      const { error } = await client.from(COLLECTIONS[collection].table).upsert(toRow(record));
+      if (error) throw error;
+    },
+    async remove(collection, id) {
+      const { error } = await client.from(COLLECTIONS[collection].table).delete().eq('id', id);
+      if (error) throw error;
+    },
+    // The insert takes the number: unique (fiscal_year, sequence) lets only one PC have it
+    async issueReceipt(build) {
+      for (let attempt = 0; attempt < RECEIPT_ISSUE_ATTEMPTS; attempt++) {
+        const { data, error } = await client.from('receipts').select('*')
+          .order('fiscal_year', { ascending: false })
+          .order('sequence', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        if (error) throw error;
+        const receipt = await build(data ? toEntity('receipts', data) : null);
+        const { error: insertError } = await client.from('receipts').insert(toRow(receipt));
+        if (!insertError) return receipt;
+        if (insertError.code !== '23505') throw insertError; // Anything but unique_violation
+      }
+      throw new ReceiptIssueError('Recibo não emitido: outros computadores estão a emitir recibos ao mesmo tempo. Tente novamente.');
+    },
+  };
+}
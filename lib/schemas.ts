@@ -0,0 +1,343 @@
+import * as z from 'zod';
+import { AVAILABLE_GRADES, CLASS_LETTERS } from './constants';
+import { PAYMENT_METHOD_CODE_PATTERN } from './payments';
+
+// --- Persisted Entity Schemas ---
+// Mirror the interfaces in types.ts and validate data read back from storage.
+// Unknown fields pass through untouched so data written by newer releases is not stripped.
+
+const versioned = {
+  version: z.number().int().optional(),
+  updatedAt: z.string().optional(),
+};
+
+const parentSchema = z.object({
+  name: z.string(),
+  phone: z.string(),
+  email: z.string(),
+  profession: z.string(),
+  biNumber: z.string().optional(),
+});
+
+const studentStatus = z.enum(['active', 'suspended', 'transferred']);
+
+// A code of the school's payment method registry (see lib/payments.ts)
+const paymentMethodCode = z.string().regex(PAYMENT_METHOD_CODE_PATTERN);
+
+export const studentSchema = z.object({
+  ...versioned,
+  id: z.string().min(1),
+  name: z.string().min(1),
+  email: z.string(),
+  avatar: z.string(),
+  enrollmentId: z.string(),
+  grade: z.enum(AVAILABLE_GRADES),
+  balance: z.number(),
+  financialStatus: z.enum(['paid', 'late', 'pending']),
+  paidMonths: z.array(z.string()),
+  status: studentStatus,
+  statusHistory: z.array(z.object({
+    from: studentStatus,
+    to: studentStatus,
+    reason: z.string(),
+    date: z.string(),
+    changedAt: z.string(),
+  })).optional(),
+  personal: z.object({
+    dob: z.string(),
+    gender: z.enum(['M', 'F']),
+    nationality: z.string(),
+    biNumber: z.string(),
+    address: z.string(),
+    city: z.string(),
+  }).passthrough(),
+  academic: z.object({
+    enrollmentDate: z.string(),
+    prevSchool: z.string(),
+    submittedDocs: z.array(z.string()),
+    year: z.string().optional(),
+    classLetter: z.enum(CLASS_LETTERS).optional(),
+    shift: z.enum(['manha', 'tarde']).optional(),
+  }).passthrough(),
+  guardians: z.object({
+    father: parentSchema,
+    mother: parentSchema,
+    emergency: z.object({ name: z.string(), relation: z.string(), phone: z.string() }),
+    financialResponsible: z.enum(['Father', 'Mother', 'Other']),
+    financialEmail: z.string().optional(),
+    financialNuit: z.string().optional(),
+  }).passthrough(),
+  health: z.object({
+    bloodType: z.string(),
+    allergies: z.string(),
+    conditions: z.string(),
+    notes: z.string(),
+  }).passthrough(),
+}).passthrough();
+
+export const transactionSchema = z.object({
+  ...versioned,
+  id: z.string().min(1),
+  date: z.string().min(1),
+  amount: z.number().nonnegative(),
+  type: z.enum(['income', 'expense']),
+  category: z.string(),
+  description: z.string(),
+  method: paymentMethodCode,
+  reference: z.string().optional(),
+  fee: z.number().nonnegative().optional(),
+  status: z.enum(['completed', 'pending', 'cancelled']),
+  attachment: z.string().optional(),
+  payerName: z.string().optional(),
+  studentId: z.string().optional(),
+  paidMonths: z.array(z.string()).optional(),
+  chargeIds: z.array(z.string()).optional(),
+  allocations: z.array(z.object({ chargeId: z.string(), amount: z.number().nonnegative() })).optional(),
+  cancellationReason: z.string().optional(),
+  cancelledAt: z.string().optional(),
+  receiptNumber: z.string().optional(),
+}).passthrough();
+
+export const receiptSchema = z.object({
+  ...versioned,
+  id: z.string().min(1),
+  number: z.string().regex(/^\d{4}\/\d{6,}$/),
+  fiscalYear: z.string().regex(/^\d{4}$/),
+  sequence: z.number().int().positive(),
+  transactionId: z.string().min(1),
+  issuedAt: z.string(),
+  date: z.string().min(1),
+  amount: z.number().nonnegative(),
+  payerName: z.string(),
+  description: z.string(),
+  method: paymentMethodCode,
+  studentId: z.string().optional(),
+  previousHash: z.string(),
+  hash: z.string().min(1),
+  status: z.enum(['issued', 'void']),
+  voidReason: z.string().optional(),
+  voidedAt: z.string().optional(),
+}).passthrough();
+
+export const chargeSchema = z.object({
+  ...versioned,
+  id: z.string().min(1),
+  studentId: z.string().min(1),
+  year: z.string().min(4),
+  month: z.string().min(1),
+  amount: z.number().nonnegative(),
+  dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  status: z.enum(['open', 'partial', 'paid']),
+  paidAmount: z.number().nonnegative().optional(),
+  transactionId: z.string().optional(),
+  paidAt: z.string().optional(),
+  lateFee: z.number().nonnegative().optional(),
+  discount: z.number().nonnegative().optional(),
+  planId: z.string().optional(),
+}).passthrough();
+
+export const planSchema = z.object({
+  ...versioned,
+  id: z.string().min(1),
+  studentId: z.string().min(1),
+  chargeIds: z.array(z.string()),
+  total: z.number().nonnegative(),
+  paidBefore: z.number().nonnegative(),
+  instalments: z.array(z.object({
+    dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    amount: z.number().nonnegative(),
+  })).min(1),
+  status: z.enum(['active', 'cancelled']),
+  agreedAt: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  notes: z.string().optional(),
+}).passthrough();
+
+export const statementLineSchema = z.object({
+  ...versioned,
+  id: z.string().min(1),
+  source: z.enum(['mpesa', 'emola', 'bank']),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  amount: z.number().positive(),
+  reference: z.string(),
+  phone: z.string().optional(),
+  payerName: z.string().optional(),
+  description: z.string(),
+  fileName: z.string(),
+  importedAt: z.string(),
+  status: z.enum(['pending', 'reconciled', 'ignored']),
+  transactionId: z.string().optional(),
+}).passthrough();
+
+export const discountSchema = z.object({
+  ...versioned,
+  id: z.string().min(1),
+  kind: z.enum(['percentage', 'fixed', 'exemption', 'sibling']),
+  studentId: z.string().optional(),
+  value: z.number().nonnegative(),
+  description: z.string(),
+  validFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  validTo: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+}).passthrough();
+
+export const employeeSchema = z.object({
+  ...versioned,
+  id: z.string().min(1),
+  name: z.string().min(1),
+  role: z.string(),
+  department: z.enum(['Docentes', 'Administrativo', 'Serviços Gerais', 'Segurança', 'Direção']),
+  salary: z.object({ base: z.number().nonnegative(), currency: z.string() }),
+  email: z.string(),
+  phone: z.string(),
+  avatar: z.string(),
+  contractType: z.enum(['Tempo Integral', 'Tempo Parcial', 'Prestador de Serviço']),
+  admissionDate: z.string(),
+  status: z.enum(['active', 'vacation', 'sick_leave', 'terminated']),
+  personal: z.object({
+    biNumber: z.string(),
+    nuit: z.string(),
+    dob: z.string(),
+    dependants: z.number().int().nonnegative().optional(),
+    inssNumber: z.string().optional(),
+  }).passthrough(),
+  bank: z.object({ bankName: z.string(), accountNumber: z.string(), nib: z.string() }).passthrough(),
+}).passthrough();
+
+export const payrollEntrySchema = z.object({
+  ...versioned,
+  id: z.string().min(1),
+  employeeId: z.string().min(1),
+  employeeName: z.string(),
+  employeeRole: z.string(),
+  monthReference: z.string().regex(/^\d{4}-\d{2}$/),
+  baseSalary: z.number().nonnegative(),
+  bonuses: z.number().nonnegative(),
+  deductions: z.number().nonnegative(),
+  inss: z.number().nonnegative(),
+  inssEmployer: z.number().nonnegative(),
+  irps: z.number().nonnegative(),
+  netSalary: z.number(),
+  notes: z.string().optional(),
+  status: z.enum(['draft', 'processing', 'paid']),
+  paymentDate: z.string().optional(),
+  transactionId: z.string().optional(),
+}).passthrough();
+
+export const classSchema = z.object({
+  ...versioned,
+  id: z.string().min(1),
+  year: z.string().min(4),
+  grade: z.enum(AVAILABLE_GRADES),
+  letter: z.enum(CLASS_LETTERS),
+  shift: z.enum(['manha', 'tarde']),
+  capacity: z.number().int().positive(),
+  room: z.string().optional(),
+  teacherId: z.string().optional(),
+}).passthrough();
+
+export const markSchema = z.object({
+  ...versioned,
+  id: z.string().min(1),
+  studentId: z.string().min(1),
+  year: z.string().min(4),
+  term: z.enum(['1', '2', '3']),
+  subject: z.string().min(1),
+  value: z.number().nonnegative(),
+  system: z.enum(['0-20', '0-100', 'A-F']),
+}).passthrough();
+
+export const attendanceSchema = z.object({
+  ...versioned,
+  id: z.string().min(1),
+  classId: z.string().min(1),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  entries: z.record(z.string(), z.enum(['present', 'absent', 'late', 'excused'])),
+}).passthrough();
+
+export const calendarEventSchema = z.object({
+  ...versioned,
+  id: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string().optional(),
+  // Stored as ISO strings, hydrated back to Date
+  start: z.coerce.date(),
+  end: z.coerce.date(),
+  category: z.enum(['academic', 'holiday', 'administrative', 'event']),
+  location: z.string().optional(),
+}).passthrough();
+
+export const settingsSchema = z.object({
+  profile: z.object({
+    name: z.string(),
+    slogan: z.string(),
+    nuit: z.string(),
+    address: z.string(),
+    email: z.string(),
+    phone: z.string(),
+    logo: z.string(),
+    primaryColor: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+    accentColor: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+    receiptFooter: z.string(),
+  }).passthrough(),
+  academic: z.object({
+    currentYear: z.string(),
+    gradingSystem: z.enum(['0-20', '0-100', 'A-F']),
+    passingGrade: z.number(),
+    activeTerms: z.array(z.enum(['1', '2', '3'])),
+    attendanceAlerts: z.object({
+      absences: z.number().int().positive(),
+      lates: z.number().int().positive(),
+      windowDays: z.number().int().positive(),
+    }),
+  }).passthrough(),
+  financial: z.object({
+    currency: z.string(),
+    dueDay: z.string(),
+    lateFee: z.number(),
+    tuitionCycle1: z.number(),
+    tuitionCycle2: z.number(),
+    graceDays: z.number().int().nonnegative(),
+    vacationMonths: z.array(z.string()),
+    paymentMethods: z.array(z.object({
+      code: paymentMethodCode,
+      label: z.string().min(1),
+      active: z.boolean(),
+      requiresReference: z.boolean(),
+      feePercent: z.number().nonnegative(),
+      feeFixed: z.number().nonnegative(),
+    })).refine(methods => new Set(methods.map(m => m.code)).size === methods.length, 'Código de forma de pagamento repetido'),
+    bankInfo: z.string(),
+  }).passthrough(),
+  payroll: z.object({
+    inssEmployeeRate: z.number().nonnegative(),
+    inssEmployerRate: z.number().nonnegative(),
+    irpsBrackets: z.array(z.object({
+      from: z.number().nonnegative(),
+      rate: z.number().nonnegative(),
+      fixed: z.array(z.number().nonnegative()).min(1),
+    })),
+    irpsAfterInss: z.boolean(),
+    serviceProviderRate: z.number().nonnegative(),
+    transferFile: z.object({
+      format: z.enum(['csv', 'fixed']),
+      separator: z.string(),
+      header: z.boolean(),
+      amountInCents: z.boolean(),
+      reference: z.string(),
+      columns: z.array(z.object({
+        field: z.enum(['nib', 'name', 'amount', 'reference']),
+        width: z.number().int().positive(),
+      })),
+    }).passthrough(),
+  }).passthrough(),
+  system: z.object({
+    maintenanceMode: z.boolean(),
+    emailAlerts: z.boolean(),
+    smsIntegration: z.boolean(),
+  }).passthrough(),
+  user: z.object({
+    name: z.string(),
+    role: z.string(),
+    email: z.string(),
+    avatar: z.string(),
+  }).passthrough(),
+}).passthrough();
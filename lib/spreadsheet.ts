@@ -0,0 +1,119 @@
+// --- Leitura de Folhas de Cálculo (CSV / XLSX) ---
+
+export type SheetRows = string[][];
+
+/**
+ * Parses CSV text exported by banks and operators. The delimiter (`;`, `,` or tab) is taken from the first line;
+ * quoted fields may contain delimiters, doubled quotes and line breaks.
+ */
+export function parseCSV(text: string): SheetRows {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  const delimiter = [';', '\t', ','].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+
+  const rows: SheetRows = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field); field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      rows.push(row); row = [];
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) rows.push([...row, field]);
+  return rows.map(r => r.map(cell => cell.trim())).filter(r => r.some(cell => cell !== ''));
+}
+
+// An .xlsx file is a zip archive of XML parts; only stored and deflated entries are used by spreadsheet tools
+async function readZipEntries(buffer: ArrayBuffer): Promise<Map<string, string>> {
+  const view = new DataView(buffer);
+  let end = buffer.byteLength - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) throw new Error('Ficheiro XLSX inválido.');
+
+  const entries = new Map<string, string>();
+  const decoder = new TextDecoder();
+  let offset = view.getUint32(end + 16, true);
+  for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const headerOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+    offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+    if (!name.endsWith('.xml')) continue;
+
+    const dataStart = headerOffset + 30 + view.getUint16(headerOffset + 26, true) + view.getUint16(headerOffset + 28, true);
+    const data = new Uint8Array(buffer, dataStart, compressedSize);
+    if (method === 0) {
+      entries.set(name, decoder.decode(data));
+    } else if (method === 8) {
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      entries.set(name, await new Response(stream).text());
+    }
+  }
+  return entries;
+}
+
+const decodeXml = (text: string) => text
+  .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'")
+  .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+  .replace(/&amp;/g, '&');
+
+const textRuns = (xml: string) => Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([^<]*)<\/t>/g), m => decodeXml(m[1])).join('');
+
+// "AB12" -> 27 (zero-based column index)
+const columnIndex = (ref: string) =>
+  ref.replace(/\d+$/, '').split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+/**
+ * Reads the first worksheet of an .xlsx workbook. Numbers are kept as written in the file, so dates formatted
+ * as dates come out as Excel serial numbers (see parseStatementDate in lib/reconciliation.ts).
+ */
+export async function parseXLSX(buffer: ArrayBuffer): Promise<SheetRows> {
+  const entries = await readZipEntries(buffer);
+  const sheetName = Array.from(entries.keys()).filter(name => /^xl\/worksheets\/sheet\d+\.xml$/.test(name))
+    .sort((a, b) => Number(a.match(/\d+/)![0]) - Number(b.match(/\d+/)![0]))[0];
+  if (!sheetName) throw new Error('O ficheiro XLSX não tem folhas.');
+
+  const sharedStrings = Array.from((entries.get('xl/sharedStrings.xml') || '').matchAll(/<si>([\s\S]*?)<\/si>/g), m => textRuns(m[1]));
+  const rows: SheetRows = [];
+  for (const rowMatch of entries.get(sheetName)!.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const row: string[] = [];
+    for (const cell of (rowMatch[1] || '').matchAll(/<c\s([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const ref = cell[1].match(/r="([A-Z]+\d+)"/)?.[1];
+      const type = cell[1].match(/t="(\w+)"/)?.[1];
+      const body = cell[2] || '';
+      const value = body.match(/<v>([^<]*)<\/v>/)?.[1] ?? '';
+      const text = type === 's' ? sharedStrings[Number(value)] ?? ''
+        : type === 'inlineStr' ? textRuns(body)
+        : decodeXml(value);
+      row[ref ? columnIndex(ref) : row.length] = text.trim();
+    }
+    if (row.some(cell => cell)) rows.push(Array.from(row, cell => cell ?? ''));
+  }
+  return rows;
+}
+
+/**
+ * Rows of an uploaded .csv or .xlsx file.
+ */
+export async function readSpreadsheet(file: File): Promise<SheetRows> {
+  if (/\.xlsx$/i.test(file.name)) return parseXLSX(await file.arrayBuffer());
+  if (/\.(csv|txt)$/i.test(file.name)) return parseCSV(await file.text());
+  throw new Error('Formato não suportado. Use um ficheiro CSV ou XLSX.');
+}
@@ -0,0 +1,289 @@
+import * as z from 'zod';
+import { DEFAULT_PAYMENT_METHODS, toPaymentMethodCode } from './payments';
+import { DEFAULT_IRPS_BRACKETS } from './taxes';
+import { DEFAULT_TRANSFER_TEMPLATE } from './bank-transfer';
+
+// --- Versioned Storage Envelope ---
+// Every `seiva_*` key holds { schemaVersion, savedAt, data }. Data saved by releases
+// before the envelope existed (a bare JSON value) is read as schemaVersion 0.
+
+export interface StorageEnvelope<T> {
+  schemaVersion: number;
+  savedAt: string;
+  data: T;
+}
+
+export interface Migration {
+  description: string;
+  migrate: (data: unknown) => unknown;
+}
+
+export interface QuarantinedRecord {
+  id: string;
+  storageKey: string;
+  record: unknown;
+  errors: string[];
+  quarantinedAt: string;
+}
+
+export const SETTINGS_KEY = 'seiva_app_settings';
+const QUARANTINE_KEY = 'seiva_quarantine';
+
+type StoredRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is StoredRecord =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// A nested section of a stored record, or an empty one when it is missing or malformed
+const section = (value: unknown): StoredRecord => isRecord(value) ? value : {};
+
+// Upgrades every record of a stored collection. Anything that is not a list of objects is passed on untouched
+// and quarantined by the validation that follows.
+const upgradeRecords = (upgrade: (record: StoredRecord) => StoredRecord) => (data: unknown) =>
+  Array.isArray(data) ? data.map(item => isRecord(item) ? upgrade(item) : item) : data;
+
+// Upgrades a stored document (the settings), if there is one
+const upgradeDocument = (upgrade: (data: StoredRecord) => StoredRecord) => (data: unknown) =>
+  isRecord(data) ? upgrade(data) : data;
+
+/**
+ * Ordered migrations per storage key. Entry `i` upgrades data from schemaVersion `i` to `i + 1`,
+ * so the current version of a key is the length of its list. Append only; never reorder.
+ */
+export const MIGRATIONS: Record<string, Migration[]> = {
+  seiva_students: [
+    {
+      description: 'Fill sections missing from records created by early releases',
+      migrate: upgradeRecords(s => ({
+        ...s,
+        balance: s.balance ?? 0,
+        paidMonths: s.paidMonths ?? [],
+        status: s.status ?? 'active',
+        financialStatus: s.financialStatus ?? 'pending',
+        academic: { prevSchool: '', submittedDocs: [], ...section(s.academic) },
+        health: { bloodType: '', allergies: '', conditions: '', notes: '', ...section(s.health) },
+      })),
+    },
+  ],
+  seiva_transactions: [
+    {
+      description: 'Default status of records saved before it was tracked',
+      migrate: upgradeRecords(t => ({ ...t, status: t.status ?? 'completed' })),
+    },
+    {
+      description: 'Store payment method codes instead of labels',
+      migrate: upgradeRecords(t => typeof t.method === 'string' ? { ...t, method: toPaymentMethodCode(t.method) } : t),
+    },
+  ],
+  seiva_events: [],
+  seiva_employees: [],
+  seiva_classes: [],
+  seiva_marks: [],
+  seiva_attendance: [],
+  seiva_charges: [],
+  seiva_discounts: [],
+  seiva_plans: [],
+  seiva_statement_lines: [],
+  seiva_receipts: [],
+  seiva_payroll: [
+    {
+      description: 'Add the INSS and IRPS deductions',
+      migrate: upgradeRecords(e => ({ inss: 0, inssEmployer: 0, irps: 0, ...e })),
+    },
+  ],
+  [SETTINGS_KEY]: [
+    {
+      description: 'Add the attendance alert thresholds',
+      migrate: upgradeDocument(settings => ({
+        ...settings,
+        academic: { attendanceAlerts: { absences: 3, lates: 3, windowDays: 30 }, ...section(settings.academic) },
+      })),
+    },
+    {
+      description: 'Add the grace period and vacation months of tuition',
+      migrate: upgradeDocument(settings => ({
+        ...settings,
+        financial: { graceDays: 0, vacationMonths: ['janeiro'], ...section(settings.financial) },
+      })),
+    },
+    {
+      description: 'Add the payment method registry',
+      migrate: upgradeDocument(settings => ({
+        ...settings,
+        financial: { paymentMethods: DEFAULT_PAYMENT_METHODS, ...section(settings.financial) },
+      })),
+    },
+    {
+      description: 'Add the document colours and receipt footer',
+      migrate: upgradeDocument(settings => ({
+        ...settings,
+        profile: { primaryColor: '#047857', accentColor: '#F97316', receiptFooter: 'Documento processado por computador', ...section(settings.profile) },
+      })),
+    },
+    {
+      description: 'Add the INSS rates and IRPS withholding table of payroll',
+      migrate: upgradeDocument(settings => ({
+        ...settings,
+        payroll: {
+          inssEmployeeRate: 3,
+          inssEmployerRate: 4,
+          irpsBrackets: DEFAULT_IRPS_BRACKETS,
+          irpsAfterInss: true,
+          serviceProviderRate: 20,
+          ...section(settings.payroll),
+        },
+      })),
+    },
+    {
+      description: 'Add the template of the bank salary transfer file',
+      migrate: upgradeDocument(settings => ({
+        ...settings,
+        payroll: { transferFile: DEFAULT_TRANSFER_TEMPLATE, ...section(settings.payroll) },
+      })),
+    },
+  ],
+};
+
+export const getSchemaVersion = (key: string) => MIGRATIONS[key]?.length ?? 0;
+
+const isEnvelope = (value: unknown): value is StorageEnvelope<unknown> =>
+  isRecord(value) && typeof value.schemaVersion === 'number' && 'data' in value;
+
+/**
+ * Runs the pending migrations of `key` on `data`, starting at `fromVersion`.
+ */
+export function migrate(key: string, data: unknown, fromVersion: number): unknown {
+  const migrations = MIGRATIONS[key] || [];
+  if (fromVersion > migrations.length) {
+    console.warn(`${key} was saved by a newer release (schema v${fromVersion}); loading without migration`);
+  }
+  return migrations.slice(fromVersion).reduce((current, step) => step.migrate(current), data);
+}
+
+/**
+ * Reads `key`, unwraps the envelope and migrates it to the current schema version.
+ * Returns `null` when the key is empty or cannot be parsed.
+ */
+function readMigrated(key: string): { data: unknown; migrated: boolean } | null {
+  const stored = localStorage.getItem(key);
+  if (!stored) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stored);
+  } catch (error) {
+    console.error(`Failed to parse ${key}`, error);
+    quarantine(key, [stored], ['JSON inválido']);
+    localStorage.removeItem(key);
+    return null;
+  }
+
+  const fromVersion = isEnvelope(parsed) ? parsed.schemaVersion : 0;
+  const data = isEnvelope(parsed) ? parsed.data : parsed;
+  return { data: migrate(key, data, fromVersion), migrated: fromVersion < getSchemaVersion(key) };
+}
+
+export function writeStore<T>(key: string, data: T) {
+  const envelope: StorageEnvelope<T> = {
+    schemaVersion: getSchemaVersion(key),
+    savedAt: new Date().toISOString(),
+    data,
+  };
+  localStorage.setItem(key, JSON.stringify(envelope));
+}
+
+export const formatIssues = (error: z.ZodError) =>
+  error.issues.map(issue => `${issue.path.join('.') || '(raiz)'}: ${issue.message}`);
+
+/**
+ * Loads an array stored under `key`, validating each record against `schema`.
+ * Invalid records are moved to the quarantine instead of breaking the whole collection.
+ */
+export function readCollection<T>(key: string, schema: z.ZodTypeAny): T[] {
+  const result = readMigrated(key);
+  if (!result) return [];
+
+  if (!Array.isArray(result.data)) {
+    quarantine(key, [result.data], ['Esperada uma lista de registos']);
+    localStorage.removeItem(key);
+    return [];
+  }
+
+  const valid: T[] = [];
+  let hasInvalid = false;
+  result.data.forEach(record => {
+    const parsed = schema.safeParse(record);
+    if (parsed.success) {
+      valid.push(parsed.data as T);
+    } else {
+      hasInvalid = true;
+      quarantine(key, [record], formatIssues(parsed.error));
+    }
+  });
+
+  // Persist the migrated, cleaned data so the work is not repeated on every load
+  if (result.migrated || hasInvalid) writeStore(key, valid);
+  return valid;
+}
+
+/**
+ * Loads a single object stored under `key`. Returns `null` (and quarantines the stored value)
+ * when it does not match `schema`, so the caller can fall back to its defaults.
+ */
+export function readDocument<T>(key: string, schema: z.ZodTypeAny, prepare: (data: any) => any = d => d): T | null {
+  const result = readMigrated(key);
+  if (!result) return null;
+
+  const parsed = schema.safeParse(prepare(result.data));
+  if (!parsed.success) {
+    quarantine(key, [result.data], formatIssues(parsed.error));
+    localStorage.removeItem(key);
+    return null;
+  }
+  if (result.migrated) writeStore(key, parsed.data);
+  return parsed.data as T;
+}
+
+/**
+ * Recursively fills gaps in `stored` with `defaults`, so sections added by later releases survive.
+ */
+export function mergeWithDefaults<T>(defaults: T, stored: any): T {
+  if (stored === undefined || stored === null) return defaults;
+  const isPlainObject = (v: unknown): v is Record<string, any> =>
+    v !== null && typeof v === 'object' && !Array.isArray(v);
+  if (!isPlainObject(defaults) || !isPlainObject(stored)) return stored as T;
+
+  const merged: Record<string, any> = { ...stored };
+  Object.entries(defaults).forEach(([key, value]) => {
+    merged[key] = mergeWithDefaults(value, stored[key]);
+  });
+  return merged as T;
+}
+
+// --- Quarantine ---
+
+export function getQuarantine(): QuarantinedRecord[] {
+  try {
+    const stored = localStorage.getItem(QUARANTINE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+function quarantine(storageKey: string, records: unknown[], errors: string[]) {
+  const current = getQuarantine();
+  const now = new Date().toISOString();
+  records.forEach(record => {
+    // The same bad record may be pulled again by the sync; keep a single copy
+    const serialized = JSON.stringify(record);
+    if (current.some(q => q.storageKey === storageKey && JSON.stringify(q.record) === serialized)) return;
+    console.warn(`Quarantined invalid record from ${storageKey}`, errors);
+    current.push({ id: Math.random().toString(36).substr(2, 9), storageKey, record, errors, quarantinedAt: now });
+  });
+  localStorage.setItem(QUARANTINE_KEY, JSON.stringify(current));
+}
+
+export function clearQuarantine() {
+  localStorage.removeItem(QUARANTINE_KEY);
+}
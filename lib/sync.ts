@@ -0,0 +1,363 @@
+import { Versioned } from '../types';
+import {
+  SchoolRepository,
+  LocalSchoolRepository,
+  CollectionName,
+  COLLECTION_NAMES,
+  SchoolCollections,
+  SchoolRecord,
+} from './repository';
+import { ReceiptIssueError } from './receipts';
+
+// --- Types ---
+
+// An upsert carries the record to write; a delete only its id
+type ChangeOp<K extends CollectionName> =
+  | { op: 'upsert'; record: SchoolCollections[K] }
+  | { op: 'delete'; record?: undefined };
+
+interface ChangeTarget<K extends CollectionName> {
+  collection: K;
+  recordId: string;
+  baseVersion: number; // Remote version the edit started from (0 = new record)
+}
+
+/**
+ * A local change waiting to be replayed against the remote store.
+ * Several edits of the same record are coalesced into one change.
+ */
+export type PendingChange<K extends CollectionName = CollectionName> = ChangeTarget<K> & ChangeOp<K> & {
+  id: string;
+  queuedAt: string;
+  lastError?: string; // Why the last push was rejected; the change is retried on every sync
+};
+
+/**
+ * Raised when the remote record moved on since the local edit started.
+ * `null` on either side means the record was deleted there.
+ */
+export interface SyncConflict<K extends CollectionName = CollectionName> {
+  id: string;
+  collection: K;
+  recordId: string;
+  local: SchoolCollections[K] | null;
+  remote: SchoolCollections[K] | null;
+  detectedAt: string;
+}
+
+export type SyncState = 'synced' | 'pending' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  pendingCount: number;
+  conflicts: SyncConflict[];
+  lastSyncedAt: string | null;
+  lastError?: string;
+}
+
+export interface SyncedRepository extends SchoolRepository {
+  readonly kind: 'synced';
+  /** Pushes pending changes, then pulls the remote state into the local cache. */
+  sync(): Promise<SyncStatus>;
+  getStatus(): SyncStatus;
+  resolveConflict(conflictId: string, keep: 'local' | 'remote'): Promise<SyncStatus>;
+}
+
+const SYNC_KEYS = {
+  QUEUE: 'seiva_sync_queue',
+  CONFLICTS: 'seiva_sync_conflicts',
+  LAST_SYNC: 'seiva_sync_last',
+};
+
+// --- Helpers ---
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+const readJSON = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch (error) {
+    console.error(`Failed to read ${key}`, error);
+    return fallback;
+  }
+};
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+// Supabase reports errors as plain objects with a message, not always as Error instances
+const errorMessage = (error: unknown) =>
+  error !== null && typeof error === 'object' && 'message' in error ? String(error.message) : String(error);
+
+/**
+ * Marks a record as changed locally. Call before every save.
+ */
+export function stampVersion<T extends Versioned>(record: T): T {
+  return { ...record, version: (record.version ?? 0) + 1, updatedAt: new Date().toISOString() };
+}
+
+/**
+ * Top-level fields that differ between two versions of a record (sync metadata excluded).
+ */
+export function getChangedFields(local: object | null, remote: object | null): string[] {
+  if (!local || !remote) return [];
+  const localFields = new Map(Object.entries(local));
+  const remoteFields = new Map(Object.entries(remote));
+  const keys = new Set([...localFields.keys(), ...remoteFields.keys()]);
+  return Array.from(keys).filter(key =>
+    key !== 'version' && key !== 'updatedAt' && JSON.stringify(localFields.get(key)) !== JSON.stringify(remoteFields.get(key))
+  );
+}
+
+export function isSyncedRepository(repository: SchoolRepository): repository is SyncedRepository {
+  return repository.kind === 'synced';
+}
+
+// --- Offline-first Repository ---
+
+/**
+ * Reads and writes go to `local` immediately; every write is also queued and
+ * replayed against `remote` by `sync()` when the connection is available.
+ */
+export function createSyncedRepository(local: LocalSchoolRepository, remote: SchoolRepository): SyncedRepository {
+  let state: SyncState = 'pending';
+  let lastError: string | undefined;
+  let running: Promise<SyncStatus> | null = null;
+
+  const readQueue = () => readJSON<PendingChange[]>(SYNC_KEYS.QUEUE, []);
+  const writeQueue = (queue: PendingChange[]) => localStorage.setItem(SYNC_KEYS.QUEUE, JSON.stringify(queue));
+  const readConflicts = () => readJSON<SyncConflict[]>(SYNC_KEYS.CONFLICTS, []);
+  const writeConflicts = (conflicts: SyncConflict[]) => localStorage.setItem(SYNC_KEYS.CONFLICTS, JSON.stringify(conflicts));
+
+  const getStatus = (): SyncStatus => {
+    const pendingCount = readQueue().length;
+    const current = state === 'synced' && pendingCount > 0 ? 'pending' : state;
+    return {
+      state: !isOnline() && current !== 'syncing' ? 'offline' : current,
+      pendingCount,
+      conflicts: readConflicts(),
+      lastSyncedAt: localStorage.getItem(SYNC_KEYS.LAST_SYNC),
+      lastError,
+    };
+  };
+
+  const enqueue = (change: ChangeTarget<CollectionName> & ChangeOp<CollectionName>) => {
+    // A record already in conflict keeps its latest local copy on the conflict itself
+    const conflicts = readConflicts();
+    const conflict = conflicts.find(c => c.collection === change.collection && c.recordId === change.recordId);
+    if (conflict) {
+      conflict.local = change.op === 'delete' ? null : change.record;
+      writeConflicts(conflicts);
+      return;
+    }
+
+    const queue = readQueue();
+    const existing = queue.find(c => c.collection === change.collection && c.recordId === change.recordId);
+    if (!existing) {
+      queue.push({ ...change, id: newId(), queuedAt: new Date().toISOString() });
+    } else if (change.op === 'delete' && existing.baseVersion === 0) {
+      // Created and deleted while offline: the server never needs to know
+      queue.splice(queue.indexOf(existing), 1);
+    } else {
+      // Keep the original base version so intermediate edits are not mistaken for conflicts.
+      // The change moves to the end: the edit may now point at records queued after it.
+      queue.splice(queue.indexOf(existing), 1);
+      queue.push(change.op === 'delete'
+        ? { ...existing, op: 'delete', record: undefined }
+        : { ...existing, op: 'upsert', record: change.record });
+    }
+    writeQueue(queue);
+    if (state === 'synced') state = 'pending';
+  };
+
+  /** Queues local records created before versioning existed (never pushed). */
+  const adoptUnversionedRecords = async () => {
+    for (const collection of COLLECTION_NAMES) {
+      const records = await local.list(collection);
+      for (const record of records.filter(r => r.version === undefined)) {
+        const stamped = stampVersion(record);
+        await local.upsert(collection, stamped);
+        enqueue({ collection, recordId: stamped.id, op: 'upsert', record: stamped, baseVersion: 0 });
+      }
+    }
+  };
+
+  /**
+   * Replays the queue in order. A change the server rejects (e.g. a record pointing at one not pushed yet) is
+   * parked at the end with its error and retried once another change goes through, so one bad row cannot
+   * block the rest. Returns the changes still rejected.
+   */
+  const pushQueue = async (): Promise<PendingChange[]> => {
+    const rejected = new Set<string>();
+    for (;;) {
+      const change = readQueue().find(c => !rejected.has(c.id));
+      if (!change) break;
+      let pushed = false;
+      try {
+        const remoteRecord = await remote.get(change.collection, change.recordId);
+        const remoteVersion = remoteRecord?.version ?? 0;
+        const deletedRemotely = !remoteRecord && change.baseVersion > 0;
+
+        if (remoteVersion > change.baseVersion || (deletedRemotely && change.op === 'upsert')) {
+          const current = readQueue().find(c => c.id === change.id) ?? change;
+          writeConflicts([...readConflicts(), {
+            id: newId(),
+            collection: change.collection,
+            recordId: change.recordId,
+            local: current.op === 'delete' ? null : current.record,
+            remote: remoteRecord,
+            detectedAt: new Date().toISOString(),
+          }]);
+        } else if (change.op === 'upsert') {
+          await remote.upsert(change.collection, change.record);
+          pushed = true;
+        } else if (remoteRecord) {
+          await remote.remove(change.collection, change.recordId);
+        }
+      } catch (error) {
+        if (!isOnline()) throw error;
+        console.error(`Failed to push ${change.collection}/${change.recordId}`, error);
+        rejected.add(change.id);
+        const queue = readQueue();
+        const failed = queue.find(c => c.id === change.id);
+        if (failed) {
+          failed.lastError = errorMessage(error);
+          writeQueue([...queue.filter(c => c.id !== failed.id), failed]);
+        }
+        continue;
+      }
+
+      // Persist progress after every change so a dropped connection resumes where it stopped.
+      // An edit coalesced into this change while it was in flight stays queued on top of the pushed version.
+      let queue = readQueue();
+      const latest = queue.find(c => c.id === change.id);
+      if (pushed && latest && JSON.stringify(latest.record) !== JSON.stringify(change.record)) {
+        latest.baseVersion = change.record?.version ?? latest.baseVersion;
+        delete latest.lastError;
+        queue = [...queue.filter(c => c.id !== change.id), latest];
+      } else {
+        queue = queue.filter(c => c.id !== change.id);
+      }
+      writeQueue(queue);
+      // What this change created may be what the parked ones were waiting for
+      rejected.clear();
+    }
+    return readQueue().filter(c => rejected.has(c.id));
+  };
+
+  /** Replaces the local copy of `collection` with the remote one, keeping records that still have local work. */
+  const pullCollection = async <K extends CollectionName>(collection: K, pinned: Set<string>) => {
+    const [remoteRecords, localRecords] = await Promise.all([remote.list(collection), local.list(collection)]);
+    const localById = new Map(localRecords.map(r => [r.id, r] as [string, SchoolCollections[K]]));
+    const isPinned = (id: string) => pinned.has(`${collection}:${id}`);
+
+    const merged: SchoolCollections[K][] = [
+      // Unpushed local creations first, matching the newest-first order of the lists
+      ...localRecords.filter(r => isPinned(r.id) && !remoteRecords.some(rr => rr.id === r.id)),
+      ...remoteRecords
+        .map(r => (isPinned(r.id) ? localById.get(r.id) : r))
+        .filter((r): r is SchoolCollections[K] => r !== undefined),
+    ];
+    await local.replaceAll(collection, merged);
+  };
+
+  /** Replaces the local cache with the remote state, keeping records that still have local work. */
+  const pullRemote = async () => {
+    const pinned = new Set([...readQueue(), ...readConflicts()].map(c => `${c.collection}:${c.recordId}`));
+    for (const collection of COLLECTION_NAMES) {
+      await pullCollection(collection, pinned);
+    }
+  };
+
+  const runSync = async (): Promise<SyncStatus> => {
+    if (!isOnline()) {
+      state = 'offline';
+      return getStatus();
+    }
+
+    state = 'syncing';
+    try {
+      await adoptUnversionedRecords();
+      const rejected = await pushQueue();
+      await pullRemote();
+      localStorage.setItem(SYNC_KEYS.LAST_SYNC, new Date().toISOString());
+      if (rejected.length > 0) {
+        lastError = `${rejected.length} alteração(ões) recusada(s) pelo servidor: ${rejected[0].lastError}`;
+        state = 'error';
+      } else {
+        lastError = undefined;
+        state = 'synced';
+      }
+    } catch (error) {
+      console.error('Sync failed', error);
+      lastError = errorMessage(error);
+      state = isOnline() ? 'error' : 'offline';
+    }
+    return getStatus();
+  };
+
+  // A sync requested while one is running joins it
+  const sync = () => {
+    running ??= runSync().finally(() => { running = null; });
+    return running;
+  };
+
+  // Receipt numbers are taken on the server, so a receipt cannot be issued offline. The transaction it refers to
+  // is pushed first: a sync already running may have missed it, so a new one is started after it.
+  const issueReceipt: SyncedRepository['issueReceipt'] = async (build) => {
+    if (!isOnline()) {
+      throw new ReceiptIssueError('Recibo não emitido: o número do recibo é atribuído pelo servidor e não há ligação. Emita-o quando a ligação voltar.');
+    }
+    await running;
+    await sync();
+    const receipt = await remote.issueReceipt(build);
+    await local.upsert('receipts', receipt);
+    return receipt;
+  };
+
+  const resolveConflict = async (conflictId: string, keep: 'local' | 'remote'): Promise<SyncStatus> => {
+    const conflict = readConflicts().find(c => c.id === conflictId);
+    if (!conflict) return getStatus();
+    const { collection, recordId } = conflict;
+
+    if (keep === 'remote') {
+      if (conflict.remote) {
+        await local.upsert(collection, conflict.remote);
+      } else {
+        await local.remove(collection, recordId);
+      }
+    } else {
+      // The local copy wins: re-read the server so its version is not overwritten blindly
+      const current = await remote.get(collection, recordId);
+      if (conflict.local) {
+        const record = { ...conflict.local, version: (current?.version ?? 0) + 1, updatedAt: new Date().toISOString() };
+        await remote.upsert(collection, record);
+        await local.upsert(collection, record);
+      } else if (current) {
+        await remote.remove(collection, recordId);
+      }
+    }
+
+    writeConflicts(readConflicts().filter(c => c.id !== conflictId));
+    return getStatus();
+  };
+
+  return {
+    kind: 'synced',
+    list: (collection) => local.list(collection),
+    get: (collection, id) => local.get(collection, id),
+    async upsert(collection, record) {
+      await local.upsert(collection, record);
+      enqueue({ collection, recordId: record.id, op: 'upsert', record, baseVersion: (record.version ?? 1) - 1 });
+    },
+    async remove(collection, id) {
+      const existing = await local.get(collection, id);
+      await local.remove(collection, id);
+      enqueue({ collection, recordId: id, op: 'delete', baseVersion: existing?.version ?? 0 });
+    },
+    issueReceipt,
+    sync,
+    getStatus,
+    resolveConflict,
+  };
+}
@@ -0,0 +1,182 @@
+import { Employee, IrpsBracket, PayrollEntry, SchoolSettings } from '../types';
+import { DEFAULT_TRANSFER_TEMPLATE } from './bank-transfer';
+
+// --- INSS e IRPS ---
+// Statutory deductions on salaries. Rates and the IRPS withholding table are school settings
+// (Configurações → Salários), so a change in the law does not need a new release.
+
+export type PayrollSettings = SchoolSettings['payroll'];
+
+/**
+ * Monthly IRPS withholding table for employment income (1ª categoria), by number of dependants (0 to 4+).
+ * Each fixed amount is the tax due at the bracket's lower limit, so the withholding grows without jumps.
+ */
+export const DEFAULT_IRPS_BRACKETS: IrpsBracket[] = [
+  { from: 20250, rate: 10, fixed: [0, 0, 0, 0, 0] },
+  { from: 20750, rate: 10, fixed: [50, 0, 0, 0, 0] },
+  { from: 21000, rate: 10, fixed: [75, 25, 0, 0, 0] },
+  { from: 21250, rate: 10, fixed: [100, 50, 25, 0, 0] },
+  { from: 21750, rate: 10, fixed: [150, 100, 75, 50, 0] },
+  { from: 22250, rate: 15, fixed: [200, 150, 125, 100, 50] },
+  { from: 32750, rate: 20, fixed: [1775, 1725, 1700, 1675, 1625] },
+  { from: 60750, rate: 25, fixed: [7375, 7325, 7300, 7275, 7225] },
+  { from: 144750, rate: 32, fixed: [28375, 28325, 28300, 28275, 28225] },
+];
+
+export const DEFAULT_PAYROLL_SETTINGS: PayrollSettings = {
+  inssEmployeeRate: 3,
+  inssEmployerRate: 4,
+  irpsBrackets: DEFAULT_IRPS_BRACKETS,
+  irpsAfterInss: true,
+  serviceProviderRate: 20,
+  transferFile: DEFAULT_TRANSFER_TEMPLATE,
+};
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+// Service providers are taxed as independent workers (2ª categoria) and are not enrolled in the INSS
+const isServiceProvider = (employee: Pick<Employee, 'contractType'>) => employee.contractType === 'Prestador de Serviço';
+
+/**
+ * IRPS withheld on a monthly `taxableIncome` under the withholding table.
+ */
+export function getIrpsWithholding(taxableIncome: number, dependants: number, brackets: IrpsBracket[]): number {
+  const bracket = [...brackets].sort((a, b) => b.from - a.from).find(b => taxableIncome >= b.from);
+  if (!bracket) return 0;
+  const fixed = bracket.fixed[Math.min(Math.max(0, dependants), bracket.fixed.length - 1)] ?? 0;
+  return roundMoney(fixed + (taxableIncome - bracket.from) * bracket.rate / 100);
+}
+
+export interface StatutoryDeductions {
+  inss: number;
+  inssEmployer: number;
+  irps: number;
+}
+
+/**
+ * INSS and IRPS on an employee's gross salary (base + bonuses) for the month.
+ */
+export function computeStatutoryDeductions(
+  grossSalary: number,
+  employee: Pick<Employee, 'contractType' | 'personal'>,
+  settings: PayrollSettings
+): StatutoryDeductions {
+  if (grossSalary <= 0) return { inss: 0, inssEmployer: 0, irps: 0 };
+  if (isServiceProvider(employee)) {
+    return { inss: 0, inssEmployer: 0, irps: roundMoney(grossSalary * settings.serviceProviderRate / 100) };
+  }
+  const inss = roundMoney(grossSalary * settings.inssEmployeeRate / 100);
+  const taxableIncome = settings.irpsAfterInss ? grossSalary - inss : grossSalary;
+  return {
+    inss,
+    inssEmployer: roundMoney(grossSalary * settings.inssEmployerRate / 100),
+    irps: getIrpsWithholding(taxableIncome, employee.personal.dependants ?? 0, settings.irpsBrackets),
+  };
+}
+
+// --- Declarações Mensais ---
+
+const grossOf = (entry: PayrollEntry) => roundMoney(entry.baseSalary + entry.bonuses);
+
+export interface InssDeclarationLine {
+  employeeId: string;
+  name: string;
+  inssNumber?: string;
+  grossSalary: number;
+  employee: number;
+  employer: number;
+}
+
+/** Folha de remunerações for the INSS: contributions of the month, by worker. */
+export interface InssDeclaration {
+  monthReference: string;
+  lines: InssDeclarationLine[];
+  totals: { grossSalary: number; employee: number; employer: number; total: number };
+  missingNumbers: string[]; // Workers without a beneficiary number
+}
+
+/**
+ * INSS declaration of a payroll run (its entries). Service providers contribute nothing and are left out.
+ */
+export function buildInssDeclaration(monthReference: string, entries: PayrollEntry[], employees: Employee[]): InssDeclaration {
+  const byId = new Map(employees.map(e => [e.id, e] as [string, Employee]));
+  const lines = entries
+    .filter(entry => entry.inss > 0 || entry.inssEmployer > 0)
+    .map(entry => ({
+      employeeId: entry.employeeId,
+      name: entry.employeeName,
+      inssNumber: byId.get(entry.employeeId)?.personal.inssNumber || undefined,
+      grossSalary: grossOf(entry),
+      employee: entry.inss,
+      employer: entry.inssEmployer,
+    }));
+  const sum = (field: 'grossSalary' | 'employee' | 'employer') => roundMoney(lines.reduce((acc, l) => acc + l[field], 0));
+  return {
+    monthReference,
+    lines,
+    totals: { grossSalary: sum('grossSalary'), employee: sum('employee'), employer: sum('employer'), total: roundMoney(sum('employee') + sum('employer')) },
+    missingNumbers: lines.filter(l => !l.inssNumber).map(l => l.name),
+  };
+}
+
+// 'A': employment income (1ª categoria); 'B': service providers (2ª categoria)
+export type IrpsCategory = 'A' | 'B';
+
+export const IRPS_CATEGORY_LABELS: Record<IrpsCategory, string> = {
+  A: '1ª Categoria – Trabalho dependente',
+  B: '2ª Categoria – Trabalho independente',
+};
+
+export interface IrpsDeclarationLine {
+  employeeId: string;
+  name: string;
+  nuit: string;
+  category: IrpsCategory;
+  dependants: number;
+  grossSalary: number;
+  irps: number;
+}
+
+/** IRPS withheld at source in the month, to be declared and paid to the tax office. */
+export interface IrpsDeclaration {
+  monthReference: string;
+  lines: IrpsDeclarationLine[];
+  totals: Record<IrpsCategory, { count: number; grossSalary: number; irps: number }>;
+  totalWithheld: number;
+  missingNuit: string[]; // Workers without a NUIT: the withholding cannot be attributed to them
+}
+
+/**
+ * IRPS declaration of a payroll run, with every worker paid in the month (including those below the first bracket).
+ */
+export function buildIrpsDeclaration(monthReference: string, entries: PayrollEntry[], employees: Employee[]): IrpsDeclaration {
+  const byId = new Map(employees.map(e => [e.id, e] as [string, Employee]));
+  const lines = entries.map(entry => {
+    const employee = byId.get(entry.employeeId);
+    return {
+      employeeId: entry.employeeId,
+      name: entry.employeeName,
+      nuit: employee?.personal.nuit ?? '',
+      category: (employee && isServiceProvider(employee) ? 'B' : 'A') as IrpsCategory,
+      dependants: employee?.personal.dependants ?? 0,
+      grossSalary: grossOf(entry),
+      irps: entry.irps,
+    };
+  });
+  const totalsOf = (category: IrpsCategory) => {
+    const members = lines.filter(l => l.category === category);
+    return {
+      count: members.length,
+      grossSalary: roundMoney(members.reduce((acc, l) => acc + l.grossSalary, 0)),
+      irps: roundMoney(members.reduce((acc, l) => acc + l.irps, 0)),
+    };
+  };
+  const totals = { A: totalsOf('A'), B: totalsOf('B') };
+  return {
+    monthReference,
+    lines,
+    totals,
+    totalWithheld: roundMoney(totals.A.irps + totals.B.irps),
+    missingNuit: lines.filter(l => !/^\d{9}$/.test(l.nuit.trim())).map(l => l.name),
+  };
+}
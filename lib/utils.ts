@@ -25,6 +25,70 @@ export function formatCurrency(value: number): string {
   return `${formatted} MT`;
 }
 
+// --- Valores por Extenso ---
+
+const UNITS = ['zero', 'um', 'dois', 'três', 'quatro', 'cinco', 'seis', 'sete', 'oito', 'nove',
+  'dez', 'onze', 'doze', 'treze', 'catorze', 'quinze', 'dezasseis', 'dezassete', 'dezoito', 'dezanove'];
+const TENS = ['', '', 'vinte', 'trinta', 'quarenta', 'cinquenta', 'sessenta', 'setenta', 'oitenta', 'noventa'];
+const HUNDREDS = ['', 'cento', 'duzentos', 'trezentos', 'quatrocentos', 'quinhentos', 'seiscentos', 'setecentos', 'oitocentos', 'novecentos'];
+
+// 1-999
+const hundredsInWords = (n: number): string => {
+  if (n === 100) return 'cem';
+  const words: string[] = [];
+  if (n >= 100) words.push(HUNDREDS[Math.floor(n / 100)]);
+  const rest = n % 100;
+  if (rest >= 20) words.push(TENS[Math.floor(rest / 10)] + (rest % 10 ? ` e ${UNITS[rest % 10]}` : ''));
+  else if (rest > 0) words.push(UNITS[rest]);
+  return words.join(' e ');
+};
+
+/**
+ * Whole number in Portuguese words, as written on receipts and cheques in Mozambique.
+ * @example numberToWords(1250) // "mil duzentos e cinquenta"
+ * @example numberToWords(2000000) // "dois milhões"
+ */
+export function numberToWords(value: number): string {
+  const n = Math.floor(Math.abs(value));
+  if (n === 0) return UNITS[0];
+
+  const millions = Math.floor(n / 1_000_000);
+  const thousands = Math.floor(n / 1000) % 1000;
+  const units = n % 1000;
+  const groups: { words: string; value: number }[] = [];
+  if (millions) groups.push({ words: millions === 1 ? 'um milhão' : `${numberToWords(millions)} milhões`, value: millions });
+  if (thousands) groups.push({ words: thousands === 1 ? 'mil' : `${hundredsInWords(thousands)} mil`, value: thousands });
+  if (units) groups.push({ words: hundredsInWords(units), value: units });
+
+  // "e" joins the last group when it is below a hundred or a round hundred: "mil e cem", "mil duzentos e cinco"
+  return groups.reduce((text, group, i) => {
+    if (i === 0) return group.words;
+    const joiner = i === groups.length - 1 && (group.value < 100 || group.value % 100 === 0) ? ' e ' : ' ';
+    return text + joiner + group.words;
+  }, '');
+}
+
+/**
+ * Amount in Meticais written out in full, capitalised.
+ * @example amountInWords(5000) // "Cinco mil meticais"
+ * @example amountInWords(1250.5) // "Mil duzentos e cinquenta meticais e cinquenta centavos"
+ */
+export function amountInWords(value: number): string {
+  const cents = Math.round(Math.abs(value) * 100);
+  const meticais = Math.floor(cents / 100);
+  const centavos = cents % 100;
+
+  const parts: string[] = [];
+  if (meticais > 0 || centavos === 0) {
+    // "um milhão de meticais", but "um milhão e cem meticais"
+    const of = meticais >= 1_000_000 && meticais % 1_000_000 === 0 ? ' de' : '';
+    parts.push(`${numberToWords(meticais)}${of} ${meticais === 1 ? 'metical' : 'meticais'}`);
+  }
+  if (centavos > 0) parts.push(`${numberToWords(centavos)} ${centavos === 1 ? 'centavo' : 'centavos'}`);
+  const text = parts.join(' e ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
 /**
  * Standard date formatter for Mozambique locale.
  * @param date Date object or ISO string
@@ -39,6 +103,21 @@ export function formatDate(date: Date | string): string {
   }).format(d);
 }
 
+/**
+ * Local calendar date as "yyyy-MM-dd" (the format stored in records and used by date inputs).
+ */
+export function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Hex SHA-256 digest of a string (backup checksums, receipt hash chain).
+ */
+export async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
 // --- Smart Financial Logic ---
 
 export const ACADEMIC_MONTHS = [
@@ -46,35 +125,70 @@ export const ACADEMIC_MONTHS = [
   'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro'
 ];
 
+export const CALENDAR_MONTHS = ['janeiro', ...ACADEMIC_MONTHS];
+
 /**
- * Calculates the current financial status of a student.
- * Rule: 
- * - Jan: Always 'paid' (Vacation).
- * - 1st to 10th: 'pending' (if not paid).
- * - 11th+: 'late' (if not paid).
- * - If month in paidMonths: 'paid'.
+ * Due date of a calendar month (0 = January). A due day past the end of the month falls on its last day.
  */
-export function getStudentFinancialStatus(paidMonths: string[]): 'paid' | 'pending' | 'late' {
-  const now = new Date();
-  const currentMonthIndex = now.getMonth(); // 0 = Jan, 1 = Feb...
-  const currentDay = now.getDate();
+export function getMonthDueDate(year: number, monthIndex: number, dueDay: number | string): Date {
+  const lastDay = new Date(year, monthIndex + 1, 0).getDate();
+  return new Date(year, monthIndex, Math.min(Number(dueDay) || 1, lastDay));
+}
 
-  // 1. January (0) is vacation/enrollment period, usually considered "Up to date" or handled separately.
-  if (currentMonthIndex === 0) return 'paid';
+export type FinancialStatus = 'paid' | 'pending' | 'late';
 
-  // 2. Determine current academic month name (Feb is index 1, but index 0 in our ACADEMIC_MONTHS array)
-  // ACADEMIC_MONTHS[0] is 'fevereiro' which corresponds to getMonth() == 1
-  const academicMonthName = ACADEMIC_MONTHS[currentMonthIndex - 1];
+export interface FinancialStatusOptions {
+  dueDay: number | string;
+  graceDays?: number;         // Days after the due date before an unpaid month is late
+  vacationMonths?: string[];  // Months that are not billed (default: janeiro)
+  referenceDate?: Date;       // "Today" (default: now)
+  monthlyAmount?: number;     // Tuition per month, for amountOwed
+  billedFrom?: string;        // yyyy-MM-dd; months before it are not billed (enrolment during the year)
+}
 
-  // 3. Check if current month is paid
-  if (paidMonths && paidMonths.includes(academicMonthName)) {
-    return 'paid';
-  }
+export interface StudentFinancialStatus {
+  status: FinancialStatus;
+  daysOverdue: number;        // Since the due date of the oldest late month
+  amountOwed: number;         // Unpaid months up to the reference month, without late fees
+  unpaidMonths: string[];
+  lateMonths: string[];
+}
 
-  // 4. If not paid, check the date
-  if (currentDay <= 10) {
-    return 'pending'; // Before due date
-  } else {
-    return 'late'; // After due date
-  }
+/**
+ * Financial status of a student on the reference date, over the billed months of its year up to the current one.
+ * Rule:
+ * - 'late': a month is unpaid after its due date plus the grace period.
+ * - 'pending': only months still within their due date (or grace period) are unpaid.
+ * - 'paid': every billed month so far is in paidMonths (always the case during vacation months).
+ */
+export function getStudentFinancialStatus(paidMonths: string[], options: FinancialStatusOptions): StudentFinancialStatus {
+  const { dueDay, graceDays = 0, vacationMonths = ['janeiro'], referenceDate = new Date(), monthlyAmount = 0, billedFrom } = options;
+  const year = referenceDate.getFullYear();
+  const today = new Date(year, referenceDate.getMonth(), referenceDate.getDate());
+  const unpaidMonths: string[] = [];
+  const lateMonths: string[] = [];
+  let daysOverdue = 0;
+
+  CALENDAR_MONTHS.slice(0, today.getMonth() + 1).forEach((month, monthIndex) => {
+    const monthKey = `${year}-${String(monthIndex + 1).padStart(2, '0')}`;
+    if (vacationMonths.includes(month) || (billedFrom && monthKey < billedFrom.slice(0, 7))) return;
+    if (paidMonths?.includes(month)) return;
+    unpaidMonths.push(month);
+
+    const dueDate = getMonthDueDate(year, monthIndex, dueDay);
+    const deadline = new Date(dueDate);
+    deadline.setDate(deadline.getDate() + graceDays);
+    if (today > deadline) {
+      lateMonths.push(month);
+      daysOverdue = Math.max(daysOverdue, Math.round((today.getTime() - dueDate.getTime()) / 86_400_000));
+    }
+  });
+
+  return {
+    status: lateMonths.length > 0 ? 'late' : unpaidMonths.length > 0 ? 'pending' : 'paid',
+    daysOverdue,
+    amountOwed: unpaidMonths.length * monthlyAmount,
+    unpaidMonths,
+    lateMonths,
+  };
 }
@@ -1 +1,322 @@
-��'i�^QB{^�Ȩ��+�x����$D1]
\ No newline at end of file
+-- Seiva da Nação - Supabase schema
+-- Run in the Supabase SQL editor; safe to re-run after upgrades. Column names are the snake_case form of the
+-- fields in types.ts; nested objects are stored as jsonb.
+-- Every table carries `version` / `updated_at`, which the offline sync (lib/sync.ts)
+-- compares to detect concurrent edits from different PCs.
+
+-- Alunos
+create table if not exists public.students (
+  id text primary key,
+  name text not null,
+  email text,
+  avatar text,
+  enrollment_id text not null,
+  grade text not null,
+  balance numeric(12, 2) not null default 0,
+  financial_status text not null default 'pending' check (financial_status in ('paid', 'late', 'pending')),
+  paid_months text[] not null default '{}',
+  status text not null default 'active' check (status in ('active', 'suspended', 'transferred')),
+  personal jsonb not null default '{}'::jsonb,
+  academic jsonb not null default '{}'::jsonb,
+  guardians jsonb not null default '{}'::jsonb,
+  health jsonb not null default '{}'::jsonb,
+  version integer not null default 1,
+  updated_at timestamptz not null default now(),
+  created_at timestamptz not null default now()
+);
+
+alter table public.students add column if not exists status_history jsonb not null default '[]'::jsonb;
+
+-- Transações financeiras
+create table if not exists public.transactions (
+  id text primary key,
+  date date not null,
+  amount numeric(12, 2) not null check (amount >= 0),
+  type text not null check (type in ('income', 'expense')),
+  category text not null,
+  description text not null,
+  method text not null,
+  status text not null default 'completed' check (status in ('completed', 'pending', 'cancelled')),
+  attachment text,
+  student_id text references public.students (id) on delete set null,
+  paid_months text[],
+  version integer not null default 1,
+  updated_at timestamptz not null default now(),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists transactions_student_id_idx on public.transactions (student_id);
+create index if not exists transactions_date_idx on public.transactions (date);
+
+alter table public.transactions add column if not exists payer_name text;
+alter table public.transactions add column if not exists cancellation_reason text;
+alter table public.transactions add column if not exists cancelled_at timestamptz;
+alter table public.transactions add column if not exists charge_ids text[];
+alter table public.transactions add column if not exists allocations jsonb; -- [{ "chargeId": "...", "amount": 0 }]
+alter table public.transactions add column if not exists reference text;
+alter table public.transactions add column if not exists fee numeric(12, 2);
+alter table public.transactions add column if not exists receipt_number text;
+
+-- Payment method codes (see lib/payments.ts); rows saved by older releases hold the labels
+update public.transactions set method = case method
+  when 'M-Pesa' then 'mpesa'
+  when 'E-Mola' then 'emola'
+  when 'Transferência Bancária' then 'bank_transfer'
+  when 'Bank Transfer' then 'bank_transfer'
+  when 'Depósito Bancário' then 'bank_deposit'
+  when 'POS' then 'pos'
+  when 'Numerário' then 'cash'
+  when 'Cash' then 'cash'
+  else method
+end;
+-- Schools add their own methods (Configurações > Financeiro), so only the form of the code is checked
+alter table public.transactions drop constraint if exists transactions_method_check;
+alter table public.transactions add constraint transactions_method_check
+  check (method ~ '^[a-z][a-z0-9_]*$');
+
+-- Agenda
+create table if not exists public.events (
+  id text primary key,
+  title text not null,
+  description text,
+  start timestamptz not null,
+  "end" timestamptz not null,
+  category text not null check (category in ('academic', 'holiday', 'administrative', 'event')),
+  location text,
+  version integer not null default 1,
+  updated_at timestamptz not null default now(),
+  created_at timestamptz not null default now()
+);
+
+-- Recursos Humanos
+create table if not exists public.employees (
+  id text primary key,
+  name text not null,
+  role text not null,
+  department text not null,
+  salary jsonb not null,
+  email text,
+  phone text,
+  avatar text,
+  contract_type text not null,
+  admission_date date,
+  status text not null default 'active' check (status in ('active', 'vacation', 'sick_leave', 'terminated')),
+  personal jsonb not null default '{}'::jsonb,
+  bank jsonb not null default '{}'::jsonb,
+  version integer not null default 1,
+  updated_at timestamptz not null default now(),
+  created_at timestamptz not null default now()
+);
+
+-- Turmas (id = "<ano>-<classe>-<letra>-<turno>", see lib/classes.ts)
+create table if not exists public.classes (
+  id text primary key,
+  year text not null,
+  grade text not null,
+  letter text not null,
+  shift text not null check (shift in ('manha', 'tarde')),
+  capacity integer not null check (capacity > 0),
+  room text,
+  teacher_id text references public.employees (id) on delete set null,
+  version integer not null default 1,
+  updated_at timestamptz not null default now(),
+  created_at timestamptz not null default now()
+);
+
+-- Notas por aluno, disciplina e trimestre (id = "<ano>-<aluno>-<trimestre>-<disciplina>", see lib/grading.ts)
+create table if not exists public.marks (
+  id text primary key,
+  student_id text not null references public.students (id) on delete cascade,
+  year text not null,
+  term text not null check (term in ('1', '2', '3')),
+  subject text not null,
+  value numeric not null check (value >= 0),
+  system text not null check (system in ('0-20', '0-100', 'A-F')),
+  version integer not null default 1,
+  updated_at timestamptz not null default now(),
+  created_at timestamptz not null default now()
+);
+create index if not exists marks_student_id_idx on public.marks (student_id);
+
+-- Livro de presenças: one register per turma and day (id = "<turma>-<data>", see lib/attendance.ts)
+create table if not exists public.attendance (
+  id text primary key,
+  class_id text not null references public.classes (id) on delete cascade,
+  date date not null,
+  entries jsonb not null default '{}'::jsonb, -- { "<student id>": "present" | "absent" | "late" | "excused" }
+  version integer not null default 1,
+  updated_at timestamptz not null default now(),
+  created_at timestamptz not null default now()
+);
+
+-- Propinas: one charge per student and academic month (id = "<ano>-<aluno>-<mês>", see lib/billing.ts)
+create table if not exists public.charges (
+  id text primary key,
+  student_id text not null references public.students (id) on delete cascade,
+  year text not null,
+  month text not null,
+  amount numeric(12, 2) not null check (amount >= 0),
+  due_date date not null,
+  status text not null default 'open' check (status in ('open', 'paid')),
+  transaction_id text references public.transactions (id) on delete set null,
+  paid_at date,
+  late_fee numeric(12, 2),
+  version integer not null default 1,
+  updated_at timestamptz not null default now(),
+  created_at timestamptz not null default now()
+);
+create index if not exists charges_student_id_idx on public.charges (student_id);
+
+alter table public.charges add column if not exists discount numeric(12, 2);
+alter table public.charges add column if not exists paid_amount numeric(12, 2);
+alter table public.charges add column if not exists plan_id text;
+alter table public.charges drop constraint if exists charges_status_check;
+alter table public.charges add constraint charges_status_check check (status in ('open', 'partial', 'paid'));
+
+-- Descontos, bolsas e isenções (rules without student_id apply to every younger sibling, see lib/discounts.ts)
+create table if not exists public.discounts (
+  id text primary key,
+  kind text not null check (kind in ('percentage', 'fixed', 'exemption', 'sibling')),
+  student_id text references public.students (id) on delete cascade,
+  value numeric(12, 2) not null default 0 check (value >= 0),
+  description text not null default '',
+  valid_from date not null,
+  valid_to date,
+  version integer not null default 1,
+  updated_at timestamptz not null default now(),
+  created_at timestamptz not null default now()
+);
+create index if not exists discounts_student_id_idx on public.discounts (student_id);
+
+-- Acordos de pagamento (prestações) for overdue tuition, see lib/billing.ts
+create table if not exists public.payment_plans (
+  id text primary key,
+  student_id text not null references public.students (id) on delete cascade,
+  charge_ids text[] not null default '{}',
+  total numeric(12, 2) not null check (total >= 0),
+  paid_before numeric(12, 2) not null default 0,
+  instalments jsonb not null default '[]'::jsonb, -- [{ "dueDate": "yyyy-MM-dd", "amount": 0 }]
+  status text not null default 'active' check (status in ('active', 'cancelled')),
+  agreed_at date not null,
+  notes text,
+  version integer not null default 1,
+  updated_at timestamptz not null default now(),
+  created_at timestamptz not null default now()
+);
+create index if not exists payment_plans_student_id_idx on public.payment_plans (student_id);
+
+-- Extratos M-Pesa / e-Mola / banco: imported credit lines awaiting reconciliation, see lib/reconciliation.ts
+create table if not exists public.statement_lines (
+  id text primary key,
+  source text not null check (source in ('mpesa', 'emola', 'bank')),
+  date date not null,
+  amount numeric(12, 2) not null check (amount > 0),
+  reference text not null default '',
+  phone text,
+  payer_name text,
+  description text not null default '',
+  file_name text not null,
+  imported_at timestamptz not null default now(),
+  status text not null default 'pending' check (status in ('pending', 'reconciled', 'ignored')),
+  transaction_id text references public.transactions (id) on delete set null,
+  version integer not null default 1,
+  updated_at timestamptz not null default now(),
+  created_at timestamptz not null default now()
+);
+create index if not exists statement_lines_status_idx on public.statement_lines (status);
+
+-- Registo de recibos: sequential numbers per fiscal year in a hash chain, see lib/receipts.ts.
+-- The app inserts each receipt with the next sequence of its year; unique (fiscal_year, sequence) refuses the
+-- insert when another PC took that number first, and the receipt is numbered again. The id is not the number.
+create table if not exists public.receipts (
+  id text primary key,
+  number text not null unique,
+  fiscal_year text not null,
+  sequence integer not null check (sequence > 0),
+  transaction_id text not null references public.transactions (id),
+  issued_at timestamptz not null default now(),
+  date date not null,
+  amount numeric(12, 2) not null check (amount >= 0),
+  payer_name text not null default '',
+  description text not null default '',
+  method text not null,
+  student_id text references public.students (id) on delete set null,
+  previous_hash text not null,
+  hash text not null,
+  status text not null default 'issued' check (status in ('issued', 'void')),
+  void_reason text,
+  voided_at timestamptz,
+  version integer not null default 1,
+  updated_at timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  unique (fiscal_year, sequence)
+);
+create index if not exists receipts_transaction_id_idx on public.receipts (transaction_id);
+
+-- Folha de salário: one row per employee and month (id = "<yyyy-MM>-<employee id>"), see lib/payroll.ts
+create table if not exists public.payroll (
+  id text primary key,
+  employee_id text not null references public.employees (id),
+  employee_name text not null,
+  employee_role text not null default '',
+  month_reference text not null,
+  base_salary numeric(12, 2) not null check (base_salary >= 0),
+  bonuses numeric(12, 2) not null default 0 check (bonuses >= 0),
+  deductions numeric(12, 2) not null default 0 check (deductions >= 0),
+  net_salary numeric(12, 2) not null,
+  notes text,
+  status text not null default 'draft' check (status in ('draft', 'processing', 'paid')),
+  payment_date date,
+  transaction_id text references public.transactions (id) on delete set null,
+  version integer not null default 1,
+  updated_at timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  unique (month_reference, employee_id)
+);
+-- INSS and IRPS withheld on base + bonuses, see lib/taxes.ts
+alter table public.payroll add column if not exists inss numeric(12, 2) not null default 0;
+alter table public.payroll add column if not exists inss_employer numeric(12, 2) not null default 0;
+alter table public.payroll add column if not exists irps numeric(12, 2) not null default 0;
+
+-- Access: the app authenticates with the anon key, so the secretariat PCs share
+-- full read/write access. Tighten these policies once user accounts exist.
+alter table public.students enable row level security;
+alter table public.transactions enable row level security;
+alter table public.events enable row level security;
+alter table public.employees enable row level security;
+alter table public.classes enable row level security;
+alter table public.marks enable row level security;
+alter table public.attendance enable row level security;
+alter table public.charges enable row level security;
+alter table public.discounts enable row level security;
+alter table public.payment_plans enable row level security;
+alter table public.statement_lines enable row level security;
+alter table public.receipts enable row level security;
+alter table public.payroll enable row level security;
+
+drop policy if exists "anon full access" on public.students;
+create policy "anon full access" on public.students for all to anon using (true) with check (true);
+drop policy if exists "anon full access" on public.transactions;
+create policy "anon full access" on public.transactions for all to anon using (true) with check (true);
+drop policy if exists "anon full access" on public.events;
+create policy "anon full access" on public.events for all to anon using (true) with check (true);
+drop policy if exists "anon full access" on public.employees;
+create policy "anon full access" on public.employees for all to anon using (true) with check (true);
+drop policy if exists "anon full access" on public.classes;
+create policy "anon full access" on public.classes for all to anon using (true) with check (true);
+drop policy if exists "anon full access" on public.marks;
+create policy "anon full access" on public.marks for all to anon using (true) with check (true);
+drop policy if exists "anon full access" on public.attendance;
+create policy "anon full access" on public.attendance for all to anon using (true) with check (true);
+drop policy if exists "anon full access" on public.charges;
+create policy "anon full access" on public.charges for all to anon using (true) with check (true);
+drop policy if exists "anon full access" on public.discounts;
+create policy "anon full access" on public.discounts for all to anon using (true) with check (true);
+drop policy if exists "anon full access" on public.payment_plans;
+create policy "anon full access" on public.payment_plans for all to anon using (true) with check (true);
+drop policy if exists "anon full access" on public.statement_lines;
+create policy "anon full access" on public.statement_lines for all to anon using (true) with check (true);
+drop policy if exists "anon full access" on public.receipts;
+create policy "anon full access" on public.receipts for all to anon using (true) with check (true);
+drop policy if exists "anon full access" on public.payroll;
+create policy "anon full access" on public.payroll for all to anon using (true) with check (true);
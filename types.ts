@@ -9,10 +9,42 @@ export interface SchoolConfig {
 
 // --- Entity Types ---
 
+// Sync metadata stamped on every persisted record (see lib/sync.ts)
+export interface Versioned {
+  version?: number; // Incremented on every local change
+  updatedAt?: string; // ISO timestamp of the last change
+}
+
 // Derived from Constants (Manual sync required if constants move to pure JSON)
 export type GradeLevel = "1ª Classe" | "2ª Classe" | "3ª Classe" | "4ª Classe" | "5ª Classe" | "6ª Classe";
+export type ClassLetter = "A" | "B" | "C" | "D" | "E";
+export type Shift = 'manha' | 'tarde';
+
+/** Code stored on transactions: one of DEFAULT_PAYMENT_METHODS or one derived from the name of a method the school added. */
+export type PaymentMethodCode = string;
+
+/** A payment method accepted by the school (Configurações > Financeiro, see lib/payments.ts). */
+export interface PaymentMethod {
+  code: PaymentMethodCode;
+  label: string;
+  active: boolean;            // Inactive methods stay on past entries but are not offered for new ones
+  requiresReference: boolean; // Operator or bank reference must be recorded
+  feePercent: number;         // Fee charged by the operator, % of the amount...
+  feeFixed: number;           // ...plus a fixed amount per operation (MT)
+}
+
+export type StudentStatus = 'active' | 'suspended' | 'transferred';
 
-export interface Student {
+/** One entry of a student's status history (newest last). */
+export interface StudentStatusChange {
+  from: StudentStatus;
+  to: StudentStatus;
+  reason: string;
+  date: string;      // Effective date (yyyy-MM-dd)
+  changedAt: string; // When it was recorded (ISO)
+}
+
+export interface Student extends Versioned {
   id: string;
   name: string;
   email: string;
@@ -27,8 +59,9 @@ export interface Student {
   financialStatus: 'paid' | 'late' | 'pending';
   paidMonths: string[]; // e.g. ['fevereiro', 'marco']
   
-  // Status
-  status: 'active' | 'suspended' | 'transferred';
+  // Status (transferred students are archived: kept for search and history, left out of lists and KPIs)
+  status: StudentStatus;
+  statusHistory?: StudentStatusChange[];
   
   // Details
   personal: {
@@ -44,13 +77,19 @@ export interface Student {
     enrollmentDate: string;
     prevSchool: string;
     submittedDocs: string[];
+    // Turma placement (optional: records enrolled before turmas were stored lack them)
+    year?: string;
+    classLetter?: ClassLetter;
+    shift?: Shift;
   };
 
   guardians: {
-    father: { name: string; phone: string; email: string; profession: string };
-    mother: { name: string; phone: string; email: string; profession: string };
+    father: { name: string; phone: string; email: string; profession: string; biNumber?: string };
+    mother: { name: string; phone: string; email: string; profession: string; biNumber?: string };
     emergency: { name: string; relation: string; phone: string };
     financialResponsible: 'Father' | 'Mother' | 'Other';
+    financialEmail?: string; // Where invoices and statements are sent
+    financialNuit?: string;  // Printed on receipts as the payer's NUIT
   };
 
   health: {
@@ -61,24 +100,142 @@ export interface Student {
   };
 }
 
-export interface Transaction {
+export interface Transaction extends Versioned {
   id: string;
   date: string;
   amount: number;
   type: 'income' | 'expense';
   category: string;
   description: string;
-  method: 'M-Pesa' | 'E-Mola' | 'POS' | 'Bank Transfer' | 'Cash';
+  method: PaymentMethodCode;
+  reference?: string; // Operator or bank reference of the payment
+  fee?: number;       // Charged by the operator under the method's fee rule when recorded
   status: 'completed' | 'pending' | 'cancelled';
   attachment?: string;
+  payerName?: string;
   // Metadata for student updates (optional, for processing)
   studentId?: string;
   paidMonths?: string[];
+  chargeIds?: string[]; // Tuition charges paid (in full or in part) by this entry (see lib/billing.ts)
+  allocations?: ChargeAllocation[]; // How the amount is split over chargeIds; entries without it paid them in full
+  // Set when status is 'cancelled'. Cancelled entries are kept for the audit trail.
+  cancellationReason?: string;
+  cancelledAt?: string;
+  receiptNumber?: string; // Last receipt issued for the entry, e.g. "2024/000123" (see lib/receipts.ts)
+}
+
+/** Part of a payment applied to one tuition charge. */
+export interface ChargeAllocation {
+  chargeId: string;
+  amount: number;
+}
+
+/**
+ * A monthly tuition charge (propina) billed to a student.
+ */
+export interface TuitionCharge extends Versioned {
+  id: string; // Derived from year/student/month, see getChargeId in lib/billing.ts
+  studentId: string;
+  year: string;
+  month: string;   // One of ACADEMIC_MONTHS
+  amount: number;  // Tuition due: the student's cycle tuition less discounts (repriced while open)
+  discount?: number; // Deducted from the cycle tuition by discount rules
+  dueDate: string; // yyyy-MM-dd
+  status: 'open' | 'partial' | 'paid';
+  paidAmount?: number; // Sum of the payments allocated to it (see settleCharges in lib/billing.ts)
+  // Set when paid: the payment that completed it
+  transactionId?: string;
+  paidAt?: string;
+  lateFee?: number; // Fee charged because it was paid after the due date (frozen while under a payment plan)
+  planId?: string;  // Payment plan covering it; cleared to '' when the plan is cancelled
+}
+
+export interface PlanInstalment {
+  dueDate: string; // yyyy-MM-dd
+  amount: number;
+}
+
+/**
+ * Instalment agreement (acordo de pagamento) for a student's overdue tuition.
+ * Late fees of its charges stop accruing while it is active.
+ */
+export interface PaymentPlan extends Versioned {
+  id: string;
+  studentId: string;
+  chargeIds: string[];
+  total: number;      // Outstanding on the charges when agreed, late fees included
+  paidBefore: number; // Already paid on those charges when agreed
+  instalments: PlanInstalment[];
+  status: 'active' | 'cancelled'; // Completed and defaulted are derived, see getPlanProgress in lib/billing.ts
+  agreedAt: string;   // yyyy-MM-dd
+  notes?: string;
+}
+
+/**
+ * An entry of the receipt register (see lib/receipts.ts). Numbers run without gaps per fiscal year and each
+ * receipt carries the hash of the one before it, so a changed or deleted receipt breaks the chain.
+ * Receipts are never deleted: a wrong one is voided and a new number is issued.
+ */
+export interface Receipt extends Versioned {
+  id: string;           // "2024-000123", derived from the number
+  number: string;       // "2024/000123"
+  fiscalYear: string;
+  sequence: number;
+  transactionId: string;
+  issuedAt: string;     // ISO
+  // Copy of the transaction as it was receipted
+  date: string;
+  amount: number;
+  payerName: string;
+  description: string;
+  method: PaymentMethodCode;
+  studentId?: string;
+  previousHash: string;
+  hash: string;
+  status: 'issued' | 'void';
+  voidReason?: string;
+  voidedAt?: string;
+}
+
+export type StatementSource = 'mpesa' | 'emola' | 'bank';
+
+/**
+ * One credit line of an imported M-Pesa, e-Mola or bank statement (see lib/reconciliation.ts).
+ * Lines wait in the reconciliation queue until they are turned into a transaction or ignored.
+ */
+export interface StatementLine extends Versioned {
+  id: string; // Derived from the source and the operator's reference, so a statement can be imported twice
+  source: StatementSource;
+  date: string; // yyyy-MM-dd
+  amount: number;
+  reference: string; // Operator receipt / transaction id
+  phone?: string;    // Sender, last 9 digits
+  payerName?: string;
+  description: string;
+  fileName: string;
+  importedAt: string; // ISO
+  status: 'pending' | 'reconciled' | 'ignored';
+  transactionId?: string; // Set when reconciled
+}
+
+export type DiscountKind = 'percentage' | 'fixed' | 'exemption' | 'sibling';
+
+/**
+ * A discount on tuition (bolsa, sibling discount, exemption), valid between two dates.
+ */
+export interface DiscountRule extends Versioned {
+  id: string;
+  kind: DiscountKind;
+  studentId?: string;  // Unset for school-wide sibling rules, which apply to every younger sibling
+  value: number;       // % for 'percentage' and 'sibling', MT per month for 'fixed', unused for 'exemption'
+  description: string; // e.g. "Bolsa de mérito"
+  validFrom: string;   // yyyy-MM-dd
+  validTo?: string;    // yyyy-MM-dd, inclusive; open-ended when unset
 }
 
 export type Department = 'Docentes' | 'Administrativo' | 'Serviços Gerais' | 'Segurança' | 'Direção';
 
-export interface Employee {
+export interface Employee extends Versioned {
   id: string;
   name: string;
   role: string;
@@ -100,6 +257,8 @@ export interface Employee {
     biNumber: string;
     nuit: string;
     dob: string;
+    dependants?: number; // Reduce the IRPS withheld (see lib/taxes.ts)
+    inssNumber?: string; // Nº de beneficiário, listed on the INSS declaration
   };
   bank: {
     bankName: string;
@@ -110,6 +269,50 @@ export interface Employee {
 
 // --- Module Specific Types ---
 
+/**
+ * A turma: the students of one grade, letter and shift in an academic year (e.g. "3ª Classe B – Manhã").
+ */
+export interface SchoolClass extends Versioned {
+  id: string; // Derived from the key fields, see getClassId in lib/classes.ts
+  year: string;
+  grade: GradeLevel;
+  letter: ClassLetter;
+  shift: Shift;
+  capacity: number;
+  room?: string;
+  teacherId?: string; // Employee acting as director de turma
+}
+
+export type GradingSystem = '0-20' | '0-100' | 'A-F';
+export type Term = '1' | '2' | '3'; // Trimestres
+
+/**
+ * A student's mark in one subject and trimester.
+ * The value is kept on the scale in force when it was entered, so changing the grading
+ * system in the settings converts old marks instead of silently misreading them.
+ */
+export interface Mark extends Versioned {
+  id: string; // Derived from year/student/term/subject, see getMarkId in lib/grading.ts
+  studentId: string;
+  year: string;
+  term: Term;
+  subject: string; // One of ACADEMIC_SUBJECTS
+  value: number;   // 0-20, 0-100, or A-F as points (F = 0 … A = 5)
+  system: GradingSystem;
+}
+
+export type AttendanceStatus = 'present' | 'absent' | 'late' | 'excused';
+
+/**
+ * Attendance register of one turma on one day.
+ */
+export interface AttendanceRecord extends Versioned {
+  id: string; // Derived from class and date, see getAttendanceId in lib/attendance.ts
+  classId: string;
+  date: string; // yyyy-MM-dd
+  entries: Record<string, AttendanceStatus>; // By student id
+}
+
 export interface StudentAlert {
   id: string;
   name: string;
@@ -139,23 +342,60 @@ export interface KPIData {
 
 export type ViewType = 'dashboard' | 'alunos' | 'financeiro' | 'rh' | 'agenda' | 'config' | 'suporte';
 
-export interface PayrollEntry {
-  id: string;
+export type PayrollStatus = 'draft' | 'processing' | 'paid';
+
+/**
+ * One employee's line of a monthly folha de salário. The entries of a month make up the payroll run and
+ * change status together (see lib/payroll.ts).
+ */
+export interface PayrollEntry extends Versioned {
+  id: string; // Derived from month/employee, see getPayrollEntryId in lib/payroll.ts
   employeeId: string;
   employeeName: string;
   employeeRole: string;
-  monthReference: string;
+  monthReference: string; // yyyy-MM
   baseSalary: number;
   bonuses: number;
-  deductions: number;
+  deductions: number; // Other than INSS and IRPS: advances, absences...
+  // Statutory deductions on base + bonuses, see computeStatutoryDeductions in lib/taxes.ts
+  inss: number;         // Employee's contribution, withheld
+  inssEmployer: number; // Paid by the school on top of the salary
+  irps: number;         // Withheld at source
   netSalary: number;
-  status: 'paid' | 'processing' | 'pending';
-  paymentDate?: string;
+  notes?: string; // What the bonuses and deductions are for
+  status: PayrollStatus;
+  paymentDate?: string; // yyyy-MM-dd
+  transactionId?: string; // The 'Salários' expense that paid the run
+}
+
+/**
+ * A row of the monthly IRPS withholding table: from `from` MT upwards, `fixed[dependants]` plus `rate`% of the
+ * amount above `from`. The last fixed amount applies to any larger number of dependants.
+ */
+export interface IrpsBracket {
+  from: number;
+  rate: number;
+  fixed: number[];
+}
+
+export type TransferFileField = 'nib' | 'name' | 'amount' | 'reference';
+
+/**
+ * Layout of the bulk salary transfer file uploaded to the school's bank (see lib/bank-transfer.ts), one line
+ * per employee with the columns in order.
+ */
+export interface TransferFileTemplate {
+  format: 'csv' | 'fixed';
+  separator: string; // CSV only
+  header: boolean; // CSV only: first line with the column names
+  amountInCents: boolean; // 1500.50 written as 150050
+  reference: string; // Description of each transfer; "{mes}" becomes the month (yyyy-MM)
+  columns: { field: TransferFileField; width: number }[]; // Width in characters, for the fixed-width layout
 }
 
 export type EventCategory = 'academic' | 'holiday' | 'administrative' | 'event';
 
-export interface CalendarEvent {
+export interface CalendarEvent extends Versioned {
   id: string;
   title: string;
   description?: string;
@@ -173,13 +413,22 @@ export interface SchoolSettings {
     address: string;
     email: string;
     phone: string;
-    logo: string;
+    logo: string;          // Uploaded image (base64 data URL); also printed on PDFs
+    primaryColor: string;  // Hex, used for titles and table headers of PDFs
+    accentColor: string;   // Hex, used for totals
+    receiptFooter: string; // Small print at the bottom of receipts
   };
   academic: {
     currentYear: string;
-    gradingSystem: '0-20' | '0-100' | 'A-F';
-    passingGrade: number;
-    activeTerms: string[];
+    gradingSystem: GradingSystem;
+    passingGrade: number; // On the gradingSystem scale (A-F: points, C = 3)
+    activeTerms: Term[];
+    // An alert is raised when a student reaches either count within the last `windowDays`
+    attendanceAlerts: {
+      absences: number; // Unexcused absences
+      lates: number;
+      windowDays: number;
+    };
   };
   financial: {
     currency: string;
@@ -188,8 +437,19 @@ export interface SchoolSettings {
     // Updated for Primary School Cycles
     tuitionCycle1: number; // 1ª - 3ª Classe
     tuitionCycle2: number; // 4ª - 6ª Classe
+    graceDays: number; // Days after dueDay before an unpaid month counts as late
+    vacationMonths: string[]; // Months without tuition (e.g. 'janeiro')
+    paymentMethods: PaymentMethod[];
     bankInfo: string;
   };
+  payroll: {
+    inssEmployeeRate: number; // % of the gross salary withheld from the employee
+    inssEmployerRate: number; // % of the gross salary paid by the school
+    irpsBrackets: IrpsBracket[]; // Ascending by `from`; below the first one nothing is withheld
+    irpsAfterInss: boolean; // IRPS is withheld on the gross salary less the employee's INSS
+    serviceProviderRate: number; // % withheld from 'Prestador de Serviço' fees, which pay no INSS
+    transferFile: TransferFileTemplate;
+  };
   system: {
     maintenanceMode: boolean;
     emailAlerts: boolean;